@@ -10,6 +10,7 @@ import Editor from "./pages/Editor";
 import Auth from "./pages/Auth";
 import Stories from "./pages/Stories";
 import Settings from "./pages/Settings";
+import IdeaBank from "./pages/IdeaBank";
 import NotFound from "./pages/NotFound";
 import { useAuth } from "./components/AuthProvider";
 
@@ -45,6 +46,14 @@ function AppRoutes() {
           </PrivateRoute>
         }
       />
+      <Route
+        path="/ideas"
+        element={
+          <PrivateRoute>
+            <IdeaBank />
+          </PrivateRoute>
+        }
+      />
       <Route
         path="/"
         element={
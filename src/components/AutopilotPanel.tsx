@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { Loader2, Pause, Play, Rocket, Square } from "lucide-react";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { cn } from "@/lib/utils";
+import type { AutopilotOptions, AutopilotPhase, AutopilotState } from "@/lib/autopilot";
+import type { AutopilotProgress } from "@/hooks/use-autopilot";
+
+const PHASE_LABELS: Record<AutopilotPhase, string> = {
+  scene: "writing the scene",
+  transition: "adding a transition",
+  refine: "refining the narration"
+};
+
+interface AutopilotPanelProps {
+  state: AutopilotState | null;
+  progress: AutopilotProgress | null;
+  chapterCount: number;
+  // How many chapters still need writing
+  remaining: number;
+  onStart: (options: AutopilotOptions) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onStop: () => void;
+  className?: string;
+}
+
+export function AutopilotPanel({ state, progress, chapterCount, remaining, onStart, onPause, onResume, onStop, className }: AutopilotPanelProps) {
+  const [options, setOptions] = useState<AutopilotOptions>({ transitions: false, refine: false });
+
+  if (!state && remaining === 0) return null;
+
+  return (
+    <div className={cn("flex flex-wrap items-center justify-between gap-3 rounded-lg bg-muted p-3 text-sm", className)}>
+      {!state ? (
+        <>
+          <div className="flex flex-wrap items-center gap-4">
+            <span className="font-medium">
+              {remaining} chapter{remaining === 1 ? "" : "s"} left to write
+            </span>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="autopilot-transitions"
+                checked={options.transitions}
+                onCheckedChange={(transitions) => setOptions(prev => ({ ...prev, transitions }))}
+              />
+              <Label htmlFor="autopilot-transitions" className="text-sm">Add transitions</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="autopilot-refine"
+                checked={options.refine}
+                onCheckedChange={(refine) => setOptions(prev => ({ ...prev, refine }))}
+              />
+              <Label htmlFor="autopilot-refine" className="text-sm">Refine text</Label>
+            </div>
+          </div>
+          <Button size="sm" onClick={() => onStart(options)}>
+            <Rocket className="h-4 w-4 mr-2" />
+            Write All Chapters
+          </Button>
+        </>
+      ) : (
+        <>
+          <div>
+            {state.status === "running" && progress ? (
+              <p className="flex items-center gap-2 font-medium">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Autopilot: chapter {progress.chapter + 1} of {chapterCount}, {PHASE_LABELS[progress.phase]}
+              </p>
+            ) : (
+              <p className="font-medium">
+                Autopilot paused, {remaining} chapter{remaining === 1 ? "" : "s"} left
+              </p>
+            )}
+            {state.status === "paused" && state.error && (
+              <p className="text-xs text-red-600">{state.error}</p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {state.status === "running" ? (
+              <Button variant="outline" size="sm" onClick={onPause}>
+                <Pause className="h-4 w-4 mr-2" />
+                Pause
+              </Button>
+            ) : (
+              <Button size="sm" onClick={onResume}>
+                <Play className="h-4 w-4 mr-2" />
+                Resume
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={onStop}>
+              <Square className="h-4 w-4 mr-2" />
+              Stop
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/components/AuthProvider";
+import { DEFAULT_STORY_PROFILE, getStoryProfile, listStoryProfiles } from "@/lib/story-profiles";
+import { storyProfileService } from "@/services/StoryProfileService";
+import type { BatchJob } from "@/types/batch";
+import type { StoryProfile } from "@/types/story";
+
+// More than this at once would mostly wait in the queue and use up the Reddit posts quickly
+const MAX_BATCH_SIZE = 20;
+
+interface BatchGenerationDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (count: number, profileName: string, source: BatchJob["source"]) => void;
+}
+
+export function BatchGenerationDialog({ open, onClose, onSubmit }: BatchGenerationDialogProps) {
+  const { user } = useAuth();
+  const [profileName, setProfileName] = useState(DEFAULT_STORY_PROFILE);
+  const [profiles, setProfiles] = useState<StoryProfile[]>(listStoryProfiles);
+  const [source, setSource] = useState<BatchJob["source"]>(getStoryProfile(DEFAULT_STORY_PROFILE).use_reddit ? "reddit" : "fine-tune");
+  const [count, setCount] = useState(5);
+
+  useEffect(() => {
+    if (!open || !user) return;
+    storyProfileService.getProfiles(user.id)
+      .then(() => setProfiles(listStoryProfiles()))
+      .catch(error => console.warn("Failed to load your story profiles:", (error as Error).message));
+  }, [open, user]);
+
+  const handleProfileChange = (name: string) => {
+    setProfileName(name);
+    setSource(getStoryProfile(name).use_reddit ? "reddit" : "fine-tune");
+  };
+
+  const validCount = count >= 1 && count <= MAX_BATCH_SIZE;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>Batch Generate Stories</DialogTitle>
+          <DialogDescription>
+            Queue several stories at once. Each one gets an idea, title, outline and characters without asking you to approve them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="space-y-2">
+            <Label>Genre Profile</Label>
+            <Select value={profileName} onValueChange={handleProfileChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map(item => (
+                  <SelectItem key={item.name} value={item.name}>{item.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Idea Source</Label>
+            <Select value={source} onValueChange={(value) => setSource(value as BatchJob["source"])}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="reddit">Reddit Inspiration</SelectItem>
+                <SelectItem value="fine-tune">AI Generation</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="batch-count">Number of Stories</Label>
+            <Input
+              id="batch-count"
+              type="number"
+              min={1}
+              max={MAX_BATCH_SIZE}
+              value={count}
+              onChange={(e) => setCount(parseInt(e.target.value, 10) || 0)}
+            />
+            {!validCount && (
+              <p className="text-xs text-red-500">Queue between 1 and {MAX_BATCH_SIZE} stories.</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => onSubmit(count, profileName, source)} disabled={!validCount}>
+            Queue {validCount ? count : ""} {count === 1 ? "Story" : "Stories"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
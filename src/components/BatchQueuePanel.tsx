@@ -0,0 +1,95 @@
+import { CheckCircle2, Clock, ExternalLink, Loader2, RotateCcw, X, XCircle } from "lucide-react";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Progress } from "./ui/progress";
+import { countBatchJobs } from "@/lib/batch-queue";
+import { BATCH_JOB_STEPS, type BatchJob, type BatchJobStep } from "@/types/batch";
+
+const STEP_LABELS: Record<BatchJobStep, string> = {
+  idea: "Generating story idea",
+  title: "Creating title",
+  outline: "Creating plot outline",
+  characters: "Generating characters",
+  save: "Saving story"
+};
+
+interface BatchQueuePanelProps {
+  jobs: BatchJob[];
+  onCancel: (jobId: string) => void;
+  onRetry: (jobId: string) => void;
+  onOpenStory: (storyId: string) => void;
+  onClearFinished: () => void;
+}
+
+// Status of each story in the batch generation queue
+export function BatchQueuePanel({ jobs, onCancel, onRetry, onOpenStory, onClearFinished }: BatchQueuePanelProps) {
+  if (jobs.length === 0) return null;
+
+  const counts = countBatchJobs(jobs);
+  const finished = counts.done + counts.failed + counts.cancelled;
+
+  return (
+    <div className="bg-muted rounded-lg p-4 shadow-sm space-y-3 mb-6">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <p className="font-medium">Batch Generation</p>
+          <p className="text-xs text-muted-foreground">
+            {counts.done} of {jobs.length} done
+            {counts.running > 0 && ` • ${counts.running} running`}
+            {counts.queued > 0 && ` • ${counts.queued} queued`}
+            {counts.failed > 0 && ` • ${counts.failed} failed`}
+          </p>
+        </div>
+        {finished > 0 && (
+          <Button variant="ghost" size="sm" onClick={onClearFinished}>
+            Clear Finished
+          </Button>
+        )}
+      </div>
+      <Progress value={(counts.done / jobs.length) * 100} className="h-2" />
+
+      <div className="divide-y divide-border/50">
+        {jobs.map((job, index) => (
+          <div key={job.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+            <div className="flex items-center gap-2 min-w-0">
+              {job.status === "running" && <Loader2 className="h-4 w-4 shrink-0 animate-spin text-primary" />}
+              {job.status === "queued" && <Clock className="h-4 w-4 shrink-0 text-muted-foreground" />}
+              {job.status === "done" && <CheckCircle2 className="h-4 w-4 shrink-0 text-green-500" />}
+              {(job.status === "failed" || job.status === "cancelled") && <XCircle className="h-4 w-4 shrink-0 text-red-500" />}
+              <div className="min-w-0">
+                <p className="truncate">{job.title || `Story ${index + 1}`}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {job.status === "done"
+                    ? "Story saved"
+                    : job.status === "cancelled"
+                      ? `Cancelled at step ${BATCH_JOB_STEPS.indexOf(job.step) + 1} of ${BATCH_JOB_STEPS.length}`
+                      : job.status === "failed"
+                        ? `${STEP_LABELS[job.step]} failed: ${job.error}`
+                        : `${STEP_LABELS[job.step]}${job.status === "queued" ? " (queued)" : "..."}${job.attempts > 0 ? ` • retry ${job.attempts}` : ""}`}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <Badge variant="outline" className="text-xs">{job.profile}</Badge>
+              {job.status === "done" && job.story_id && (
+                <Button variant="ghost" size="sm" onClick={() => onOpenStory(job.story_id!)} aria-label="Open story">
+                  <ExternalLink className="h-4 w-4" />
+                </Button>
+              )}
+              {(job.status === "failed" || job.status === "cancelled") && (
+                <Button variant="ghost" size="sm" onClick={() => onRetry(job.id)} aria-label="Retry">
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+              )}
+              {(job.status === "queued" || job.status === "running") && (
+                <Button variant="ghost" size="sm" onClick={() => onCancel(job.id)} aria-label="Cancel">
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,132 +1,285 @@
+import { useEffect, useState } from "react";
 import {
   Dialog,
   DialogContent,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
 import { ScrollArea } from "./ui/scroll-area";
-import { Badge } from "./ui/badge";
-import { User, Calendar, Tag, MessageSquareQuote } from "lucide-react";
-
-interface Character {
-  name: string;
-  description: string;
-}
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import { Label } from "./ui/label";
+import { User, Calendar, Tag, MessageSquareQuote, BookOpen, Pencil, Plus, Trash2, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { createCharacter } from "@/lib/character-parser";
+import type { Character } from "@/types/character";
 
 interface CharacterModalProps {
   isOpen: boolean;
   onClose: () => void;
   characters: Character[];
+  onSave?: (characters: Character[]) => Promise<void>;
 }
 
+// Long-form fields shown as sections in the read-only view
+const CHARACTER_SECTIONS: Array<{ key: 'personality' | 'appearance' | 'relationships' | 'arc'; label: string }> = [
+  { key: 'personality', label: 'Personality' },
+  { key: 'appearance', label: 'Appearance' },
+  { key: 'relationships', label: 'Relationships' },
+  { key: 'arc', label: 'Arc' },
+];
+
 export function CharacterModal({
   isOpen,
   onClose,
   characters,
+  onSave,
 }: CharacterModalProps) {
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [draft, setDraft] = useState<Character[]>([]);
+
+  // Always open in the read-only view
+  useEffect(() => {
+    if (isOpen) {
+      setIsEditing(false);
+    }
+  }, [isOpen]);
+
+  const startEditing = () => {
+    setDraft(characters.map(character => ({ ...character, aliases: [...character.aliases] })));
+    setIsEditing(true);
+  };
+
+  const updateCharacter = (index: number, changes: Partial<Character>) => {
+    setDraft(prev => prev.map((character, i) => i === index ? { ...character, ...changes } : character));
+  };
+
+  const handleSave = async () => {
+    if (!onSave) return;
+
+    if (draft.some(character => !character.name.trim())) {
+      toast({
+        title: "Missing name",
+        description: "Every character needs a name.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(draft.map(character => ({
+        ...character,
+        name: character.name.trim(),
+        // The aliases field is edited as one comma separated string
+        aliases: character.aliases.join(',').split(',').map(alias => alias.trim()).filter(Boolean),
+      })));
+      setIsEditing(false);
+    } catch (error) {
+      toast({
+        title: "Error saving characters",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSaving && onClose()}>
       <DialogContent className="sm:max-w-[750px] max-h-[90vh]">
-        <DialogHeader>
+        <DialogHeader className="flex flex-row items-center justify-between space-y-0 pr-8">
           <DialogTitle className="text-xl font-semibold">Characters</DialogTitle>
+          {onSave && !isEditing && (
+            <Button variant="outline" size="sm" onClick={startEditing}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+          )}
         </DialogHeader>
         <ScrollArea className="h-[70vh] pr-4 -mr-4">
-          <div className="space-y-4 pr-2">
-            {characters.map((character, index) => {
-              // Extract metadata from description
-              const lines = character.description.split('\n');
-              const metadata: Record<string, string> = {};
-              let currentSection = '';
-              const sections: Record<string, string[]> = {};
-              
-              // Process the description to extract metadata and sections
-              lines.forEach(line => {
-                const trimmedLine = line.trim();
+          {isEditing ? (
+            <div className="space-y-4 pr-2">
+              {draft.map((character, index) => (
+                <div key={index} className="p-6 rounded-lg bg-muted space-y-3">
+                  <div className="flex items-end gap-2">
+                    <div className="flex-1 space-y-1">
+                      <Label>Name</Label>
+                      <Input
+                        value={character.name}
+                        onChange={(e) => updateCharacter(index, { name: e.target.value })}
+                      />
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-[#ea384c] dark:text-red-400"
+                      onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))}
+                      aria-label={`Delete ${character.name || 'character'}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label>Aliases (comma separated)</Label>
+                      <Input
+                        value={character.aliases.join(', ')}
+                        onChange={(e) => updateCharacter(index, { aliases: [e.target.value] })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Role</Label>
+                      <Input
+                        value={character.role}
+                        onChange={(e) => updateCharacter(index, { role: e.target.value })}
+                        placeholder="protagonist, antagonist, supporting..."
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Pronouns</Label>
+                      <Input
+                        value={character.pronouns}
+                        onChange={(e) => updateCharacter(index, { pronouns: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Age</Label>
+                      <Input
+                        value={character.age}
+                        onChange={(e) => updateCharacter(index, { age: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>First Appearance (chapter)</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={character.first_appearance_chapter ?? ""}
+                        onChange={(e) => {
+                          const value = parseInt(e.target.value, 10);
+                          updateCharacter(index, { first_appearance_chapter: isNaN(value) || value < 1 ? null : value });
+                        }}
+                      />
+                    </div>
+                  </div>
+                  {CHARACTER_SECTIONS.map(({ key, label }) => (
+                    <div key={key} className="space-y-1">
+                      <Label>{label}</Label>
+                      <Textarea
+                        value={character[key]}
+                        onChange={(e) => updateCharacter(index, { [key]: e.target.value })}
+                        className="min-h-[70px] text-sm"
+                      />
+                    </div>
+                  ))}
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={() => setDraft(prev => [...prev, createCharacter('')])}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Character
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-4 pr-2">
+              {characters.length === 0 && (
+                <p className="text-sm text-muted-foreground">This story has no characters yet.</p>
+              )}
+              {characters.map((character, index) => {
+                // Generate a unique color for this character
+                const characterColor = generateCharacterColor(character.name);
                 
-                // Check for metadata (Aliases, Pronouns, Age)
-                if (trimmedLine.startsWith('Aliases:')) {
-                  metadata['aliases'] = trimmedLine.substring('Aliases:'.length).trim();
-                } else if (trimmedLine.startsWith('Pronouns:')) {
-                  metadata['pronouns'] = trimmedLine.substring('Pronouns:'.length).trim();
-                } else if (trimmedLine.startsWith('Age:')) {
-                  metadata['age'] = trimmedLine.substring('Age:'.length).trim();
-                } 
-                // Check for section headers
-                else if (trimmedLine.endsWith(':')) {
-                  currentSection = trimmedLine.substring(0, trimmedLine.length - 1).trim();
-                  sections[currentSection] = [];
-                } 
-                // Add content to current section
-                else if (currentSection && trimmedLine) {
-                  if (!sections[currentSection]) {
-                    sections[currentSection] = [];
-                  }
-                  sections[currentSection].push(trimmedLine);
-                }
-              });
-              
-              // Generate a unique color for this character
-              const characterColor = generateCharacterColor(character.name);
-              
-              return (
-                <div key={index} className="p-6 rounded-lg bg-muted">
-                  <div className="flex items-start justify-between mb-4">
-                    <div className="flex items-start gap-4">
-                      <div 
-                        className="h-10 w-10 rounded-full flex items-center justify-center text-white"
-                        style={{ backgroundColor: characterColor }}
-                      >
-                        <User className="h-5 w-5" />
-                      </div>
-                      <div className="space-y-2">
-                        <h3 className="font-semibold text-lg">{character.name}</h3>
-                        
-                        {/* Character attributes */}
-                        <div className="flex flex-wrap gap-3">
-                          {metadata.age && (
-                            <div className="flex items-center gap-1.5 text-sm text-muted-foreground">
-                              <Calendar className="h-3.5 w-3.5" />
-                              <span>{metadata.age} years</span>
-                            </div>
-                          )}
-                          {metadata.pronouns && (
-                            <div className="flex items-center gap-1.5 text-sm text-muted-foreground">
-                              <MessageSquareQuote className="h-3.5 w-3.5" />
-                              <span>{metadata.pronouns}</span>
-                            </div>
-                          )}
-                          {metadata.aliases && (
-                            <div className="flex items-center gap-1.5 text-sm text-muted-foreground">
-                              <Tag className="h-3.5 w-3.5" />
-                              <span>{metadata.aliases}</span>
-                            </div>
-                          )}
+                return (
+                  <div key={index} className="p-6 rounded-lg bg-muted">
+                    <div className="flex items-start justify-between mb-4">
+                      <div className="flex items-start gap-4">
+                        <div 
+                          className="h-10 w-10 rounded-full flex items-center justify-center text-white"
+                          style={{ backgroundColor: characterColor }}
+                        >
+                          <User className="h-5 w-5" />
+                        </div>
+                        <div className="space-y-2">
+                          <h3 className="font-semibold text-lg">
+                            {character.name}
+                            {character.role && (
+                              <span className="ml-2 text-sm font-normal text-muted-foreground">{character.role}</span>
+                            )}
+                          </h3>
+                          
+                          {/* Character attributes */}
+                          <div className="flex flex-wrap gap-3">
+                            {character.age && (
+                              <div className="flex items-center gap-1.5 text-sm text-muted-foreground">
+                                <Calendar className="h-3.5 w-3.5" />
+                                <span>{/^\d+$/.test(character.age) ? `${character.age} years` : character.age}</span>
+                              </div>
+                            )}
+                            {character.pronouns && (
+                              <div className="flex items-center gap-1.5 text-sm text-muted-foreground">
+                                <MessageSquareQuote className="h-3.5 w-3.5" />
+                                <span>{character.pronouns}</span>
+                              </div>
+                            )}
+                            {character.aliases.length > 0 && (
+                              <div className="flex items-center gap-1.5 text-sm text-muted-foreground">
+                                <Tag className="h-3.5 w-3.5" />
+                                <span>{character.aliases.join(', ')}</span>
+                              </div>
+                            )}
+                            {character.first_appearance_chapter && (
+                              <div className="flex items-center gap-1.5 text-sm text-muted-foreground">
+                                <BookOpen className="h-3.5 w-3.5" />
+                                <span>Chapter {character.first_appearance_chapter}</span>
+                              </div>
+                            )}
+                          </div>
                         </div>
                       </div>
                     </div>
-                  </div>
-                  
-                  <div className="pl-14 space-y-4 mt-5">
-                    {Object.entries(sections).map(([sectionName, sectionContent], sectionIndex) => (
-                      <div key={sectionIndex} className="border-l-2 pl-4" style={{ borderColor: `${characterColor}40` }}>
-                        <h4 className="text-sm font-medium mb-2" style={{ color: characterColor }}>
-                          {sectionName}
-                        </h4>
-                        <div className="text-sm text-muted-foreground space-y-2">
-                          {sectionContent.map((paragraph, paraIndex) => (
-                            <p key={paraIndex} className="leading-relaxed">
-                              {paragraph}
-                            </p>
-                          ))}
+                    
+                    <div className="pl-14 space-y-4 mt-5">
+                      {CHARACTER_SECTIONS.filter(({ key }) => character[key]).map(({ key, label }) => (
+                        <div key={key} className="border-l-2 pl-4" style={{ borderColor: `${characterColor}40` }}>
+                          <h4 className="text-sm font-medium mb-2" style={{ color: characterColor }}>
+                            {label}
+                          </h4>
+                          <div className="text-sm text-muted-foreground space-y-2">
+                            {character[key].split('\n').filter(Boolean).map((paragraph, paraIndex) => (
+                              <p key={paraIndex} className="leading-relaxed">
+                                {paragraph}
+                              </p>
+                            ))}
+                          </div>
                         </div>
-                      </div>
-                    ))}
+                      ))}
+                    </div>
                   </div>
-                </div>
-              );
-            })}
-          </div>
+                );
+              })}
+            </div>
+          )}
         </ScrollArea>
+        {isEditing && (
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsEditing(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Characters
+            </Button>
+          </DialogFooter>
+        )}
       </DialogContent>
     </Dialog>
   );
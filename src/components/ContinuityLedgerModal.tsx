@@ -0,0 +1,251 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { ScrollArea } from "./ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, Trash2, Wand2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { CONTINUITY_CATEGORIES, createContinuityEntry, type ContinuityEntryDraft } from "@/lib/continuity";
+import type { ContinuityCategory, ContinuityEntry, ContinuityLedger } from "@/types/continuity";
+
+interface ContinuityLedgerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  ledger: ContinuityLedger;
+  chapterCount: number;
+  // The chapter currently being extracted, if any
+  extractingChapter: number | null;
+  onExtract: (chapterNumber: number) => Promise<void>;
+  onSave: (ledger: ContinuityLedger) => Promise<void>;
+}
+
+const EMPTY_ENTRY: ContinuityEntryDraft = { category: 'fact', subject: '', detail: '' };
+
+export function ContinuityLedgerModal({
+  isOpen,
+  onClose,
+  ledger,
+  chapterCount,
+  extractingChapter,
+  onExtract,
+  onSave,
+}: ContinuityLedgerModalProps) {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<ContinuityEntry[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [newEntry, setNewEntry] = useState<ContinuityEntryDraft>(EMPTY_ENTRY);
+  const [newEntryChapter, setNewEntryChapter] = useState("1");
+  const [extractChapter, setExtractChapter] = useState("1");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the saved ledger when the panel opens and after each extraction
+  useEffect(() => {
+    if (isOpen) {
+      setEntries(ledger.entries);
+      setIsDirty(false);
+    }
+  }, [isOpen, ledger]);
+
+  const chapterOptions = Array.from({ length: Math.max(chapterCount, 1) }, (_, index) => String(index + 1));
+
+  const updateEntry = (id: string, changes: Partial<ContinuityEntry>) => {
+    setEntries(prev => prev.map(entry => entry.id === id ? { ...entry, ...changes } : entry));
+    setIsDirty(true);
+  };
+
+  const handleRemoveEntry = (id: string) => {
+    setEntries(prev => prev.filter(entry => entry.id !== id));
+    setIsDirty(true);
+  };
+
+  const handleAddEntry = () => {
+    if (!newEntry.detail.trim()) {
+      toast({
+        title: "Missing detail",
+        description: "Describe the detail the story needs to stay consistent with.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const entry = createContinuityEntry(
+      { ...newEntry, subject: newEntry.subject.trim(), detail: newEntry.detail.trim() },
+      parseInt(newEntryChapter, 10)
+    );
+    setEntries(prev => [...prev, entry]);
+    setNewEntry(prev => ({ ...EMPTY_ENTRY, category: prev.category }));
+    setIsDirty(true);
+  };
+
+  const handleExtract = async () => {
+    try {
+      await onExtract(parseInt(extractChapter, 10));
+    } catch (error) {
+      toast({
+        title: "Error extracting continuity",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const cleaned = entries
+        .map(entry => ({ ...entry, subject: entry.subject.trim(), detail: entry.detail.trim() }))
+        .filter(entry => entry.detail);
+      await onSave({ ...ledger, entries: cleaned });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error saving continuity ledger",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>Continuity Ledger</DialogTitle>
+          <DialogDescription>
+            Details extracted from completed chapters. The ledger is given to the model when writing chapters so it doesn't contradict earlier ones.
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="h-[60vh] pr-4 -mr-4">
+          <div className="space-y-4 pr-2">
+            {entries.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                The ledger is empty. Entries are extracted automatically when a chapter is completed, or you can add them below.
+              </p>
+            )}
+            {CONTINUITY_CATEGORIES.map(category => {
+              const categoryEntries = entries.filter(entry => entry.category === category.id);
+              if (!categoryEntries.length) return null;
+              return (
+                <div key={category.id} className="space-y-2">
+                  <div>
+                    <h3 className="text-sm font-medium">{category.label} ({categoryEntries.length})</h3>
+                    <p className="text-xs text-muted-foreground">{category.description}</p>
+                  </div>
+                  {categoryEntries.map(entry => (
+                    <div key={entry.id} className="flex items-center gap-2 p-2 rounded-md bg-muted/50">
+                      <Input
+                        value={entry.subject}
+                        onChange={(e) => updateEntry(entry.id, { subject: e.target.value })}
+                        placeholder="Subject"
+                        className="h-8 w-40 shrink-0 text-sm"
+                      />
+                      <Input
+                        value={entry.detail}
+                        onChange={(e) => updateEntry(entry.id, { detail: e.target.value })}
+                        placeholder="Detail"
+                        className="h-8 text-sm"
+                      />
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">Ch. {entry.chapter_number}</span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 shrink-0 text-[#ea384c] dark:text-red-400"
+                        onClick={() => handleRemoveEntry(entry.id)}
+                        aria-label="Remove entry"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Add Entry</h3>
+              <div className="grid grid-cols-2 md:grid-cols-[140px_1fr_2fr_90px_auto] gap-2 items-center">
+                <Select
+                  value={newEntry.category}
+                  onValueChange={(value) => setNewEntry(prev => ({ ...prev, category: value as ContinuityCategory }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONTINUITY_CATEGORIES.map(category => (
+                      <SelectItem key={category.id} value={category.id}>{category.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={newEntry.subject}
+                  onChange={(e) => setNewEntry(prev => ({ ...prev, subject: e.target.value }))}
+                  placeholder="Subject"
+                />
+                <Input
+                  value={newEntry.detail}
+                  onChange={(e) => setNewEntry(prev => ({ ...prev, detail: e.target.value }))}
+                  placeholder="Detail"
+                />
+                <Select value={newEntryChapter} onValueChange={setNewEntryChapter}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {chapterOptions.map(chapter => (
+                      <SelectItem key={chapter} value={chapter}>Ch. {chapter}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" onClick={handleAddEntry}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add
+                </Button>
+              </div>
+            </div>
+          </div>
+        </ScrollArea>
+        <div className="flex items-center gap-2 border-t pt-4">
+          <span className="text-sm text-muted-foreground">Re-extract chapter</span>
+          <Select value={extractChapter} onValueChange={setExtractChapter}>
+            <SelectTrigger className="w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {chapterOptions.map(chapter => (
+                <SelectItem key={chapter} value={chapter}>Ch. {chapter}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleExtract}
+            disabled={extractingChapter !== null || isDirty}
+            title={isDirty ? "Save your changes before extracting" : undefined}
+          >
+            {extractingChapter !== null ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Wand2 className="h-4 w-4 mr-2" />}
+            {extractingChapter !== null ? `Extracting Chapter ${extractingChapter}...` : "Extract"}
+          </Button>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || extractingChapter !== null}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Ledger
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
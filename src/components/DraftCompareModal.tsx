@@ -0,0 +1,249 @@
+import { useEffect, useRef, useState } from "react";
+import { Check, Layers, Loader2, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { ScrollArea } from "./ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { cn } from "@/lib/utils";
+import {
+  MAX_DRAFTS,
+  MIN_DRAFTS,
+  defaultDraftVariants,
+  describeVariant,
+  spliceParagraphs,
+  splitParagraphs,
+  type DraftText,
+  type ParagraphPick
+} from "@/lib/drafts";
+import type { StepVariant } from "@/types/llm";
+import type { ChapterAlternate } from "@/types/story";
+
+interface Draft extends DraftText {
+  status: "writing" | "done" | "failed";
+  error?: string;
+}
+
+interface DraftCompareModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // What the chapter holds now
+  currentContent: string;
+  alternates: ChapterAlternate[];
+  writeDraft: (variant: StepVariant, onProgress: (chunk: string) => void, signal: AbortSignal) => Promise<string>;
+  // Called with the text to use and the drafts to keep as alternates
+  onApply: (content: string, unchosen: DraftText[]) => void;
+}
+
+export function DraftCompareModal({ isOpen, onClose, currentContent, alternates, writeDraft, onApply }: DraftCompareModalProps) {
+  const [variants, setVariants] = useState<StepVariant[]>(defaultDraftVariants(MIN_DRAFTS));
+  const [drafts, setDrafts] = useState<Draft[] | null>(null);
+  const [picks, setPicks] = useState<ParagraphPick[]>([]);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+      setDrafts(null);
+      setPicks([]);
+    }
+  }, [isOpen]);
+
+  const writing = drafts?.some(draft => draft.status === "writing") ?? false;
+
+  const updateDraft = (index: number, changes: Partial<Draft> | ((draft: Draft) => Partial<Draft>)) => {
+    setDrafts(prev => prev && prev.map((draft, i) =>
+      i === index ? { ...draft, ...(typeof changes === "function" ? changes(draft) : changes) } : draft
+    ));
+  };
+
+  const handleGenerate = () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setPicks([]);
+    setDrafts(variants.map(variant => ({ content: "", label: describeVariant(variant), status: "writing" })));
+
+    // Write every draft at once; one failing doesn't stop the others
+    variants.forEach((variant, index) => {
+      writeDraft(variant, chunk => updateDraft(index, draft => ({ content: draft.content + chunk })), controller.signal)
+        .then(content => updateDraft(index, { content, status: "done" }))
+        .catch(error => {
+          if (controller.signal.aborted) return;
+          console.error(`Draft ${index + 1} failed:`, error);
+          updateDraft(index, { status: "failed", error: (error as Error).message });
+        });
+    });
+  };
+
+  // Compare the chapter as it is with the drafts kept from earlier
+  const handleShowAlternates = () => {
+    setPicks([]);
+    setDrafts([
+      { content: currentContent, label: "Current version", status: "done" },
+      ...alternates.map(alternate => ({ content: alternate.content, label: alternate.label, status: "done" as const }))
+    ]);
+  };
+
+  const setCount = (count: number) => {
+    setVariants(prev => defaultDraftVariants(count).map((variant, index) => prev[index] ?? variant));
+  };
+
+  const updateVariant = (index: number, changes: StepVariant) => {
+    setVariants(prev => prev.map((variant, i) => i === index ? { ...variant, ...changes } : variant));
+  };
+
+  const togglePick = (draft: number, paragraph: number) => {
+    setPicks(prev => prev.some(pick => pick.draft === draft && pick.paragraph === paragraph)
+      ? prev.filter(pick => pick.draft !== draft || pick.paragraph !== paragraph)
+      : [...prev, { draft, paragraph }]);
+  };
+
+  // Everything that isn't used as-is is kept, including what the chapter held before
+  const unchosen = (chosen: string): DraftText[] => [
+    { content: currentContent, label: "Previous version" },
+    ...(drafts || []).filter(draft => draft.status === "done" && draft.content !== chosen)
+  ];
+
+  const apply = (content: string) => {
+    controllerRef.current?.abort();
+    onApply(content, unchosen(content));
+    onClose();
+  };
+
+  const finished = drafts?.filter(draft => draft.status === "done").map(draft => draft.content) ?? [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[95vw]">
+        <DialogHeader>
+          <DialogTitle>Compare Drafts</DialogTitle>
+          <DialogDescription>
+            {drafts
+              ? "Use a whole draft, or click paragraphs from any of them to splice a new version together."
+              : "Write several drafts of this chapter at once with different settings."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!drafts ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3">
+              <Label>Drafts</Label>
+              <Select value={String(variants.length)} onValueChange={(value) => setCount(Number(value))}>
+                <SelectTrigger className="w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: MAX_DRAFTS - MIN_DRAFTS + 1 }, (_, i) => MIN_DRAFTS + i).map(count => (
+                    <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {variants.map((variant, index) => (
+              <div key={index} className="grid grid-cols-[80px_120px_1fr] items-center gap-3">
+                <span className="text-sm font-medium">Draft {index + 1}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={variant.temperature ?? ""}
+                  onChange={(e) => updateVariant(index, { temperature: e.target.value === "" ? undefined : Number(e.target.value) })}
+                  aria-label={`Draft ${index + 1} temperature`}
+                />
+                <Input
+                  value={variant.model ?? ""}
+                  onChange={(e) => updateVariant(index, { model: e.target.value })}
+                  placeholder="Chapter model"
+                  aria-label={`Draft ${index + 1} model`}
+                />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className={cn("grid gap-3", drafts.length > 2 ? "lg:grid-cols-4 md:grid-cols-2" : "md:grid-cols-2")}>
+            {drafts.map((draft, draftIndex) => (
+              <div key={draftIndex} className="flex flex-col rounded-lg bg-muted/50">
+                <div className="flex items-center justify-between gap-2 border-b p-2">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium">{draft.label}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {draft.status === "writing" ? "Writing..." : draft.status === "failed" ? draft.error : `${draft.content.trim().split(/\s+/).filter(Boolean).length} words`}
+                    </p>
+                  </div>
+                  <Button size="sm" onClick={() => apply(draft.content)} disabled={draft.status !== "done" || !draft.content.trim()}>
+                    {draft.status === "writing" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4 mr-1" />}
+                    {draft.status !== "writing" && "Use"}
+                  </Button>
+                </div>
+                <ScrollArea className="h-[60vh] p-2">
+                  {draft.status === "writing" ? (
+                    <p className="whitespace-pre-wrap text-sm">{draft.content}</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {splitParagraphs(draft.content).map((paragraph, paragraphIndex) => {
+                        const order = picks.findIndex(pick => pick.draft === draftIndex && pick.paragraph === paragraphIndex);
+                        return (
+                          <button
+                            key={paragraphIndex}
+                            type="button"
+                            onClick={() => togglePick(draftIndex, paragraphIndex)}
+                            className={cn(
+                              "relative w-full rounded p-2 text-left text-sm whitespace-pre-wrap hover:bg-background/80",
+                              order !== -1 && "bg-primary/10 ring-1 ring-primary"
+                            )}
+                          >
+                            {order !== -1 && (
+                              <span className="absolute right-1 top-1 rounded bg-primary px-1 text-xs text-primary-foreground">{order + 1}</span>
+                            )}
+                            {paragraph}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                </ScrollArea>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          {!drafts ? (
+            <>
+              <Button variant="outline" onClick={handleShowAlternates} disabled={alternates.length === 0}>
+                Saved Alternates ({alternates.length})
+              </Button>
+              <Button onClick={handleGenerate}>
+                <Layers className="h-4 w-4 mr-2" />
+                Write {variants.length} Drafts
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => setPicks([])} disabled={picks.length === 0}>
+                <X className="h-4 w-4 mr-2" />
+                Clear Selection
+              </Button>
+              <Button
+                onClick={() => apply(spliceParagraphs(drafts.map(draft => draft.content), picks))}
+                disabled={writing || picks.length === 0 || finished.length === 0}
+              >
+                Use {picks.length} Selected Paragraph{picks.length === 1 ? "" : "s"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
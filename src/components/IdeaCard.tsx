@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { BookOpen, ChevronDown, Loader2, Sparkles, Star, Trash2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Input } from "./ui/input";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "./ui/collapsible";
+import { cn } from "@/lib/utils";
+import { parseTags } from "@/lib/idea-bank";
+import type { BankedIdea, StoryIdeaSource } from "@/types/idea";
+
+const SOURCE_LABELS: Record<StoryIdeaSource, string> = {
+  reddit: "Reddit",
+  "fine-tune": "Fine-tune",
+  custom: "Custom"
+};
+
+interface IdeaCardProps {
+  idea: BankedIdea;
+  creating: boolean;
+  onRate: (rating: number | null) => void;
+  onTagsChange: (tags: string[]) => void;
+  onTagClick: (tag: string) => void;
+  onCreateStory: () => void;
+  onOpenStory: () => void;
+  onDelete: () => void;
+}
+
+export function IdeaCard({ idea, creating, onRate, onTagsChange, onTagClick, onCreateStory, onOpenStory, onDelete }: IdeaCardProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [tagsText, setTagsText] = useState(idea.tags.join(", "));
+
+  const saveTags = () => {
+    const tags = parseTags(tagsText);
+    setTagsText(tags.join(", "));
+    if (tags.join(",") !== idea.tags.join(",")) {
+      onTagsChange(tags);
+    }
+  };
+
+  return (
+    <div className="bg-muted rounded-lg p-4 shadow-sm space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          <Badge variant="secondary">{SOURCE_LABELS[idea.source]}</Badge>
+          <Badge variant="outline">{idea.story_profile}</Badge>
+          {idea.source_posts.map(post => (
+            <span key={post.id}>r/{post.subreddit}</span>
+          ))}
+          <span>{new Date(idea.created_at).toLocaleDateString()}</span>
+          {idea.story_id && <Badge variant="outline">Used</Badge>}
+        </div>
+        <div className="flex items-center">
+          {[1, 2, 3, 4, 5].map(star => (
+            <button
+              key={star}
+              type="button"
+              // Clicking the current rating clears it
+              onClick={() => onRate(idea.rating === star ? null : star)}
+              className="p-0.5 text-muted-foreground hover:text-amber-500"
+              aria-label={`Rate ${star} star${star === 1 ? "" : "s"}`}
+            >
+              <Star className={cn("h-4 w-4", idea.rating !== null && star <= idea.rating && "fill-amber-400 text-amber-500")} />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <p className="text-sm">{idea.summary || idea.idea.slice(0, 400)}</p>
+
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <CollapsibleTrigger className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+          <ChevronDown className={cn("h-3 w-3 transition-transform", isOpen && "rotate-180")} />
+          {isOpen ? "Hide full idea" : "Show full idea"}
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <p className="mt-2 max-h-[300px] overflow-y-auto rounded bg-background/60 p-3 text-sm whitespace-pre-wrap text-muted-foreground">
+            {idea.idea}
+          </p>
+        </CollapsibleContent>
+      </Collapsible>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {idea.tags.map(tag => (
+          <Badge key={tag} variant="outline" className="cursor-pointer" onClick={() => onTagClick(tag)}>
+            {tag}
+          </Badge>
+        ))}
+        <Input
+          value={tagsText}
+          onChange={(e) => setTagsText(e.target.value)}
+          onBlur={saveTags}
+          onKeyDown={(e) => e.key === "Enter" && saveTags()}
+          placeholder="Add tags, separated by commas"
+          className="h-8 max-w-xs text-xs"
+        />
+      </div>
+
+      <div className="flex items-center justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onDelete} className="text-muted-foreground hover:text-red-600">
+          <Trash2 className="h-4 w-4" />
+        </Button>
+        {idea.story_id && (
+          <Button variant="outline" size="sm" onClick={onOpenStory}>
+            <BookOpen className="h-4 w-4 mr-2" />
+            Open Story
+          </Button>
+        )}
+        <Button size="sm" onClick={onCreateStory} disabled={creating}>
+          {creating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Sparkles className="h-4 w-4 mr-2" />}
+          {creating ? "Creating Story..." : "Create Story"}
+        </Button>
+      </div>
+    </div>
+  );
+}
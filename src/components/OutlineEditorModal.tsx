@@ -0,0 +1,366 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import { ScrollArea } from "./ui/scroll-area";
+import { GripVertical, Loader2, Merge, Plus, Scissors, Trash2, Wand2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useStoryService } from "@/hooks/use-story-service";
+import { cn } from "@/lib/utils";
+import { v4 as uuidv4 } from "uuid";
+import {
+  NEW_CHAPTER_BEAT,
+  deleteChapter,
+  findSplitOffset,
+  getOutlineRecord,
+  insertChapter,
+  mergeWithNext,
+  moveChapter,
+  splitChapter,
+  toOutline,
+  updateChapterOutline,
+  type OutlineEditorChapter,
+} from "@/lib/outline-operations";
+import type { OutlineChapter } from "@/types/story";
+
+interface OutlineEditorModalProps<T extends OutlineEditorChapter> {
+  isOpen: boolean;
+  onClose: () => void;
+  chapters: T[];
+  storyIdea: string;
+  // previousNumbers holds the number each saved chapter had when the editor opened, or null for new chapters
+  onSave: (chapters: T[], previousNumbers: Array<number | null>) => Promise<void>;
+}
+
+// Draft chapters carry a stable id so React keys and drag targets survive reordering
+type DraftChapter<T> = T & { draftId: string };
+
+export function OutlineEditorModal<T extends OutlineEditorChapter>({
+  isOpen,
+  onClose,
+  chapters,
+  storyIdea,
+  onSave,
+}: OutlineEditorModalProps<T>) {
+  const { toast } = useToast();
+  const storyService = useStoryService();
+  const [draft, setDraft] = useState<DraftChapter<T>[]>([]);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  // Only the grip handle starts a drag, so text in the fields can still be selected
+  const [draggableId, setDraggableId] = useState<string | null>(null);
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const beatRefs = useRef<Record<string, HTMLTextAreaElement | null>>({});
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // The chapter number each draft chapter had when the editor opened
+  const originalNumbersRef = useRef<Map<string, number>>(new Map());
+
+  // Start a fresh draft every time the editor opens
+  useEffect(() => {
+    if (isOpen) {
+      const opened = chapters.map(chapter => ({ ...chapter, draftId: uuidv4() }));
+      originalNumbersRef.current = new Map(opened.map((chapter, index) => [chapter.draftId, index + 1]));
+      setDraft(opened);
+    } else {
+      abortControllerRef.current?.abort();
+      abortControllerRef.current = null;
+      setRegeneratingId(null);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const updateField = (index: number, changes: Partial<Omit<OutlineChapter, 'chapter_number'>>) => {
+    setDraft(prev => updateChapterOutline(prev, index, changes));
+  };
+
+  const handleInsert = (index: number) => {
+    setDraft(prev => insertChapter(prev, index, {
+      ...prev[0],
+      content: "",
+      completed: false,
+      sceneBeat: NEW_CHAPTER_BEAT,
+      draftId: uuidv4(),
+    }));
+  };
+
+  const handleSplit = (index: number) => {
+    const chapter = draft[index];
+    const textarea = beatRefs.current[chapter.draftId];
+    const cursor = textarea?.selectionStart ?? 0;
+    const offset = cursor > 0 && cursor < chapter.sceneBeat.length ? cursor : findSplitOffset(chapter.sceneBeat);
+    const updated = splitChapter(draft, index, offset);
+
+    if (updated === draft) {
+      toast({
+        title: "Can't split chapter",
+        description: "Place the cursor in the chapter beat where it should be split.",
+        variant: "destructive",
+      });
+      return;
+    }
+    // The second half is a new chapter, so give it its own id
+    updated[index + 1] = { ...updated[index + 1], draftId: uuidv4() };
+    setDraft(updated);
+  };
+
+  const handleDelete = (index: number) => {
+    const chapter = draft[index];
+    if (chapter.content.trim() && !window.confirm(`${chapter.title} already has written content. Delete it anyway?`)) {
+      return;
+    }
+    setDraft(prev => deleteChapter(prev, index));
+  };
+
+  const handleRegenerate = async (index: number) => {
+    const chapter = draft[index];
+    const controller = new AbortController();
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = controller;
+    setRegeneratingId(chapter.draftId);
+
+    try {
+      const regenerated = await storyService.regenerateOutlineChapter(
+        storyIdea,
+        toOutline(draft),
+        index,
+        controller.signal
+      );
+      // Match by id in case the chapter moved while the request was running
+      setDraft(prev => {
+        const currentIndex = prev.findIndex(item => item.draftId === chapter.draftId);
+        if (currentIndex === -1) return prev;
+        const { chapter_number: _chapterNumber, ...changes } = regenerated;
+        return updateChapterOutline(prev, currentIndex, changes);
+      });
+    } catch (error) {
+      const err = error as Error;
+      if (err.name !== 'AbortError') {
+        console.error('Error regenerating chapter:', err);
+        toast({
+          title: "Error",
+          description: err.message || "Failed to regenerate the chapter",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setRegeneratingId(null);
+      }
+    }
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) {
+      setDraft(prev => moveChapter(prev, dragIndex, index));
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+    setDraggableId(null);
+  };
+
+  const handleSave = async () => {
+    const emptyIndex = draft.findIndex(chapter => !chapter.sceneBeat.trim());
+    if (emptyIndex !== -1) {
+      toast({
+        title: "Missing chapter beat",
+        description: `Chapter ${emptyIndex + 1} needs a beat before the outline can be saved.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(
+        draft.map(({ draftId: _draftId, ...chapter }) => chapter as unknown as T),
+        draft.map(chapter => originalNumbersRef.current.get(chapter.draftId) ?? null)
+      );
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error saving outline",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="sm:max-w-[850px] max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>Edit Outline</DialogTitle>
+          <DialogDescription>
+            Edit, reorder, split, merge or regenerate chapter beats. Written chapters move with their beats.
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="h-[65vh] pr-4 -mr-4">
+          <div className="space-y-3 pr-2">
+            {draft.map((chapter, index) => {
+              const outline = getOutlineRecord(chapter, index);
+              const isRegenerating = regeneratingId === chapter.draftId;
+              return (
+                <div
+                  key={chapter.draftId}
+                  draggable={draggableId === chapter.draftId}
+                  onDragStart={() => setDragIndex(index)}
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    setDropIndex(index);
+                  }}
+                  onDrop={() => handleDrop(index)}
+                  onDragEnd={() => {
+                    setDragIndex(null);
+                    setDropIndex(null);
+                    setDraggableId(null);
+                  }}
+                  className={cn(
+                    "space-y-2 p-4 rounded-lg bg-muted/50 border border-transparent",
+                    dragIndex === index && "opacity-50",
+                    dropIndex === index && dragIndex !== index && "border-primary"
+                  )}
+                >
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      className="cursor-grab text-muted-foreground hover:text-foreground"
+                      onMouseDown={() => setDraggableId(chapter.draftId)}
+                      onMouseUp={() => setDraggableId(null)}
+                      aria-label={`Drag ${chapter.title}`}
+                    >
+                      <GripVertical className="h-4 w-4" />
+                    </button>
+                    <span className="font-medium whitespace-nowrap">{chapter.title}</span>
+                    <Input
+                      value={outline.title}
+                      onChange={(e) => updateField(index, { title: e.target.value })}
+                      placeholder="Chapter title"
+                      className="h-8"
+                    />
+                    {chapter.content.trim() && (
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">Written</span>
+                    )}
+                  </div>
+                  <Textarea
+                    ref={(el) => { beatRefs.current[chapter.draftId] = el; }}
+                    value={chapter.sceneBeat}
+                    onChange={(e) => updateField(index, { chapter_beat: e.target.value })}
+                    className="min-h-[120px] text-sm"
+                    disabled={isRegenerating}
+                  />
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                    <Input
+                      value={outline.setting}
+                      onChange={(e) => updateField(index, { setting: e.target.value })}
+                      placeholder="Setting"
+                      className="h-8 text-xs"
+                    />
+                    <Input
+                      value={outline.time_marker}
+                      onChange={(e) => updateField(index, { time_marker: e.target.value })}
+                      placeholder="Time"
+                      className="h-8 text-xs"
+                    />
+                    <Input
+                      value={outline.pov_character}
+                      onChange={(e) => updateField(index, { pov_character: e.target.value })}
+                      placeholder="POV character"
+                      className="h-8 text-xs"
+                    />
+                    <Input
+                      type="number"
+                      min={1}
+                      step={100}
+                      value={outline.target_word_count ?? ""}
+                      onChange={(e) => {
+                        const value = parseInt(e.target.value, 10);
+                        updateField(index, { target_word_count: isNaN(value) || value < 1 ? null : value });
+                      }}
+                      placeholder="Target words"
+                      className="h-8 text-xs"
+                    />
+                    <Input
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={outline.tension_level ?? ""}
+                      onChange={(e) => {
+                        const value = parseInt(e.target.value, 10);
+                        updateField(index, { tension_level: isNaN(value) ? null : Math.min(10, Math.max(1, value)) });
+                      }}
+                      placeholder="Tension 1-10"
+                      className="h-8 text-xs"
+                    />
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRegenerate(index)}
+                      disabled={regeneratingId !== null}
+                    >
+                      {isRegenerating ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <Wand2 className="h-4 w-4 mr-2" />
+                      )}
+                      Regenerate
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleInsert(index + 1)} disabled={isRegenerating}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Insert After
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleSplit(index)} disabled={isRegenerating}>
+                      <Scissors className="h-4 w-4 mr-2" />
+                      Split
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setDraft(prev => mergeWithNext(prev, index))}
+                      disabled={isRegenerating || index === draft.length - 1}
+                    >
+                      <Merge className="h-4 w-4 mr-2" />
+                      Merge With Next
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-[#ea384c] dark:text-red-400"
+                      onClick={() => handleDelete(index)}
+                      disabled={isRegenerating || draft.length <= 1}
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || regeneratingId !== null}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Outline
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
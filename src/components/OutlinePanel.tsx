@@ -1,4 +1,4 @@
-import { Book, ChevronRight, LogOut, Library, Settings, CheckCircle } from "lucide-react";
+import { Book, ChevronRight, LogOut, Library, Settings, CheckCircle, ListOrdered, Network, NotebookPen } from "lucide-react";
 import { Button } from "./ui/button";
 import { ScrollArea } from "./ui/scroll-area";
 import { cn } from "@/lib/utils";
@@ -11,6 +11,9 @@ interface OutlinePanelProps {
   onChapterSelect: (index: number) => void;
   onSignOut: () => void;
   onFinishStory?: () => void;
+  onEditOutline?: () => void;
+  onShowRelationships?: () => void;
+  onShowContinuity?: () => void;
 }
 
 interface Chapter {
@@ -25,6 +28,9 @@ export function OutlinePanel({
   onChapterSelect,
   onSignOut,
   onFinishStory,
+  onEditOutline,
+  onShowRelationships,
+  onShowContinuity,
 }: OutlinePanelProps) {
   const navigate = useNavigate();
   const totalWords = chapters.reduce((acc, chapter) => {
@@ -78,6 +84,36 @@ export function OutlinePanel({
               <span>Finish Story</span>
             </Button>
           )}
+          {onEditOutline && (
+            <Button
+              variant="outline"
+              className="w-full justify-start gap-2 dark:bg-accent/50 dark:hover:bg-accent/90 dark:border-accent/50"
+              onClick={onEditOutline}
+            >
+              <ListOrdered className="h-4 w-4" />
+              <span>Edit Outline</span>
+            </Button>
+          )}
+          {onShowRelationships && (
+            <Button
+              variant="outline"
+              className="w-full justify-start gap-2 dark:bg-accent/50 dark:hover:bg-accent/90 dark:border-accent/50"
+              onClick={onShowRelationships}
+            >
+              <Network className="h-4 w-4" />
+              <span>Relationships</span>
+            </Button>
+          )}
+          {onShowContinuity && (
+            <Button
+              variant="outline"
+              className="w-full justify-start gap-2 dark:bg-accent/50 dark:hover:bg-accent/90 dark:border-accent/50"
+              onClick={onShowContinuity}
+            >
+              <NotebookPen className="h-4 w-4" />
+              <span>Continuity</span>
+            </Button>
+          )}
         </div>
       </div>
       <ScrollArea className="flex-1 p-4">
@@ -0,0 +1,63 @@
+import { Progress } from "./ui/progress";
+import { cn } from "@/lib/utils";
+import type { PromptBudget } from "@/lib/token-budget";
+
+interface PromptBudgetPanelProps {
+  budget: PromptBudget | null;
+}
+
+// Debug view of how the last chapter prompt was fitted to the model's context window
+export function PromptBudgetPanel({ budget }: PromptBudgetPanelProps) {
+  if (!budget) {
+    return (
+      <div className="p-4 bg-muted rounded-lg text-sm text-muted-foreground">
+        Write a scene to see how its prompt fits the model's context window.
+      </div>
+    );
+  }
+
+  const usage = budget.available ? Math.min(100, (budget.total / budget.available) * 100) : 100;
+
+  return (
+    <div className="p-4 bg-muted rounded-lg space-y-3 text-sm">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <p className="font-medium">Prompt Budget: {budget.model}</p>
+        <p className={cn("text-xs", budget.overBudget ? "text-[#ea384c] dark:text-red-400" : "text-muted-foreground")}>
+          {budget.total.toLocaleString()} / {budget.available.toLocaleString()} tokens
+          {budget.overBudget && " (over budget)"}
+        </p>
+      </div>
+      <Progress value={usage} className="h-2" />
+      <p className="text-xs text-muted-foreground">
+        Context window {budget.contextWindow.toLocaleString()} tokens, {budget.reservedForOutput.toLocaleString()} reserved for the response.
+        Sections with the lowest priority are trimmed first.
+      </p>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-muted-foreground">
+            <th className="font-medium py-1">Section</th>
+            <th className="font-medium py-1">Priority</th>
+            <th className="font-medium py-1 text-right">Tokens</th>
+          </tr>
+        </thead>
+        <tbody>
+          {budget.sections.map(section => {
+            const trimmed = section.tokens < section.originalTokens;
+            return (
+              <tr key={section.id} className="border-t border-border/50">
+                <td className="py-1">{section.label}</td>
+                <td className="py-1 text-muted-foreground">{section.priority ?? "Always kept"}</td>
+                <td className="py-1 text-right">
+                  {trimmed && (
+                    <span className="text-muted-foreground line-through mr-2">{section.originalTokens.toLocaleString()}</span>
+                  )}
+                  <span className={cn(trimmed && "text-[#ea384c] dark:text-red-400")}>{section.tokens.toLocaleString()}</span>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
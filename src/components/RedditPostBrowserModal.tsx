@@ -0,0 +1,291 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { ArrowUp, Link, Loader2, MessageSquare, RefreshCw, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useStoryService } from "@/hooks/use-story-service";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { clearRedditCache, getPostByPermalink, type RedditPost } from "@/integrations/reddit/client";
+import { REDDIT_SORTS, type RedditSort } from "@/types/reddit";
+
+// Blending more posts than this makes the summary prompt too long to be useful
+const MAX_BLEND = 3;
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+interface RedditPostBrowserModalProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (posts: RedditPost[]) => void;
+  // Genre profile whose subreddits and filters decide which posts are listed
+  profileName?: string;
+}
+
+export function RedditPostBrowserModal({ open, onClose, onSubmit, profileName }: RedditPostBrowserModalProps) {
+  const storyService = useStoryService();
+  const { toast } = useToast();
+  const [posts, setPosts] = useState<RedditPost[]>([]);
+  const [usedPostIds, setUsedPostIds] = useState<Set<string>>(new Set());
+  const [cursors, setCursors] = useState<Record<string, string | null>>({});
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [showUsed, setShowUsed] = useState(false);
+  const [sort, setSort] = useState<RedditSort>("top");
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [link, setLink] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+
+  const showError = (error: unknown, fallback: string) => {
+    console.error(fallback, error);
+    toast({
+      title: "Error",
+      description: (error as Error).message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const loadPosts = async () => {
+    setLoading(true);
+    try {
+      const result = await storyService.getEligibleRedditPosts(profileName, { sort, query: query || undefined });
+      const sorted = query ? result.posts : [...result.posts].sort((a, b) => b.score - a.score);
+      setPosts(sorted);
+      setUsedPostIds(result.usedPostIds);
+      setCursors(result.cursors);
+      setSelectedIds([]);
+      setPreviewId(sorted.find(post => !result.usedPostIds.has(post.id))?.id ?? null);
+    } catch (error) {
+      showError(error, "Failed to load Reddit posts");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadMore = async () => {
+    setLoadingMore(true);
+    try {
+      const result = await storyService.getEligibleRedditPosts(profileName, { sort, query: query || undefined, cursors });
+      setPosts(prev => [...prev, ...result.posts.filter(post => !prev.some(item => item.id === post.id))]);
+      setCursors(prev => ({ ...prev, ...result.cursors }));
+    } catch (error) {
+      showError(error, "Failed to load more Reddit posts");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // A post the user links to is listed first even if it doesn't pass the profile's filters
+  const addPostFromLink = async () => {
+    setLoadingMore(true);
+    try {
+      const post = await getPostByPermalink(link);
+      setPosts(prev => [post, ...prev.filter(item => item.id !== post.id)]);
+      setPreviewId(post.id);
+      setLink("");
+    } catch (error) {
+      showError(error, "Failed to load that Reddit post");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      loadPosts();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, profileName, sort, query]);
+
+  const usedCount = posts.filter(post => usedPostIds.has(post.id)).length;
+  const visiblePosts = showUsed ? posts : posts.filter(post => !usedPostIds.has(post.id));
+  const preview = posts.find(post => post.id === previewId);
+  const selectedPosts = selectedIds
+    .map(id => posts.find(post => post.id === id))
+    .filter((post): post is RedditPost => !!post);
+
+  const toggleSelected = (postId: string) => {
+    setSelectedIds(prev => prev.includes(postId)
+      ? prev.filter(id => id !== postId)
+      : prev.length < MAX_BLEND ? [...prev, postId] : prev
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[900px]">
+        <DialogHeader>
+          <DialogTitle>Pick a Reddit Post</DialogTitle>
+          <DialogDescription>
+            Choose the post your story idea is based on, or up to {MAX_BLEND} posts to blend into one idea.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-2 sm:grid-cols-[140px_1fr_1fr]">
+          <Select value={sort} onValueChange={(value) => setSort(value as RedditSort)} disabled={!!query}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REDDIT_SORTS.map(item => (
+                <SelectItem key={item} value={item}>{item.charAt(0).toUpperCase() + item.slice(1)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <form
+            className="relative"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setQuery(search.trim());
+            }}
+          >
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value);
+                if (!e.target.value.trim()) setQuery("");
+              }}
+              placeholder="Search posts"
+              className="pl-8"
+            />
+          </form>
+          <form
+            className="relative"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (link.trim()) addPostFromLink();
+            }}
+          >
+            <Link className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={link}
+              onChange={(e) => setLink(e.target.value)}
+              placeholder="Paste a link to a post"
+              className="pl-8"
+            />
+          </form>
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Switch id="show-used-posts" checked={showUsed} onCheckedChange={setShowUsed} />
+            <Label htmlFor="show-used-posts" className="text-sm">
+              Show posts you've already used ({usedCount})
+            </Label>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              // Skip the cached listings so new posts show up
+              clearRedditCache();
+              loadPosts();
+            }}
+            disabled={loading}
+          >
+            <RefreshCw className={cn("h-4 w-4 mr-2", loading && "animate-spin")} />
+            Refresh
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center gap-2 h-[420px] text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading posts...
+          </div>
+        ) : visiblePosts.length === 0 ? (
+          <div className="flex items-center justify-center h-[420px] text-sm text-muted-foreground">
+            {query ? `No posts match "${query}".` : "No posts match this profile's subreddits and filters."}
+          </div>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <ScrollArea className="h-[420px] rounded-md border">
+              <div className="divide-y">
+                {visiblePosts.map(post => {
+                  const used = usedPostIds.has(post.id);
+                  const selected = selectedIds.includes(post.id);
+                  return (
+                    <div
+                      key={post.id}
+                      className={cn(
+                        "flex items-start gap-3 p-3 cursor-pointer hover:bg-muted/50",
+                        previewId === post.id && "bg-muted"
+                      )}
+                      onClick={() => setPreviewId(post.id)}
+                    >
+                      <Checkbox
+                        checked={selected}
+                        disabled={used || (!selected && selectedIds.length >= MAX_BLEND)}
+                        onClick={(e) => e.stopPropagation()}
+                        onCheckedChange={() => toggleSelected(post.id)}
+                        className="mt-1"
+                      />
+                      <div className="min-w-0 space-y-1">
+                        <p className="text-sm font-medium leading-snug">{post.title}</p>
+                        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                          <span className="flex items-center gap-1"><ArrowUp className="h-3 w-3" />{post.score.toLocaleString()}</span>
+                          <span className="flex items-center gap-1"><MessageSquare className="h-3 w-3" />{post.num_comments.toLocaleString()}</span>
+                          <span>{countWords(post.selftext).toLocaleString()} words</span>
+                          <span>r/{post.subreddit}</span>
+                          {post.link_flair_text && <Badge variant="outline" className="text-xs">{post.link_flair_text}</Badge>}
+                          {used && <Badge variant="secondary" className="text-xs">Used</Badge>}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+              {Object.values(cursors).some(Boolean) && (
+                <div className="p-3">
+                  <Button variant="ghost" size="sm" className="w-full" onClick={loadMore} disabled={loadingMore}>
+                    {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Load More
+                  </Button>
+                </div>
+              )}
+            </ScrollArea>
+
+            <ScrollArea className="h-[420px] rounded-md border bg-background">
+              {preview ? (
+                <div className="p-4 space-y-2">
+                  <h3 className="font-medium">{preview.title}</h3>
+                  <p className="text-xs text-muted-foreground">
+                    u/{preview.author} · r/{preview.subreddit} · {preview.selftext.length.toLocaleString()} characters
+                  </p>
+                  <p className="text-sm whitespace-pre-wrap">{preview.selftext}</p>
+                </div>
+              ) : (
+                <p className="p-4 text-sm text-muted-foreground">Select a post to read it.</p>
+              )}
+            </ScrollArea>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => onSubmit(selectedPosts)} disabled={selectedPosts.length === 0}>
+            {selectedPosts.length > 1 ? `Blend ${selectedPosts.length} Posts` : "Use Post"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,405 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { ScrollArea } from "./ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, Trash2, Wand2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useStoryService } from "@/hooks/use-story-service";
+import { cn } from "@/lib/utils";
+import { RELATIONSHIP_TYPES, normalizeRelationships } from "@/lib/character-parser";
+import type { Character, CharacterRelationship, RelationshipType } from "@/types/character";
+
+interface RelationshipGraphModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  characters: Character[];
+  relationships: CharacterRelationship[];
+  onSave: (relationships: CharacterRelationship[]) => Promise<void>;
+}
+
+const GRAPH_WIDTH = 640;
+const GRAPH_HEIGHT = 360;
+const NODE_RADIUS = 22;
+
+const RELATIONSHIP_COLORS: Record<RelationshipType, string> = {
+  family: '#059669',
+  romantic: '#db2777',
+  friend: '#2563eb',
+  rival: '#ea580c',
+  enemy: '#dc2626',
+  employer: '#7c3aed',
+  colleague: '#0891b2',
+  mentor: '#ca8a04',
+  other: '#475569',
+};
+
+type NodePositions = Record<string, { x: number; y: number }>;
+
+// Lay the characters out evenly on an ellipse
+const getInitialPositions = (characters: Character[]): NodePositions => {
+  const positions: NodePositions = {};
+  characters.forEach((character, index) => {
+    const angle = (index / Math.max(characters.length, 1)) * Math.PI * 2 - Math.PI / 2;
+    positions[character.name] = {
+      x: GRAPH_WIDTH / 2 + Math.cos(angle) * (GRAPH_WIDTH / 2 - 80),
+      y: GRAPH_HEIGHT / 2 + Math.sin(angle) * (GRAPH_HEIGHT / 2 - 50),
+    };
+  });
+  return positions;
+};
+
+const getShortName = (name: string) => name.replace(/\s*\(.*?\)\s*/g, ' ').trim().split(/\s+/)[0] || name;
+
+export function RelationshipGraphModal({
+  isOpen,
+  onClose,
+  characters,
+  relationships,
+  onSave,
+}: RelationshipGraphModalProps) {
+  const { toast } = useToast();
+  const storyService = useStoryService();
+  const [edges, setEdges] = useState<CharacterRelationship[]>([]);
+  const [positions, setPositions] = useState<NodePositions>({});
+  const [selectedNode, setSelectedNode] = useState<string | null>(null);
+  const [selectedEdge, setSelectedEdge] = useState<number | null>(null);
+  const [draggingNode, setDraggingNode] = useState<string | null>(null);
+  const [newEdge, setNewEdge] = useState<CharacterRelationship>({ source: '', target: '', type: 'friend', description: '' });
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Start from the saved edges each time the panel opens, dropping edges to characters that no longer exist
+  useEffect(() => {
+    if (isOpen) {
+      setEdges(normalizeRelationships(relationships, characters));
+      setPositions(getInitialPositions(characters));
+      setSelectedNode(null);
+      setSelectedEdge(null);
+    } else {
+      abortControllerRef.current?.abort();
+      abortControllerRef.current = null;
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const toGraphPoint = (e: React.PointerEvent) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    return {
+      x: Math.min(GRAPH_WIDTH - NODE_RADIUS, Math.max(NODE_RADIUS, ((e.clientX - rect.left) / rect.width) * GRAPH_WIDTH)),
+      y: Math.min(GRAPH_HEIGHT - NODE_RADIUS, Math.max(NODE_RADIUS, ((e.clientY - rect.top) / rect.height) * GRAPH_HEIGHT)),
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!draggingNode) return;
+    const point = toGraphPoint(e);
+    if (point) {
+      setPositions(prev => ({ ...prev, [draggingNode]: point }));
+    }
+  };
+
+  const handleExtract = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsExtracting(true);
+    try {
+      const extracted = await storyService.extractRelationships(characters, controller.signal);
+      setEdges(prev => normalizeRelationships([...prev, ...extracted], characters));
+      toast({
+        title: "Relationships extracted",
+        description: `Found ${extracted.length} relationships.`,
+        duration: 3000,
+      });
+    } catch (error) {
+      const err = error as Error;
+      if (err.name !== 'AbortError') {
+        console.error('Error extracting relationships:', err);
+        toast({
+          title: "Error",
+          description: err.message || "Failed to extract relationships",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+      setIsExtracting(false);
+    }
+  };
+
+  const handleAddEdge = () => {
+    const updated = normalizeRelationships([...edges, newEdge], characters);
+    if (updated.length === edges.length) {
+      toast({
+        title: "Can't add relationship",
+        description: "Pick two different characters that aren't already linked with this type.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setEdges(updated);
+    setNewEdge(prev => ({ ...prev, description: '' }));
+  };
+
+  const handleRemoveEdge = (index: number) => {
+    setEdges(prev => prev.filter((_, i) => i !== index));
+    setSelectedEdge(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(edges);
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error saving relationships",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isEdgeHighlighted = (edge: CharacterRelationship, index: number) =>
+    selectedEdge === index || (selectedNode !== null && (edge.source === selectedNode || edge.target === selectedNode));
+  const hasFocus = selectedNode !== null || selectedEdge !== null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>Character Relationships</DialogTitle>
+          <DialogDescription>
+            Drag characters to rearrange the graph. Click a character or a relationship to highlight it. These relationships are given to the model when writing chapters.
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="h-[65vh] pr-4 -mr-4">
+          <div className="space-y-4 pr-2">
+            <svg
+              ref={svgRef}
+              viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`}
+              className="w-full rounded-lg bg-muted/50 select-none touch-none"
+              onPointerMove={handlePointerMove}
+              onPointerUp={() => setDraggingNode(null)}
+              onPointerLeave={() => setDraggingNode(null)}
+              onClick={() => {
+                setSelectedNode(null);
+                setSelectedEdge(null);
+              }}
+            >
+              <defs>
+                {RELATIONSHIP_TYPES.map(type => (
+                  <marker
+                    key={type}
+                    id={`arrow-${type}`}
+                    viewBox="0 0 10 10"
+                    refX={10 + NODE_RADIUS / 2}
+                    refY="5"
+                    markerWidth="6"
+                    markerHeight="6"
+                    orient="auto-start-reverse"
+                  >
+                    <path d="M 0 0 L 10 5 L 0 10 z" fill={RELATIONSHIP_COLORS[type]} />
+                  </marker>
+                ))}
+              </defs>
+              {edges.map((edge, index) => {
+                const from = positions[edge.source];
+                const to = positions[edge.target];
+                if (!from || !to) return null;
+                const highlighted = isEdgeHighlighted(edge, index);
+                return (
+                  <g
+                    key={`${edge.source}-${edge.target}-${edge.type}`}
+                    className="cursor-pointer"
+                    opacity={hasFocus && !highlighted ? 0.2 : 1}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setSelectedEdge(index);
+                      setSelectedNode(null);
+                    }}
+                  >
+                    <line
+                      x1={from.x}
+                      y1={from.y}
+                      x2={to.x}
+                      y2={to.y}
+                      stroke={RELATIONSHIP_COLORS[edge.type]}
+                      strokeWidth={highlighted ? 3 : 2}
+                      markerEnd={`url(#arrow-${edge.type})`}
+                    />
+                    {/* Wider invisible line so edges are easy to click */}
+                    <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke="transparent" strokeWidth={12} />
+                    <text
+                      x={(from.x + to.x) / 2}
+                      y={(from.y + to.y) / 2 - 6}
+                      textAnchor="middle"
+                      className="text-[11px]"
+                      fill={RELATIONSHIP_COLORS[edge.type]}
+                    >
+                      {edge.type}
+                    </text>
+                  </g>
+                );
+              })}
+              {characters.map(character => {
+                const position = positions[character.name];
+                if (!position) return null;
+                const isSelected = selectedNode === character.name;
+                return (
+                  <g
+                    key={character.name}
+                    transform={`translate(${position.x}, ${position.y})`}
+                    className={cn(draggingNode === character.name ? "cursor-grabbing" : "cursor-grab")}
+                    onPointerDown={(e) => {
+                      e.stopPropagation();
+                      setDraggingNode(character.name);
+                    }}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setSelectedNode(isSelected ? null : character.name);
+                      setSelectedEdge(null);
+                    }}
+                  >
+                    <circle
+                      r={NODE_RADIUS}
+                      className={cn("fill-background stroke-primary", isSelected ? "stroke-[3]" : "stroke-[1.5]")}
+                    />
+                    <text textAnchor="middle" dy="0.35em" className="fill-foreground text-[11px] font-medium">
+                      {getShortName(character.name).slice(0, 8)}
+                    </text>
+                    <title>{character.name}</title>
+                  </g>
+                );
+              })}
+            </svg>
+
+            <div className="flex flex-wrap gap-3 text-xs">
+              {RELATIONSHIP_TYPES.map(type => (
+                <div key={type} className="flex items-center gap-1.5">
+                  <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: RELATIONSHIP_COLORS[type] }} />
+                  <span className="capitalize">{type}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium">Relationships ({edges.length})</h3>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleExtract}
+                  disabled={isExtracting || characters.length < 2}
+                >
+                  {isExtracting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Wand2 className="h-4 w-4 mr-2" />}
+                  Extract From Characters
+                </Button>
+              </div>
+              {edges.length === 0 && (
+                <p className="text-sm text-muted-foreground">No relationships yet. Extract them from the character descriptions or add them below.</p>
+              )}
+              {edges.map((edge, index) => (
+                <div
+                  key={`${edge.source}-${edge.target}-${edge.type}`}
+                  className={cn(
+                    "flex items-center gap-2 p-2 rounded-md text-sm cursor-pointer",
+                    selectedEdge === index ? "bg-accent" : "bg-muted/50"
+                  )}
+                  onClick={() => {
+                    setSelectedEdge(index);
+                    setSelectedNode(null);
+                  }}
+                >
+                  <span className="h-2.5 w-2.5 rounded-full shrink-0" style={{ backgroundColor: RELATIONSHIP_COLORS[edge.type] }} />
+                  <span className="font-medium">{edge.source}</span>
+                  <span className="text-muted-foreground">→ {edge.type} →</span>
+                  <span className="font-medium">{edge.target}</span>
+                  {edge.description && <span className="text-muted-foreground truncate">{edge.description}</span>}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="ml-auto h-7 w-7 shrink-0 text-[#ea384c] dark:text-red-400"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleRemoveEdge(index);
+                    }}
+                    aria-label="Remove relationship"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 items-end">
+              <Select value={newEdge.source} onValueChange={(value) => setNewEdge(prev => ({ ...prev, source: value }))}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Character" />
+                </SelectTrigger>
+                <SelectContent>
+                  {characters.map(character => (
+                    <SelectItem key={character.name} value={character.name}>{character.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={newEdge.type} onValueChange={(value) => setNewEdge(prev => ({ ...prev, type: value as RelationshipType }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RELATIONSHIP_TYPES.map(type => (
+                    <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={newEdge.target} onValueChange={(value) => setNewEdge(prev => ({ ...prev, target: value }))}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Other character" />
+                </SelectTrigger>
+                <SelectContent>
+                  {characters.map(character => (
+                    <SelectItem key={character.name} value={character.name}>{character.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={newEdge.description}
+                onChange={(e) => setNewEdge(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="Description (optional)"
+              />
+            </div>
+            <Button variant="outline" className="w-full" onClick={handleAddEdge} disabled={!newEdge.source || !newEdge.target}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Relationship
+            </Button>
+          </div>
+        </ScrollArea>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || isExtracting}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Relationships
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
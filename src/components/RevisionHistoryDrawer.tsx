@@ -0,0 +1,179 @@
+import { useEffect, useMemo, useState } from "react";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { ScrollArea } from "./ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { REVISION_SOURCE_LABELS } from "@/lib/revisions";
+import { countWordChanges, diffWords } from "@/lib/text-diff";
+import { revisionService } from "@/services/RevisionService";
+import type { ChapterRevision } from "@/types/revision";
+
+// Compares against the chapter as it is in the editor
+const CURRENT = "current";
+
+interface RevisionHistoryDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  storyId: string;
+  chapterNumber: number;
+  chapterTitle: string;
+  currentContent: string;
+  onRestore: (content: string) => void;
+}
+
+export function RevisionHistoryDrawer({
+  isOpen,
+  onClose,
+  storyId,
+  chapterNumber,
+  chapterTitle,
+  currentContent,
+  onRestore,
+}: RevisionHistoryDrawerProps) {
+  const { toast } = useToast();
+  const [revisions, setRevisions] = useState<ChapterRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareWith, setCompareWith] = useState(CURRENT);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setLoading(true);
+    revisionService.getRevisions(storyId, chapterNumber, true)
+      .then(loaded => {
+        if (cancelled) return;
+        setRevisions(loaded);
+        setSelectedId(loaded[0]?.id ?? null);
+        setCompareWith(CURRENT);
+      })
+      .catch(error => {
+        console.error("Failed to load chapter revisions:", error);
+        toast({
+          title: "Error",
+          description: (error as Error).message || "Failed to load the chapter history",
+          variant: "destructive",
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, storyId, chapterNumber, toast]);
+
+  const selected = revisions.find(revision => revision.id === selectedId);
+  const compared = compareWith === CURRENT
+    ? currentContent
+    : revisions.find(revision => revision.id === compareWith)?.content ?? "";
+
+  // The diff reads from the selected revision to the text it's compared with
+  const diff = useMemo(() => selected ? diffWords(selected.content, compared) : [], [selected, compared]);
+  const changes = countWordChanges(diff);
+
+  const handleRestore = () => {
+    if (!selected) return;
+    onRestore(selected.content);
+    onClose();
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="w-full sm:max-w-4xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            {chapterTitle} History
+          </SheetTitle>
+          <SheetDescription>
+            A version is saved after every AI change and every few minutes while you edit.
+          </SheetDescription>
+        </SheetHeader>
+
+        {loading ? (
+          <div className="flex flex-1 items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No versions of this chapter have been saved yet.</p>
+        ) : (
+          <div className="grid flex-1 min-h-0 gap-4 md:grid-cols-[240px_1fr]">
+            <ScrollArea className="h-full pr-2">
+              <div className="space-y-1">
+                {revisions.map(revision => (
+                  <button
+                    key={revision.id}
+                    type="button"
+                    onClick={() => setSelectedId(revision.id)}
+                    className={cn(
+                      "w-full rounded p-2 text-left text-sm hover:bg-muted",
+                      revision.id === selectedId && "bg-muted ring-1 ring-primary"
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <Badge variant="secondary">{REVISION_SOURCE_LABELS[revision.source]}</Badge>
+                      <span className="text-xs text-muted-foreground">{revision.word_count} words</span>
+                    </div>
+                    <p className="mt-1 text-xs text-muted-foreground">{new Date(revision.created_at).toLocaleString()}</p>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="flex min-h-0 flex-col gap-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-muted-foreground">Compare with</span>
+                  <Select value={compareWith} onValueChange={setCompareWith}>
+                    <SelectTrigger className="w-[220px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={CURRENT}>Current chapter</SelectItem>
+                      {revisions.filter(revision => revision.id !== selectedId).map(revision => (
+                        <SelectItem key={revision.id} value={revision.id}>
+                          {REVISION_SOURCE_LABELS[revision.source]}, {new Date(revision.created_at).toLocaleString()}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="text-xs text-muted-foreground">+{changes.added} −{changes.removed} words</span>
+                </div>
+                <Button size="sm" onClick={handleRestore} disabled={!selected}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Restore This Version
+                </Button>
+              </div>
+              <ScrollArea className="flex-1 rounded-lg bg-muted/50 p-3">
+                {changes.added === 0 && changes.removed === 0 ? (
+                  <p className="text-sm text-muted-foreground">No differences.</p>
+                ) : (
+                  <p className="text-sm whitespace-pre-wrap leading-relaxed">
+                    {diff.map((part, index) => (
+                      <span
+                        key={index}
+                        className={cn(
+                          part.type === "added" && "bg-green-500/15 text-green-700 dark:text-green-400",
+                          part.type === "removed" && "bg-red-500/15 text-red-700 line-through dark:text-red-400"
+                        )}
+                      >
+                        {part.text}
+                      </span>
+                    ))}
+                  </p>
+                )}
+              </ScrollArea>
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
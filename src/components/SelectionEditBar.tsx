@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { Check, Loader2, Sparkles, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { cn } from "@/lib/utils";
+import { SELECTION_ACTIONS, type SelectionAction } from "@/lib/selection-edit";
+
+interface SelectionEditBarProps {
+  // Words in the selected passage
+  wordCount: number;
+  status: "idle" | "streaming" | "review";
+  disabled?: boolean;
+  onAction: (action: SelectionAction, instruction?: string) => void;
+  onCancel: () => void;
+  onAccept: () => void;
+  onReject: () => void;
+  className?: string;
+}
+
+// AI actions for the passage selected in the writing area, and accept/reject for the result
+export function SelectionEditBar({ wordCount, status, disabled = false, onAction, onCancel, onAccept, onReject, className }: SelectionEditBarProps) {
+  const [instruction, setInstruction] = useState("");
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-2 rounded-lg bg-muted p-2 text-sm", className)}>
+      {status === "idle" && (
+        <>
+          <span className="px-1 text-xs text-muted-foreground">
+            {wordCount} word{wordCount === 1 ? "" : "s"} selected
+          </span>
+          <form
+            className="flex items-center gap-1"
+            onSubmit={(e) => {
+              e.preventDefault();
+              onAction("rewrite", instruction);
+            }}
+          >
+            <Input
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              placeholder="How should it be rewritten?"
+              className="h-8 w-64 text-xs"
+              disabled={disabled}
+            />
+            <Button type="submit" size="sm" variant="outline" disabled={disabled}>
+              <Sparkles className="h-4 w-4 mr-1" />
+              Rewrite
+            </Button>
+          </form>
+          {SELECTION_ACTIONS.filter(action => action.id !== "rewrite").map(action => (
+            <Button key={action.id} size="sm" variant="ghost" onClick={() => onAction(action.id)} disabled={disabled}>
+              {action.label}
+            </Button>
+          ))}
+        </>
+      )}
+      {status === "streaming" && (
+        <>
+          <span className="flex items-center gap-2 px-1">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Editing the selection...
+          </span>
+          <Button size="sm" variant="destructive" onClick={onCancel}>
+            Cancel
+          </Button>
+        </>
+      )}
+      {status === "review" && (
+        <>
+          <span className="px-1">Keep the edited passage?</span>
+          <Button size="sm" onClick={onAccept}>
+            <Check className="h-4 w-4 mr-1" />
+            Accept
+          </Button>
+          <Button size="sm" variant="outline" onClick={onReject}>
+            <X className="h-4 w-4 mr-1" />
+            Reject
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ import { useSeriesService } from "@/hooks/use-series-service";
 import { Button } from "./ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { Story } from "@/types/story";
+import { normalizeOutline } from "@/lib/outline-parser";
 import { supabase } from "@/integrations/supabase/client";
 import { AnimatePresence, motion } from "framer-motion";
 import { cn } from "@/lib/utils";
@@ -135,7 +136,8 @@ export function SequelGenerationModal({
           setCurrentStep(1);
           const title = await storyService.createTitle(
             sequelIdea,
-            abortControllerRef.current?.signal
+            abortControllerRef.current?.signal,
+            originalStory.story_profile
           );
           
           // Check if cancelled after the operation
@@ -206,7 +208,8 @@ export function SequelGenerationModal({
         setProposedTitle(null);
         const newTitle = await storyService.createTitle(
           sequelIdea,
-          abortControllerRef.current?.signal
+          abortControllerRef.current?.signal,
+          originalStory.story_profile
         );
         
         // Check if we're cancelling
@@ -247,7 +250,8 @@ export function SequelGenerationModal({
         setCurrentStep(2);
         const plotOutline = await storyService.createOutline(
           sequelIdea,
-          abortControllerRef.current?.signal
+          abortControllerRef.current?.signal,
+          originalStory.story_profile
         );
         
         // Check if we're cancelling
@@ -312,12 +316,12 @@ export function SequelGenerationModal({
             } catch (error) {
               // If it's not valid JSON, treat it as a string and create a single-item array
               console.error('Plot outline is not valid JSON, creating default format');
-              formattedPlotOutline = JSON.stringify([plotOutline || "Chapter 1: Begin your sequel here..."]);
+              formattedPlotOutline = JSON.stringify(normalizeOutline([plotOutline || "Chapter 1: Begin your sequel here..."]));
             }
           }
         } else {
           // Default empty outline
-          formattedPlotOutline = JSON.stringify(["Chapter 1: Begin your sequel here..."]);
+          formattedPlotOutline = JSON.stringify(normalizeOutline(["Chapter 1: Begin your sequel here..."]));
         }
         
         console.log('Formatted plot outline:', formattedPlotOutline);
@@ -325,8 +329,9 @@ export function SequelGenerationModal({
         const sequelData = {
           title: finalTitle,
           story_idea: sequelIdea,
+          story_profile: originalStory.story_profile,
           plot_outline: formattedPlotOutline,
-          characters: characters || '',
+          characters: characters || [],
           is_sequel: true,
           parent_story_id: originalStory.id
         };
@@ -0,0 +1,67 @@
+import { useState } from "react";
+import { AlertTriangle, ChevronDown, Loader2, RefreshCw } from "lucide-react";
+import { Button } from "./ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "./ui/collapsible";
+import { cn } from "@/lib/utils";
+import type { SimilarityReport } from "@/lib/similarity";
+
+interface SimilarityWarningProps {
+  report: SimilarityReport;
+  // What the text was compared with, e.g. "this chapter"
+  subject: string;
+  onRewrite?: () => void;
+  rewriting?: boolean;
+  className?: string;
+}
+
+// Shows which names and passages generated text copied from its source Reddit post
+export function SimilarityWarning({ report, subject, onRewrite, rewriting = false, className }: SimilarityWarningProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!report.flagged) return null;
+
+  return (
+    <Collapsible
+      open={isOpen}
+      onOpenChange={setIsOpen}
+      className={cn("rounded-lg border border-amber-300 bg-amber-50 text-sm dark:border-amber-700 dark:bg-amber-950/40", className)}
+    >
+      <div className="flex items-start justify-between gap-3 p-3">
+        <div className="flex items-start gap-2">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-amber-600 dark:text-amber-400" />
+          <div>
+            <p className="font-medium">{subject.charAt(0).toUpperCase() + subject.slice(1)} is close to the original Reddit post</p>
+            <p className="text-xs text-muted-foreground">
+              {Math.round(report.score * 100)}% shared wording
+              {report.sharedNames.length > 0 && `, reuses ${report.sharedNames.join(", ")}`}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          {onRewrite && (
+            <Button variant="outline" size="sm" onClick={onRewrite} disabled={rewriting}>
+              {rewriting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+              Rewrite
+            </Button>
+          )}
+          {report.passages.length > 0 && (
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" size="sm" aria-label="Show copied passages">
+                <ChevronDown className={cn("h-4 w-4 transition-transform", isOpen && "rotate-180")} />
+              </Button>
+            </CollapsibleTrigger>
+          )}
+        </div>
+      </div>
+      <CollapsibleContent>
+        <ul className="space-y-2 px-3 pb-3 max-h-[200px] overflow-y-auto">
+          {report.passages.map((passage, index) => (
+            <li key={index} className="rounded bg-white/60 p-2 text-xs text-muted-foreground dark:bg-gray-800/60">
+              "{passage.text}"
+            </li>
+          ))}
+        </ul>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
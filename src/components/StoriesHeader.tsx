@@ -1,13 +1,14 @@
 import { Button } from "@/components/ui/button";
-import { Plus, LogOut, Settings } from "lucide-react";
+import { Plus, LogOut, Settings, Lightbulb, Layers } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 
 interface StoriesHeaderProps {
   onCreateStory: () => void;
+  onBatchCreate: () => void;
   onSignOut: () => void;
 }
 
-export function StoriesHeader({ onCreateStory, onSignOut }: StoriesHeaderProps) {
+export function StoriesHeader({ onCreateStory, onBatchCreate, onSignOut }: StoriesHeaderProps) {
   const navigate = useNavigate();
 
   return (
@@ -22,6 +23,22 @@ export function StoriesHeader({ onCreateStory, onSignOut }: StoriesHeaderProps)
             <Plus className="h-4 w-4" />
             New Story
           </Button>
+          <Button
+            variant="outline"
+            onClick={onBatchCreate}
+            className="gap-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700"
+          >
+            <Layers className="h-4 w-4" />
+            Batch
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => navigate('/ideas')}
+            className="gap-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700"
+          >
+            <Lightbulb className="h-4 w-4" />
+            Idea Bank
+          </Button>
           <Button
             variant="outline"
             onClick={() => navigate('/settings')}
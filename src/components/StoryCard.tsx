@@ -100,7 +100,8 @@ export function StoryCard({ story, onDelete, onCreateSequel }: StoryCardProps) {
                 // Transform the data to match Story type
                 const stories = data.map(s => ({
                   ...s,
-                  chapters: Array.isArray(s.chapters) ? s.chapters : JSON.parse(s.chapters as string)
+                  chapters: Array.isArray(s.chapters) ? s.chapters : JSON.parse(s.chapters as string),
+                  source_posts: s.source_posts as unknown as Story['source_posts']
                 })) as Story[];
                 
                 setRelatedStories(stories);
@@ -15,6 +15,12 @@ import { Input } from "./ui/input";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "./ui/collapsible";
 import { AnimatePresence, motion } from "framer-motion";
 import { cn } from "@/lib/utils";
+import { SimilarityWarning } from "./SimilarityWarning";
+import { useAuth } from "./AuthProvider";
+import { ideaBankService } from "@/services/IdeaBankService";
+import { DEFAULT_STORY_PROFILE } from "@/lib/story-profiles";
+import { toSourceRef, type RedditPost } from "@/integrations/reddit/client";
+import type { IdeaSource } from "@/services/StoryService";
 
 interface StoryGenerationModalProps {
   open: boolean;
@@ -22,6 +28,10 @@ interface StoryGenerationModalProps {
   onComplete: (storyId: string) => void;
   source?: 'reddit' | 'fine-tune' | 'custom';
   customIdea?: string;
+  // Reddit posts the user picked to base the idea on, instead of a random one
+  redditPosts?: RedditPost[];
+  // Genre profile from profiles.json the story is generated with
+  profileName?: string;
 }
 
 const STEPS = [
@@ -52,7 +62,7 @@ const STEPS = [
   }
 ];
 
-export function StoryGenerationModal({ open, onClose, onComplete, source = 'reddit', customIdea = '' }: StoryGenerationModalProps) {
+export function StoryGenerationModal({ open, onClose, onComplete, source = 'reddit', customIdea = '', redditPosts, profileName }: StoryGenerationModalProps) {
   const [currentStep, setCurrentStep] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [proposedTitle, setProposedTitle] = useState<string | null>(null);
@@ -63,10 +73,41 @@ export function StoryGenerationModal({ open, onClose, onComplete, source = 'redd
   const [customTitle, setCustomTitle] = useState("");
   const [isStoryIdeaOpen, setIsStoryIdeaOpen] = useState(false);
   const [isCancelling, setIsCancelling] = useState(false);
+  // The Reddit posts the idea came from, used to warn when the idea copies them
+  const [ideaSource, setIdeaSource] = useState<IdeaSource | null>(null);
+  const [isRewritingIdea, setIsRewritingIdea] = useState(false);
+  // The idea bank entry for the generated idea
+  const [bankedIdeaId, setBankedIdeaId] = useState<string | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
   const storyService = useStoryService();
+  const { user } = useAuth();
   const { toast } = useToast();
 
+  // Keep every generated idea in the idea bank so it isn't lost when the title is rejected or generation is cancelled
+  const bankIdea = useCallback(async (idea: string, summary: string) => {
+    if (!user) return;
+    const ideaSource = storyService.getLastIdeaSource();
+    try {
+      const banked = await ideaBankService.saveIdea(user.id, {
+        idea,
+        summary,
+        source: ideaSource ? 'reddit' : 'fine-tune',
+        story_profile: profileName || DEFAULT_STORY_PROFILE,
+        source_posts: ideaSource ? ideaSource.posts.map(toSourceRef) : []
+      });
+      setBankedIdeaId(banked.id);
+    } catch (error) {
+      console.warn('Failed to save the story idea to the idea bank:', (error as Error).message);
+    }
+  }, [user, profileName, storyService]);
+
+  const updateBankedIdea = (updates: Parameters<typeof ideaBankService.updateIdea>[2]) => {
+    if (!user || !bankedIdeaId) return;
+    ideaBankService.updateIdea(user.id, bankedIdeaId, updates).catch(error => {
+      console.warn('Failed to update the idea bank:', (error as Error).message);
+    });
+  };
+
   // Define the generateStoryIdea function using useCallback to avoid dependency issues
   const generateStoryIdea = useCallback(async () => {
     try {
@@ -92,7 +133,8 @@ export function StoryGenerationModal({ open, onClose, onComplete, source = 'redd
         // Generate title from the custom idea
         const title = await storyService.createTitle(
           customIdea,
-          abortControllerRef.current?.signal
+          abortControllerRef.current?.signal,
+          profileName
         );
         
         // Check if we're cancelling
@@ -117,13 +159,21 @@ export function StoryGenerationModal({ open, onClose, onComplete, source = 'redd
       if (source === 'fine-tune') {
         idea = await storyService.generateStoryIdea(
           abortControllerRef.current?.signal,
-          'fine-tune'
+          'fine-tune',
+          profileName
+        );
+      } else if (redditPosts?.length) {
+        idea = await storyService.generateStoryIdeaFromPosts(
+          redditPosts,
+          abortControllerRef.current?.signal,
+          profileName
         );
       } else {
         // Default to reddit source
         idea = await storyService.generateStoryIdea(
           abortControllerRef.current?.signal,
-          'reddit'
+          'reddit',
+          profileName
         );
       }
       
@@ -131,6 +181,7 @@ export function StoryGenerationModal({ open, onClose, onComplete, source = 'redd
       if (isCancelling || !abortControllerRef.current) return;
       
       setStoryIdea(idea);
+      setIdeaSource(storyService.getLastIdeaSource());
       
       // Generate a summary of the idea
       const summary = await storyService.generateStoryIdeaSummary(
@@ -142,12 +193,14 @@ export function StoryGenerationModal({ open, onClose, onComplete, source = 'redd
       if (isCancelling || !abortControllerRef.current) return;
       
       setStoryIdeaSummary(summary);
+      bankIdea(idea, summary);
       
       // Generate title from the idea
       setCurrentStep(1);
       const title = await storyService.createTitle(
         idea,
-        abortControllerRef.current?.signal
+        abortControllerRef.current?.signal,
+        profileName
       );
       
       // Check if we're cancelling
@@ -170,7 +223,7 @@ export function StoryGenerationModal({ open, onClose, onComplete, source = 'redd
         setError(error.message || 'An error occurred while generating the story idea');
       }
     }
-  }, [source, customIdea, storyService, isCancelling]);
+  }, [source, customIdea, redditPosts, profileName, storyService, isCancelling, bankIdea]);
 
   // Create a new AbortController when the modal opens
   useEffect(() => {
@@ -188,6 +241,9 @@ export function StoryGenerationModal({ open, onClose, onComplete, source = 'redd
       setIsEditingTitle(false);
       setCustomTitle("");
       setIsStoryIdeaOpen(false);
+      setIdeaSource(null);
+      setIsRewritingIdea(false);
+      setBankedIdeaId(null);
       
       // Create a new AbortController
       abortControllerRef.current = new AbortController();
@@ -234,6 +290,9 @@ export function StoryGenerationModal({ open, onClose, onComplete, source = 'redd
     setIsEditingTitle(false);
     setCustomTitle("");
     setIsStoryIdeaOpen(false);
+    setIdeaSource(null);
+    setIsRewritingIdea(false);
+    setBankedIdeaId(null);
     
     // Notify parent component
     onClose();
@@ -255,7 +314,8 @@ export function StoryGenerationModal({ open, onClose, onComplete, source = 'redd
         setProposedTitle(null);
         const newTitle = await storyService.createTitle(
           storyIdea,
-          abortControllerRef.current?.signal
+          abortControllerRef.current?.signal,
+          profileName
         );
         
         // Check if we're cancelling
@@ -293,7 +353,8 @@ export function StoryGenerationModal({ open, onClose, onComplete, source = 'redd
         setCurrentStep(2);
         const plotOutline = await storyService.createOutline(
           storyIdea,
-          abortControllerRef.current?.signal
+          abortControllerRef.current?.signal,
+          profileName
         );
         
         // Check if we're cancelling
@@ -314,11 +375,14 @@ export function StoryGenerationModal({ open, onClose, onComplete, source = 'redd
         const storyToSave = {
           title: finalTitle,
           story_idea: storyIdea,
+          story_profile: profileName,
+          source_posts: ideaSource ? ideaSource.posts.map(toSourceRef) : [],
           plot_outline: plotOutline ? JSON.stringify(plotOutline) : '',
-          characters: characters || ''
+          characters: characters || []
         };
         
         const storyId = await storyService.saveStory(storyToSave);
+        updateBankedIdea({ story_id: storyId });
         
         // Check if we're cancelling
         if (isCancelling || !abortControllerRef.current) return;
@@ -357,6 +421,44 @@ export function StoryGenerationModal({ open, onClose, onComplete, source = 'redd
     }
   };
 
+  // Rewrite an idea that copies too much of its Reddit post, keeping the proposed title
+  const handleRewriteIdea = async () => {
+    if (!storyData || isCancelling || !abortControllerRef.current) return;
+
+    setIsRewritingIdea(true);
+    try {
+      const idea = await storyService.rewriteSimilarIdea(abortControllerRef.current?.signal, profileName);
+      if (isCancelling || !abortControllerRef.current) return;
+
+      setStoryIdea(idea);
+      setIdeaSource(storyService.getLastIdeaSource());
+      setStoryData({
+        ...storyData,
+        story_idea: idea
+      });
+
+      setStoryIdeaSummary(null);
+      const summary = await storyService.generateStoryIdeaSummary(idea, abortControllerRef.current?.signal);
+      if (isCancelling || !abortControllerRef.current) return;
+      setStoryIdeaSummary(summary);
+      updateBankedIdea({ idea, summary });
+    } catch (error) {
+      if ((error as Error).name === 'AbortError' || isCancelling || !abortControllerRef.current) {
+        console.log('Story idea rewrite aborted');
+      } else {
+        console.error('Error rewriting story idea:', error);
+        toast({
+          title: "Error",
+          description: (error as Error).message || 'An error occurred while rewriting the story idea',
+          variant: "destructive",
+          duration: 3000,
+        });
+      }
+    } finally {
+      setIsRewritingIdea(false);
+    }
+  };
+
   const toggleEditTitle = () => {
     setIsEditingTitle(!isEditingTitle);
   };
@@ -529,6 +631,15 @@ export function StoryGenerationModal({ open, onClose, onComplete, source = 'redd
                           </motion.div>
                         </AnimatePresence>
                         
+                        {ideaSource && (
+                          <SimilarityWarning
+                            report={ideaSource.similarity}
+                            subject="this story idea"
+                            onRewrite={handleRewriteIdea}
+                            rewriting={isRewritingIdea}
+                          />
+                        )}
+
                         {/* Story idea preview */}
                         <Collapsible 
                           open={isStoryIdeaOpen} 
@@ -5,15 +5,27 @@ import {
   DialogTitle,
   DialogDescription,
 } from "@/components/ui/dialog";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
-import { BookOpen, MessageSquare, Lightbulb, PenTool } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MessageSquare, Lightbulb, PenTool } from "lucide-react";
+import { DEFAULT_STORY_PROFILE, getRedditSource, getStoryProfile, listStoryProfiles } from "@/lib/story-profiles";
+import { useAuth } from "@/components/AuthProvider";
+import { storyProfileService } from "@/services/StoryProfileService";
+import type { StoryProfile } from "@/types/story";
 
-export type StorySource = "reddit" | "fine-tune" | "custom";
+// "reddit-pick" lets the user choose the Reddit posts instead of taking a random one
+export type StorySource = "reddit" | "reddit-pick" | "fine-tune" | "custom";
 
 interface StorySourceSelectionModalProps {
   open: boolean;
   onClose: () => void;
-  onSelectSource: (source: StorySource) => void;
+  onSelectSource: (source: StorySource, profileName: string) => void;
+}
+
+function RecommendedLabel() {
+  return <span className="ml-2 text-xs font-normal text-muted-foreground">Recommended</span>;
 }
 
 export function StorySourceSelectionModal({ 
@@ -21,6 +33,19 @@ export function StorySourceSelectionModal({
   onClose, 
   onSelectSource 
 }: StorySourceSelectionModalProps) {
+  const { user } = useAuth();
+  const [profileName, setProfileName] = useState(DEFAULT_STORY_PROFILE);
+  const [profiles, setProfiles] = useState<StoryProfile[]>(listStoryProfiles);
+  const profile = getStoryProfile(profileName);
+
+  // Offer the user's own profiles alongside the built-in ones
+  useEffect(() => {
+    if (!open || !user) return;
+    storyProfileService.getProfiles(user.id)
+      .then(() => setProfiles(listStoryProfiles()))
+      .catch(error => console.warn("Failed to load your story profiles:", (error as Error).message));
+  }, [open, user]);
+
   return (
     <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
       <DialogContent className="sm:max-w-[500px]">
@@ -32,8 +57,25 @@ export function StorySourceSelectionModal({
         </DialogHeader>
         
         <div className="grid gap-4 py-4">
+          <div className="space-y-2">
+            <Label>Genre Profile</Label>
+            <Select value={profileName} onValueChange={setProfileName}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map(item => (
+                  <SelectItem key={item.name} value={item.name}>{item.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Ideas from {getRedditSource(profile).subreddits.map(name => `r/${name}`).join(", ")} posts over {profile.min_length.toLocaleString()} characters, about {profile.num_scenes} chapters per story
+            </p>
+          </div>
+
           <Button 
-            onClick={() => onSelectSource("reddit")}
+            onClick={() => onSelectSource("reddit", profile.name)}
             variant="outline" 
             className="flex items-center justify-start gap-3 p-6 h-auto hover:border-red-200 dark:hover:border-red-800 hover:bg-red-50/50 dark:hover:bg-red-900/10 transition-all"
           >
@@ -41,15 +83,26 @@ export function StorySourceSelectionModal({
               <MessageSquare className="h-5 w-5 text-red-500 dark:text-red-400" />
             </div>
             <div className="text-left">
-              <h3 className="font-medium text-base">Reddit Inspiration</h3>
+              <h3 className="font-medium text-base">
+                Reddit Inspiration
+                {profile.use_reddit && <RecommendedLabel />}
+              </h3>
               <p className="text-sm text-muted-foreground">
                 Generate a story idea based on popular Reddit posts
               </p>
             </div>
           </Button>
+          <Button
+            variant="link"
+            size="sm"
+            className="-mt-3 h-auto justify-start px-0 text-muted-foreground"
+            onClick={() => onSelectSource("reddit-pick", profile.name)}
+          >
+            Or browse the posts and pick one yourself
+          </Button>
           
           <Button 
-            onClick={() => onSelectSource("fine-tune")}
+            onClick={() => onSelectSource("fine-tune", profile.name)}
             variant="outline" 
             className="flex items-center justify-start gap-3 p-6 h-auto hover:border-primary/50 dark:hover:border-primary/40 hover:bg-primary/5 dark:hover:bg-primary/10 transition-all"
           >
@@ -57,7 +110,10 @@ export function StorySourceSelectionModal({
               <Lightbulb className="h-5 w-5 text-primary dark:text-primary/90" />
             </div>
             <div className="text-left">
-              <h3 className="font-medium text-base">AI Generation</h3>
+              <h3 className="font-medium text-base">
+                AI Generation
+                {!profile.use_reddit && <RecommendedLabel />}
+              </h3>
               <p className="text-sm text-muted-foreground">
                 Use our fine-tuned AI model to create a unique story idea
               </p>
@@ -74,7 +130,7 @@ export function StorySourceSelectionModal({
           </div>
           
           <Button 
-            onClick={() => onSelectSource("custom")}
+            onClick={() => onSelectSource("custom", profile.name)}
             variant="outline" 
             className="flex items-center justify-start gap-3 p-4 h-auto hover:border-green-200 dark:hover:border-green-800 hover:bg-green-50/50 dark:hover:bg-green-900/10 transition-all"
           >
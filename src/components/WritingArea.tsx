@@ -1,5 +1,6 @@
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { 
   CheckCircle, 
   MessageSquare, 
@@ -9,7 +10,11 @@ import {
   PenTool,
   Loader2,
   ArrowRightLeft,
-  Wand2
+  Wand2,
+  Gauge,
+  Layers,
+  History,
+  FastForward
 } from "lucide-react";
 import { useState, useEffect, useRef } from "react";
 import { useToast } from "@/hooks/use-toast";
@@ -17,15 +22,38 @@ import { StoryOutlineModal } from "./StoryOutlineModal";
 import { FeedbackModal } from "./FeedbackModal";
 import { supabase } from "@/integrations/supabase/client";
 import { FeedbackDialog } from "./FeedbackDialog";
+import { PromptBudgetPanel } from "./PromptBudgetPanel";
+import { DraftCompareModal } from "./DraftCompareModal";
+import { SelectionEditBar } from "./SelectionEditBar";
 import { useStoryService } from "@/hooks/use-story-service";
 import { cn } from "@/lib/utils";
+import { refineNarration } from "@/lib/refine";
+import { getSceneContext } from "@/lib/autopilot";
+import { CONTINUE_WORD_LIMITS, DEFAULT_CONTINUE_WORDS, insertContinuation } from "@/lib/continue-writing";
+import {
+  applySelectionEdit,
+  getSelectionAction,
+  getSelectionInstruction,
+  splitAtSelection,
+  trimSelection,
+  type SelectionAction,
+  type TextRange
+} from "@/lib/selection-edit";
 import { v4 as uuidv4 } from "uuid";
+import type { ChapterAlternate, ChapterSummary, OutlineChapter } from "@/types/story";
+import type { StepVariant } from "@/types/llm";
+import type { RevisionSource } from "@/types/revision";
+import type { DraftText } from "@/lib/drafts";
+import type { PromptBudget } from "@/lib/token-budget";
 
 interface WritingAreaProps {
   chapter?: {
     title: string;
     content: string;
     sceneBeat?: string;
+    outline?: OutlineChapter;
+    // Drafts of the chapter that weren't picked
+    alternates?: ChapterAlternate[];
   };
   chapters: {
     title: string;
@@ -34,31 +62,68 @@ interface WritingAreaProps {
     completed: boolean;
   }[];
   characters: string;
+  // The story's continuity ledger formatted for the prompt
+  continuity?: string;
+  // Cached summaries of completed chapters, used as context in place of the full chapters
+  summaries?: ChapterSummary[];
+  // Genre profile the story was generated with
+  storyProfile?: string;
   onSave: (content: string) => void;
   onComplete: () => void;
   onFeedback: (feedback: string) => void;
   onFinishStory?: () => void;
   onShowCharacters: () => void;
+  // Called when a draft is picked in the compare view, with the drafts to keep as alternates
+  onDraftChosen?: (content: string, unchosen: DraftText[]) => void;
+  // Called when an AI operation finishes, with the content it replaced, so a revision can be saved
+  onRevision?: (content: string, source: RevisionSource, previous: string) => void;
+  onShowHistory?: () => void;
+  // Set while autopilot is writing, so the chapter can't be edited or regenerated underneath it
+  locked?: boolean;
 }
 
 export function WritingArea({
   chapter = { title: 'New Chapter', content: '', sceneBeat: '' },
   chapters,
   characters,
+  continuity,
+  summaries,
+  storyProfile,
   onSave,
   onComplete,
   onFeedback,
   onFinishStory,
   onShowCharacters,
+  onDraftChosen,
+  onRevision,
+  onShowHistory,
+  locked = false,
 }: WritingAreaProps) {
   const [content, setContent] = useState(chapter.content || '');
   const [showFeedback, setShowFeedback] = useState(false);
   const [showOutline, setShowOutline] = useState(false);
+  const [showDrafts, setShowDrafts] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isRevising, setIsRevising] = useState(false);
+  const [showBudget, setShowBudget] = useState(false);
+  const [promptBudget, setPromptBudget] = useState<PromptBudget | null>(null);
   const [isGeneratingTransition, setIsGeneratingTransition] = useState(false);
   const [isRefining, setIsRefining] = useState(false);
+  // The passage selected in the textarea, for selection edits
+  const [selection, setSelection] = useState<TextRange | null>(null);
+  // A selection edit in progress: the chapter before the edit and where the new text is
+  const [selectionEdit, setSelectionEdit] = useState<{ original: string; range: TextRange; status: 'streaming' | 'review' } | null>(null);
+  const selectionControllerRef = useRef<AbortController | null>(null);
+  const [isContinuing, setIsContinuing] = useState(false);
+  // How many words Continue writes at most, remembered in this browser
+  const [continueWords, setContinueWords] = useState(() =>
+    Number(localStorage.getItem('continue_word_limit')) || DEFAULT_CONTINUE_WORDS
+  );
+  const continueControllerRef = useRef<AbortController | null>(null);
+  // Where the cursor was last put in the textarea; Continue writes at the end of the chapter until then
+  const cursorRef = useRef<number | null>(null);
   const currentClientIdRef = useRef<string | null>(null);
+  const refineControllerRef = useRef<AbortController | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const { toast } = useToast();
   const storyService = useStoryService();
@@ -69,6 +134,24 @@ export function WritingArea({
     setContent(chapter?.content || '');
   }, [chapter]);
 
+  // Work in progress belongs to the chapter it started on. Saving builds a new chapter object, so this
+  // follows the chapter's title (its position) rather than the object.
+  useEffect(() => {
+    selectionControllerRef.current?.abort();
+    setSelectionEdit(null);
+    setSelection(null);
+    // Drop a continuation that was being written for another chapter
+    const continueController = continueControllerRef.current;
+    continueControllerRef.current = null;
+    continueController?.abort();
+    setIsContinuing(false);
+    // A refine pass belongs to the chapter it started on
+    refineControllerRef.current?.abort();
+    refineControllerRef.current = null;
+    setIsRefining(false);
+    cursorRef.current = null;
+  }, [chapter?.title]);
+
   // Add visibility change listener to ensure processing continues in background
   useEffect(() => {
     const handleVisibilityChange = () => {
@@ -89,6 +172,8 @@ export function WritingArea({
     setIsRevising(false);
     setIsGeneratingTransition(false);
     setIsRefining(false);
+    refineControllerRef.current?.abort();
+    refineControllerRef.current = null;
     currentClientIdRef.current = null;
   };
 
@@ -117,20 +202,14 @@ export function WritingArea({
         return;
       }
 
-      // Get previous scenes for context
-      const previousScenes = chapters
-        .slice(0, chapters.findIndex(c => c.title === chapter.title))
-        .map(c => c.content)
-        .filter(Boolean);
-
-      // Get future scenes for context
-      const currentChapterIndex = chapters.findIndex(c => c.title === chapter.title);
-      const futureSceneBeats = chapters
-        .slice(currentChapterIndex + 1)
-        .map(c => c.sceneBeat)
-        .filter(Boolean);
+      // Get previous scenes and future beats for context
+      const { previousScenes, futureSceneBeats } = getSceneContext(
+        chapters,
+        chapters.findIndex(c => c.title === chapter.title)
+      );
 
       // Clear existing content if any
+      const originalContent = content;
       setContent('');
       
       // Create a variable to accumulate content for saving
@@ -178,8 +257,12 @@ export function WritingArea({
               }
             },
             undefined, // Signal parameter
-            futureSceneBeats // Pass future scene beats
+            futureSceneBeats, // Pass future scene beats
+            continuity,
+            summaries,
+            storyProfile
           );
+          setPromptBudget(storyService.getLastPromptBudget('scene'));
           
           console.log('Scene generation complete, length:', generatedScene?.length || 0);
           console.log('Checking client ID match before finalizing:', clientId, currentClientIdRef.current);
@@ -191,6 +274,7 @@ export function WritingArea({
             // Save the final content - no need to stream it again since we've already
             // been updating the content in real-time during generation
             onSave(accumulatedContent);
+            onRevision?.(accumulatedContent, 'generate', originalContent);
             
             // Only cleanup if this is still the current generation session
             cleanup();
@@ -231,6 +315,189 @@ export function WritingArea({
     }
   };
 
+  // Write one of the drafts shown in the compare view, with the same context as Write Scene
+  const writeDraft = (variant: StepVariant, onProgress: (chunk: string) => void, signal: AbortSignal) => {
+    const { previousScenes, futureSceneBeats } = getSceneContext(
+      chapters,
+      chapters.findIndex(c => c.title === chapter.title)
+    );
+    return storyService.writeScene(
+      chapter.sceneBeat || '',
+      characters,
+      previousScenes,
+      onProgress,
+      signal,
+      futureSceneBeats,
+      continuity,
+      summaries,
+      storyProfile,
+      variant
+    );
+  };
+
+  const handleDraftChosen = (chosen: string, unchosen: DraftText[]) => {
+    setContent(chosen);
+    if (onDraftChosen) {
+      onDraftChosen(chosen, unchosen);
+    } else {
+      onSave(chosen);
+    }
+  };
+
+  // Rewrite or continue the selected passage, streaming the new text into place for review
+  const handleSelectionAction = async (action: SelectionAction, instruction?: string) => {
+    if (!selection) return;
+    const { mode } = getSelectionAction(action);
+    const original = content;
+    const range = selection;
+    const { before, selection: passage, after } = splitAtSelection(original, range);
+
+    const controller = new AbortController();
+    selectionControllerRef.current = controller;
+    setSelectionEdit({ original, range, status: 'streaming' });
+
+    let streamed = '';
+    try {
+      const generated = await storyService.editSelection(
+        passage,
+        getSelectionInstruction(action, instruction),
+        before,
+        after,
+        chapter.sceneBeat || '',
+        (chunk) => {
+          if (controller.signal.aborted) return;
+          streamed += chunk;
+          setContent(applySelectionEdit(original, range, streamed, mode).content);
+        },
+        controller.signal,
+        storyProfile
+      );
+      if (controller.signal.aborted) return;
+
+      const result = applySelectionEdit(original, range, generated, mode);
+      setContent(result.content);
+      setSelectionEdit({ original, range: result.range, status: 'review' });
+      // Select the new text so it's clear what changed
+      requestAnimationFrame(() => {
+        textareaRef.current?.focus();
+        textareaRef.current?.setSelectionRange(result.range.start, result.range.end);
+      });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("Error editing selection:", error);
+      setContent(original);
+      setSelectionEdit(null);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to edit the selection. Please try again.",
+        variant: "destructive",
+        duration: 3000,
+      });
+    } finally {
+      if (selectionControllerRef.current === controller) {
+        selectionControllerRef.current = null;
+      }
+    }
+  };
+
+  // Cancelling or rejecting puts the chapter back as it was before the edit
+  const handleSelectionReject = () => {
+    selectionControllerRef.current?.abort();
+    if (selectionEdit) {
+      setContent(selectionEdit.original);
+    }
+    setSelectionEdit(null);
+  };
+
+  const handleSelectionAccept = () => {
+    if (!selectionEdit) return;
+    onSave(content);
+    onRevision?.(content, 'selection', selectionEdit.original);
+    setSelectionEdit(null);
+    setSelection(null);
+  };
+
+  // Continue the chapter from the cursor, streaming the new text in at the cursor
+  const handleContinue = async () => {
+    const original = content;
+    const cursor = Math.min(cursorRef.current ?? original.length, original.length);
+    const controller = new AbortController();
+    continueControllerRef.current = controller;
+    setIsContinuing(true);
+
+    let latest = '';
+    const finish = (text: string, description: string) => {
+      if (!text.trim()) {
+        setContent(original);
+        return;
+      }
+      const { content: updated, range } = insertContinuation(original, cursor, text);
+      setContent(updated);
+      onSave(updated);
+      onRevision?.(updated, 'continue', original);
+      cursorRef.current = range.end;
+      requestAnimationFrame(() => {
+        textareaRef.current?.focus();
+        textareaRef.current?.setSelectionRange(range.end, range.end);
+      });
+      toast({
+        title: "Chapter continued",
+        description,
+        duration: 3000,
+      });
+    };
+
+    try {
+      const { previousScenes } = getSceneContext(chapters, chapters.findIndex(c => c.title === chapter.title));
+      const result = await storyService.continueScene(
+        original.slice(0, cursor),
+        original.slice(cursor),
+        chapter.sceneBeat || '',
+        characters,
+        previousScenes,
+        continueWords,
+        (text) => {
+          if (continueControllerRef.current !== controller) return;
+          latest = text;
+          setContent(insertContinuation(original, cursor, text).content);
+        },
+        controller.signal,
+        summaries,
+        storyProfile,
+        chapter.outline?.target_word_count
+      );
+      if (continueControllerRef.current !== controller) return;
+      finish(result.text, result.stop === 'beat_complete'
+        ? "The chapter beat looks fully covered."
+        : `Wrote up to ${continueWords} words.`);
+    } catch (error) {
+      if (continueControllerRef.current !== controller) return;
+      if (controller.signal.aborted) {
+        // Stopped by the user: keep what was written so far
+        finish(latest, "Stopped early. The text written so far was kept.");
+        return;
+      }
+      console.error("Error continuing chapter:", error);
+      setContent(original);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to continue the chapter. Please try again.",
+        variant: "destructive",
+        duration: 3000,
+      });
+    } finally {
+      if (continueControllerRef.current === controller) {
+        continueControllerRef.current = null;
+        setIsContinuing(false);
+      }
+    }
+  };
+
+  const handleContinueWordsChange = (value: string) => {
+    setContinueWords(Number(value));
+    localStorage.setItem('continue_word_limit', value);
+  };
+
   const handleGenerateTransition = async () => {
     try {
       setIsGeneratingTransition(true);
@@ -299,7 +566,10 @@ export function WritingArea({
                 // Update the content in real-time to show the transition being written
                 setContent(transitionText + "\n\n" + originalContent);
               }
-            }
+            },
+            undefined,
+            // Summaries of the chapters before the previous one
+            summaries?.filter(summary => summary.chapter_number < currentChapterIndex)
           );
           
           // Only proceed if this is still the current transition session
@@ -307,6 +577,8 @@ export function WritingArea({
             // Set the final content directly without streaming it again
             const newContent = transition + '\n\n' + originalContent;
             setContent(newContent);
+            onSave(newContent);
+            onRevision?.(newContent, 'transition', originalContent);
             
             // Clean up
             cleanup();
@@ -380,12 +652,18 @@ export function WritingArea({
                 accumulatedContent += chunk;
                 setContent(prev => prev + chunk);
               }
-            }
+            },
+            undefined,
+            chapters.slice(0, chapters.findIndex(c => c.title === chapter.title)).map(c => c.content),
+            summaries
           );
           
           // Process the revised scene with the story model
           if (clientId === currentClientIdRef.current) {
             await streamOutput(revisedScene || accumulatedContent, clientId);
+            if (clientId === currentClientIdRef.current) {
+              onRevision?.(revisedScene || accumulatedContent, 'revise', originalContent);
+            }
             
             // Notify parent about feedback
             onFeedback(feedback);
@@ -442,6 +720,9 @@ export function WritingArea({
       // Generate a unique client ID for this refinement session
       const clientId = uuidv4();
       currentClientIdRef.current = clientId;
+      // Cancelling or switching chapters aborts the rewrites still to come
+      const controller = new AbortController();
+      refineControllerRef.current = controller;
       
       // Create a worker-like approach using a self-executing async function
       // This will continue running even when the tab is not active
@@ -460,59 +741,27 @@ export function WritingArea({
           // Set a temporary message to show processing is happening
           setContent("Refining your text... Please wait...\n\n" + savedContent);
           
-          // Split the content into narration and dialogue sections
-          const sections = splitIntoSections(savedContent);
-          
-          // Count how many narrative sections we need to process
-          const narrativeSections = sections.filter(section => 
-            section.trim() && !isDialogueSection(section) && !/^\s+$/.test(section)
+          // Rewrite the narration, showing progress through the narrative sections
+          const finalContent = await refineNarration(
+            savedContent,
+            section => storyService.rewriteInChunks(section, undefined, controller.signal),
+            (done, total) => {
+              if (clientId === currentClientIdRef.current) {
+                setContent(`Refining your text... ${Math.round((done / total) * 100)}% complete\n\n` + savedContent);
+              }
+            },
+            controller.signal
           );
           
-          console.log(`Total sections: ${sections.length}, Narrative sections to process: ${narrativeSections.length}`);
-          
-          // Create variables to accumulate the refined content
-          let processedSections: string[] = [];
-          let processedNarrativeCount = 0;
-          
-          // First, process all sections without updating the text area
-          for (let i = 0; i < sections.length; i++) {
-            // Only proceed if this is still the current refinement session
-            if (clientId !== currentClientIdRef.current) return;
-            
-            const section = sections[i];
-            
-            // Process the section
-            let processedSection: string;
-            
-            // Only process non-empty, non-dialogue sections
-            if (section.trim() && !isDialogueSection(section) && !/^\s+$/.test(section)) {
-              // Update the status message to show progress
-              processedNarrativeCount++;
-              const progressPercent = Math.round((processedNarrativeCount / narrativeSections.length) * 100);
-              setContent(`Refining your text... ${progressPercent}% complete\n\n` + savedContent);
-              
-              // Process narrative section
-              processedSection = await processTwoPassNarration(section);
-            } else {
-              // Keep dialogue, whitespace, and empty sections as is
-              processedSection = section;
-            }
-            
-            // Add to processed sections
-            processedSections.push(processedSection);
-          }
-          
           // Now that all processing is complete, update the content immediately
           // Only proceed if this is still the current refinement session
           if (clientId === currentClientIdRef.current) {
-            // Combine all processed sections exactly as they were
-            const finalContent = processedSections.join('');
-            
             // Set the content directly without streaming
             setContent(finalContent);
             
             // Save the content
             onSave(finalContent);
+            onRevision?.(finalContent, 'refine', savedContent);
             
             // Show success toast
             toast({
@@ -525,6 +774,7 @@ export function WritingArea({
             cleanup();
           }
         } catch (error) {
+          if (controller.signal.aborted) return;
           console.error("Error refining text:", error);
           if (clientId === currentClientIdRef.current) {
             toast({
@@ -552,120 +802,6 @@ export function WritingArea({
     }
   };
   
-  // Helper function to split content into narration and dialogue sections
-  const splitIntoSections = (text: string): string[] => {
-    // Preserve exact formatting by splitting on paragraph boundaries
-    // This regex captures paragraph breaks with their exact formatting
-    const paragraphRegex = /(\n\n+|\n+)/;
-    const parts = text.split(paragraphRegex);
-    
-    // Process parts: text, separator, text, separator, etc.
-    const sections: string[] = [];
-    let currentSection = '';
-    let currentType = '';
-    
-    for (let i = 0; i < parts.length; i++) {
-      const part = parts[i];
-      
-      // If this is a separator (newlines), add it to the current section
-      if (paragraphRegex.test(part)) {
-        if (currentSection) {
-          currentSection += part;
-        } else {
-          // If we don't have a current section, this is a leading separator
-          sections.push(part);
-        }
-        continue;
-      }
-      
-      // Skip empty parts but preserve them
-      if (!part.trim()) {
-        if (currentSection) {
-          // Add the current section to the list
-          sections.push(currentSection);
-          currentSection = '';
-        }
-        // Add the empty part as its own section
-        sections.push(part);
-        continue;
-      }
-      
-      // Determine the type of this part
-      const isDialoguePart = part.trim().startsWith('"');
-      const partType = isDialoguePart ? 'dialogue' : 'narrative';
-      
-      // If we're switching types or don't have a current section, start a new one
-      if (!currentSection || currentType !== partType) {
-        if (currentSection) {
-          sections.push(currentSection);
-        }
-        currentSection = part;
-        currentType = partType;
-      } else {
-        // Same type, add to current section
-        currentSection += part;
-      }
-    }
-    
-    // Add the last section if it's not empty
-    if (currentSection) {
-      sections.push(currentSection);
-    }
-    
-    return sections;
-  };
-  
-  // Helper function to check if a section is dialogue
-  const isDialogueSection = (section: string): boolean => {
-    // Check if the first non-whitespace character is a quote
-    const trimmed = section.trim();
-    return trimmed.length > 0 && trimmed[0] === '"';
-  };
-  
-  // Helper function to process narration with the fine-tune model
-  const processTwoPassNarration = async (section: string): Promise<string> => {
-    try {
-      // Skip processing for empty or whitespace-only sections
-      if (!section.trim()) {
-        console.log('Skipping empty section');
-        return section;
-      }
-      
-      // Skip processing for dialogue sections
-      if (isDialogueSection(section)) {
-        console.log('Skipping dialogue section');
-        return section;
-      }
-      
-      console.log('Processing narrative section:');
-      console.log('Original section (first 100 chars):', section.substring(0, 100) + '...');
-      
-      // Process with fine-tune model
-      const rewrittenText = await storyService.rewriteInChunks(section);
-      
-      // Ensure we're returning something with the same basic structure
-      if (!rewrittenText || rewrittenText.trim().length === 0) {
-        console.warn('Rewrite returned empty text, using original section');
-        return section;
-      }
-      
-      // Log the changes
-      console.log('Rewritten section (first 100 chars):', rewrittenText.substring(0, 100) + '...');
-      console.log('Section changed:', rewrittenText !== section);
-      
-      // If the text didn't change at all, that's suspicious
-      if (rewrittenText === section) {
-        console.warn('Warning: Section was not modified by the model at all');
-      }
-      
-      return rewrittenText;
-    } catch (err) {
-      console.error('Error in two-pass processing:', err);
-      // On error, return the original section
-      return section;
-    }
-  };
-  
   // Helper function to process text with the story generation model
   const processWithStoryModel = async (text: string): Promise<string> => {
     try {
@@ -840,8 +976,17 @@ ${chunk}
         <div className="flex items-center gap-6">
           <div className="space-y-1">
             <h1 className="text-2xl font-semibold">{chapter.title}</h1>
-            <p className="text-sm text-muted-foreground">
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
               {wordCount} words • {charCount} characters
+              <button
+                type="button"
+                onClick={() => setShowBudget(prev => !prev)}
+                className="inline-flex items-center gap-1 text-xs hover:text-foreground"
+                title="Show how the last chapter prompt fit the model's context window"
+              >
+                <Gauge className="h-3.5 w-3.5" />
+                {promptBudget ? `${promptBudget.total.toLocaleString()} prompt tokens` : "Token budget"}
+              </button>
             </p>
           </div>
           
@@ -864,6 +1009,17 @@ ${chunk}
               <Users className="h-4 w-4 mr-2" />
               Characters
             </Button>
+            {onShowHistory && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onShowHistory}
+                className={buttonStyle}
+              >
+                <History className="h-4 w-4 mr-2" />
+                History
+              </Button>
+            )}
           </div>
         </div>
         
@@ -884,13 +1040,59 @@ ${chunk}
                 variant="default" 
                 size="sm"
                 onClick={handleGenerateScene}
-                disabled={isGenerating || isRevising || isGeneratingTransition || isRefining}
+                disabled={locked || !!selectionEdit || isContinuing || isGenerating || isRevising || isGeneratingTransition || isRefining}
                 className="bg-primary hover:bg-primary/90 text-primary-foreground"
               >
                 <PenTool className="h-4 w-4 mr-2" />
                 Write Scene
               </Button>
             )}
+
+            {isContinuing ? (
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() => continueControllerRef.current?.abort()}
+              >
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Stop Continuing
+              </Button>
+            ) : (
+              <div className="flex items-center">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleContinue}
+                  disabled={locked || !!selectionEdit || isGenerating || isRevising || isGeneratingTransition || isRefining || !chapter.sceneBeat}
+                  className={cn(buttonStyle, "rounded-r-none")}
+                  title="Continue the chapter from the cursor"
+                >
+                  <FastForward className="h-4 w-4 mr-2" />
+                  Continue
+                </Button>
+                <Select value={String(continueWords)} onValueChange={handleContinueWordsChange}>
+                  <SelectTrigger className={cn(buttonStyle, "h-9 w-[110px] rounded-l-none text-xs")} aria-label="Continue word limit">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONTINUE_WORD_LIMITS.map(limit => (
+                      <SelectItem key={limit} value={String(limit)}>up to {limit}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowDrafts(true)}
+              disabled={locked || !!selectionEdit || isContinuing || isGenerating || isRevising || isGeneratingTransition || isRefining}
+              className={buttonStyle}
+            >
+              <Layers className="h-4 w-4 mr-2" />
+              Drafts{chapter.alternates?.length ? ` (${chapter.alternates.length})` : ''}
+            </Button>
             
             {/* Add the Refine Text button */}
             {isRefining ? (
@@ -907,7 +1109,7 @@ ${chunk}
                 variant="outline"
                 size="sm"
                 onClick={handleRefineText}
-                disabled={isGenerating || isRevising || isGeneratingTransition || isRefining || !content}
+                disabled={locked || !!selectionEdit || isContinuing || isGenerating || isRevising || isGeneratingTransition || isRefining || !content}
                 className={buttonStyle}
               >
                 <Wand2 className="h-4 w-4 mr-2" />
@@ -930,7 +1132,7 @@ ${chunk}
                   variant="outline"
                   size="sm"
                   onClick={handleGenerateTransition}
-                  disabled={isGenerating || isRevising || isGeneratingTransition || isRefining || !content}
+                  disabled={locked || !!selectionEdit || isContinuing || isGenerating || isRevising || isGeneratingTransition || isRefining || !content}
                   className={buttonStyle}
                 >
                   <ArrowRightLeft className="h-4 w-4 mr-2" />
@@ -956,7 +1158,7 @@ ${chunk}
                 variant="outline"
                 size="sm"
                 onClick={() => setShowFeedback(true)}
-                disabled={isGenerating || isRevising || isGeneratingTransition || isRefining}
+                disabled={locked || !!selectionEdit || isContinuing || isGenerating || isRevising || isGeneratingTransition || isRefining}
                 className={buttonStyle}
               >
                 <MessageSquare className="h-4 w-4 mr-2" />
@@ -969,14 +1171,47 @@ ${chunk}
       
       {chapter.sceneBeat && (
         <div className="p-4 bg-muted rounded-lg">
-          <p className="text-sm font-medium mb-1">Chapter Summary:</p>
+          <p className="text-sm font-medium mb-1">
+            Chapter Summary{chapter.outline?.title ? `: ${chapter.outline.title}` : ''}
+          </p>
           <p className="text-sm text-muted-foreground">{chapter.sceneBeat}</p>
+          {chapter.outline && (
+            <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-muted-foreground">
+              {chapter.outline.setting && <span>Setting: {chapter.outline.setting}</span>}
+              {chapter.outline.time_marker && <span>Time: {chapter.outline.time_marker}</span>}
+              {chapter.outline.pov_character && <span>POV: {chapter.outline.pov_character}</span>}
+              {chapter.outline.target_word_count && <span>Target: {chapter.outline.target_word_count} words</span>}
+              {chapter.outline.tension_level && <span>Tension: {chapter.outline.tension_level}/10</span>}
+            </div>
+          )}
         </div>
       )}
       
+      {showBudget && <PromptBudgetPanel budget={promptBudget} />}
+
+      {!locked && (selection || selectionEdit) && (
+        <SelectionEditBar
+          wordCount={selection ? content.slice(selection.start, selection.end).trim().split(/\s+/).length : 0}
+          status={selectionEdit?.status ?? 'idle'}
+          disabled={isContinuing || isGenerating || isRevising || isGeneratingTransition || isRefining}
+          onAction={handleSelectionAction}
+          onCancel={handleSelectionReject}
+          onAccept={handleSelectionAccept}
+          onReject={handleSelectionReject}
+        />
+      )}
+
       <Textarea
         ref={textareaRef}
         value={content}
+        readOnly={locked || !!selectionEdit || isContinuing}
+        onSelect={(e) => {
+          // Keep the passage being edited while its replacement is written or reviewed
+          if (selectionEdit || isContinuing) return;
+          const { selectionStart, selectionEnd } = e.currentTarget;
+          cursorRef.current = selectionEnd;
+          setSelection(trimSelection(content, { start: selectionStart, end: selectionEnd }));
+        }}
         onChange={(e) => {
           setContent(e.target.value);
           onSave(e.target.value);
@@ -991,6 +1226,15 @@ ${chunk}
         chapters={chapters}
       />
 
+      <DraftCompareModal
+        isOpen={showDrafts}
+        onClose={() => setShowDrafts(false)}
+        currentContent={content}
+        alternates={chapter.alternates || []}
+        writeDraft={writeDraft}
+        onApply={handleDraftChosen}
+      />
+
       <FeedbackModal
         isOpen={showFeedback}
         onClose={() => setShowFeedback(false)}
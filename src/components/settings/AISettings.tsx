@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { Key, Mic, Image, Check, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,10 +9,14 @@ import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 import { userSettingsService } from "@/services/UserSettingsService";
 import { FontManagement } from "./FontManagement";
+import { ModelRoutingSettings } from "./ModelRoutingSettings";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
 import type { UserSettings } from "@/types/settings";
+import type { MockScenario, ModelRoutingTable, ProviderId } from "@/types/llm";
+import { getProvider, listProviders } from "@/integrations/llm/registry";
+import { isValidBaseUrl } from "@/integrations/compatible/client";
 
 interface VoiceModel {
   model_id: string;
@@ -47,6 +51,12 @@ interface AISettingsProps {
   rewriteModel: string;
   storyGenerationModel: string;
   useOpenAIForStoryGen: boolean;
+  llmProvider: ProviderId;
+  anthropicKey: string;
+  compatibleBaseUrl: string;
+  compatibleApiKey: string;
+  modelRouting: ModelRoutingTable;
+  mockScenario: MockScenario;
   elevenLabsKey: string;
   elevenLabsModel: string;
   elevenLabsVoiceId: string;
@@ -57,6 +67,7 @@ interface AISettingsProps {
   voiceSpeakerBoost: boolean;
   minChapters?: number;
   maxChapters?: number;
+  autoRewriteSimilar: boolean;
   onOpenAIKeyChange: (key: string) => void;
   onOpenaiKeyChange: (key: string) => void;
   onOpenAIModelChange: (model: string) => void;
@@ -66,6 +77,12 @@ interface AISettingsProps {
   onRewriteModelChange: (model: string) => void;
   onStoryGenerationModelChange: (model: string) => void;
   onUseOpenAIForStoryGenChange: (useOpenAI: boolean) => void;
+  onLlmProviderChange: (provider: ProviderId) => void;
+  onAnthropicKeyChange: (key: string) => void;
+  onCompatibleBaseUrlChange: (baseUrl: string) => void;
+  onCompatibleApiKeyChange: (key: string) => void;
+  onModelRoutingChange: (routing: ModelRoutingTable) => void;
+  onMockScenarioChange: (scenario: MockScenario) => void;
   onElevenLabsKeyChange: (key: string) => void;
   onElevenLabsModelChange: (model: string) => void;
   onElevenLabsVoiceIdChange: (voiceId: string) => void;
@@ -76,15 +93,25 @@ interface AISettingsProps {
   onVoiceSpeakerBoostChange: (speakerBoost: boolean) => void;
   onMinChaptersChange: (value: number) => void;
   onMaxChaptersChange: (value: number) => void;
+  onAutoRewriteSimilarChange: (enabled: boolean) => void;
 }
 
 const API_KEY_PATTERNS = {
   openai: /^sk-proj-[A-Za-z0-9_]{156}$/,
   openrouter: /^sk-or-v1-[A-Za-z0-9]{64}$/,
+  anthropic: /^sk-ant-[A-Za-z0-9_-]+$/,
   elevenlabs: /^sk_[A-Za-z0-9]{48}$/,
   replicate: /^r8_[A-Za-z0-9]{37}$/
 };
 
+const MOCK_SCENARIOS: Array<{ value: MockScenario; label: string }> = [
+  { value: "default", label: "Fixture responses" },
+  { value: "malformed_json", label: "Malformed JSON outlines" },
+  { value: "rate_limit", label: "Rate limit errors" },
+  { value: "abort", label: "Aborted requests" },
+  { value: "error", label: "Server errors" }
+];
+
 const OPENAI_MODEL_PATTERN = /^gpt-/;
 const OPENROUTER_MODEL_PATTERN = /\//;
 const REASONING_MODEL_PATTERN = /^o|\/|^llama/;
@@ -100,6 +127,12 @@ export function AISettings({
   rewriteModel,
   storyGenerationModel,
   useOpenAIForStoryGen,
+  llmProvider,
+  anthropicKey,
+  compatibleBaseUrl,
+  compatibleApiKey,
+  modelRouting,
+  mockScenario,
   elevenLabsKey,
   elevenLabsModel,
   elevenLabsVoiceId,
@@ -110,6 +143,7 @@ export function AISettings({
   voiceSpeakerBoost,
   minChapters: initialMinChapters,
   maxChapters: initialMaxChapters,
+  autoRewriteSimilar,
   onOpenAIKeyChange,
   onOpenaiKeyChange,
   onOpenAIModelChange,
@@ -119,6 +153,12 @@ export function AISettings({
   onRewriteModelChange,
   onStoryGenerationModelChange,
   onUseOpenAIForStoryGenChange,
+  onLlmProviderChange,
+  onAnthropicKeyChange,
+  onCompatibleBaseUrlChange,
+  onCompatibleApiKeyChange,
+  onModelRoutingChange,
+  onMockScenarioChange,
   onElevenLabsKeyChange,
   onElevenLabsModelChange,
   onElevenLabsVoiceIdChange,
@@ -129,6 +169,7 @@ export function AISettings({
   onVoiceSpeakerBoostChange,
   onMinChaptersChange,
   onMaxChaptersChange,
+  onAutoRewriteSimilarChange,
 }: AISettingsProps) {
   const { toast } = useToast();
   const [isSaving, setIsSaving] = useState(false);
@@ -143,12 +184,14 @@ export function AISettings({
   const [editingKeys, setEditingKeys] = useState<Record<string, boolean>>({
     openai: false,
     openrouter: false,
+    anthropic: false,
     elevenlabs: false,
     replicate: false
   });
   const [keyValidation, setKeyValidation] = useState<Record<string, APIKeyValidation>>({
     openai: { isValid: false, message: "" },
     openrouter: { isValid: false, message: "" },
+    anthropic: { isValid: false, message: "" },
     elevenlabs: { isValid: false, message: "" },
     replicate: { isValid: false, message: "" }
   });
@@ -185,7 +228,7 @@ export function AISettings({
     }
   }, [minChapters, maxChapters]);
 
-  const validateKey = (key: string, type: 'openai' | 'openrouter' | 'elevenlabs' | 'replicate'): APIKeyValidation => {
+  const validateKey = useCallback((key: string, type: 'openai' | 'openrouter' | 'anthropic' | 'elevenlabs' | 'replicate'): APIKeyValidation => {
     if (!key) return { isValid: false, message: "" };
     if (!editingKeys[type]) return { isValid: true, message: "" };
     
@@ -196,11 +239,28 @@ export function AISettings({
       isValid,
       message: isValid ? "Valid API key format" : "Invalid API key format"
     };
+  }, [editingKeys]);
+
+  // Anthropic and OpenAI-compatible endpoints use the registry's own model check
+  const validateProviderModel = (model: string, provider: ProviderId): ModelValidation => {
+    if (!model) return { isValid: false, message: "Model name is required" };
+    const definition = getProvider(provider);
+    const isValid = definition.validateModel ? definition.validateModel(model) : true;
+    return {
+      isValid,
+      message: isValid ?
+        `Valid ${definition.label} model format` :
+        `Invalid ${definition.label} model format (e.g., ${definition.modelPlaceholder})`
+    };
   };
 
-  const validateModel = (model: string, isOpenAI: boolean): ModelValidation => {
+  const validateModel = useCallback((model: string, isOpenAI: boolean): ModelValidation => {
     if (!model) return { isValid: false, message: "Model name is required" };
     
+    if (llmProvider === 'anthropic' || llmProvider === 'compatible') {
+      return validateProviderModel(model, llmProvider);
+    }
+    
     if (isOpenAI) {
       const isValid = OPENAI_MODEL_PATTERN.test(model);
       return {
@@ -218,11 +278,15 @@ export function AISettings({
           "Invalid OpenRouter model format. Should include a provider prefix like 'openai/gpt-4' or 'anthropic/claude-3'"
       };
     }
-  };
+  }, [llmProvider]);
 
-  const validateReasoningModel = (model: string, isOpenAI: boolean): ModelValidation => {
+  const validateReasoningModel = useCallback((model: string, isOpenAI: boolean): ModelValidation => {
     if (!model) return { isValid: false, message: "Model name is required" };
     
+    if (llmProvider === 'anthropic' || llmProvider === 'compatible') {
+      return validateProviderModel(model, llmProvider);
+    }
+    
     if (isOpenAI) {
       // For OpenAI, model should start with 'o''
       const isValid = /^o/.test(model);
@@ -242,31 +306,32 @@ export function AISettings({
           "Invalid model format. Should include a provider prefix like 'openai/gpt-4'"
       };
     }
-  };
+  }, [llmProvider]);
 
   useEffect(() => {
     setKeyValidation({
       openai: validateKey(openai_key, 'openai'),
       openrouter: validateKey(openAIKey, 'openrouter'),
+      anthropic: validateKey(anthropicKey, 'anthropic'),
       elevenlabs: validateKey(elevenLabsKey, 'elevenlabs'),
       replicate: validateKey(replicateKey, 'replicate')
     });
-  }, [openai_key, openAIKey, elevenLabsKey, replicateKey, editingKeys]);
+  }, [openai_key, openAIKey, anthropicKey, elevenLabsKey, replicateKey, validateKey]);
 
   useEffect(() => {
     if (isEditingStoryModel) {
       const currentModel = useOpenAIForStoryGen ? storyGenerationModel : openAIModel;
       setModelValidation(validateModel(currentModel, useOpenAIForStoryGen));
     }
-  }, [useOpenAIForStoryGen, storyGenerationModel, openAIModel, isEditingStoryModel]);
+  }, [useOpenAIForStoryGen, storyGenerationModel, openAIModel, isEditingStoryModel, validateModel]);
 
   useEffect(() => {
     if (isEditingReasoningModel) {
       setReasoningModelValidation(validateReasoningModel(reasoningModel, useOpenAIForStoryGen));
     }
-  }, [reasoningModel, isEditingReasoningModel, useOpenAIForStoryGen]);
+  }, [reasoningModel, isEditingReasoningModel, useOpenAIForStoryGen, validateReasoningModel]);
 
-  const handleKeyChange = (value: string, type: 'openai' | 'openrouter' | 'elevenlabs' | 'replicate') => {
+  const handleKeyChange = (value: string, type: 'openai' | 'openrouter' | 'anthropic' | 'elevenlabs' | 'replicate') => {
     setEditingKeys(prev => ({ ...prev, [type]: true }));
     switch (type) {
       case 'openai':
@@ -275,6 +340,9 @@ export function AISettings({
       case 'openrouter':
         onOpenAIKeyChange(value);
         break;
+      case 'anthropic':
+        onAnthropicKeyChange(value);
+        break;
       case 'elevenlabs':
         onElevenLabsKeyChange(value);
         break;
@@ -387,6 +455,12 @@ export function AISettings({
         rewrite_model: rewriteModel,
         story_generation_model: storyGenerationModel,
         use_openai_for_story_gen: useOpenAIForStoryGen,
+        llm_provider: llmProvider,
+        anthropic_key: anthropicKey,
+        compatible_base_url: compatibleBaseUrl,
+        compatible_api_key: compatibleApiKey,
+        model_routing: modelRouting,
+        mock_scenario: mockScenario,
         elevenlabs_key: elevenLabsKey,
         elevenlabs_model: elevenLabsModel,
         elevenlabs_voice_id: elevenLabsVoiceId,
@@ -397,6 +471,7 @@ export function AISettings({
         voice_speaker_boost: speakerBoostState,
         min_chapters: minChapters,
         max_chapters: maxChapters,
+        auto_rewrite_similar: autoRewriteSimilar,
       };
       
       await saveSettings(settings);
@@ -508,6 +583,7 @@ export function AISettings({
     
     // Save both model values to ensure they're both in the database
     saveSettings({
+      llm_provider: checked ? 'openai' : 'openrouter',
       use_openai_for_story_gen: checked,
       story_generation_model: currentStoryModel,
       openrouter_model: !checked ? currentStoryModel : openAIModel, // Save the OpenRouter model
@@ -518,8 +594,33 @@ export function AISettings({
     setModelValidation(storyValidation);
     setReasoningModelValidation(reasoningValidation);
     onUseOpenAIForStoryGenChange(checked);
+    onLlmProviderChange(checked ? 'openai' : 'openrouter');
   };
 
+  const handleLlmProviderChange = (provider: ProviderId) => {
+    // OpenAI and OpenRouter keep their legacy model defaults and validation
+    if (provider === 'openai' || provider === 'openrouter') {
+      handleProviderChange(provider === 'openai');
+      return;
+    }
+
+    saveSettings({
+      llm_provider: provider,
+      use_openai_for_story_gen: false,
+    });
+
+    onUseOpenAIForStoryGenChange(false);
+    onLlmProviderChange(provider);
+    setIsEditingStoryModel(true);
+    setIsEditingReasoningModel(true);
+    setModelValidation(validateProviderModel(openAIModel, provider));
+    setReasoningModelValidation(validateProviderModel(reasoningModel, provider));
+  };
+
+  // Only show the mock provider settings when something is routed to it
+  const usesMockProvider = llmProvider === 'mock' ||
+    Object.values(modelRouting).some(route => route?.provider === 'mock');
+
   // Check if the selected model is multilingual_v2
   const isMultilingualV2 = elevenLabsModel === "eleven_multilingual_v2";
 
@@ -558,18 +659,23 @@ export function AISettings({
       {/* Story Generation Provider Toggle */}
       <div className="space-y-4">
         <h3 className="text-lg font-medium">Story Generation Settings</h3>
-        <div className="flex items-center space-x-2">
-          <Switch
-            id="story-gen-provider"
-            checked={useOpenAIForStoryGen}
-            onCheckedChange={handleProviderChange}
-          />
-          <Label htmlFor="story-gen-provider">
-            Use OpenAI for Story Generation
-          </Label>
+        <div className="space-y-2">
+          <Label htmlFor="story-gen-provider">Story Generation Provider</Label>
+          <Select value={llmProvider} onValueChange={(value) => handleLlmProviderChange(value as ProviderId)}>
+            <SelectTrigger id="story-gen-provider" className="mt-1">
+              <SelectValue placeholder="Select a provider" />
+            </SelectTrigger>
+            <SelectContent>
+              {listProviders().map((provider) => (
+                <SelectItem key={provider.id} value={provider.id}>
+                  {provider.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
         <p className="text-sm text-muted-foreground">
-          When enabled, OpenAI will be used for story generation. When disabled, OpenRouter will be used instead.
+          Provider used for every story generation step. With OpenAI or OpenRouter, title and story idea fine-tunes still run on OpenAI when an OpenAI key is set.
           {(isEditingStoryModel && !modelValidation.isValid) || (isEditingReasoningModel && !reasoningModelValidation.isValid) ? (
             <span className="block mt-1 text-red-500">
               {!modelValidation.isValid && "Story Generation Model format is invalid for selected provider."}
@@ -604,7 +710,7 @@ export function AISettings({
                   setModelValidation({ isValid: true, message: "" });
                 }
               }}
-              placeholder={`Enter model name (e.g., ${useOpenAIForStoryGen ? "gpt-4o" : "openai/gpt-4o-mini"})`}
+              placeholder={`Enter model name (e.g., ${getProvider(llmProvider).modelPlaceholder})`}
               className={cn(
                 "pr-8",
                 isEditingStoryModel && modelValidation.message && (
@@ -625,7 +731,7 @@ export function AISettings({
             </p>
           )}
           <p className="text-sm text-muted-foreground">
-            Model that will be used for generating stories using {useOpenAIForStoryGen ? "OpenAI" : "OpenRouter"}
+            Model that will be used for generating stories using {getProvider(llmProvider).label}
           </p>
         </div>
 
@@ -719,10 +825,26 @@ export function AISettings({
         <p className="text-sm text-muted-foreground">
           Set the desired minimum and maximum number of chapters for generated story outlines (range 3-15).
         </p>
+
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="auto-rewrite-similar"
+            checked={autoRewriteSimilar}
+            onCheckedChange={onAutoRewriteSimilarChange}
+          />
+          <Label htmlFor="auto-rewrite-similar">Rewrite ideas that copy their Reddit post</Label>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Story ideas that reuse names or passages from the Reddit post they're based on are rewritten automatically (up to twice) instead of only being flagged.
+        </p>
       </div>
 
       <Separator />
 
+      <ModelRoutingSettings routing={modelRouting} onRoutingChange={onModelRoutingChange} />
+
+      <Separator />
+
       {/* OpenAI Settings */}
       <div className="space-y-4">
         <h3 className="text-lg font-medium">OpenAI Settings</h3>
@@ -820,6 +942,100 @@ export function AISettings({
 
       <Separator />
 
+      {/* Anthropic Settings */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-medium">Anthropic Settings</h3>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Anthropic API Key</label>
+          <div className="relative">
+            <Input
+              type="password"
+              value={anthropicKey}
+              onChange={(e) => handleKeyChange(e.target.value, 'anthropic')}
+              placeholder="Enter your Anthropic API key"
+              className={cn(
+                "pr-8",
+                editingKeys.anthropic && keyValidation.anthropic.message && (
+                  keyValidation.anthropic.isValid ? "border-green-500" : "border-red-500"
+                )
+              )}
+            />
+            <div className="absolute right-2 top-1/2 -translate-y-1/2">
+              {editingKeys.anthropic && <ValidationIcon {...keyValidation.anthropic} />}
+            </div>
+          </div>
+          {editingKeys.anthropic && keyValidation.anthropic.message && (
+            <p className={cn(
+              "text-xs",
+              keyValidation.anthropic.isValid ? "text-green-500" : "text-red-500"
+            )}>
+              {keyValidation.anthropic.message}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <Separator />
+
+      {/* OpenAI-Compatible Endpoint Settings */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-medium">OpenAI-Compatible Endpoint</h3>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Base URL</label>
+          <Input
+            value={compatibleBaseUrl}
+            onChange={(e) => onCompatibleBaseUrlChange(e.target.value)}
+            placeholder="http://localhost:11434/v1"
+            className={cn(
+              compatibleBaseUrl && !isValidBaseUrl(compatibleBaseUrl) && "border-red-500"
+            )}
+          />
+          <p className="text-sm text-muted-foreground">
+            Any server exposing the OpenAI chat completions API, such as llama.cpp, Ollama or vLLM
+          </p>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">API Key (optional)</label>
+          <Input
+            type="password"
+            value={compatibleApiKey}
+            onChange={(e) => onCompatibleApiKeyChange(e.target.value)}
+            placeholder="Leave empty if the server does not require one"
+          />
+        </div>
+      </div>
+
+      {usesMockProvider && (
+        <>
+          <Separator />
+
+          {/* Mock Provider Settings */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-medium">Mock Provider</h3>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Scenario</label>
+              <Select value={mockScenario} onValueChange={(value) => onMockScenarioChange(value as MockScenario)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue placeholder="Select a scenario" />
+                </SelectTrigger>
+                <SelectContent>
+                  {MOCK_SCENARIOS.map((scenario) => (
+                    <SelectItem key={scenario.value} value={scenario.value}>
+                      {scenario.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                The mock provider answers every request offline with deterministic fixtures, or simulates the selected failure.
+              </p>
+            </div>
+          </div>
+        </>
+      )}
+
+      <Separator />
+
       {/* ElevenLabs Settings */}
       <div className="space-y-4">
         <div className="flex items-center gap-2">
@@ -1086,7 +1302,7 @@ export function AISettings({
       <div className="mt-8">
         <Button 
           onClick={handleSaveAISettings} 
-          disabled={isSaving || (!keyValidation.openai.isValid && !keyValidation.openrouter.isValid && !keyValidation.elevenlabs.isValid && !keyValidation.replicate.isValid)}
+          disabled={isSaving || (!keyValidation.openai.isValid && !keyValidation.openrouter.isValid && !keyValidation.anthropic.isValid && !isValidBaseUrl(compatibleBaseUrl) && !keyValidation.elevenlabs.isValid && !keyValidation.replicate.isValid)}
           className="w-full"
         >
           {isSaving ? "Saving..." : "Save Settings"}
@@ -0,0 +1,140 @@
+import { Route } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PIPELINE_STEPS, listProviders } from "@/integrations/llm/registry";
+import type { ModelRoutingTable, PipelineStep, ProviderId, StepRouteConfig } from "@/types/llm";
+
+// Select value used for "no override" since Radix Select items can't have an empty value
+const DEFAULT_PROVIDER = "default";
+
+interface ModelRoutingSettingsProps {
+  routing: ModelRoutingTable;
+  onRoutingChange: (routing: ModelRoutingTable) => void;
+}
+
+export function ModelRoutingSettings({ routing, onRoutingChange }: ModelRoutingSettingsProps) {
+  const updateStep = (step: PipelineStep, changes: StepRouteConfig) => {
+    const next: StepRouteConfig = { ...routing[step], ...changes };
+    const hasOverride = Object.values(next).some(value => value !== null && value !== undefined && value !== "");
+
+    const updated = { ...routing };
+    if (hasOverride) {
+      updated[step] = next;
+    } else {
+      delete updated[step];
+    }
+    onRoutingChange(updated);
+  };
+
+  const parseNumber = (value: string): number | null => {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? null : parsed;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Route className="h-5 w-5" />
+          <h3 className="text-lg font-medium">Model Routing</h3>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onRoutingChange({})}
+          disabled={Object.keys(routing).length === 0}
+        >
+          Reset All
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Override the provider, model, temperature and max tokens for individual pipeline steps. Empty fields use the defaults above.
+      </p>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Step</TableHead>
+            <TableHead>Provider</TableHead>
+            <TableHead>Model</TableHead>
+            <TableHead className="w-24">Temperature</TableHead>
+            <TableHead className="w-28">Max Tokens</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {PIPELINE_STEPS.map((step) => {
+            const route = routing[step.id] || {};
+            return (
+              <TableRow key={step.id}>
+                <TableCell>
+                  <div className="font-medium">{step.label}</div>
+                  <div className="text-xs text-muted-foreground">{step.description}</div>
+                </TableCell>
+                <TableCell>
+                  <Select
+                    value={route.provider || DEFAULT_PROVIDER}
+                    onValueChange={(value) => updateStep(step.id, {
+                      provider: value === DEFAULT_PROVIDER ? null : value as ProviderId
+                    })}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={DEFAULT_PROVIDER}>Default</SelectItem>
+                      {listProviders().map((provider) => (
+                        <SelectItem key={provider.id} value={provider.id}>
+                          {provider.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Input
+                    value={route.model || ""}
+                    onChange={(e) => updateStep(step.id, { model: e.target.value || null })}
+                    placeholder="Default"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    value={route.temperature ?? ""}
+                    onChange={(e) => updateStep(step.id, { temperature: parseNumber(e.target.value) })}
+                    placeholder="Default"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={1}
+                    step={100}
+                    value={route.max_tokens ?? ""}
+                    onChange={(e) => {
+                      const value = parseNumber(e.target.value);
+                      updateStep(step.id, { max_tokens: value === null ? null : Math.round(value) });
+                    }}
+                    placeholder="Default"
+                  />
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, FileText, Loader2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import {
+  getDefaultTemplateText,
+  listPromptTemplates,
+  resolvePromptTemplate,
+  validateTemplate
+} from "@/lib/prompt-templates";
+import { DEFAULT_STORY_PROFILE, listStoryProfiles } from "@/lib/story-profiles";
+import { countChanges, diffLines } from "@/lib/text-diff";
+import { promptTemplateService } from "@/services/PromptTemplateService";
+import { storyProfileService } from "@/services/StoryProfileService";
+import type { PromptOverride, PromptTemplateId } from "@/types/prompts";
+
+const SOURCE_LABELS = {
+  override: "Custom",
+  profile: "Profile default",
+  default: "Built-in default"
+};
+
+interface PromptTemplateSettingsProps {
+  userId: string;
+}
+
+export function PromptTemplateSettings({ userId }: PromptTemplateSettingsProps) {
+  const { toast } = useToast();
+  const templates = listPromptTemplates();
+  const [overrides, setOverrides] = useState<PromptOverride[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [profileName, setProfileName] = useState(DEFAULT_STORY_PROFILE);
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>(templates[0].id);
+  const [draft, setDraft] = useState("");
+
+  useEffect(() => {
+    // The user's own profiles are loaded first so their defaults can be compared against
+    storyProfileService.getProfiles(userId)
+      .catch(error => console.warn("Failed to load your story profiles:", (error as Error).message))
+      .then(() => promptTemplateService.getOverrides(userId, true))
+      .then(setOverrides)
+      .catch(() => {
+        toast({
+          title: "Error",
+          description: "Failed to load your prompt templates",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [userId, toast]);
+
+  const resolved = resolvePromptTemplate(selectedId, profileName, overrides);
+  const defaultText = getDefaultTemplateText(selectedId, profileName).text;
+
+  // Start editing from whatever the template currently resolves to
+  useEffect(() => {
+    setDraft(resolved.text);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedId, profileName, overrides]);
+
+  const errors = validateTemplate(draft, resolved.template.variables.map(variable => variable.name));
+  const diff = useMemo(() => diffLines(defaultText, draft), [defaultText, draft]);
+  const changes = countChanges(diff);
+  const isDirty = draft !== resolved.text;
+  const hasOverride = resolved.source === "override";
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      // Saving the default text is the same as not having an override
+      if (draft === defaultText) {
+        await promptTemplateService.resetOverride(userId, selectedId);
+        setOverrides(prev => prev.filter(item => item.template_id !== selectedId));
+      } else {
+        const saved = await promptTemplateService.saveOverride(userId, selectedId, draft);
+        setOverrides(prev => [...prev.filter(item => item.template_id !== selectedId), saved]);
+      }
+      toast({
+        title: "Template Saved",
+        description: `${resolved.template.label} will be used for new generations.`,
+      });
+    } catch (error) {
+      console.error("Error saving prompt template:", error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to save the template",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setSaving(true);
+    try {
+      await promptTemplateService.resetOverride(userId, selectedId);
+      setOverrides(prev => prev.filter(item => item.template_id !== selectedId));
+      toast({
+        title: "Template Reset",
+        description: `${resolved.template.label} is back to its default.`,
+      });
+    } catch (error) {
+      console.error("Error resetting prompt template:", error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to reset the template",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading prompt templates...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <FileText className="h-5 w-5" />
+        <h3 className="text-lg font-medium">Prompt Templates</h3>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        View and customise the prompts used at each step of story generation. Variables like{" "}
+        <code className="text-xs">{"{{idea}}"}</code> are filled in when the prompt is sent, and{" "}
+        <code className="text-xs">{"{{#if name}}...{{/if}}"}</code> blocks are only included when the variable has a value.
+      </p>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Template</Label>
+          <Select value={selectedId} onValueChange={(value) => setSelectedId(value as PromptTemplateId)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {templates.map(template => (
+                <SelectItem key={template.id} value={template.id}>
+                  {template.label}
+                  {overrides.some(item => item.template_id === template.id) && " (custom)"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Story Profile Defaults</Label>
+          <Select value={profileName} onValueChange={setProfileName}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {listStoryProfiles().map(profile => (
+                <SelectItem key={profile.name} value={profile.name}>{profile.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant={hasOverride ? "default" : "secondary"}>{SOURCE_LABELS[resolved.source]}</Badge>
+          <span className="text-xs text-muted-foreground">Version {resolved.template.version}</span>
+        </div>
+        <p className="text-sm text-muted-foreground">{resolved.template.description}</p>
+        {resolved.template.variables.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {resolved.template.variables.map(variable => (
+              <Badge key={variable.name} variant="outline" className="font-mono text-xs" title={variable.description}>
+                {`{{${variable.name}}}`}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {resolved.outdated && (
+        <div className="flex items-start gap-2 rounded-md border border-amber-500/50 bg-amber-500/10 p-3 text-sm">
+          <AlertTriangle className="h-4 w-4 mt-0.5 text-amber-500 shrink-0" />
+          The built-in template has been updated since you customised it. Compare your version with the new default before keeping it.
+        </div>
+      )}
+
+      <Tabs defaultValue="edit">
+        <TabsList>
+          <TabsTrigger value="edit">Edit</TabsTrigger>
+          <TabsTrigger value="diff">
+            Compare with Default
+            {(changes.added > 0 || changes.removed > 0) && (
+              <span className="ml-2 text-xs text-muted-foreground">+{changes.added} −{changes.removed}</span>
+            )}
+          </TabsTrigger>
+        </TabsList>
+        <TabsContent value="edit">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className="min-h-[400px] font-mono text-xs"
+            spellCheck={false}
+          />
+        </TabsContent>
+        <TabsContent value="diff">
+          <div className="max-h-[400px] overflow-auto rounded-md border bg-background font-mono text-xs">
+            {changes.added === 0 && changes.removed === 0 ? (
+              <p className="p-3 text-muted-foreground">This template matches the default.</p>
+            ) : (
+              diff.map((line, index) => (
+                <div
+                  key={index}
+                  className={cn(
+                    "whitespace-pre-wrap px-3",
+                    line.type === "added" && "bg-green-500/15 text-green-700 dark:text-green-400",
+                    line.type === "removed" && "bg-red-500/15 text-red-700 dark:text-red-400"
+                  )}
+                >
+                  {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                  {line.text}
+                </div>
+              ))
+            )}
+          </div>
+        </TabsContent>
+      </Tabs>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-[#ea384c] dark:text-red-400 space-y-1">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button variant="outline" onClick={handleReset} disabled={!hasOverride || saving}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Reset to Default
+        </Button>
+        <Button variant="outline" onClick={() => setDraft(resolved.text)} disabled={!isDirty || saving}>
+          Discard Changes
+        </Button>
+        <Button onClick={handleSave} disabled={!isDirty || errors.length > 0 || saving}>
+          {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save Template
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,407 @@
+import { useEffect, useRef, useState } from "react";
+import { Copy, Download, Layers, Loader2, Pencil, Plus, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import {
+  exportStoryProfilesJson,
+  getRedditSource,
+  isBuiltInStoryProfile,
+  listStoryProfiles,
+  normalizeStoryProfile,
+  parseStoryProfilesJson,
+  validateStoryProfile
+} from "@/lib/story-profiles";
+import { storyProfileService } from "@/services/StoryProfileService";
+import { REDDIT_TIMEFRAMES, type RedditTimeframe } from "@/types/reddit";
+import type { StoryProfile } from "@/types/story";
+
+// Idea prompts can span several lines, so they're separated by a line containing only ---
+const PROMPT_SEPARATOR = "\n---\n";
+
+const splitPrompts = (text: string) =>
+  text.split(/^\s*---\s*$/m).map(prompt => prompt.trim()).filter(Boolean);
+
+const splitWords = (text: string) =>
+  text.split(",").map(word => word.trim()).filter(Boolean);
+
+interface ProfileDraft {
+  profile: StoryProfile;
+  prompts: string;
+  subreddits: string;
+  titleExclude: string;
+  bannedWords: string;
+}
+
+const toDraft = (profile: StoryProfile): ProfileDraft => ({
+  profile,
+  prompts: profile.prompts.join(PROMPT_SEPARATOR),
+  subreddits: getRedditSource(profile).subreddits.join(", "),
+  titleExclude: getRedditSource(profile).excludeTitleWords.join(", "),
+  bannedWords: (profile.banned_words || []).join(", ")
+});
+
+// The first subreddit is the profile's main one, shown in prompts and when picking a profile
+const fromDraft = (draft: ProfileDraft): StoryProfile => {
+  const subreddits = splitWords(draft.subreddits).map(name => name.replace(/^r\//, ""));
+  return normalizeStoryProfile({
+    ...draft.profile,
+    prompts: splitPrompts(draft.prompts),
+    subreddit: subreddits[0] || "",
+    subreddits,
+    title_exclude: splitWords(draft.titleExclude),
+    banned_words: splitWords(draft.bannedWords)
+  });
+};
+
+interface StoryProfileSettingsProps {
+  userId: string;
+}
+
+export function StoryProfileSettings({ userId }: StoryProfileSettingsProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [customProfiles, setCustomProfiles] = useState<StoryProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+
+  useEffect(() => {
+    storyProfileService.getProfiles(userId, true)
+      .then(setCustomProfiles)
+      .catch(() => {
+        toast({
+          title: "Error",
+          description: "Failed to load your story profiles",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [userId, toast]);
+
+  const profiles = listStoryProfiles();
+  const errors = draft ? validateStoryProfile(fromDraft(draft)) : [];
+
+  const updateProfile = (fields: Partial<StoryProfile>) => {
+    setDraft(prev => prev && { ...prev, profile: { ...prev.profile, ...fields } });
+  };
+
+  const handleNew = () => {
+    setDraft(toDraft(normalizeStoryProfile({ name: "", use_reddit: true })));
+  };
+
+  // Built-in profiles can't be edited, so editing one starts a copy the user owns
+  const handleCopy = (profile: StoryProfile) => {
+    const { id: _id, model: _model, prompt_templates: _templates, ...fields } = profile;
+    setDraft(toDraft(normalizeStoryProfile({ ...fields, name: `${profile.name} (copy)` })));
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      const saved = await storyProfileService.saveProfile(userId, fromDraft(draft));
+      setCustomProfiles(await storyProfileService.getProfiles(userId));
+      setDraft(null);
+      toast({
+        title: "Profile Saved",
+        description: `${saved.name} is available when you create a story.`,
+      });
+    } catch (error) {
+      console.error("Error saving story profile:", error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to save the profile",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (profile: StoryProfile) => {
+    if (!profile.id) return;
+    try {
+      await storyProfileService.deleteProfile(userId, profile.id);
+      setCustomProfiles(await storyProfileService.getProfiles(userId));
+      if (draft?.profile.id === profile.id) {
+        setDraft(null);
+      }
+      toast({
+        title: "Profile Deleted",
+        description: `${profile.name} was deleted. Stories already written with it keep their chapters.`,
+      });
+    } catch (error) {
+      console.error("Error deleting story profile:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the profile",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportStoryProfilesJson(customProfiles)], { type: "application/json" });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "story_profiles.json";
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+  };
+
+  const handleImport = async (file: File) => {
+    setSaving(true);
+    try {
+      const imported = await storyProfileService.importProfiles(userId, parseStoryProfilesJson(await file.text()));
+      setCustomProfiles(await storyProfileService.getProfiles(userId));
+      toast({
+        title: "Profiles Imported",
+        description: `Imported ${imported.length} profile${imported.length === 1 ? "" : "s"}.`,
+      });
+    } catch (error) {
+      console.error("Error importing story profiles:", error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to import the profiles",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading story profiles...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Layers className="h-5 w-5" />
+          <h3 className="text-lg font-medium">Story Profiles</h3>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => e.target.files?.[0] && handleImport(e.target.files[0])}
+          />
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={saving}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={customProfiles.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+          <Button size="sm" onClick={handleNew} disabled={saving}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Profile
+          </Button>
+        </div>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Genre profiles decide where story ideas come from, how many chapters a story has and how chapters are written.
+        Import and export use the same JSON format as the built-in profiles.
+      </p>
+
+      <div className="space-y-2">
+        {profiles.map(profile => (
+          <div key={profile.name} className="flex items-center justify-between gap-2 p-2 rounded-md border">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <p className="font-medium truncate">{profile.name}</p>
+                <Badge variant={profile.id ? "default" : "secondary"}>{profile.id ? "Custom" : "Built-in"}</Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {getRedditSource(profile).subreddits.map(name => `r/${name}`).join(", ")} · {profile.num_scenes} chapters · {profile.prompts.length} idea prompt{profile.prompts.length === 1 ? "" : "s"}
+              </p>
+            </div>
+            <div className="flex shrink-0">
+              {profile.id && (
+                <Button variant="ghost" size="icon" title="Edit" onClick={() => setDraft(toDraft(profile))}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              )}
+              <Button variant="ghost" size="icon" title="Duplicate" onClick={() => handleCopy(profile)}>
+                <Copy className="h-4 w-4" />
+              </Button>
+              {profile.id && (
+                <Button variant="ghost" size="icon" title="Delete" onClick={() => handleDelete(profile)}>
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {draft && (
+        <div className="space-y-4 rounded-md border bg-background p-4">
+          <h4 className="font-medium">{draft.profile.id ? `Edit ${draft.profile.name}` : "New Profile"}</h4>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="profile-name">Name</Label>
+              <Input
+                id="profile-name"
+                value={draft.profile.name}
+                onChange={(e) => updateProfile({ name: e.target.value })}
+              />
+              {isBuiltInStoryProfile(draft.profile.name.trim()) && (
+                <p className="text-xs text-muted-foreground">This replaces the built-in profile with the same name.</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="profile-subreddits">Subreddits</Label>
+              <Input
+                id="profile-subreddits"
+                value={draft.subreddits}
+                onChange={(e) => setDraft({ ...draft, subreddits: e.target.value })}
+                placeholder="nosleep, LetsNotMeet"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Top Posts From The Past</Label>
+              <Select
+                value={draft.profile.timeframe || "month"}
+                onValueChange={(value) => updateProfile({ timeframe: value as RedditTimeframe })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REDDIT_TIMEFRAMES.map(timeframe => (
+                    <SelectItem key={timeframe} value={timeframe}>
+                      {timeframe === "all" ? "All time" : timeframe.charAt(0).toUpperCase() + timeframe.slice(1)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="profile-min-length">Minimum Post Length (characters)</Label>
+              <Input
+                id="profile-min-length"
+                type="number"
+                min={0}
+                value={draft.profile.min_length}
+                onChange={(e) => updateProfile({ min_length: Number(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="profile-flair">Excluded Flairs</Label>
+              <Input
+                id="profile-flair"
+                value={draft.profile.flair_exclude}
+                onChange={(e) => updateProfile({ flair_exclude: e.target.value })}
+                placeholder="Series, Discussion"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="profile-title-exclude">Excluded Title Words</Label>
+              <Input
+                id="profile-title-exclude"
+                value={draft.titleExclude}
+                onChange={(e) => setDraft({ ...draft, titleExclude: e.target.value })}
+                placeholder="part, update"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="profile-chapters">Chapters</Label>
+              <Input
+                id="profile-chapters"
+                type="number"
+                min={1}
+                max={50}
+                value={draft.profile.num_scenes}
+                onChange={(e) => updateProfile({ num_scenes: Number(e.target.value) })}
+              />
+            </div>
+            <div className="flex items-center gap-2 pt-6">
+              <Switch
+                id="profile-use-reddit"
+                checked={draft.profile.use_reddit}
+                onCheckedChange={(checked) => updateProfile({ use_reddit: checked })}
+              />
+              <Label htmlFor="profile-use-reddit">Recommend Reddit as the idea source</Label>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="profile-system-prompt">System Prompt</Label>
+            <Textarea
+              id="profile-system-prompt"
+              value={draft.profile.system_prompt}
+              onChange={(e) => updateProfile({ system_prompt: e.target.value })}
+              className="min-h-[80px]"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="profile-prompts">Idea Prompts</Label>
+            <Textarea
+              id="profile-prompts"
+              value={draft.prompts}
+              onChange={(e) => setDraft({ ...draft, prompts: e.target.value })}
+              className="min-h-[120px] font-mono text-xs"
+            />
+            <p className="text-xs text-muted-foreground">Separate prompts with a line containing only ---</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="profile-style-rules">Style Rules</Label>
+            <Textarea
+              id="profile-style-rules"
+              value={draft.profile.style_rules || ""}
+              onChange={(e) => updateProfile({ style_rules: e.target.value })}
+              placeholder="- Keep the tone light and comedic"
+              className="min-h-[80px]"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="profile-banned-words">Banned Words</Label>
+            <Input
+              id="profile-banned-words"
+              value={draft.bannedWords}
+              onChange={(e) => setDraft({ ...draft, bannedWords: e.target.value })}
+              placeholder="suddenly, tapestry, delve"
+            />
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-sm text-[#ea384c] dark:text-red-400 space-y-1">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setDraft(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={errors.length > 0 || saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Profile
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
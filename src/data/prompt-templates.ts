@@ -0,0 +1,706 @@
+// Built-in prompt templates for every step of the story pipeline.
+// Users can override any of these in Settings, and story profiles in profiles.json can replace them
+// for a genre. Bump a template's version whenever its text changes so stale overrides get flagged.
+
+import type { PromptTemplate, PromptTemplateId } from '@/types/prompts';
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'reddit_summary',
+    label: 'Reddit Story Summary',
+    description: 'Turns a Reddit post into a new 400-600 word story idea.',
+    version: 2,
+    variables: [
+      { name: 'subreddit', description: 'The subreddit the post was taken from.' },
+      { name: 'story', description: 'The full text of the Reddit post, or of each post when several are blended.' },
+      { name: 'blend', description: 'The number of posts being blended, when there is more than one.' }
+    ],
+    template: `I need a detailed summary of the following horror story from r/{{subreddit}}.
+Create a comprehensive summary about the story with as much detail as possible, focus on the plot and events in the story with minimal dialogue.
+The summary should be completely new and different from the given story to avoid copyright issues.
+You MUST change the characters, locations, and events to create a new story that is based on the original story but is not a direct copy.
+Focus on the core narrative, key events, and the horror elements that make this story effective when writing the new story summary.
+Write unique character names, do NOT use common names from your training data.
+All locations should be real locations not fictional locations.
+DO NOT write any comments, only write the summary.
+Do NOT write names with "Black" in them, use unique names.
+{{#if blend}}The content below contains {{blend}} separate stories. Blend their strongest elements into ONE new story instead of summarising each of them.
+{{/if}}
+Story Content:
+{{story}}
+
+Please provide a detailed summary in 400-600 words.`
+  },
+  {
+    id: 'idea_system',
+    label: 'Story Idea System Prompt',
+    description: "System prompt for generating a story idea from one of the profile's idea prompts.",
+    version: 1,
+    variables: [],
+    template: 'Create a creepypasta story idea for Insomnia Stories.'
+  },
+  {
+    id: 'idea_summary',
+    label: 'Story Idea Summary',
+    description: 'Shortens a story idea to a 100-150 word summary for the story cards.',
+    version: 1,
+    variables: [
+      { name: 'idea', description: 'The story idea to summarise.' }
+    ],
+    template: `Create a concise summary of the following story idea. The summary should:
+- Be approximately 100-150 words
+- Capture the core concept and main plot points
+- Highlight the most interesting elements
+- Be written in an engaging style that makes the reader want to know more
+- Write in a casual style, DO NOT write in flowery language.
+
+Story Idea:
+{{idea}}
+
+Please provide only the summary without any additional comments or explanations, DO NOT write a title or anything else, only the summary.`
+  },
+  {
+    id: 'source_rewrite',
+    label: 'Source Rewrite',
+    description: 'Rewrites a Reddit-based story idea that copies too much of the original post.',
+    version: 1,
+    variables: [
+      { name: 'idea', description: 'The story idea to rewrite.' },
+      { name: 'issues', description: 'The names and passages that were copied from the original post.' }
+    ],
+    template: `The following story idea was written from a story posted on Reddit, but parts of it are too close to the original story.
+Rewrite the story idea so it keeps the same plot and structure, but uses new wording, new character names and new locations.
+
+## Copied from the original story:
+{{issues}}
+
+Keep it the same length. DO NOT write any comments, only write the rewritten story idea.
+
+Story Idea:
+{{idea}}`
+  },
+  {
+    id: 'title',
+    label: 'Title',
+    description: 'System prompt for writing the story title. The story idea is sent as the user message.',
+    version: 1,
+    variables: [],
+    template: 'You are tasked with creating a YouTube title for the given story. The title must be between 70 and 100 characters and include a comma. The title must be told in first person in the past tense.'
+  },
+  {
+    id: 'outline',
+    label: 'Plot Outline',
+    description: 'Outline requirements and JSON format for the chapter-by-chapter plot outline.',
+    version: 1,
+    variables: [
+      { name: 'min_chapters', description: 'The minimum number of chapters from Settings.' },
+      { name: 'max_chapters', description: 'The maximum number of chapters from Settings.' },
+      { name: 'idea', description: 'The story idea.' }
+    ],
+    template: `## OUTLINE REQUIREMENTS
+- The plot outline must contain between {{min_chapters}} and {{max_chapters}} chapters. These are STRICT requirements.
+- If there are plot holes in the story idea, you MUST fix them in the plot outline.
+- DO NOT write an epilogue as the final chapter. The final chapter must be the resolution or provide an opening for a potential sequel.
+
+## Instructions
+- Write a full plot outline for the given story idea.
+- Write the plot outline as a list of all the chapters in the story.
+- Each chapter must be a detailed summary of the events in that chapter that is 250 words in length.
+- DO NOT use flowery language, use concise language.
+- Only write the crucial events in the chapter without ANY filler sentences or details.
+- Use casual language and tone in the plot outline.
+- ONLY write the plot outline in the past tense from the narrator's perspective in third person.
+- Explicitly state the change of time and/or setting between chapters.
+- Mention any locations by name.
+- For each chapter also give a short title, the named setting, a time marker, the POV character, a target word count and a tension level from 1 to 10.
+- Only refer to the narrator in the story as their name with (The Narrator) next to it in the plot outline.
+- Create a slow build up of tension and suspense throughout the story.
+- A chapter in the story is defined as when there is a change in the setting in the story.
+
+# Plot Outline Rules:
+- Each chapter must smoothly transition from the previous chapter and to the next chapter without unexplained time and setting jumps.
+- Ensure key story elements (e.g., character motivations, mysteries, and plot developments) are resolved by the end.
+- Explicitly address and resolve the purpose and origin of central objects or plot devices (e.g., mysterious items, symbols, or events).
+- If other characters have significant knowledge of the mystery or key events, show how and when they gained this knowledge to maintain logical consistency.
+- Explore and resolve character dynamics, especially those affecting key relationships.
+- Provide clarity on thematic or mysterious elements that connect scenes, ensuring the stakes are clearly defined and resolved.
+- The final chapter must state it's the final chapter of the story and how to end the story.
+
+## You must STRICLY use following JSON format for the plot outline exactly without deviation, DO NOT write in markdown format:
+[
+  {
+    "chapter_number": 1,
+    "title": "chapter 1 title",
+    "chapter_beat": "chapter 1 content...",
+    "setting": "chapter 1 location",
+    "time_marker": "when chapter 1 takes place",
+    "pov_character": "chapter 1 POV character",
+    "target_word_count": 3000,
+    "tension_level": 3
+  },
+  {
+    "chapter_number": 2,
+    "title": "chapter 2 title",
+    "chapter_beat": "chapter 2 content...",
+    "setting": "chapter 2 location",
+    "time_marker": "when chapter 2 takes place",
+    "pov_character": "chapter 2 POV character",
+    "target_word_count": 3000,
+    "tension_level": 5
+  }
+]
+
+## Story Idea:
+{{idea}}`
+  },
+  {
+    id: 'outline_chapter',
+    label: 'Regenerate Outline Chapter',
+    description: 'Rewrites a single chapter of the outline using its neighbouring chapters as context.',
+    version: 1,
+    variables: [
+      { name: 'chapter_number', description: 'The number of the chapter being rewritten.' },
+      { name: 'chapter_count', description: 'The number of chapters in the outline.' },
+      { name: 'final_chapter', description: 'Set when the chapter is the last one in the outline.' },
+      { name: 'target_word_count', description: "The chapter's current target word count." },
+      { name: 'tension_level', description: "The chapter's current tension level." },
+      { name: 'idea', description: 'The story idea.' },
+      { name: 'previous_chapters', description: 'Up to two chapters before this one.' },
+      { name: 'current_chapter', description: 'The chapter being rewritten.' },
+      { name: 'next_chapters', description: 'Up to two chapters after this one.' }
+    ],
+    template: `## Instructions
+- Rewrite chapter {{chapter_number}} of {{chapter_count}} in the plot outline of the given story idea.
+- The chapter must smoothly continue from the previous chapters and lead into the next chapters without unexplained time and setting jumps.
+- The chapter beat must be a detailed summary of the events in the chapter that is 250 words in length.
+- DO NOT use flowery language, use concise language.
+- Write the chapter beat in the past tense from the narrator's perspective in third person.
+- Only refer to the narrator in the story as their name with (The Narrator) next to it.
+- Mention any locations by name.{{#if final_chapter}}
+- This is the final chapter. It must state it's the final chapter of the story and how the story ends.{{/if}}
+
+## You must STRICLY return a single JSON object in the following format without deviation, DO NOT write in markdown format:
+{
+  "chapter_number": {{chapter_number}},
+  "title": "chapter title",
+  "chapter_beat": "chapter content...",
+  "setting": "chapter location",
+  "time_marker": "when the chapter takes place",
+  "pov_character": "POV character",
+  "target_word_count": {{target_word_count}},
+  "tension_level": {{tension_level}}
+}
+
+## Story Idea:
+{{idea}}
+
+## Previous Chapters:
+{{#if previous_chapters}}{{previous_chapters}}{{else}}None. This is the first chapter.{{/if}}
+
+## Current Chapter (to rewrite):
+{{current_chapter}}
+
+## Next Chapters:
+{{#if next_chapters}}{{next_chapters}}{{else}}None. This is the final chapter.{{/if}}`
+  },
+  {
+    id: 'characters',
+    label: 'Character Bible',
+    description: 'Character description rules and JSON format for the character bible.',
+    version: 1,
+    variables: [
+      { name: 'outline', description: 'The plot outline.' }
+    ],
+    template: `## Instructions
+Using the given story outline, write short character descriptions for all the characters in the story.
+
+## Character Description rules:
+- The character aliases are what the other characters in the story will call that character in the story such as their first name.
+- For The Narrator's alias you must create a name that other characters will call them in the story.
+- The pronouns are what you will use to refer to the character as in the story when not writing their name.
+- The role is the character's part in the story, such as protagonist, antagonist or supporting.
+- The personality and appearance must only describe the character DO NOT write what happens to them in the story.
+- The relationships describe how the character relates to the other characters.
+- The arc is a one sentence summary of how the character changes over the story.
+- The first appearance chapter is the number of the chapter the character first appears in.
+- Only return the character descriptions without any comments.
+
+## You must STRICLY use the following JSON format without deviation, DO NOT write in markdown format:
+{
+  "characters": [
+    {
+      "name": "Character Name",
+      "aliases": ["Character Alias"],
+      "pronouns": "Character Pronouns",
+      "age": "Character Age",
+      "role": "Character Role",
+      "personality": "Personality",
+      "appearance": "Appearance",
+      "relationships": "Relationships",
+      "arc": "Arc",
+      "first_appearance_chapter": 1
+    }
+  ]
+}
+
+## Outline:
+{{outline}}`
+  },
+  {
+    id: 'relationships',
+    label: 'Relationship Graph',
+    description: 'Extracts typed relationships between characters from the character bible.',
+    version: 1,
+    variables: [
+      { name: 'relationship_types', description: 'The allowed relationship types.' },
+      { name: 'characters', description: 'The character bible.' }
+    ],
+    template: `## Instructions
+Using the given character descriptions, list every relationship between two of the characters.
+
+## Relationship rules:
+- The source and target must be the exact character names as written below.
+- The type must be one of: {{relationship_types}}.
+- Use "employer" when the source employs the target and "mentor" when the source teaches or guides the target.
+- Only list relationships that are stated or clearly implied in the descriptions.
+- The description is one short sentence describing the relationship.
+
+## You must STRICLY use the following JSON format without deviation, DO NOT write in markdown format:
+{
+  "relationships": [
+    {
+      "source": "Character Name",
+      "target": "Other Character Name",
+      "type": "friend",
+      "description": "Short description"
+    }
+  ]
+}
+
+## Characters:
+{{characters}}`
+  },
+  {
+    id: 'scene',
+    label: 'Write Chapter',
+    description: 'The writing instructions used to write each chapter.',
+    version: 2,
+    variables: [
+      { name: 'characters', description: 'The character bible and relationships.' },
+      { name: 'context', description: 'Summaries of earlier chapters and the ending of the previous chapter.' },
+      { name: 'continuity', description: 'The continuity ledger.' },
+      { name: 'future', description: 'The beats of the chapters after this one.' },
+      { name: 'style', description: "The story profile's style rules and banned words." },
+      { name: 'beat', description: 'The chapter beat to write.' }
+    ],
+    template: `## WRITING INSTRUCTIONS
+- You are an expert fiction writer. Write a full chapter WITHOUT overwriting, that is based on the chapter beat EXACTLY.
+- Address the passage of time mentioned at the beginning of the chapter beat by creating a connection to the previous chapter's ending.
+- Write in past tense.
+- Write narration as much as possible to give the reader more information about the chapter.
+- When there is no context, start the chapter with exposition to give the reader a better understanding of the plot and characters.
+
+##Chapter Transition Guidelines
+- Begin each chapter with a natural continuation from the previous scene’s final moment.
+- Use a short paragraph that flows directly from the emotional tone or unresolved tension of the last chapter.
+- Do NOT summarize what just happened. Instead, hint at or build on it with the narrator’s present thoughts, surroundings, or mood.
+- Avoid starting a chapter with phrases like “Two days had passed since…” or any form of recap.
+
+
+# Core Requirements
+    - Write from first-person narrator perspective only
+    - Begin with a clear connection to the previous chapter's ending
+    - Write the dialogue in their own paragraphs, do not include the dialogue in the same paragraph as the narration.
+    - Write everything that the narrator sees, hears, and everything that happens in the chapter.
+    - Write the entire chapter and include everything in the chapter beat given, do not leave anything out.
+    - Use the character's pronouns if you don't write the character's name. Avoid using they/them pronouns, use the character's pronouns instead.
+
+    # Pacing and Suspense
+    - Maintain steady, escalating suspense
+    - Use strategic pauses and silence for impact
+    - Build tension in small, deliberate increments
+    - Balance action with reflection
+
+    # Writing Style
+    - DO NOT write flowery language, use casual and simple vocabulary.
+    - Do NOT write any appositive phrases.
+    - Do NOT write any redundant descriptive phrases that are not necessary to the chapter.
+    - Do NOT use asterisks (*) for emphasis or to indicate actions. Use proper narrative descriptions instead.
+    - ONLY provide descriptions about the chapter if it furthers the plot or character development, DO NOT write redundant descriptions that provide no useful information about the chapter.
+    - Vary sentence length based on tension:
+        * Shorter sentences for action/tension
+        * Longer sentences for introspection
+    - Show emotions through implications rather than stating them
+
+    # chapter Structure
+    - Write tight, focused paragraphs
+    - Break up dialogue with introspection and description
+    - Allow for natural processing of events
+
+## chapter CONTEXT AND CONTINUITY
+# Characters
+{{characters}}
+
+# Use the provided STORY CONTEXT to remember details and events from the previous scenes in order to maintain consistency in the new chapter you are writing.
+## STORY CONTEXT
+<context>
+  {{#if context}}{{context}}{{else}}No previous context. This is the first chapter of the story.{{/if}}
+</context>
+{{#if continuity}}
+# Continuity Ledger
+# Details established in earlier chapters. The new chapter MUST NOT contradict them.
+<continuity>
+{{continuity}}
+</continuity>
+{{/if}}
+# Future chapter Beats
+<future_scenes>
+  {{#if future}}{{future}}{{else}}No future scenes provided.{{/if}}
+</future_scenes>
+
+## Future Context Guidelines
+- DO NOT directly reference future events in your current chapter
+- DO plant subtle foundations or foreshadowing that will support future scenes
+- AVOID creating details that would contradict or make future scenes impossible
+- ENSURE character decisions and development align with their future trajectory
+- BE AWARE of future plot points, but maintain suspense and discovery in the current chapter
+{{#if style}}
+# Profile Style Rules
+{{style}}
+{{/if}}
+# chapter Beat to Write
+{{beat}}`
+  },
+  {
+    id: 'continue_scene',
+    label: 'Continue Chapter',
+    description: 'Continues a partly written chapter from the cursor.',
+    version: 1,
+    variables: [
+      { name: 'written', description: 'The chapter text up to the cursor.' },
+      { name: 'after', description: 'The chapter text after the cursor, if any.' },
+      { name: 'progress', description: 'How far the chapter is towards its target length.' },
+      { name: 'words', description: 'Roughly how many words to write.' },
+      { name: 'marker', description: 'What to write once the chapter beat is fully covered.' },
+      { name: 'characters', description: 'The character bible and relationships.' },
+      { name: 'context', description: 'Summaries of earlier chapters and the ending of the previous chapter.' },
+      { name: 'style', description: "The story profile's style rules and banned words." },
+      { name: 'beat', description: 'The chapter beat.' }
+    ],
+    template: `## WRITING INSTRUCTIONS
+- You are an expert fiction writer continuing a chapter that is partly written.
+- Pick up exactly where the chapter so far stops, in the same voice, tense and perspective. Do NOT repeat or summarize what has already been written.
+- Work out which parts of the chapter beat the chapter so far already covers, and write only what comes next.
+- Write about {{words}} words.
+- If the chapter beat is fully covered before then, stop and write {{marker}} on its own line.
+- Write the dialogue in their own paragraphs, do not include the dialogue in the same paragraph as the narration.
+- Do NOT use asterisks (*) for emphasis or to indicate actions.
+{{#if progress}}
+# Chapter Length
+{{progress}}
+{{/if}}
+# Characters
+{{characters}}
+{{#if context}}
+# Story So Far
+<context>
+{{context}}
+</context>
+{{/if}}
+{{#if style}}
+# Profile Style Rules
+{{style}}
+{{/if}}
+# chapter Beat
+{{beat}}
+
+# Chapter So Far
+<chapter>
+{{written}}
+</chapter>
+{{#if after}}
+# Text After the Continuation
+The continuation must lead into this text, which is already written. Do NOT write it again.
+<after>
+{{after}}
+</after>
+{{/if}}
+## Output
+Write only the continuation.`
+  },
+  {
+    id: 'revise',
+    label: 'Revise Chapter',
+    description: 'Revises a chapter based on your feedback.',
+    version: 1,
+    variables: [
+      { name: 'chapter', description: 'The current chapter text.' },
+      { name: 'feedback', description: 'Your feedback.' },
+      { name: 'beat', description: 'The chapter beat.' },
+      { name: 'characters', description: 'The character bible and relationships.' },
+      { name: 'context', description: 'Summaries of earlier chapters and the ending of the previous chapter.' }
+    ],
+    template: `## Instructions
+Revise the given chapter based on the feedback provided.
+Maintain the same narrative style, perspective, and tone of the original chapter.
+Ensure the revised chapter still aligns with the chapter beat and character descriptions.
+Make specific changes requested in the feedback while preserving the overall structure and purpose of the chapter.
+
+## Original chapter
+{{chapter}}
+
+## Feedback
+{{feedback}}
+
+## chapter Beat
+{{beat}}
+
+## Characters
+{{characters}}
+{{#if context}}
+## Story so far
+Keep the revised chapter consistent with what happened before it.
+{{context}}
+{{/if}}
+## Output
+Write only the revised chapter content, formatted as a polished narrative. Do not include any meta-commentary, explanations, or notes about the changes made.`
+  },
+  {
+    id: 'revise_system',
+    label: 'Revise Chapter System Prompt',
+    description: 'System prompt sent with the revise chapter prompt.',
+    version: 1,
+    variables: [],
+    template: 'You are a skilled fiction editor who revises scenes based on feedback.'
+  },
+  {
+    id: 'selection_edit',
+    label: 'Selection Edit',
+    description: 'Rewrites or continues a passage selected in the editor, with the rest of the chapter as context.',
+    version: 1,
+    variables: [
+      { name: 'instruction', description: 'What to do with the passage, e.g. condense it or continue from it.' },
+      { name: 'selection', description: 'The selected passage.' },
+      { name: 'before', description: 'The chapter text before the passage.' },
+      { name: 'after', description: 'The chapter text after the passage.' },
+      { name: 'beat', description: 'The chapter beat.' }
+    ],
+    template: `## Instructions
+You are editing one passage of a chapter. Follow the instruction below for the passage only.
+Maintain the same narrative voice, perspective, tense and tone as the rest of the chapter, and make sure the result reads naturally between the text before and after the passage.
+
+## Instruction
+{{instruction}}
+
+## chapter Beat
+{{beat}}
+{{#if before}}
+## Text before the passage (context only, do not rewrite it)
+{{before}}
+{{/if}}
+## Passage
+{{selection}}
+{{#if after}}
+## Text after the passage (context only, do not rewrite it)
+{{after}}
+{{/if}}
+## Output
+Write only the new text. Do not repeat the text before or after the passage, and do not include any comments or notes.`
+  },
+  {
+    id: 'transition',
+    label: 'Chapter Transition',
+    description: 'Writes a bridge between the end of the previous chapter and the start of the current one.',
+    version: 1,
+    variables: [
+      { name: 'summaries', description: 'Summaries of the chapters before the previous one.' },
+      { name: 'previous', description: 'The last paragraphs of the previous chapter.' },
+      { name: 'current', description: 'The first paragraphs of the current chapter.' },
+      { name: 'beat', description: 'The beat of the current chapter.' }
+    ],
+    template: `## TRANSITION WRITING TASK
+Create a smooth transition that connects the end of the previous chapter to the beginning of the current chapter.
+{{#if summaries}}
+# Story So Far (summaries of earlier chapters):
+{{summaries}}
+{{/if}}
+# Previous Chapter (ending):
+{{previous}}
+
+# Current Chapter (beginning):
+{{current}}
+
+# chapter Beat for Current Chapter:
+{{beat}}
+
+## Instructions:
+- Write at least 2 paragraphs that bridge the gap between these chapters.
+- Maintain the same narrative voice and perspective.
+- Address any time or location changes explicitly.
+- Create a logical flow from the previous chapter's events to the current chapter's setting.
+- The transition should feel natural and seamless, not forced.
+- Write in the same style as the existing content.
+- Write using concise words and casual language, DO NOT write in flowery language.
+- Write short sentences and paragraphs to keep it concise.
+- Write tight, focused paragraphs
+
+## Output:
+Write only the transition paragraph(s). Do not include any meta-commentary, explanations, or notes.`
+  },
+  {
+    id: 'rewrite',
+    label: 'Refine Chapter',
+    description: 'System prompt for the refine pass that strips filler and flowery language. The chapter is sent as the user message.',
+    version: 1,
+    variables: [],
+    template: `##INSTRUCTIONS
+You will be given a section of text and you MUST perform the following to it:
+
+---
+
+## WHAT TO REMOVE
+-Eliminate all appositive phrases relating to people or objects, except those that contain foreshadowing.
+-Eliminate all absolute phrases relating to people or objects, except those that provide sensory information or describe physical sensations.
+-Eliminate all metaphors in the text.
+-Eliminate all sentences that add unnecessary detail or reflection without contributing new information to the chapter.
+-Eliminate all sentences that hinder the pacing of the chapter by adding excessive descriptions of the environment, atmosphere, or setting unless they directly affect character actions or emotions.
+-Eliminate all phrases that mention the character's heart pounding or heart in their throat.
+If a paragraph doesn't need to be changed, leave it as is in the returned text.
+-Eliminate all sentences and phrases that mention light casting long shadows.
+
+---
+
+##WHAT TO REWRITE
+- Re-write any sentences or phrases that have "I frowned" in them or similar wording.
+- Re-write any sentences mentioning the air being stale and/or heavy.
+- Re-write ALL flowery language to use casual and simple vocabulary
+
+---
+
+##WORDS TO REPLACE
+#Re-write sentences with the following words with synonyms that are casual and simple.
+
+#Words:
+- Loomed
+- Sinewy
+- Foreboding
+- Grotesque
+- Familiar
+- Shift/Shifting/Shifted
+- Gaze
+- Punctuated
+- Form
+- Monotonous
+- Frowned
+- Hum/Humming/Hummed
+- rough-hewn
+- camaraderie
+- echoed
+
+Only respond with the modified text and nothing else. You MUST respond with the FULL text.`
+  },
+  {
+    id: 'sequel',
+    label: 'Sequel Idea',
+    description: 'Writes a sequel idea from the original story.',
+    version: 1,
+    variables: [
+      { name: 'title', description: 'The title of the original story.' },
+      { name: 'idea', description: 'The original story idea.' },
+      { name: 'plot', description: 'The original plot outline.' },
+      { name: 'summaries', description: 'Summaries of the chapters that were written.' }
+    ],
+    template: `I need a sequel idea for a story titled "{{title}}".
+
+The original story idea was: "{{idea}}"
+
+The original plot outline was:
+{{plot}}
+{{#if summaries}}
+What actually happened in each chapter of the original story:
+{{summaries}}
+{{/if}}
+Create a compelling sequel plot that builds upon the original story, continuing where it left off or exploring new directions with the same character(s) or world. The sequel should feel like a natural continuation while introducing new conflicts or challenges.
+Be as detailed as possible in your sequel idea to include as much information as possible in the plot.
+Write from third person omniscient perspective.
+Write the names of all characters and locations whenever they are mentioned.
+When you write the narrator's name, write (The Narrator) next to their name.
+You must write the sequal idea as a summary style with paragraphs.
+
+Only write the sequel idea and nothing else. DO NOT write any comments or explanations.`
+  },
+  {
+    id: 'continuity',
+    label: 'Continuity Ledger',
+    description: 'Extracts the details later chapters must stay consistent with from a completed chapter.',
+    version: 1,
+    variables: [
+      { name: 'chapter_number', description: 'The number of the completed chapter.' },
+      { name: 'categories', description: 'The ledger categories with their descriptions.' },
+      { name: 'characters', description: 'The character bible.' },
+      { name: 'ledger', description: 'The current ledger entries with their ids.' },
+      { name: 'chapter', description: 'The chapter text.' }
+    ],
+    template: `## Instructions
+You are keeping the continuity ledger for a story. Read chapter {{chapter_number}} and record every detail that later chapters must stay consistent with.
+
+## Ledger rules:
+- The category must be one of: {{categories}}.
+- The subject is the character, object or place the detail is about, using the names from the character list.
+- The detail is one short sentence. Include concrete specifics like names, colors, numbers and positions.
+- Only record details that are stated in the chapter, and do NOT repeat details that are already in the ledger.
+- List the ids of existing ledger entries that this chapter makes untrue in "resolved_ids", for example a healed injury or an object that changed hands.
+
+## You must STRICLY use the following JSON format without deviation, DO NOT write in markdown format:
+{
+  "added": [
+    {
+      "category": "object",
+      "subject": "Subject",
+      "detail": "Short detail"
+    }
+  ],
+  "resolved_ids": []
+}
+
+## Characters:
+{{#if characters}}{{characters}}{{else}}No character list provided.{{/if}}
+
+## Current ledger:
+{{#if ledger}}{{ledger}}{{else}}The ledger is empty.{{/if}}
+
+## Chapter {{chapter_number}}:
+{{chapter}}`
+  },
+  {
+    id: 'chapter_summary',
+    label: 'Chapter Summary',
+    description: 'Summarises a completed chapter for the rolling story context.',
+    version: 1,
+    variables: [
+      { name: 'chapter_number', description: 'The number of the completed chapter.' },
+      { name: 'chapter', description: 'The chapter text.' }
+    ],
+    template: `## Instructions
+Summarise chapter {{chapter_number}} of a story so the next chapters can be written without the full text.
+
+## Summary rules:
+- "short" is one or two sentences with the main event of the chapter.
+- "detailed" is one paragraph covering every event, decision, reveal and change in the characters' situation, in order.
+- Write in past tense and use the characters' names. Refer to the narrator by name with (The Narrator) next to it.
+- Do NOT add anything that is not in the chapter.
+
+## You must STRICLY use the following JSON format without deviation, DO NOT write in markdown format:
+{
+  "short": "Short summary",
+  "detailed": "Detailed summary"
+}
+
+## Chapter {{chapter_number}}:
+{{chapter}}`
+  }
+];
+
+export const PROMPT_TEMPLATE_MAP = Object.fromEntries(
+  PROMPT_TEMPLATES.map(template => [template.id, template])
+) as Record<PromptTemplateId, PromptTemplate>;
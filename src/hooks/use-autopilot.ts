@@ -0,0 +1,210 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useStoryService } from '@/hooks/use-story-service';
+import { useToast } from '@/hooks/use-toast';
+import { refineNarration } from '@/lib/refine';
+import {
+  autopilotStorageKey,
+  findNextAutopilotChapter,
+  getSceneContext,
+  parseAutopilotState,
+  type AutopilotChapter,
+  type AutopilotOptions,
+  type AutopilotPhase,
+  type AutopilotState
+} from '@/lib/autopilot';
+import type { ChapterSummary } from '@/types/story';
+
+interface UseAutopilotProps {
+  storyId?: string;
+  chapters: AutopilotChapter[];
+  characters: string;
+  continuity?: string;
+  summaries?: ChapterSummary[];
+  storyProfile?: string;
+  // Autopilot only resumes a saved run once the story has loaded
+  ready: boolean;
+  onChapterStart: (index: number) => void;
+  // Streams the chapter's content while it's being written
+  onChapterProgress: (index: number, content: string) => void;
+  // Called with the finished chapter and what it held before; resolves once it has been saved
+  onChapterWritten: (index: number, content: string, previous: string) => Promise<void>;
+}
+
+export interface AutopilotProgress {
+  chapter: number;
+  phase: AutopilotPhase;
+}
+
+// Writes every incomplete chapter one after another, saving each one as it finishes
+export function useAutopilot(props: UseAutopilotProps) {
+  const storyService = useStoryService();
+  const { toast } = useToast();
+  const [state, setState] = useState<AutopilotState | null>(null);
+  const [progress, setProgress] = useState<AutopilotProgress | null>(null);
+  const propsRef = useRef(props);
+  const controllerRef = useRef<AbortController | null>(null);
+  const restoredRef = useRef(false);
+  propsRef.current = props;
+
+  const { storyId, ready } = props;
+
+  const saveState = useCallback((next: AutopilotState | null) => {
+    setState(next);
+    if (!storyId) return;
+    if (next) {
+      localStorage.setItem(autopilotStorageKey(storyId), JSON.stringify(next));
+    } else {
+      localStorage.removeItem(autopilotStorageKey(storyId));
+    }
+  }, [storyId]);
+
+  const run = useCallback(async (options: AutopilotOptions) => {
+    if (controllerRef.current) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const { signal } = controller;
+
+    // Work on a copy so each chapter sees the ones written before it in this run
+    const chapters = propsRef.current.chapters.map(chapter => ({ ...chapter }));
+    let index = findNextAutopilotChapter(chapters);
+
+    try {
+      while (index !== -1) {
+        const { characters, continuity, summaries, storyProfile, onChapterStart, onChapterProgress } = propsRef.current;
+        const chapter = chapters[index];
+        onChapterStart(index);
+
+        setProgress({ chapter: index, phase: 'scene' });
+        const { previousScenes, futureSceneBeats } = getSceneContext(chapters, index);
+        let streamed = '';
+        let content = await storyService.writeScene(
+          chapter.sceneBeat,
+          characters,
+          previousScenes,
+          (chunk) => {
+            streamed += chunk;
+            onChapterProgress(index, streamed);
+          },
+          signal,
+          futureSceneBeats,
+          continuity,
+          summaries,
+          storyProfile
+        );
+        if (signal.aborted) return;
+        if (!content?.trim()) {
+          throw new Error(`Chapter ${index + 1} came back empty`);
+        }
+
+        const previous = chapters[index - 1];
+        if (options.transitions && previous?.content) {
+          setProgress({ chapter: index, phase: 'transition' });
+          const transition = await storyService.generateTransition(
+            previous.content,
+            content,
+            chapter.sceneBeat,
+            undefined,
+            signal,
+            // Summaries of the chapters before the previous one
+            summaries?.filter(summary => summary.chapter_number < index)
+          );
+          if (signal.aborted) return;
+          content = transition + '\n\n' + content;
+          onChapterProgress(index, content);
+        }
+
+        if (options.refine) {
+          setProgress({ chapter: index, phase: 'refine' });
+          content = await refineNarration(content, section => storyService.rewriteInChunks(section, undefined, signal), undefined, signal);
+          if (signal.aborted) return;
+          onChapterProgress(index, content);
+        }
+
+        // Checkpoint before moving on, so a reload starts at the next chapter
+        await propsRef.current.onChapterWritten(index, content, chapter.content);
+        chapters[index] = { ...chapter, content, completed: true };
+        index = findNextAutopilotChapter(chapters);
+      }
+
+      saveState(null);
+      toast({
+        title: "Autopilot finished",
+        description: "Every chapter has been written.",
+        duration: 3000,
+      });
+    } catch (error) {
+      if (signal.aborted) return;
+      console.error('Autopilot stopped:', error);
+      if (index !== -1) {
+        propsRef.current.onChapterProgress(index, chapters[index].content);
+      }
+      saveState({ status: 'paused', options, error: (error as Error).message });
+      toast({
+        title: "Error",
+        description: `Autopilot paused on chapter ${index + 1}: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    } finally {
+      if (signal.aborted && index !== -1) {
+        // Put back whatever the interrupted chapter had before autopilot started on it
+        propsRef.current.onChapterProgress(index, chapters[index].content);
+      }
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+      }
+      setProgress(null);
+    }
+  }, [storyService, saveState, toast]);
+
+  const start = useCallback((options: AutopilotOptions) => {
+    saveState({ status: 'running', options });
+    run(options);
+  }, [saveState, run]);
+
+  const pause = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setState(prev => {
+      if (!prev) return prev;
+      const next: AutopilotState = { status: 'paused', options: prev.options };
+      if (storyId) localStorage.setItem(autopilotStorageKey(storyId), JSON.stringify(next));
+      return next;
+    });
+  }, [storyId]);
+
+  const resume = useCallback(() => {
+    if (!state) return;
+    start(state.options);
+  }, [state, start]);
+
+  const stop = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    saveState(null);
+  }, [saveState]);
+
+  // Pick up a saved run once the story has loaded; a run that was going when the page closed carries on
+  useEffect(() => {
+    if (!ready || !storyId || restoredRef.current) return;
+    restoredRef.current = true;
+
+    const saved = parseAutopilotState(localStorage.getItem(autopilotStorageKey(storyId)));
+    if (!saved) return;
+    if (findNextAutopilotChapter(propsRef.current.chapters) === -1) {
+      saveState(null);
+    } else if (saved.status === 'running') {
+      start(saved.options);
+    } else {
+      setState(saved);
+    }
+  }, [ready, storyId, saveState, start]);
+
+  // Stop writing when leaving the editor; the saved state lets the run continue next time
+  useEffect(() => () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    restoredRef.current = false;
+  }, []);
+
+  return { state, progress, start, pause, resume, stop };
+}
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { batchGenerationService } from '@/services/BatchGenerationService';
+import { useAuth } from '@/components/AuthProvider';
+import type { BatchJob } from '@/types/batch';
+
+// The batch generation queue, resumed for the signed-in user
+export function useBatchQueue() {
+  const { user } = useAuth();
+  const [jobs, setJobs] = useState<BatchJob[]>(batchGenerationService.getJobs());
+
+  useEffect(() => batchGenerationService.subscribe(setJobs), []);
+
+  useEffect(() => {
+    if (user) {
+      batchGenerationService.setUserId(user.id);
+    }
+  }, [user]);
+
+  return { jobs, queue: batchGenerationService };
+}
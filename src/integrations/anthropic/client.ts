@@ -0,0 +1,110 @@
+import type { ChatCompletionOptions, ChatCompletionRequest, LLMClient } from '@/types/llm';
+
+// Anthropic Messages API
+const ANTHROPIC_API_BASE = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// The Messages API requires max_tokens on every request
+const DEFAULT_MAX_TOKENS = 4096;
+
+interface AnthropicMessage {
+  content: Array<{ type: string; text?: string }>;
+  stop_reason: string | null;
+}
+
+// Helper function to check if an API key is valid
+export const isValidApiKey = (apiKey: string | null | undefined): boolean => {
+  return typeof apiKey === 'string' && apiKey.trim().length > 0;
+};
+
+// Convert Anthropic's server-sent events into OpenAI-style stream chunks
+async function* streamMessages(response: Response) {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue;
+      const payload = line.slice(5).trim();
+      if (!payload) continue;
+
+      const event = JSON.parse(payload);
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        yield { choices: [{ delta: { content: event.delta.text } }] };
+      } else if (event.type === 'error') {
+        throw new Error(event.error?.message || 'Anthropic stream error');
+      }
+    }
+  }
+}
+
+// Helper function to create a client with a specific API key.
+// The client exposes the same chat.completions.create shape as the OpenAI SDK.
+export const createAnthropicClient = (apiKey: string): LLMClient => {
+  if (!isValidApiKey(apiKey)) {
+    throw new Error('Invalid Anthropic API key');
+  }
+
+  const create = async (params: ChatCompletionRequest, options: ChatCompletionOptions = {}) => {
+    // System prompts are a top-level field in the Messages API
+    const system = params.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    const body: Record<string, unknown> = {
+      model: params.model,
+      max_tokens: params.max_tokens ?? DEFAULT_MAX_TOKENS,
+      messages: params.messages
+        .filter(message => message.role !== 'system')
+        .map(({ role, content }) => ({ role, content }))
+    };
+    if (system) body.system = system;
+    // Anthropic only accepts temperatures between 0 and 1
+    if (params.temperature !== undefined) body.temperature = Math.min(params.temperature, 1);
+    if (params.stream) body.stream = true;
+
+    const response = await fetch(`${ANTHROPIC_API_BASE}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        'anthropic-dangerous-direct-browser-access': 'true' // Required for browser usage
+      },
+      body: JSON.stringify(body),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      throw Object.assign(
+        new Error(`Anthropic request failed: ${response.status} ${await response.text()}`),
+        { status: response.status }
+      );
+    }
+
+    if (params.stream) {
+      return streamMessages(response);
+    }
+
+    const data: AnthropicMessage = await response.json();
+    const content = (data.content || [])
+      .filter(block => block.type === 'text')
+      .map(block => block.text)
+      .join('');
+
+    return {
+      choices: [{ message: { role: 'assistant', content }, finish_reason: data.stop_reason }]
+    };
+  };
+
+  return { chat: { completions: { create } } };
+};
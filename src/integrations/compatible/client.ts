@@ -0,0 +1,27 @@
+import OpenAI from 'openai';
+
+// Helper function to check if a base URL is usable
+export const isValidBaseUrl = (baseUrl: string | null | undefined): boolean => {
+  if (typeof baseUrl !== 'string' || baseUrl.trim().length === 0) return false;
+  try {
+    const url = new URL(baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+// Helper function to create a client for any OpenAI-compatible server
+// (llama.cpp, Ollama, vLLM, LM Studio, ...). Local servers usually ignore the key.
+export const createCompatibleClient = (baseUrl: string, apiKey?: string | null) => {
+  if (!isValidBaseUrl(baseUrl)) {
+    throw new Error('Invalid OpenAI-compatible base URL');
+  }
+
+  return new OpenAI({
+    // The SDK refuses an empty key, so send a placeholder when none is configured
+    apiKey: apiKey && apiKey.trim().length > 0 ? apiKey : 'not-needed',
+    baseURL: baseUrl.trim().replace(/\/+$/, ''),
+    dangerouslyAllowBrowser: true // Required for browser usage
+  });
+};
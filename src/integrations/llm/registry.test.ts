@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import type { UserSettings } from '@/types/settings';
+import { expectCompletion, expectStream, resolveStepRoute } from './registry';
+
+const settings = (fields: Partial<UserSettings> = {}): UserSettings => ({
+  user_id: 'user-1',
+  openai_key: 'sk-test',
+  openrouter_model: 'openai/gpt-4o-mini',
+  reasoning_model: 'gpt-4o',
+  rewrite_model: 'gpt-4o',
+  story_generation_model: 'llama3.1:8b',
+  story_idea_model: 'ft:gpt-4o-mini:ideas',
+  title_fine_tune_model: 'ft:gpt-4o-mini:titles',
+  use_openai_for_story_gen: false,
+  elevenlabs_model: '',
+  ...fields
+});
+
+describe('resolveStepRoute', () => {
+  it('runs ideas and titles on the OpenAI fine-tunes alongside OpenRouter', () => {
+    const route = resolveStepRoute('title', settings({ llm_provider: 'openrouter' }));
+    expect(route).toMatchObject({ provider: 'openai', model: 'ft:gpt-4o-mini:titles' });
+    expect(resolveStepRoute('idea', settings()).provider).toBe('openai');
+  });
+
+  it('keeps ideas and titles on a compatible or Anthropic provider', () => {
+    for (const provider of ['compatible', 'anthropic'] as const) {
+      expect(resolveStepRoute('idea', settings({ llm_provider: provider }))).toMatchObject({ provider, model: 'llama3.1:8b' });
+      expect(resolveStepRoute('title', settings({ llm_provider: provider }))).toMatchObject({ provider, model: 'llama3.1:8b' });
+    }
+  });
+
+  it('uses OpenAI for those steps when the routing table says so', () => {
+    const route = resolveStepRoute('title', settings({
+      llm_provider: 'compatible',
+      model_routing: { title: { provider: 'openai' } }
+    }));
+    expect(route).toMatchObject({ provider: 'openai', model: 'ft:gpt-4o-mini:titles' });
+  });
+
+  it('lets the routing table pick the model and sampling', () => {
+    const route = resolveStepRoute('scene', settings({
+      llm_provider: 'compatible',
+      model_routing: { scene: { model: 'qwen2.5:14b', temperature: 0.9 } }
+    }));
+    expect(route).toEqual({ provider: 'compatible', model: 'qwen2.5:14b', temperature: 0.9, max_tokens: undefined });
+  });
+});
+
+describe('expectCompletion and expectStream', () => {
+  const completion = { choices: [{ message: { role: 'assistant', content: 'Hello' } }] };
+  async function* stream() {
+    yield { choices: [{ delta: { content: 'Hello' } }] };
+  }
+
+  it('pass through the response shape the request asked for', () => {
+    expect(expectCompletion(completion)).toBe(completion);
+    const chunks = stream();
+    expect(expectStream(chunks)).toBe(chunks);
+  });
+
+  it('reject the other shape', () => {
+    expect(() => expectCompletion(stream())).toThrow(/stream/);
+    expect(() => expectStream(completion)).toThrow(/complete/);
+  });
+});
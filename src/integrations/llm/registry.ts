@@ -0,0 +1,248 @@
+import type OpenAI from 'openai';
+import { createOpenAIClient, isValidApiKey } from '@/integrations/openai/client';
+import { createOpenRouterClient } from '@/integrations/openrouter/client';
+import { createAnthropicClient } from '@/integrations/anthropic/client';
+import { createCompatibleClient, isValidBaseUrl } from '@/integrations/compatible/client';
+import { createMockClient } from '@/integrations/mock/client';
+import type {
+  ChatCompletionChunk,
+  ChatCompletionResponse,
+  ChatCompletionResult,
+  LLMClient,
+  PipelineStep,
+  ProviderId,
+  StepRoute
+} from '@/types/llm';
+import type { UserSettings } from '@/types/settings';
+
+// Everything the story pipeline needs to know about a provider
+export interface LLMProviderDefinition {
+  id: ProviderId;
+  label: string;
+  modelPlaceholder: string;
+  // Whether the provider accepts OpenAI-style `response_format: { type: "json_schema" }`
+  supportsJsonSchema: boolean;
+  isConfigured: (settings: UserSettings) => boolean;
+  createClient: (settings: UserSettings) => LLMClient;
+  formatModel?: (model: string) => string;
+  validateModel?: (model: string) => boolean;
+}
+
+// The OpenAI SDK's overloaded create() doesn't narrow to our single signature,
+// but it accepts the same request and options at runtime
+const asLLMClient = (client: OpenAI): LLMClient => client as unknown as LLMClient;
+
+// Narrow what create() resolved to: a stream for requests with `stream: true`, a complete response otherwise
+const isCompletionStream = (result: ChatCompletionResult): result is AsyncIterable<ChatCompletionChunk> =>
+  typeof (result as AsyncIterable<ChatCompletionChunk>)[Symbol.asyncIterator] === 'function';
+
+export const expectCompletion = (result: ChatCompletionResult): ChatCompletionResponse => {
+  if (isCompletionStream(result)) {
+    throw new Error('Expected a complete response but the provider returned a stream');
+  }
+  return result;
+};
+
+export const expectStream = (result: ChatCompletionResult): AsyncIterable<ChatCompletionChunk> => {
+  if (!isCompletionStream(result)) {
+    throw new Error('Expected a streamed response but the provider returned a complete one');
+  }
+  return result;
+};
+
+const providers = new Map<ProviderId, LLMProviderDefinition>();
+
+// Register (or replace) a provider definition
+export const registerProvider = (definition: LLMProviderDefinition) => {
+  providers.set(definition.id, definition);
+};
+
+export const getProvider = (id: ProviderId): LLMProviderDefinition => {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown LLM provider: ${id}`);
+  }
+  return provider;
+};
+
+export const listProviders = (): LLMProviderDefinition[] => Array.from(providers.values());
+
+registerProvider({
+  id: 'openai',
+  label: 'OpenAI',
+  modelPlaceholder: 'gpt-4o',
+  supportsJsonSchema: false,
+  isConfigured: settings => isValidApiKey(settings.openai_key),
+  createClient: settings => {
+    if (!isValidApiKey(settings.openai_key)) {
+      throw new Error('OpenAI API key not set in user settings');
+    }
+    return asLLMClient(createOpenAIClient(settings.openai_key!));
+  },
+  // OpenAI models typically start with "gpt-"
+  validateModel: model => model.startsWith('gpt-')
+});
+
+registerProvider({
+  id: 'openrouter',
+  label: 'OpenRouter',
+  modelPlaceholder: 'openai/gpt-4o-mini',
+  supportsJsonSchema: true,
+  isConfigured: settings => isValidApiKey(settings.openrouter_key),
+  createClient: settings => {
+    if (!isValidApiKey(settings.openrouter_key)) {
+      throw new Error('OpenRouter API key not set in user settings');
+    }
+    return asLLMClient(createOpenRouterClient(settings.openrouter_key!));
+  },
+  // Common models like gpt-4o-mini need a provider prefix on OpenRouter
+  formatModel: model => (!model.includes('/') && model.startsWith('gpt-') ? `openai/${model}` : model)
+});
+
+registerProvider({
+  id: 'anthropic',
+  label: 'Anthropic',
+  modelPlaceholder: 'claude-3-7-sonnet-latest',
+  supportsJsonSchema: false,
+  isConfigured: settings => isValidApiKey(settings.anthropic_key),
+  createClient: settings => {
+    if (!isValidApiKey(settings.anthropic_key)) {
+      throw new Error('Anthropic API key not set in user settings');
+    }
+    return createAnthropicClient(settings.anthropic_key!);
+  },
+  // OpenRouter-style ids such as "anthropic/claude-3.7-sonnet" are not valid here
+  validateModel: model => !model.includes('/')
+});
+
+registerProvider({
+  id: 'compatible',
+  label: 'OpenAI-compatible endpoint',
+  modelPlaceholder: 'llama3.1:8b',
+  supportsJsonSchema: false,
+  isConfigured: settings => isValidBaseUrl(settings.compatible_base_url),
+  createClient: settings => {
+    if (!isValidBaseUrl(settings.compatible_base_url)) {
+      throw new Error('OpenAI-compatible base URL not set in user settings');
+    }
+    return asLLMClient(createCompatibleClient(settings.compatible_base_url!, settings.compatible_api_key));
+  }
+});
+
+registerProvider({
+  id: 'mock',
+  label: 'Mock (offline)',
+  modelPlaceholder: 'mock-model',
+  supportsJsonSchema: true,
+  isConfigured: () => true,
+  // Small delay between chunks so streaming is visible in the editor
+  createClient: settings => createMockClient({
+    scenario: settings.mock_scenario || 'default',
+    chunkDelayMs: 20
+  })
+});
+
+// The provider used for story generation when a step has no explicit route
+export const getDefaultProviderId = (settings: UserSettings): ProviderId => {
+  if (settings.llm_provider && providers.has(settings.llm_provider)) {
+    return settings.llm_provider;
+  }
+  return settings.use_openai_for_story_gen ? 'openai' : 'openrouter';
+};
+
+// Pipeline steps in the order they run, with labels for the settings UI
+export const PIPELINE_STEPS: Array<{ id: PipelineStep; label: string; description: string }> = [
+  { id: 'idea', label: 'Story Idea', description: 'Generates a story idea from the genre prompts' },
+  { id: 'summary', label: 'Summary', description: 'Rewrites Reddit posts and summarises story ideas' },
+  { id: 'title', label: 'Title', description: 'Creates the story title' },
+  { id: 'outline', label: 'Outline', description: 'Writes the chapter-by-chapter plot outline' },
+  { id: 'characters', label: 'Characters', description: 'Writes the character descriptions' },
+  { id: 'scene', label: 'Chapter', description: 'Writes each chapter from its beat' },
+  { id: 'revise', label: 'Revision', description: 'Revises a chapter based on feedback' },
+  { id: 'transition', label: 'Transition', description: 'Bridges the end of one chapter to the next' },
+  { id: 'refine', label: 'Refine', description: 'Rewrites a chapter to remove flowery language' },
+  { id: 'sequel', label: 'Sequel', description: 'Generates a sequel idea from a finished story' },
+  { id: 'continuity', label: 'Continuity', description: 'Extracts the continuity ledger from completed chapters' },
+  { id: 'chapter_summary', label: 'Chapter Summaries', description: 'Summarises completed chapters for the writing context' }
+];
+
+// Sampling parameters each step used before they were configurable
+const STEP_DEFAULTS: Record<PipelineStep, { temperature?: number; max_tokens?: number }> = {
+  idea: { temperature: 0.7 },
+  summary: { temperature: 0.7 },
+  title: { temperature: 0.9 },
+  outline: { temperature: 0.8 },
+  characters: { temperature: 0.7, max_tokens: 4000 },
+  scene: { temperature: 0.5 },
+  revise: { temperature: 0.7, max_tokens: 4000 },
+  transition: { temperature: 0.7, max_tokens: 500 },
+  refine: { temperature: 1 },
+  sequel: { temperature: 0.7 },
+  continuity: { temperature: 0.2, max_tokens: 2000 },
+  chapter_summary: { temperature: 0.3, max_tokens: 1500 }
+};
+
+// Steps that run on OpenAI fine-tuned models when an OpenAI key is available and the story
+// provider is OpenAI or OpenRouter. Other providers run the whole pipeline unless a step is routed.
+const FINE_TUNE_STEPS: PipelineStep[] = ['idea', 'title'];
+const FINE_TUNE_FALLBACK_PROVIDERS: ProviderId[] = ['openai', 'openrouter'];
+
+// Model each step used before per-step routing existed
+const getLegacyStepModel = (step: PipelineStep, settings: UserSettings, provider: ProviderId): string => {
+  const isOpenAI = provider === 'openai';
+  const reasoningModel = settings.reasoning_model || (isOpenAI ? 'gpt-4o' : 'anthropic/claude-3.7-sonnet:thinking');
+
+  // The fine-tuned models are OpenAI models, so other providers write ideas and titles with the story model
+  const usesFineTunes = FINE_TUNE_FALLBACK_PROVIDERS.includes(provider);
+
+  switch (step) {
+    case 'idea':
+      return (usesFineTunes && settings.story_idea_model) || settings.story_generation_model;
+    case 'title':
+      return usesFineTunes ? settings.title_fine_tune_model : settings.story_generation_model;
+    case 'characters':
+      return isOpenAI
+        ? settings.story_generation_model || 'gpt-4o'
+        : settings.openrouter_model || 'openai/gpt-4o-mini';
+    case 'scene':
+    case 'revise':
+    case 'refine':
+      return settings.story_generation_model;
+    case 'summary':
+    case 'outline':
+    case 'transition':
+    case 'sequel':
+    case 'continuity':
+    case 'chapter_summary':
+    default:
+      return reasoningModel;
+  }
+};
+
+// Resolve the provider, model and sampling parameters a pipeline step should use.
+// An entry in the user's routing table wins; anything it leaves unset falls back to the defaults.
+export const resolveStepRoute = (step: PipelineStep, settings: UserSettings): StepRoute => {
+  const override = settings.model_routing?.[step] || {};
+
+  let provider: ProviderId;
+  if (override.provider && providers.has(override.provider)) {
+    provider = override.provider;
+  } else {
+    const defaultProvider = getDefaultProviderId(settings);
+    provider = FINE_TUNE_STEPS.includes(step) &&
+      FINE_TUNE_FALLBACK_PROVIDERS.includes(defaultProvider) &&
+      isValidApiKey(settings.openai_key)
+      ? 'openai'
+      : defaultProvider;
+  }
+
+  const definition = getProvider(provider);
+  const model = override.model?.trim() || getLegacyStepModel(step, settings, provider) || '';
+
+  return {
+    provider,
+    model: definition.formatModel ? definition.formatModel(model) : model,
+    temperature: override.temperature ?? STEP_DEFAULTS[step].temperature,
+    max_tokens: override.max_tokens ?? STEP_DEFAULTS[step].max_tokens
+  };
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { ChatCompletionChunk, ChatCompletionRequest, ChatCompletionResponse, ChatCompletionResult } from '@/types/llm';
+import { createMockClient } from './client';
+
+const request = (content: string, fields: Partial<ChatCompletionRequest> = {}): ChatCompletionRequest => ({
+  model: 'mock-model',
+  messages: [{ role: 'user', content }],
+  ...fields
+});
+
+const OUTLINE_PROMPT = '## OUTLINE REQUIREMENTS\n- The plot outline must contain between 3 and 5 chapters.';
+
+const readStream = async (result: ChatCompletionResult) => {
+  const chunks: string[] = [];
+  for await (const chunk of result as AsyncIterable<ChatCompletionChunk>) {
+    chunks.push(chunk.choices[0]?.delta?.content || '');
+  }
+  return chunks;
+};
+
+const contentOf = (result: ChatCompletionResult) => (result as ChatCompletionResponse).choices[0].message.content;
+
+describe('createMockClient', () => {
+  it('returns scripted responses in order, then the fixtures', async () => {
+    const client = createMockClient({ responses: ['First', 'Second'] });
+    expect(contentOf(await client.chat.completions.create(request('a')))).toBe('First');
+    expect(contentOf(await client.chat.completions.create(request('b')))).toBe('Second');
+
+    const outline = JSON.parse(contentOf(await client.chat.completions.create(request(OUTLINE_PROMPT))) || '');
+    expect(outline).toHaveLength(3);
+    expect(client.calls.map(call => call.messages[0].content)).toEqual(['a', 'b', OUTLINE_PROMPT]);
+  });
+
+  it('streams the completion in chunks that join back into it', async () => {
+    const client = createMockClient({ responses: ['one two three four five'], chunkSize: 2 });
+    const chunks = await readStream(await client.chat.completions.create(request('a', { stream: true })));
+    expect(chunks).toEqual(['one two ', 'three four ', 'five']);
+  });
+
+  it('fails every request in the rate_limit and error scenarios', async () => {
+    const rateLimited = createMockClient({ scenario: 'rate_limit' });
+    await expect(rateLimited.chat.completions.create(request('a'))).rejects.toMatchObject({ status: 429 });
+
+    const failing = createMockClient({ scenario: 'error' });
+    await expect(failing.chat.completions.create(request('a'))).rejects.toMatchObject({ status: 500 });
+  });
+
+  it('aborts streams halfway through in the abort scenario', async () => {
+    const client = createMockClient({ scenario: 'abort', responses: ['one two three four'], chunkSize: 1 });
+    const stream = await client.chat.completions.create(request('a', { stream: true }));
+    const chunks: string[] = [];
+    await expect((async () => {
+      for await (const chunk of stream as AsyncIterable<ChatCompletionChunk>) {
+        chunks.push(chunk.choices[0]?.delta?.content || '');
+      }
+    })()).rejects.toMatchObject({ name: 'AbortError' });
+    expect(chunks).toEqual(['one ', 'two ']);
+  });
+
+  it('rejects requests whose signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const client = createMockClient();
+    await expect(client.chat.completions.create(request('a'), { signal: controller.signal }))
+      .rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('breaks outline JSON in the malformed_json scenario', async () => {
+    const client = createMockClient({ scenario: 'malformed_json' });
+    const content = contentOf(await client.chat.completions.create(request(OUTLINE_PROMPT))) || '';
+    expect(content).toMatch(/^Here is the plot outline:\n```json\n\[/);
+    expect(() => JSON.parse(content)).toThrow();
+    expect(contentOf(await client.chat.completions.create(request('a')))).not.toContain('```');
+  });
+});
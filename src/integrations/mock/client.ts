@@ -0,0 +1,138 @@
+import type { ChatCompletionOptions, ChatCompletionRequest, LLMClient, MockScenario } from '@/types/llm';
+import { getFixtureCompletion, isOutlineRequest } from './fixtures';
+
+// A scripted completion. A plain string is returned as-is.
+export type MockResponse = string | {
+  content?: string;
+  // Throw instead of answering
+  error?: 'rate_limit' | 'abort' | 'error';
+  // Abort a streamed response after this many chunks
+  abortAfterChunks?: number;
+};
+
+export interface MockClientOptions {
+  scenario?: MockScenario;
+  // Completions returned in order; once exhausted the fixtures take over
+  responses?: MockResponse[];
+  // Custom responder, consulted before the fixtures
+  respond?: (request: ChatCompletionRequest) => MockResponse | undefined;
+  // Words per streamed chunk
+  chunkSize?: number;
+  // Delay between streamed chunks in milliseconds
+  chunkDelayMs?: number;
+}
+
+export interface MockClient extends LLMClient {
+  // Every request the client received, for assertions in tests
+  calls: ChatCompletionRequest[];
+}
+
+const createAbortError = () => {
+  const error = new Error('The mock request was aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+const createRateLimitError = () => {
+  return Object.assign(new Error('429 Rate limit exceeded (mock provider)'), { status: 429 });
+};
+
+const createServerError = () => {
+  return Object.assign(new Error('500 Internal server error (mock provider)'), { status: 500 });
+};
+
+// Break valid JSON the way models tend to: wrapped in a fence with the closing bracket cut off
+const toMalformedJson = (content: string): string => {
+  const truncated = content.trim().replace(/\]\s*$/, '');
+  return `Here is the plot outline:\n\`\`\`json\n${truncated}\n\`\`\``;
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(createAbortError());
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  }, { once: true });
+});
+
+// Split text into chunks of a few words, keeping whitespace so the chunks rejoin exactly
+const splitIntoChunks = (text: string, chunkSize: number): string[] => {
+  const words = text.match(/\S+\s*/g) || [];
+  const chunks: string[] = [];
+  for (let i = 0; i < words.length; i += chunkSize) {
+    chunks.push(words.slice(i, i + chunkSize).join(''));
+  }
+  return chunks;
+};
+
+async function* streamChunks(
+  chunks: string[],
+  chunkDelayMs: number,
+  abortAfterChunks: number | undefined,
+  signal?: AbortSignal
+) {
+  for (let i = 0; i < chunks.length; i++) {
+    if (abortAfterChunks !== undefined && i >= abortAfterChunks) {
+      throw createAbortError();
+    }
+    if (chunkDelayMs > 0) {
+      await wait(chunkDelayMs, signal);
+    } else if (signal?.aborted) {
+      throw createAbortError();
+    }
+    yield { choices: [{ delta: { content: chunks[i] } }] };
+  }
+}
+
+// Helper function to create a deterministic client that never touches the network.
+// Used by the "mock" provider for offline development and injected directly in tests.
+export const createMockClient = (options: MockClientOptions = {}): MockClient => {
+  const {
+    scenario = 'default',
+    respond,
+    chunkSize = 3,
+    chunkDelayMs = 0
+  } = options;
+  const queue = [...(options.responses || [])];
+  const calls: ChatCompletionRequest[] = [];
+
+  const create = async (params: ChatCompletionRequest, requestOptions: ChatCompletionOptions = {}) => {
+    const { signal } = requestOptions;
+    calls.push(params);
+
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+
+    const scripted = queue.length > 0 ? queue.shift() : respond?.(params);
+    const response = typeof scripted === 'string' ? { content: scripted } : scripted || {};
+
+    const error = response.error || (scenario === 'rate_limit' || scenario === 'error' ? scenario : undefined);
+    if (error === 'rate_limit') throw createRateLimitError();
+    if (error === 'error') throw createServerError();
+    if (error === 'abort') throw createAbortError();
+
+    let content = response.content ?? getFixtureCompletion(params);
+    if (scenario === 'malformed_json' && response.content === undefined && isOutlineRequest(params)) {
+      content = toMalformedJson(content);
+    }
+
+    if (params.stream) {
+      const chunks = splitIntoChunks(content, chunkSize);
+      const abortAfterChunks = response.abortAfterChunks ??
+        (scenario === 'abort' ? Math.floor(chunks.length / 2) : undefined);
+      return streamChunks(chunks, chunkDelayMs, abortAfterChunks, signal);
+    }
+
+    if (scenario === 'abort') {
+      throw createAbortError();
+    }
+
+    return {
+      choices: [{ message: { role: 'assistant', content }, finish_reason: 'stop' }]
+    };
+  };
+
+  return { calls, chat: { completions: { create } } };
+};
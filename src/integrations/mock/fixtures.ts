@@ -0,0 +1,138 @@
+// Deterministic fixture completions for the mock LLM provider.
+// Each fixture is picked by recognising the prompt of a pipeline step.
+
+import type { ChatCompletionRequest } from '@/types/llm';
+import type { OutlineChapter } from '@/types/story';
+import type { Character } from '@/types/character';
+
+export const MOCK_TITLE = 'I Found a Door in My Basement, and It Was Gone the Next Morning';
+
+export const MOCK_STORY_IDEA = `Marisol Okonkwo-Vance (The Narrator) takes a night job as the caretaker of the Halvorsen Lighthouse on Cape Disappointment, Washington.
+The previous caretaker left a logbook that stops mid-sentence, and every night at 3:12 AM the lamp turns itself toward the forest instead of the sea.
+As Marisol follows the beam into the trees, she finds the keepers who came before her were never relieved of duty.`;
+
+export const MOCK_CHARACTERS: Character[] = [
+  {
+    name: 'Marisol Okonkwo-Vance (The Narrator)',
+    aliases: ['Mari'],
+    pronouns: 'she/her',
+    age: '34',
+    role: 'protagonist',
+    personality: 'Practical, stubborn and quietly curious.',
+    appearance: 'Short dark hair, a weathered rain jacket and a permanent ink stain on her right hand.',
+    relationships: 'New caretaker who replaces Teodor.',
+    arc: 'Goes from following the rules of the logbook to breaking them to free the keepers.',
+    first_appearance_chapter: 1
+  },
+  {
+    name: 'Teodor Lindqvist-Amari',
+    aliases: ['Teo'],
+    pronouns: 'he/him',
+    age: '61',
+    role: 'supporting',
+    personality: 'Gentle, forgetful and evasive about the past.',
+    appearance: 'Tall, stooped, with a grey beard and wire-rimmed glasses.',
+    relationships: 'Former caretaker who trained Marisol.',
+    arc: 'Finally admits what happened to the keepers before him.',
+    first_appearance_chapter: 1
+  }
+];
+
+const MOCK_PARAGRAPHS = [
+  'The lamp room smelled like salt and old machine oil. I climbed the last few steps and checked the logbook before I did anything else.',
+  'Teo had written the same line three nights in a row. "It points inland again." The third entry stopped halfway through the word again.',
+  '"You get used to the noises," he had told me on my first day. He had not told me what the noises were.',
+  'At 3:12 the gears groaned and the beam swung away from the water. It settled on a gap in the trees I had never noticed in daylight.',
+  'I grabbed my flashlight and went down to see what it was pointing at.'
+];
+
+export const MOCK_CHAPTER = MOCK_PARAGRAPHS.join('\n\n');
+
+// Build an outline with the smallest chapter count the prompt asks for
+export const buildMockOutline = (minChapters: number): OutlineChapter[] => {
+  return Array.from({ length: minChapters }, (_, index) => {
+    const isFinal = index === minChapters - 1;
+    return {
+      chapter_number: index + 1,
+      title: isFinal ? 'Relieved of Duty' : `Night ${index + 1}`,
+      chapter_beat: isFinal
+        ? `Chapter ${index + 1} is the final chapter. Marisol (The Narrator) turns the lamp back toward the sea and the keepers are finally relieved.`
+        : `Chapter ${index + 1}: Marisol (The Narrator) spends night ${index + 1} at the Halvorsen Lighthouse and follows the beam a little further into the forest.`,
+      setting: isFinal ? 'Halvorsen Lighthouse lamp room' : 'The forest behind the Halvorsen Lighthouse',
+      time_marker: `Night ${index + 1}, 3:12 AM`,
+      pov_character: 'Marisol Okonkwo-Vance (The Narrator)',
+      target_word_count: 3000,
+      tension_level: Math.min(10, Math.round(((index + 1) / minChapters) * 10))
+    };
+  });
+};
+
+const getPromptText = (request: ChatCompletionRequest): string => {
+  return request.messages.map(message => message.content).join('\n');
+};
+
+// Whether the request expects a JSON outline back
+export const isOutlineRequest = (request: ChatCompletionRequest): boolean => {
+  return getPromptText(request).includes('OUTLINE REQUIREMENTS');
+};
+
+// Pick the fixture completion for a request
+export const getFixtureCompletion = (request: ChatCompletionRequest): string => {
+  const prompt = getPromptText(request);
+
+  if (isOutlineRequest(request)) {
+    const range = prompt.match(/between (\d+) and (\d+) chapters/);
+    const minChapters = range ? parseInt(range[1], 10) : 5;
+    return JSON.stringify(buildMockOutline(minChapters), null, 2);
+  }
+
+  const rewrite = prompt.match(/Rewrite chapter (\d+) of (\d+)/);
+  if (rewrite) {
+    const chapterIndex = parseInt(rewrite[1], 10) - 1;
+    const chapters = buildMockOutline(parseInt(rewrite[2], 10));
+    return JSON.stringify(chapters[chapterIndex] ?? chapters[0], null, 2);
+  }
+
+  if (prompt.includes('list every relationship between two of the characters')) {
+    return JSON.stringify({
+      relationships: [{
+        source: MOCK_CHARACTERS[1].name,
+        target: MOCK_CHARACTERS[0].name,
+        type: 'mentor',
+        description: 'Teo trained Mari to keep the lighthouse.'
+      }]
+    }, null, 2);
+  }
+
+  const summary = prompt.match(/Summarise chapter (\d+) of a story/);
+  if (summary) {
+    return JSON.stringify({
+      short: `Chapter ${summary[1]}: ${MOCK_PARAGRAPHS[0]}`,
+      detailed: MOCK_PARAGRAPHS.join(' ')
+    }, null, 2);
+  }
+
+  if (prompt.includes('You are keeping the continuity ledger')) {
+    return JSON.stringify({
+      added: [
+        { category: 'object', subject: 'Logbook', detail: 'Teo\'s last entry stops halfway through the word "again".' },
+        { category: 'location', subject: MOCK_CHARACTERS[0].name, detail: 'Followed the beam down toward the gap in the trees.' }
+      ],
+      resolved_ids: []
+    }, null, 2);
+  }
+
+  if (prompt.includes('write short character descriptions')) {
+    return JSON.stringify({ characters: MOCK_CHARACTERS }, null, 2);
+  }
+
+  if (prompt.includes('YouTube title')) {
+    return MOCK_TITLE;
+  }
+
+  if (/story idea|sequel idea|detailed summary|concise summary/i.test(prompt)) {
+    return MOCK_STORY_IDEA;
+  }
+
+  return MOCK_CHAPTER;
+};
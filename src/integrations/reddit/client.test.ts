@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  clearRedditCache,
+  filterLongPosts,
+  getPostByPermalink,
+  getPosts,
+  getRandomPost,
+  normalizePermalink,
+  searchPosts,
+  type RedditPost
+} from './client';
+
+const post = (id: string, fields: Partial<RedditPost> = {}): RedditPost => ({
+  id,
+  subreddit: 'nosleep',
+  title: `Post ${id}`,
+  selftext: 'x'.repeat(100),
+  author: 'someone',
+  permalink: `/r/nosleep/comments/${id}`,
+  created_utc: 0,
+  score: 1,
+  link_flair_text: null,
+  num_comments: 0,
+  url: '',
+  ...fields
+});
+
+describe('filterLongPosts', () => {
+  it('skips short posts, excluded flairs and excluded title words', () => {
+    const posts = [
+      post('a'),
+      post('b', { selftext: 'short' }),
+      post('c', { link_flair_text: 'series' }),
+      post('d', { title: 'My neighbour (Part 2)' }),
+      post('e', { link_flair_text: 'Discussion' }),
+      post('f', { title: 'An UPDATE on the cabin' })
+    ];
+    expect(filterLongPosts(posts, 50, ['Series', 'Discussion'], ['part', 'update']).map(item => item.id)).toEqual(['a']);
+  });
+
+  it('excludes titles with "part" by default', () => {
+    expect(filterLongPosts([post('a', { title: 'Part 1' })], 50)).toEqual([]);
+    expect(filterLongPosts([post('a', { title: 'Part 1' })], 50, 'Series', [])).toHaveLength(1);
+  });
+});
+
+describe('getRandomPost', () => {
+  it('never returns a post that was already used', () => {
+    const posts = [post('a'), post('b'), post('c')];
+    for (let i = 0; i < 20; i++) {
+      expect(getRandomPost(posts, ['a', 'c'])?.id).toBe('b');
+    }
+  });
+
+  it('returns null when every post was used', () => {
+    expect(getRandomPost([post('a')], new Set(['a']))).toBeNull();
+  });
+});
+
+describe('fetching', () => {
+  const listing = (ids: string[], after: string | null) => ({
+    data: { children: ids.map(id => ({ data: post(id) })), after }
+  });
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    clearRedditCache();
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const respond = (...bodies: unknown[]) => {
+    for (const body of bodies) {
+      fetchMock.mockResolvedValueOnce({ ok: true, json: async () => body });
+    }
+  };
+
+  it('follows the after cursor until it has enough posts', async () => {
+    respond(listing(['a', 'b'], 't3_b'), listing(['c'], 't3_c'));
+
+    const result = await getPosts('nosleep', { sort: 'top', timeframe: 'week', maxPosts: 3 });
+
+    expect(result.posts.map(item => item.id)).toEqual(['a', 'b', 'c']);
+    expect(result.after).toBe('t3_c');
+    expect(fetchMock.mock.calls[0][0]).toBe('https://www.reddit.com/r/nosleep/top.json?t=week&limit=3');
+    expect(fetchMock.mock.calls[1][0]).toBe('https://www.reddit.com/r/nosleep/top.json?t=week&limit=1&after=t3_b');
+  });
+
+  it('only sends a timeframe for sorts that use one and caches responses', async () => {
+    respond(listing(['a'], null));
+
+    await getPosts('nosleep', { sort: 'new', timeframe: 'week' });
+    await getPosts('nosleep', { sort: 'new', timeframe: 'week' });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://www.reddit.com/r/nosleep/new.json?limit=100');
+  });
+
+  it('searches within the subreddit', async () => {
+    respond(listing(['a'], null));
+
+    await searchPosts('nosleep', 'lighthouse keeper');
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://www.reddit.com/r/nosleep/search.json?q=lighthouse+keeper&restrict_sr=on&sort=relevance&t=all&limit=100'
+    );
+  });
+
+  it('fetches a post from its URL', async () => {
+    respond([listing(['abc123'], null), listing([], null)]);
+
+    const result = await getPostByPermalink('https://old.reddit.com/r/nosleep/comments/abc123/my_story/?share=1');
+
+    expect(result.id).toBe('abc123');
+    expect(fetchMock.mock.calls[0][0]).toBe('https://www.reddit.com/r/nosleep/comments/abc123/my_story.json');
+  });
+
+  it('throws when Reddit responds with an error', async () => {
+    fetchMock.mockResolvedValueOnce({ ok: false, status: 429 });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(getPosts('nosleep')).rejects.toThrow('429');
+  });
+});
+
+describe('normalizePermalink', () => {
+  it('accepts permalinks and rejects other links', () => {
+    expect(normalizePermalink('/r/nosleep/comments/abc123/title/')).toBe('/r/nosleep/comments/abc123/title');
+    expect(() => normalizePermalink('https://www.reddit.com/r/nosleep/')).toThrow('not a link to a Reddit post');
+  });
+});
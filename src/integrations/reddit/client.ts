@@ -1,12 +1,18 @@
 // Reddit doesn't require authentication for public data access via their JSON API
 // We'll use fetch API to access Reddit's JSON endpoints
 
+import type { RedditSearchSort, RedditSort, RedditSourceRef, RedditTimeframe } from '@/types/reddit';
+
 // Reddit API base URL
 const REDDIT_API_BASE = 'https://www.reddit.com';
 
+// The most posts Reddit returns for one listing request
+const PAGE_SIZE = 100;
+
 // Interface for Reddit post data
 export interface RedditPost {
   id: string;
+  subreddit: string;
   title: string;
   selftext: string;
   author: string;
@@ -18,61 +24,230 @@ export interface RedditPost {
   url: string;
 }
 
+// A page of posts, with the cursor for the next page or null at the end of the listing
+export interface RedditListing {
+  posts: RedditPost[];
+  after: string | null;
+}
+
+export interface ListingOptions {
+  sort?: RedditSort;
+  // Only used by the top and controversial sorts
+  timeframe?: RedditTimeframe;
+  limit?: number;
+  after?: string | null;
+}
+
+export interface SearchOptions {
+  sort?: RedditSearchSort;
+  timeframe?: RedditTimeframe;
+  limit?: number;
+  after?: string | null;
+}
+
+// The parts of Reddit's JSON responses we use
+interface ApiPost extends Omit<RedditPost, 'subreddit'> {
+  subreddit?: string;
+}
+
+interface ApiListing {
+  data: {
+    children: { data: ApiPost }[];
+    after: string | null;
+  };
+}
+
+// Listings are cached in memory rather than in browserCache because a page of long posts is too big for
+// localStorage. Entries expire after a few minutes and the oldest are dropped once the cache is full.
+const CACHE_TTL = 1000 * 60 * 10;
+const CACHE_MAX_ENTRIES = 50;
+const responseCache = new Map<string, { data: unknown; timestamp: number }>();
+
+export const clearRedditCache = () => {
+  responseCache.clear();
+};
+
+const fetchJson = async <T>(path: string, params: Record<string, string | number | null | undefined> = {}): Promise<T> => {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null && value !== '') {
+      query.set(key, String(value));
+    }
+  }
+  const url = `${REDDIT_API_BASE}${path}.json${query.toString() ? `?${query}` : ''}`;
+
+  const cached = responseCache.get(url);
+  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+    return cached.data as T;
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch from Reddit: ${response.status}`);
+  }
+  const data = await response.json();
+
+  responseCache.delete(url);
+  responseCache.set(url, { data, timestamp: Date.now() });
+  if (responseCache.size > CACHE_MAX_ENTRIES) {
+    responseCache.delete(responseCache.keys().next().value as string);
+  }
+  return data as T;
+};
+
+// Transform a post from the Reddit API response to our interface
+const toPost = (post: ApiPost, fallbackSubreddit: string = ''): RedditPost => ({
+  id: post.id,
+  subreddit: post.subreddit || fallbackSubreddit,
+  title: post.title,
+  selftext: post.selftext || '',
+  author: post.author,
+  permalink: post.permalink,
+  created_utc: post.created_utc,
+  score: post.score,
+  link_flair_text: post.link_flair_text,
+  num_comments: post.num_comments,
+  url: post.url
+});
+
+const toListing = (listing: ApiListing, subreddit: string): RedditListing => ({
+  posts: listing.data.children.map(child => toPost(child.data, subreddit)),
+  after: listing.data.after
+});
+
+// Get one page of a subreddit listing
+export const getListing = async (
+  subreddit: string,
+  { sort = 'top', timeframe = 'all', limit = PAGE_SIZE, after }: ListingOptions = {}
+): Promise<RedditListing> => {
+  try {
+    const data = await fetchJson<ApiListing>(`/r/${subreddit}/${sort}`, {
+      t: sort === 'top' || sort === 'controversial' ? timeframe : undefined,
+      limit: Math.min(limit, PAGE_SIZE),
+      after
+    });
+    return toListing(data, subreddit);
+  } catch (error) {
+    console.error('Error fetching Reddit posts:', error);
+    throw error;
+  }
+};
+
+// Follow the listing's cursors until maxPosts posts have been fetched or the listing runs out
+export const getPosts = async (
+  subreddit: string,
+  { maxPosts = PAGE_SIZE, ...options }: ListingOptions & { maxPosts?: number } = {}
+): Promise<RedditListing> => {
+  const posts: RedditPost[] = [];
+  let after = options.after ?? null;
+  do {
+    const page = await getListing(subreddit, { ...options, limit: maxPosts - posts.length, after });
+    posts.push(...page.posts);
+    after = page.after;
+  } while (after && posts.length < maxPosts);
+  return { posts, after };
+};
+
 // Get top posts from a subreddit
 export const getTopPosts = async (
   subreddit: string,
-  timeframe: 'hour' | 'day' | 'week' | 'month' | 'year' | 'all' = 'all',
+  timeframe: RedditTimeframe = 'all',
   limit: number = 100
 ): Promise<RedditPost[]> => {
+  const { posts } = await getPosts(subreddit, { sort: 'top', timeframe, maxPosts: limit });
+  return posts;
+};
+
+// Search a subreddit's posts
+export const searchPosts = async (
+  subreddit: string,
+  query: string,
+  { sort = 'relevance', timeframe = 'all', limit = PAGE_SIZE, after }: SearchOptions = {}
+): Promise<RedditListing> => {
   try {
-    const response = await fetch(
-      `${REDDIT_API_BASE}/r/${subreddit}/top.json?t=${timeframe}&limit=${limit}`
-    );
-    
-    if (!response.ok) {
-      throw new Error(`Failed to fetch from Reddit: ${response.status}`);
-    }
-    
-    const data = await response.json();
-    
-    // Transform the Reddit API response to our interface
-    return data.data.children.map((child: any) => {
-      const post = child.data;
-      return {
-        id: post.id,
-        title: post.title,
-        selftext: post.selftext,
-        author: post.author,
-        permalink: post.permalink,
-        created_utc: post.created_utc,
-        score: post.score,
-        link_flair_text: post.link_flair_text,
-        num_comments: post.num_comments,
-        url: post.url
-      };
+    const data = await fetchJson<ApiListing>(`/r/${subreddit}/search`, {
+      q: query,
+      restrict_sr: 'on',
+      sort,
+      t: timeframe,
+      limit: Math.min(limit, PAGE_SIZE),
+      after
     });
+    return toListing(data, subreddit);
   } catch (error) {
-    console.error('Error fetching Reddit posts:', error);
+    console.error('Error searching Reddit posts:', error);
     throw error;
   }
 };
 
-// Filter posts by criteria
+// The details saved with a story to find its source post again
+export const toSourceRef = (post: RedditPost): RedditSourceRef => ({
+  id: post.id,
+  subreddit: post.subreddit,
+  title: post.title,
+  author: post.author,
+  permalink: post.permalink
+});
+
+// The /r/<subreddit>/comments/<id> path of a link to a post. Accepts full URLs from any reddit.com host
+// as well as bare permalinks.
+export const normalizePermalink = (link: string): string => {
+  let path = link.trim();
+  try {
+    path = new URL(path, REDDIT_API_BASE).pathname;
+  } catch {
+    // Not a URL, treat it as a path
+  }
+  path = path.replace(/\.json$/, '').replace(/\/+$/, '');
+  if (!/^\/r\/[^/]+\/comments\/[a-z0-9]+/i.test(path)) {
+    throw new Error('That is not a link to a Reddit post');
+  }
+  return path;
+};
+
+// Get a single post from its permalink or URL
+export const getPostByPermalink = async (permalink: string): Promise<RedditPost> => {
+  const path = normalizePermalink(permalink);
+  try {
+    // A post's JSON is the post listing followed by the comments listing
+    const data = await fetchJson<ApiListing[]>(path);
+    const post = data[0]?.data.children[0]?.data;
+    if (!post) {
+      throw new Error('Reddit post not found');
+    }
+    return toPost(post);
+  } catch (error) {
+    console.error('Error fetching Reddit post:', error);
+    throw error;
+  }
+};
+
+// Filter posts by criteria. Flairs and title words are compared case-insensitively, and
+// titles containing "part" are skipped by default because they're usually one part of a series.
 export const filterLongPosts = (
   posts: RedditPost[],
   minLength: number = 20000,
-  excludeFlair: string = 'Series'
+  excludeFlair: string | string[] = 'Series',
+  excludeTitleWords: string[] = ['part']
 ): RedditPost[] => {
-  return posts.filter(post => 
-    post.selftext.length >= minLength && 
-    post.link_flair_text !== excludeFlair &&
-    !post.title.toLowerCase().includes('part')
-  );
+  const flairs = (Array.isArray(excludeFlair) ? excludeFlair : [excludeFlair])
+    .map(flair => flair.trim().toLowerCase())
+    .filter(Boolean);
+  const titleWords = excludeTitleWords.map(word => word.trim().toLowerCase()).filter(Boolean);
+
+  return posts.filter(post => {
+    const title = post.title.toLowerCase();
+    return post.selftext.length >= minLength &&
+      !flairs.includes((post.link_flair_text || '').toLowerCase()) &&
+      !titleWords.some(word => title.includes(word));
+  });
 };
 
-// Get a random post from a filtered list
-export const getRandomPost = (posts: RedditPost[]): RedditPost | null => {
-  if (posts.length === 0) return null;
-  const randomIndex = Math.floor(Math.random() * posts.length);
-  return posts[randomIndex];
-}; 
\ No newline at end of file
+// Get a random post from a filtered list, skipping posts that were already used
+export const getRandomPost = (posts: RedditPost[], usedPostIds: Iterable<string> = []): RedditPost | null => {
+  const used = new Set(usedPostIds);
+  const unused = posts.filter(post => !used.has(post.id));
+  if (unused.length === 0) return null;
+  const randomIndex = Math.floor(Math.random() * unused.length);
+  return unused[randomIndex];
+};
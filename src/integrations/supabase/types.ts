@@ -9,6 +9,39 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      chapter_revisions: {
+        Row: {
+          chapter_number: number
+          content: string
+          created_at: string | null
+          id: string
+          source: string
+          story_id: string
+          user_id: string
+          word_count: number
+        }
+        Insert: {
+          chapter_number: number
+          content: string
+          created_at?: string | null
+          id?: string
+          source?: string
+          story_id: string
+          user_id: string
+          word_count?: number
+        }
+        Update: {
+          chapter_number?: number
+          content?: string
+          created_at?: string | null
+          id?: string
+          source?: string
+          story_id?: string
+          user_id?: string
+          word_count?: number
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
@@ -24,15 +57,50 @@ export type Database = {
         }
         Relationships: []
       }
+      prompt_overrides: {
+        Row: {
+          base_version: number
+          content: string
+          created_at: string | null
+          id: string
+          template_id: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          base_version?: number
+          content: string
+          created_at?: string | null
+          id?: string
+          template_id: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          base_version?: number
+          content?: string
+          created_at?: string | null
+          id?: string
+          template_id?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       stories: {
         Row: {
+          chapter_summaries: Json
           chapters: Json | null
+          character_relationships: Json
           characters: string
+          continuity_ledger: Json
           created_at: string | null
           id: string
           last_saved_chunk: number | null
           plot_outline: string
+          source_posts: Json
           story_idea: string
+          story_profile: string
           title: string
           total_chunks: number | null
           user_id: string | null
@@ -43,13 +111,18 @@ export type Database = {
           related_series_id: string | null
         }
         Insert: {
+          chapter_summaries?: Json
           chapters?: Json | null
+          character_relationships?: Json
           characters: string
+          continuity_ledger?: Json
           created_at?: string | null
           id: string
           last_saved_chunk?: number | null
           plot_outline: string
+          source_posts?: Json
           story_idea: string
+          story_profile?: string
           title: string
           total_chunks?: number | null
           user_id?: string | null
@@ -60,13 +133,18 @@ export type Database = {
           related_series_id?: string | null
         }
         Update: {
+          chapter_summaries?: Json
           chapters?: Json | null
+          character_relationships?: Json
           characters?: string
+          continuity_ledger?: Json
           created_at?: string | null
           id?: string
           last_saved_chunk?: number | null
           plot_outline?: string
+          source_posts?: Json
           story_idea?: string
+          story_profile?: string
           title?: string
           total_chunks?: number | null
           user_id?: string | null
@@ -78,6 +156,138 @@ export type Database = {
         }
         Relationships: []
       }
+      story_ideas: {
+        Row: {
+          created_at: string | null
+          id: string
+          idea: string
+          rating: number | null
+          source: string
+          source_posts: Json
+          story_id: string | null
+          story_profile: string
+          summary: string
+          tags: string[]
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          idea: string
+          rating?: number | null
+          source?: string
+          source_posts?: Json
+          story_id?: string | null
+          story_profile?: string
+          summary?: string
+          tags?: string[]
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          idea?: string
+          rating?: number | null
+          source?: string
+          source_posts?: Json
+          story_id?: string | null
+          story_profile?: string
+          summary?: string
+          tags?: string[]
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      story_profiles: {
+        Row: {
+          banned_words: string[]
+          created_at: string | null
+          flair_exclude: string
+          id: string
+          min_length: number
+          name: string
+          num_scenes: number
+          prompts: string[]
+          style_rules: string
+          subreddit: string
+          subreddits: string[]
+          system_prompt: string
+          timeframe: string
+          title_exclude: string[]
+          updated_at: string | null
+          use_reddit: boolean
+          user_id: string
+        }
+        Insert: {
+          banned_words?: string[]
+          created_at?: string | null
+          flair_exclude?: string
+          id?: string
+          min_length?: number
+          name: string
+          num_scenes?: number
+          prompts?: string[]
+          style_rules?: string
+          subreddit?: string
+          subreddits?: string[]
+          system_prompt?: string
+          timeframe?: string
+          title_exclude?: string[]
+          updated_at?: string | null
+          use_reddit?: boolean
+          user_id: string
+        }
+        Update: {
+          banned_words?: string[]
+          created_at?: string | null
+          flair_exclude?: string
+          id?: string
+          min_length?: number
+          name?: string
+          num_scenes?: number
+          prompts?: string[]
+          style_rules?: string
+          subreddit?: string
+          subreddits?: string[]
+          system_prompt?: string
+          timeframe?: string
+          title_exclude?: string[]
+          updated_at?: string | null
+          use_reddit?: boolean
+          user_id?: string
+        }
+        Relationships: []
+      }
+      used_reddit_posts: {
+        Row: {
+          id: string
+          post_id: string
+          subreddit: string
+          title: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          post_id: string
+          subreddit: string
+          title?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          id?: string
+          post_id?: string
+          subreddit?: string
+          title?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_settings: {
         Row: {
           created_at: string
@@ -0,0 +1,43 @@
+import { describe, expect, it, vi } from 'vitest';
+import { findNextAutopilotChapter, getSceneContext, parseAutopilotState } from './autopilot';
+
+const chapters = [
+  { content: 'Chapter one.', sceneBeat: 'Arrive', completed: true },
+  { content: '', sceneBeat: 'Explore', completed: false },
+  { content: '', sceneBeat: '', completed: false },
+  { content: '', sceneBeat: 'Escape', completed: false }
+];
+
+describe('findNextAutopilotChapter', () => {
+  it('finds the first incomplete chapter', () => {
+    expect(findNextAutopilotChapter(chapters)).toBe(1);
+  });
+
+  it('returns -1 when every chapter is complete', () => {
+    expect(findNextAutopilotChapter(chapters.map(chapter => ({ ...chapter, completed: true })))).toBe(-1);
+  });
+});
+
+describe('getSceneContext', () => {
+  it('passes earlier chapters and the beats still to come', () => {
+    expect(getSceneContext(chapters, 2)).toEqual({
+      previousScenes: ['Chapter one.', ''],
+      futureSceneBeats: ['Escape']
+    });
+  });
+});
+
+describe('parseAutopilotState', () => {
+  it('reads a saved state', () => {
+    const state = parseAutopilotState(JSON.stringify({ status: 'paused', options: { transitions: true }, error: 'Timeout' }));
+    expect(state).toEqual({ status: 'paused', options: { transitions: true, refine: false }, error: 'Timeout' });
+  });
+
+  it('ignores missing, unknown or broken states', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(parseAutopilotState(null)).toBeNull();
+    expect(parseAutopilotState(JSON.stringify({ status: 'done' }))).toBeNull();
+    expect(parseAutopilotState('{')).toBeNull();
+    warn.mockRestore();
+  });
+});
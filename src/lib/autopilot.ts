@@ -0,0 +1,59 @@
+// Autopilot writes every incomplete chapter in order. Its state is kept in localStorage so a reload
+// can pick up where it stopped; finished chapters are saved to the story as they're written.
+
+export interface AutopilotOptions {
+  // Write a transition from the previous chapter at the start of each chapter
+  transitions: boolean;
+  // Run the refine pass over each chapter's narration
+  refine: boolean;
+}
+
+export type AutopilotPhase = 'scene' | 'transition' | 'refine';
+
+export interface AutopilotState {
+  status: 'running' | 'paused';
+  options: AutopilotOptions;
+  // Why autopilot paused itself
+  error?: string;
+}
+
+export interface AutopilotChapter {
+  content: string;
+  sceneBeat: string;
+  completed: boolean;
+}
+
+export const autopilotStorageKey = (storyId: string) => `story_${storyId}_autopilot`;
+
+// The first chapter that still needs writing, or -1 when every chapter is complete
+export function findNextAutopilotChapter(chapters: AutopilotChapter[]): number {
+  return chapters.findIndex(chapter => !chapter.completed);
+}
+
+// What writeScene is given for a chapter: the content of every earlier chapter, empty ones included so
+// positions match chapter numbers, and the beats of the chapters still to come
+export function getSceneContext(chapters: AutopilotChapter[], index: number) {
+  return {
+    previousScenes: chapters.slice(0, index).map(chapter => chapter.content),
+    futureSceneBeats: chapters.slice(index + 1).map(chapter => chapter.sceneBeat).filter(Boolean)
+  };
+}
+
+export function parseAutopilotState(json: string | null): AutopilotState | null {
+  if (!json) return null;
+  try {
+    const parsed = JSON.parse(json);
+    if (parsed?.status !== 'running' && parsed?.status !== 'paused') return null;
+    return {
+      status: parsed.status,
+      options: {
+        transitions: !!parsed.options?.transitions,
+        refine: !!parsed.options?.refine
+      },
+      error: typeof parsed.error === 'string' ? parsed.error : undefined
+    };
+  } catch (error) {
+    console.warn('Ignoring the saved autopilot state, it could not be read:', (error as Error).message);
+    return null;
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  countBatchJobs,
+  createBatchJobs,
+  nextBatchStep,
+  parseStoredQueue,
+  pickRunnableJobs,
+  retryBatchJob,
+  updateBatchJob
+} from './batch-queue';
+
+describe('createBatchJobs', () => {
+  it('creates queued jobs that start at the idea step', () => {
+    const jobs = createBatchJobs(3, 'Horror', 'reddit');
+    expect(jobs).toHaveLength(3);
+    expect(new Set(jobs.map(job => job.id)).size).toBe(3);
+    expect(jobs.every(job => job.status === 'queued' && job.step === 'idea' && job.profile === 'Horror')).toBe(true);
+  });
+});
+
+describe('pickRunnableJobs', () => {
+  it('starts queued jobs up to the concurrency limit', () => {
+    let jobs = createBatchJobs(4, 'Horror', 'reddit');
+    expect(pickRunnableJobs(jobs, 2).map(job => job.id)).toEqual([jobs[0].id, jobs[1].id]);
+
+    jobs = updateBatchJob(jobs, jobs[0].id, { status: 'running' });
+    jobs = updateBatchJob(jobs, jobs[1].id, { status: 'done' });
+    expect(pickRunnableJobs(jobs, 2).map(job => job.id)).toEqual([jobs[2].id]);
+
+    jobs = updateBatchJob(jobs, jobs[2].id, { status: 'running' });
+    expect(pickRunnableJobs(jobs, 2)).toEqual([]);
+  });
+});
+
+describe('nextBatchStep', () => {
+  it('walks the steps in order', () => {
+    expect(nextBatchStep('idea')).toBe('title');
+    expect(nextBatchStep('characters')).toBe('save');
+    expect(nextBatchStep('save')).toBeNull();
+  });
+});
+
+describe('retryBatchJob', () => {
+  it('requeues the job at the step it failed on', () => {
+    const [job] = createBatchJobs(1, 'Horror', 'fine-tune');
+    const retried = retryBatchJob({ ...job, status: 'failed', step: 'outline', attempts: 3, error: 'Timeout', title: 'Title' });
+    expect(retried).toMatchObject({ status: 'queued', step: 'outline', attempts: 0, error: undefined, title: 'Title' });
+  });
+});
+
+describe('parseStoredQueue', () => {
+  it('requeues jobs that were running and drops invalid entries', () => {
+    const [queued, running] = createBatchJobs(2, 'Horror', 'reddit');
+    const stored = JSON.stringify([queued, { ...running, status: 'running', step: 'outline' }, { id: 'bad' }]);
+    expect(parseStoredQueue(stored).map(job => [job.status, job.step])).toEqual([['queued', 'idea'], ['queued', 'outline']]);
+  });
+
+  it('returns an empty queue for missing or broken data', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(parseStoredQueue(null)).toEqual([]);
+    expect(parseStoredQueue('{not json')).toEqual([]);
+    warn.mockRestore();
+  });
+});
+
+describe('countBatchJobs', () => {
+  it('counts jobs by status', () => {
+    const jobs = createBatchJobs(3, 'Horror', 'reddit');
+    const counts = countBatchJobs(updateBatchJob(jobs, jobs[0].id, { status: 'failed' }));
+    expect(counts).toEqual({ queued: 2, running: 0, done: 0, failed: 1, cancelled: 0 });
+  });
+});
@@ -0,0 +1,69 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BATCH_JOB_STEPS, type BatchJob, type BatchJobStatus, type BatchJobStep } from '@/types/batch';
+
+// How many jobs run at the same time
+export const BATCH_CONCURRENCY = 2;
+
+// How many times a step is tried before its job fails
+export const MAX_STEP_ATTEMPTS = 3;
+
+const STATUSES: BatchJobStatus[] = ['queued', 'running', 'done', 'failed', 'cancelled'];
+
+export function createBatchJobs(count: number, profile: string, source: BatchJob['source']): BatchJob[] {
+  const created_at = new Date().toISOString();
+  return Array.from({ length: count }, () => ({
+    id: uuidv4(),
+    profile,
+    source,
+    status: 'queued' as const,
+    step: 'idea' as const,
+    attempts: 0,
+    created_at
+  }));
+}
+
+export function updateBatchJob(jobs: BatchJob[], jobId: string, changes: Partial<BatchJob>): BatchJob[] {
+  return jobs.map(job => job.id === jobId ? { ...job, ...changes } : job);
+}
+
+// Queued jobs that can start without going over the concurrency limit, oldest first
+export function pickRunnableJobs(jobs: BatchJob[], concurrency: number = BATCH_CONCURRENCY): BatchJob[] {
+  const running = jobs.filter(job => job.status === 'running').length;
+  return jobs
+    .filter(job => job.status === 'queued')
+    .slice(0, Math.max(0, concurrency - running));
+}
+
+export function nextBatchStep(step: BatchJobStep): BatchJobStep | null {
+  return BATCH_JOB_STEPS[BATCH_JOB_STEPS.indexOf(step) + 1] ?? null;
+}
+
+// Put a failed or cancelled job back in the queue at the step it stopped at
+export function retryBatchJob(job: BatchJob): BatchJob {
+  return { ...job, status: 'queued', attempts: 0, error: undefined };
+}
+
+// Load a saved queue. Jobs that were running when the page closed are queued again.
+export function parseStoredQueue(json: string | null): BatchJob[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((job): job is BatchJob =>
+        job && typeof job.id === 'string' && STATUSES.includes(job.status) && BATCH_JOB_STEPS.includes(job.step)
+      )
+      .map(job => job.status === 'running' ? { ...job, status: 'queued' as const } : job);
+  } catch (error) {
+    console.warn('Ignoring the saved batch queue, it could not be read:', (error as Error).message);
+    return [];
+  }
+}
+
+export function countBatchJobs(jobs: BatchJob[]): Record<BatchJobStatus, number> {
+  const counts = Object.fromEntries(STATUSES.map(status => [status, 0])) as Record<BatchJobStatus, number>;
+  for (const job of jobs) {
+    counts[job.status]++;
+  }
+  return counts;
+}
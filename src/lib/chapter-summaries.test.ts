@@ -0,0 +1,185 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  buildStoryContext,
+  findChaptersToSummarize,
+  formatSummariesForPrompt,
+  hashContent,
+  parseChapterSummaries,
+  parseSummaryResponse,
+  renumberChapterSummaries,
+  takeTail,
+  upsertChapterSummary
+} from './chapter-summaries';
+import { countTokens } from './token-budget';
+import type { ChapterSummary } from '@/types/story';
+
+const summary = (chapterNumber: number, detailed = `Detailed summary of chapter ${chapterNumber}.`): ChapterSummary => ({
+  chapter_number: chapterNumber,
+  short: `Short ${chapterNumber}.`,
+  detailed,
+  content_hash: ''
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('hashContent', () => {
+  it('is stable and ignores surrounding whitespace', () => {
+    expect(hashContent('Mara climbed the stairs.')).toBe(hashContent('  Mara climbed the stairs.\n'));
+    expect(hashContent('Mara climbed the stairs.')).toMatch(/^[0-9a-f]{8}$/);
+  });
+
+  it('changes when the content changes', () => {
+    expect(hashContent('Mara climbed the stairs.')).not.toBe(hashContent('Mara climbed the ladder.'));
+  });
+});
+
+describe('takeTail', () => {
+  it('keeps whole paragraphs from the end within the budget', () => {
+    const content = ['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(40)].join('\n\n');
+    expect(takeTail(content, 21)).toBe(`${'b'.repeat(40)}\n\n${'c'.repeat(40)}`);
+  });
+
+  it('cuts a paragraph that is larger than the budget at a word boundary', () => {
+    const tail = takeTail('one two three four five six seven eight', 4);
+    expect(tail).toBe('six seven eight');
+  });
+});
+
+describe('parseChapterSummaries', () => {
+  it('loads stored summaries sorted by chapter', () => {
+    expect(parseChapterSummaries(JSON.stringify([summary(2), summary(1)]))).toEqual([summary(1), summary(2)]);
+  });
+
+  it('fills in a missing variant and drops invalid items', () => {
+    expect(parseChapterSummaries([
+      { chapter_number: 1, detailed: 'Only detailed.' },
+      { chapter_number: 0, short: 'Bad number.' },
+      { chapter_number: 2 },
+      'not an object'
+    ])).toEqual([{ chapter_number: 1, short: 'Only detailed.', detailed: 'Only detailed.', content_hash: '' }]);
+  });
+
+  it('returns an empty list for invalid values', () => {
+    expect(parseChapterSummaries('[{')).toEqual([]);
+    expect(parseChapterSummaries(null)).toEqual([]);
+  });
+});
+
+describe('parseSummaryResponse', () => {
+  it('parses the JSON response', () => {
+    expect(parseSummaryResponse('{"short": "Short.", "detailed": "Detailed."}')).toEqual({ short: 'Short.', detailed: 'Detailed.' });
+  });
+
+  it('uses a prose response as the detailed summary', () => {
+    expect(parseSummaryResponse('Mara finds the key. She hides it.')).toEqual({
+      short: 'Mara finds the key.',
+      detailed: 'Mara finds the key. She hides it.'
+    });
+  });
+
+  it('returns null for an empty response', () => {
+    expect(parseSummaryResponse('  ')).toBeNull();
+  });
+});
+
+describe('upsertChapterSummary', () => {
+  it('replaces the summary for the same chapter', () => {
+    const updated = upsertChapterSummary([summary(1), summary(3)], summary(1, 'New.'));
+    expect(updated.map(item => item.detailed)).toEqual(['New.', 'Detailed summary of chapter 3.']);
+  });
+
+  it('keeps summaries sorted', () => {
+    expect(upsertChapterSummary([summary(1), summary(3)], summary(2)).map(item => item.chapter_number)).toEqual([1, 2, 3]);
+  });
+});
+
+describe('findChaptersToSummarize', () => {
+  it('finds completed chapters without a current summary', () => {
+    const chapters = [
+      { content: 'First.', completed: true },
+      { content: 'Second, edited.', completed: true },
+      { content: 'Third.', completed: false },
+      { content: 'Fourth.', completed: true }
+    ];
+    const summaries = [
+      { ...summary(1), content_hash: hashContent('First.') },
+      { ...summary(2), content_hash: hashContent('Second.') }
+    ];
+    expect(findChaptersToSummarize(chapters, summaries)).toEqual([2, 4]);
+  });
+});
+
+describe('formatSummariesForPrompt', () => {
+  it('uses detailed summaries when they fit', () => {
+    expect(formatSummariesForPrompt([summary(1), summary(2)])).toBe(
+      'Chapter 1: Detailed summary of chapter 1.\n\nChapter 2: Detailed summary of chapter 2.'
+    );
+  });
+
+  it('falls back to short summaries for older chapters and omits the oldest', () => {
+    const summaries = [1, 2, 3, 4].map(chapterNumber => summary(chapterNumber, 'x'.repeat(80)));
+    const text = formatSummariesForPrompt(summaries, 30);
+    expect(text).toBe(
+      '(Chapters before chapter 3 are omitted.)\n\nChapter 3: Short 3.\n\nChapter 4: ' + 'x'.repeat(80)
+    );
+  });
+});
+
+describe('renumberChapterSummaries', () => {
+  it('moves summaries with their chapters and drops those of removed chapters', () => {
+    // Chapters 1 and 2 swapped places and chapter 3 was deleted
+    expect(renumberChapterSummaries([summary(1), summary(2), summary(3)], [2, 1]).map(item => [item.chapter_number, item.short]))
+      .toEqual([[1, 'Short 2.'], [2, 'Short 1.']]);
+  });
+});
+
+describe('buildStoryContext', () => {
+  // A summary written from the chapter's current content
+  const current = (chapterNumber: number, content: string, detailed?: string): ChapterSummary => ({
+    ...summary(chapterNumber, detailed),
+    content_hash: hashContent(content)
+  });
+
+  it('returns an empty context when there are no previous chapters', () => {
+    expect(buildStoryContext([], [])).toBe('');
+    expect(buildStoryContext(['', '  '], [])).toBe('');
+  });
+
+  it('combines earlier summaries with the ending of the previous chapter', () => {
+    const context = buildStoryContext(
+      ['Chapter one text.', 'Chapter two text.', 'Chapter three text.'],
+      [current(1, 'Chapter one text.'), current(2, 'Chapter two text.')]
+    );
+    expect(context).toBe(
+      'Summaries of earlier chapters:\n\nChapter 1: Detailed summary of chapter 1.\n\nChapter 2: Detailed summary of chapter 2.' +
+      '\n\nEnd of chapter 3:\n\nChapter three text.'
+    );
+  });
+
+  it('uses an excerpt for earlier chapters without a summary', () => {
+    const context = buildStoryContext(['First paragraph.\n\nLast paragraph.', 'Second chapter.'], []);
+    expect(context).toContain('Chapter 1: (Not summarised yet. The chapter ends:) First paragraph.\n\nLast paragraph.');
+  });
+
+  it('uses an excerpt when the summary was written from other content', () => {
+    const context = buildStoryContext(['Rewritten chapter.', 'Second chapter.'], [current(1, 'Original chapter.')]);
+    expect(context).toContain('Chapter 1: (Not summarised yet. The chapter ends:) Rewritten chapter.');
+    expect(context).not.toContain('Detailed summary of chapter 1.');
+  });
+
+  it('skips empty chapters and keeps chapter numbers', () => {
+    const context = buildStoryContext(['', 'Second chapter.', ''], []);
+    expect(context).toBe('End of chapter 2:\n\nSecond chapter.');
+  });
+
+  it('stays within the token budget', () => {
+    const chapters = Array.from({ length: 30 }, (_, index) => `Chapter ${index + 1}. ${'word '.repeat(3000)}`);
+    const summaries = chapters.slice(0, 29).map((content, index) => current(index + 1, content, 'detail '.repeat(200)));
+    const context = buildStoryContext(chapters, summaries, 4000, 1000);
+    expect(countTokens(context)).toBeLessThanOrEqual(4100);
+    expect(context).toContain('End of chapter 30:');
+  });
+});
@@ -0,0 +1,208 @@
+// Rolling chapter summaries and the token-budgeted story context built from them.
+// Completed chapters are summarised once (short and detailed variants) and cached on the story.
+// Prompts then get the summaries of earlier chapters plus the verbatim ending of the previous
+// chapter, instead of the full text of every chapter before it.
+
+import type { ChapterSummary } from '@/types/story';
+import { mapChapterNumbers } from './outline-operations';
+import { extractJsonText } from './outline-parser';
+import { countTokens, truncateToTokens } from './token-budget';
+
+// Total context budget for earlier chapters, in tokens
+export const DEFAULT_CONTEXT_TOKENS = 6000;
+// How much of the immediately previous chapter is kept verbatim
+export const DEFAULT_TAIL_TOKENS = 1500;
+// Chapters that haven't been summarised yet are represented by an excerpt of their ending
+const UNSUMMARISED_EXCERPT_TOKENS = 300;
+
+// Short non-cryptographic hash (FNV-1a) used to tell whether a chapter changed since it was summarised
+export function hashContent(content: string): string {
+  let hash = 0x811c9dc5;
+  const text = content.trim();
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// Keep whole paragraphs from the end of a chapter until the token budget is used up.
+// A single paragraph that is larger than the budget is cut at a word boundary.
+export function takeTail(content: string, maxTokens: number): string {
+  const paragraphs = content.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+  const kept: string[] = [];
+  let used = 0;
+  for (let i = paragraphs.length - 1; i >= 0; i--) {
+    const tokens = countTokens(paragraphs[i]) + (kept.length ? 1 : 0);
+    if (used + tokens > maxTokens) {
+      if (!kept.length) {
+        // Drop the partial word the cut starts in
+        const cut = truncateToTokens(paragraphs[i], maxTokens, 'end');
+        kept.unshift(cut.slice(cut.indexOf(' ') + 1));
+      }
+      break;
+    }
+    kept.unshift(paragraphs[i]);
+    used += tokens;
+  }
+  return kept.join('\n\n');
+}
+
+const toText = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+// Load a stored stories.chapter_summaries value, keeping the last summary for each chapter
+export function parseChapterSummaries(value: unknown): ChapterSummary[] {
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      console.warn("Failed to parse chapter summaries JSON");
+      return [];
+    }
+  }
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+
+  const byChapter = new Map<number, ChapterSummary>();
+  for (const item of parsed) {
+    if (typeof item !== 'object' || item === null) continue;
+    const record = item as Record<string, unknown>;
+    const chapterNumber = record.chapter_number;
+    const short = toText(record.short);
+    const detailed = toText(record.detailed);
+    if (typeof chapterNumber !== 'number' || !Number.isInteger(chapterNumber) || chapterNumber < 1 || !(short || detailed)) {
+      continue;
+    }
+    byChapter.set(chapterNumber, {
+      chapter_number: chapterNumber,
+      short: short || detailed,
+      detailed: detailed || short,
+      content_hash: toText(record.content_hash)
+    });
+  }
+  return [...byChapter.values()].sort((a, b) => a.chapter_number - b.chapter_number);
+}
+
+// Parse the model's response to a chapter summary prompt
+export function parseSummaryResponse(text: string): Pick<ChapterSummary, 'short' | 'detailed'> | null {
+  const jsonText = extractJsonText(text);
+  if (jsonText !== null) {
+    try {
+      const parsed = JSON.parse(jsonText);
+      const short = toText(parsed?.short);
+      const detailed = toText(parsed?.detailed);
+      if (short || detailed) {
+        return { short: short || detailed, detailed: detailed || short };
+      }
+    } catch {
+      console.warn("Failed to parse chapter summary JSON, using the response as the detailed summary");
+    }
+  }
+
+  // Fall back to treating a prose response as the detailed summary
+  const detailed = text.trim();
+  if (!detailed) {
+    return null;
+  }
+  const firstSentence = detailed.match(/^[\s\S]*?[.!?](?=\s|$)/)?.[0] ?? detailed;
+  return { short: firstSentence.trim(), detailed };
+}
+
+// Add or replace the summary for a chapter
+export function upsertChapterSummary(summaries: ChapterSummary[], summary: ChapterSummary): ChapterSummary[] {
+  return [...summaries.filter(item => item.chapter_number !== summary.chapter_number), summary]
+    .sort((a, b) => a.chapter_number - b.chapter_number);
+}
+
+// Move summaries to their chapter's new number after the outline was edited, dropping the summaries
+// of chapters that no longer exist
+export function renumberChapterSummaries(summaries: ChapterSummary[], previousNumbers: Array<number | null>): ChapterSummary[] {
+  const numbers = mapChapterNumbers(previousNumbers);
+  return summaries
+    .filter(summary => numbers.has(summary.chapter_number))
+    .map(summary => ({ ...summary, chapter_number: numbers.get(summary.chapter_number)! }))
+    .sort((a, b) => a.chapter_number - b.chapter_number);
+}
+
+// Completed chapters whose summary is missing or was written from different content
+export function findChaptersToSummarize(
+  chapters: { content: string; completed: boolean }[],
+  summaries: ChapterSummary[]
+): number[] {
+  const hashes = new Map(summaries.map(summary => [summary.chapter_number, summary.content_hash]));
+  return chapters.flatMap((chapter, index) =>
+    chapter.completed && chapter.content.trim() && hashes.get(index + 1) !== hashContent(chapter.content)
+      ? [index + 1]
+      : []
+  );
+}
+
+// Render chapter summaries within a token budget. The most recent chapters get their detailed
+// summary while it fits; older ones fall back to the short summary, and the oldest are dropped
+// when even that doesn't fit.
+export function formatSummariesForPrompt(summaries: ChapterSummary[], maxTokens = DEFAULT_CONTEXT_TOKENS): string {
+  const sorted = [...summaries].sort((a, b) => a.chapter_number - b.chapter_number);
+  const lines: string[] = [];
+  let used = 0;
+  let useDetailed = true;
+  let omitted = 0;
+
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const summary = sorted[i];
+    const detailed = `Chapter ${summary.chapter_number}: ${summary.detailed}`;
+    const short = `Chapter ${summary.chapter_number}: ${summary.short}`;
+    if (useDetailed && used + countTokens(detailed) <= maxTokens) {
+      lines.unshift(detailed);
+      used += countTokens(detailed);
+      continue;
+    }
+    useDetailed = false;
+    if (used + countTokens(short) <= maxTokens) {
+      lines.unshift(short);
+      used += countTokens(short);
+      continue;
+    }
+    omitted = i + 1;
+    break;
+  }
+
+  if (omitted) {
+    lines.unshift(`(Chapters before chapter ${sorted[omitted].chapter_number} are omitted.)`);
+  }
+  return lines.join('\n\n');
+}
+
+// Build the story-so-far context for a chapter from the chapters before it (index 0 is chapter 1).
+// Earlier chapters are given as summaries and the previous chapter's ending is kept verbatim.
+// A summary written from different content than the chapter has now is replaced by an excerpt.
+export function buildStoryContext(
+  previousChapters: string[],
+  summaries: ChapterSummary[],
+  maxTokens = DEFAULT_CONTEXT_TOKENS,
+  // The previous chapter's ending never takes more than half of the budget
+  tailTokens = Math.min(DEFAULT_TAIL_TOKENS, Math.floor(maxTokens / 2))
+): string {
+  const lastIndex = previousChapters.map(content => !!content.trim()).lastIndexOf(true);
+  if (lastIndex === -1) {
+    return '';
+  }
+
+  const tail = takeTail(previousChapters[lastIndex], Math.min(tailTokens, maxTokens));
+  const summariesByChapter = new Map(summaries.map(summary => [summary.chapter_number, summary]));
+  const earlier = previousChapters.slice(0, lastIndex).flatMap((content, index): ChapterSummary[] => {
+    const summary = summariesByChapter.get(index + 1);
+    if (summary && summary.content_hash === hashContent(content)) return [summary];
+    if (!content.trim()) return [];
+    const excerpt = `(Not summarised yet. The chapter ends:) ${takeTail(content, UNSUMMARISED_EXCERPT_TOKENS)}`;
+    return [{ chapter_number: index + 1, short: excerpt, detailed: excerpt, content_hash: '' }];
+  });
+
+  const earlierText = formatSummariesForPrompt(earlier, maxTokens - countTokens(tail));
+  const sections = [
+    earlierText && `Summaries of earlier chapters:\n\n${earlierText}`,
+    `End of chapter ${lastIndex + 1}:\n\n${tail}`
+  ];
+  return sections.filter(Boolean).join('\n\n');
+}
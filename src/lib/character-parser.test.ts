@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createCharacter,
+  formatCharactersForPrompt,
+  normalizeCharacters,
+  normalizeRelationships,
+  parseCharacters,
+  parseLegacyCharacters,
+  parseRelationships
+} from './character-parser';
+
+const legacy = `<character name='Marisol Okonkwo-Vance (The Narrator)' aliases='Mari', pronouns='she/her', age='34'>Personality:
+Practical, stubborn and quietly curious.
+
+Appearance:
+Short dark hair.
+
+Relationships to other characters:
+New caretaker who replaces Teodor.</character>
+<character name='Conor O'Brien' aliases='Con, Mr. O'Brien' pronouns='he/him' age='61'>Personality:
+Gentle.</character>`;
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('parseLegacyCharacters', () => {
+  it('migrates the tag format', () => {
+    const [marisol] = parseLegacyCharacters(legacy);
+    expect(marisol).toEqual({
+      ...createCharacter('Marisol Okonkwo-Vance (The Narrator)'),
+      aliases: ['Mari'],
+      pronouns: 'she/her',
+      age: '34',
+      personality: 'Practical, stubborn and quietly curious.',
+      appearance: 'Short dark hair.',
+      relationships: 'New caretaker who replaces Teodor.'
+    });
+  });
+
+  it('keeps apostrophes inside attribute values', () => {
+    const conor = parseLegacyCharacters(legacy)[1];
+    expect(conor.name).toBe("Conor O'Brien");
+    expect(conor.aliases).toEqual(['Con', "Mr. O'Brien"]);
+    expect(conor.pronouns).toBe('he/him');
+  });
+
+  it('skips tags without a name', () => {
+    expect(parseLegacyCharacters("<character aliases='Nobody'>Personality:\nNone.</character>")).toEqual([]);
+  });
+});
+
+describe('parseCharacters', () => {
+  const json = [{ name: 'Mara', aliases: ['M'], role: 'protagonist', first_appearance_chapter: 1 }];
+
+  it('parses a JSON array', () => {
+    expect(parseCharacters(JSON.stringify(json))[0]).toMatchObject({ name: 'Mara', aliases: ['M'], role: 'protagonist', first_appearance_chapter: 1 });
+  });
+
+  it('parses a characters object wrapped in a markdown fence', () => {
+    const input = '```json\n' + JSON.stringify({ characters: json }) + '\n```';
+    expect(parseCharacters(input).map(character => character.name)).toEqual(['Mara']);
+  });
+
+  it('parses the legacy tag format', () => {
+    expect(parseCharacters(legacy)).toHaveLength(2);
+  });
+
+  it('accepts an already parsed array', () => {
+    expect(parseCharacters(json)).toHaveLength(1);
+  });
+
+  it('returns an empty list for empty or invalid values', () => {
+    expect(parseCharacters('')).toEqual([]);
+    expect(parseCharacters('[{"name": ')).toEqual([]);
+    expect(parseCharacters(null)).toEqual([]);
+  });
+});
+
+describe('normalizeCharacters', () => {
+  it('coerces aliases, ages and chapter numbers', () => {
+    const [character] = normalizeCharacters([{ name: ' Teo ', aliases: 'Teo; Mr. L', age: 61, first_appearance_chapter: '2' }]);
+    expect(character).toMatchObject({ name: 'Teo', aliases: ['Teo', 'Mr. L'], age: '61', first_appearance_chapter: 2 });
+  });
+});
+
+describe('formatCharactersForPrompt', () => {
+  it('renders only the filled fields', () => {
+    const text = formatCharactersForPrompt([{ ...createCharacter('Mara'), aliases: ['M'], role: 'protagonist', personality: 'Curious.', first_appearance_chapter: 1 }]);
+    expect(text).toBe('Mara (also called M)\nRole: protagonist\nPersonality: Curious.\nFirst appears in chapter 1');
+  });
+});
+
+describe('normalizeRelationships', () => {
+  const characters = [createCharacter('Mara'), createCharacter('Teo')];
+
+  it('matches names to characters and drops unknown ones', () => {
+    expect(normalizeRelationships([
+      { source: 'mara', target: 'TEO', type: 'Mentor', description: 'Trained her.' },
+      { source: 'Mara', target: 'Ghost', type: 'enemy' }
+    ], characters)).toEqual([
+      { source: 'Mara', target: 'Teo', type: 'mentor', description: 'Trained her.' }
+    ]);
+  });
+
+  it('maps unknown types to other and drops self edges and duplicates', () => {
+    expect(normalizeRelationships([
+      { source: 'Mara', target: 'Teo', type: 'landlord' },
+      { source: 'Mara', target: 'Teo', type: 'landlord' },
+      { source: 'Mara', target: 'Mara', type: 'family' }
+    ], characters)).toEqual([
+      { source: 'Mara', target: 'Teo', type: 'other', description: '' }
+    ]);
+  });
+});
+
+describe('parseRelationships', () => {
+  it('parses a relationships object from a response', () => {
+    const input = JSON.stringify({ relationships: [{ source: 'Mara', target: 'Teo', type: 'employer', description: '' }] });
+    expect(parseRelationships(input)).toEqual([{ source: 'Mara', target: 'Teo', type: 'employer', description: '' }]);
+  });
+
+  it('returns an empty list for invalid values', () => {
+    expect(parseRelationships('no json here')).toEqual([]);
+    expect(parseRelationships(null)).toEqual([]);
+  });
+});
+
+describe('formatCharactersForPrompt with relationships', () => {
+  it('appends the relationship edges', () => {
+    const text = formatCharactersForPrompt(
+      [createCharacter('Mara'), createCharacter('Teo')],
+      [{ source: 'Teo', target: 'Mara', type: 'mentor', description: 'Trained her.' }]
+    );
+    expect(text).toBe('Mara\n\nTeo\n\nRelationships between characters:\n- Teo -> Mara: mentor (Trained her.)');
+  });
+});
@@ -0,0 +1,244 @@
+// Character bible parsing for model responses and stored stories.
+// New stories store a JSON array of characters; older ones store pseudo-XML tags:
+// <character name='...' aliases='...' pronouns='...' age='...'>Personality:\n...\n\nAppearance:\n...</character>
+
+import type { Character, CharacterRelationship, RelationshipType } from '@/types/character';
+import { extractJsonText } from './outline-parser';
+
+const toText = (value: unknown): string => {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return '';
+};
+
+const toAliases = (value: unknown): string[] => {
+  const aliases = Array.isArray(value) ? value.map(toText) : toText(value).split(/[,;]/);
+  return aliases.map(alias => alias.trim()).filter(Boolean);
+};
+
+const toChapterNumber = (value: unknown): number | null => {
+  const parsed = typeof value === 'string' ? parseInt(value, 10) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) && parsed > 0 ? Math.round(parsed) : null;
+};
+
+export function createCharacter(name: string): Character {
+  return {
+    name,
+    aliases: [],
+    pronouns: '',
+    age: '',
+    role: '',
+    personality: '',
+    appearance: '',
+    relationships: '',
+    arc: '',
+    first_appearance_chapter: null
+  };
+}
+
+// Turn one parsed item into a character, or null when it has no name
+export function normalizeCharacter(item: unknown): Character | null {
+  if (typeof item !== 'object' || item === null) {
+    return null;
+  }
+  const record = item as Record<string, unknown>;
+  const name = toText(record.name);
+  if (!name) {
+    return null;
+  }
+
+  return {
+    name,
+    aliases: toAliases(record.aliases),
+    pronouns: toText(record.pronouns),
+    age: toText(record.age),
+    role: toText(record.role),
+    personality: toText(record.personality),
+    appearance: toText(record.appearance),
+    relationships: toText(record.relationships),
+    arc: toText(record.arc),
+    first_appearance_chapter: toChapterNumber(record.first_appearance_chapter)
+  };
+}
+
+export function normalizeCharacters(items: unknown[]): Character[] {
+  return items
+    .map(normalizeCharacter)
+    .filter((character): character is Character => character !== null);
+}
+
+// Read the attributes of a legacy opening tag. A value only ends at a quote that is followed
+// by the next attribute or the end of the tag, so apostrophes inside names survive.
+function parseLegacyAttributes(attributeText: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const attributePattern = /(\w+)\s*=\s*(['"])([\s\S]*?)\2(?=\s*,?\s*(?:\w+\s*=|\/?\s*$))/g;
+  for (const match of attributeText.matchAll(attributePattern)) {
+    attributes[match[1].toLowerCase()] = match[3].trim();
+  }
+  return attributes;
+}
+
+// Split a legacy description body into its "Heading:" sections
+function parseLegacySections(body: string): Record<string, string> {
+  const sections: Record<string, string[]> = {};
+  let current = 'personality';
+  for (const line of body.split('\n')) {
+    const trimmed = line.trim();
+    const heading = trimmed.match(/^([A-Za-z][A-Za-z ]{0,40}):$/);
+    if (heading) {
+      const name = heading[1].toLowerCase();
+      current = name.startsWith('relationship') ? 'relationships' : name;
+      continue;
+    }
+    if (trimmed) {
+      (sections[current] ||= []).push(trimmed);
+    }
+  }
+  return Object.fromEntries(Object.entries(sections).map(([name, lines]) => [name, lines.join('\n')]));
+}
+
+// Migrate the legacy <character> tag format
+export function parseLegacyCharacters(text: string): Character[] {
+  const characters: Character[] = [];
+  for (const match of text.matchAll(/<character\b([^>]*)>([\s\S]*?)<\/character>/g)) {
+    const attributes = parseLegacyAttributes(match[1]);
+    const sections = parseLegacySections(match[2]);
+    const character = normalizeCharacter({
+      ...attributes,
+      personality: sections.personality,
+      appearance: sections.appearance,
+      relationships: sections.relationships,
+      arc: sections.arc
+    });
+    if (character) {
+      characters.push(character);
+    }
+  }
+  return characters;
+}
+
+// Parse a model response or a stored stories.characters value into characters.
+// Accepts a JSON array, a {"characters": [...]} object or the legacy tag format.
+export function parseCharacters(value: unknown): Character[] {
+  if (Array.isArray(value)) {
+    return normalizeCharacters(value);
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    return [];
+  }
+  if (value.includes('<character')) {
+    return parseLegacyCharacters(value);
+  }
+
+  const jsonText = extractJsonText(value);
+  if (jsonText === null) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(jsonText);
+    const items = Array.isArray(parsed) ? parsed : parsed?.characters;
+    return Array.isArray(items) ? normalizeCharacters(items) : normalizeCharacters([parsed]);
+  } catch {
+    console.warn("Failed to parse characters JSON");
+    return [];
+  }
+}
+
+export const RELATIONSHIP_TYPES: RelationshipType[] = [
+  'family',
+  'romantic',
+  'friend',
+  'rival',
+  'enemy',
+  'employer',
+  'colleague',
+  'mentor',
+  'other'
+];
+
+// Clean up relationship edges: unknown types become "other", self edges and duplicates are dropped,
+// and when characters are given, names are matched case-insensitively and edges to unknown characters are dropped.
+export function normalizeRelationships(items: unknown, characters?: Character[]): CharacterRelationship[] {
+  if (!Array.isArray(items)) {
+    return [];
+  }
+
+  const namesByKey = new Map(characters?.map(character => [character.name.toLowerCase(), character.name]));
+  const resolveName = (value: unknown): string => {
+    const name = toText(value);
+    return characters ? namesByKey.get(name.toLowerCase()) || '' : name;
+  };
+
+  const seen = new Set<string>();
+  const relationships: CharacterRelationship[] = [];
+  for (const item of items) {
+    if (typeof item !== 'object' || item === null) continue;
+    const record = item as Record<string, unknown>;
+    const source = resolveName(record.source);
+    const target = resolveName(record.target);
+    if (!source || !target || source === target) continue;
+
+    const typeText = toText(record.type).toLowerCase();
+    const type = RELATIONSHIP_TYPES.includes(typeText as RelationshipType) ? typeText as RelationshipType : 'other';
+    const key = `${source}|${target}|${type}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    relationships.push({ source, target, type, description: toText(record.description) });
+  }
+  return relationships;
+}
+
+// Parse relationship edges from a model response or a stored value
+export function parseRelationships(value: unknown, characters?: Character[]): CharacterRelationship[] {
+  if (typeof value !== 'string') {
+    return normalizeRelationships(value, characters);
+  }
+
+  const jsonText = extractJsonText(value);
+  if (jsonText === null) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(jsonText);
+    return normalizeRelationships(Array.isArray(parsed) ? parsed : parsed?.relationships, characters);
+  } catch {
+    console.warn("Failed to parse relationships JSON");
+    return [];
+  }
+}
+
+export function formatRelationshipsForPrompt(relationships: CharacterRelationship[]): string {
+  return relationships.map(relationship =>
+    `- ${relationship.source} -> ${relationship.target}: ${relationship.type}${relationship.description ? ` (${relationship.description})` : ''}`
+  ).join('\n');
+}
+
+// Render the character bible, and optionally the relationship graph, as plain text for prompts
+export function formatCharactersForPrompt(characters: Character[], relationships: CharacterRelationship[] = []): string {
+  const edges = normalizeRelationships(relationships, characters);
+  const bible = characters.map(character => {
+    const header = [
+      character.name,
+      character.aliases.length ? `(also called ${character.aliases.join(', ')})` : ''
+    ].filter(Boolean).join(' ');
+    const details = [
+      character.role && `Role: ${character.role}`,
+      character.pronouns && `Pronouns: ${character.pronouns}`,
+      character.age && `Age: ${character.age}`
+    ].filter(Boolean).join(' | ');
+    return [
+      header,
+      details,
+      character.personality && `Personality: ${character.personality}`,
+      character.appearance && `Appearance: ${character.appearance}`,
+      character.relationships && `Relationships: ${character.relationships}`,
+      character.arc && `Arc: ${character.arc}`,
+      character.first_appearance_chapter && `First appears in chapter ${character.first_appearance_chapter}`
+    ].filter(Boolean).join('\n');
+  }).join('\n\n');
+
+  return edges.length
+    ? `${bible}\n\nRelationships between characters:\n${formatRelationshipsForPrompt(edges)}`
+    : bible;
+}
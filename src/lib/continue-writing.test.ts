@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { BEAT_COMPLETE_MARKER, insertContinuation, trimContinuation } from './continue-writing';
+
+describe('trimContinuation', () => {
+  it('stops at the beat marker', () => {
+    expect(trimContinuation(`The door shut. ${BEAT_COMPLETE_MARKER}\nMore text`, 100)).toEqual({
+      text: 'The door shut.',
+      stop: 'beat_complete'
+    });
+  });
+
+  it('holds back text that may be the start of the marker', () => {
+    expect(trimContinuation('The door shut. [BEAT', 100)).toEqual({ text: 'The door shut. ' });
+    expect(trimContinuation('She said [hello]', 100)).toEqual({ text: 'She said [hello]' });
+  });
+
+  it('ends on the last full sentence once the word limit is reached', () => {
+    expect(trimContinuation('One two three. Four five six seven', 5)).toEqual({ text: 'One two three.', stop: 'word_limit' });
+    expect(trimContinuation('One two three four five six', 4)).toEqual({ text: 'One two three four', stop: 'word_limit' });
+  });
+
+  it('passes short text through', () => {
+    expect(trimContinuation('Just a few words', 10)).toEqual({ text: 'Just a few words' });
+  });
+});
+
+describe('insertContinuation', () => {
+  it('starts a new paragraph at the end of a paragraph', () => {
+    const { content, range } = insertContinuation('I ran.\n\nThe end.', 6, ' I kept running. ');
+    expect(content).toBe('I ran.\n\nI kept running.\n\nThe end.');
+    expect(content.slice(range.start, range.end)).toBe('I kept running.');
+  });
+
+  it('carries on the line in the middle of a paragraph', () => {
+    expect(insertContinuation('I ran. Then I hid.', 6, 'I tripped.').content).toBe('I ran. I tripped. Then I hid.');
+  });
+
+  it('adds nothing before the text when the cursor follows whitespace', () => {
+    expect(insertContinuation('I ran.\n\n', 8, 'Then I hid.').content).toBe('I ran.\n\nThen I hid.');
+    expect(insertContinuation('', 0, 'It began.').content).toBe('It began.');
+  });
+});
@@ -0,0 +1,60 @@
+// Continue writing a chapter from the cursor. The model marks the point where the chapter beat is fully
+// covered, and the continuation is cut off at a word limit otherwise.
+
+export const BEAT_COMPLETE_MARKER = '[BEAT COMPLETE]';
+export const CONTINUE_WORD_LIMITS = [150, 300, 500, 1000];
+export const DEFAULT_CONTINUE_WORDS = 300;
+
+export type ContinuationStop = 'beat_complete' | 'word_limit';
+
+export interface Continuation {
+  // The text to show and insert
+  text: string;
+  // Why the continuation ended early, if it did
+  stop?: ContinuationStop;
+}
+
+// Cut streamed text down to what should be shown: nothing from the beat marker on, nothing past the word
+// limit (ending on the last full sentence when there is one), and no trailing text that might be the start of the marker.
+export function trimContinuation(raw: string, maxWords: number): Continuation {
+  const markerIndex = raw.indexOf(BEAT_COMPLETE_MARKER);
+  if (markerIndex !== -1) {
+    return { text: raw.slice(0, markerIndex).trimEnd(), stop: 'beat_complete' };
+  }
+
+  const words = raw.match(/\S+\s*/g) || [];
+  if (words.length >= maxWords) {
+    const limited = words.slice(0, maxWords).join('').trimEnd();
+    const lastSentence = limited.match(/^[\s\S]*[.!?]["'”’)\]]?(?=\s|$)/);
+    return { text: lastSentence ? lastSentence[0] : limited, stop: 'word_limit' };
+  }
+
+  return { text: raw.slice(0, raw.length - pendingMarkerLength(raw)) };
+}
+
+// How many characters at the end of the text could be the beginning of the beat marker
+function pendingMarkerLength(text: string): number {
+  for (let length = Math.min(BEAT_COMPLETE_MARKER.length - 1, text.length); length > 0; length--) {
+    if (BEAT_COMPLETE_MARKER.startsWith(text.slice(-length))) return length;
+  }
+  return 0;
+}
+
+// Put a continuation into the chapter at the cursor. At the end of a paragraph it starts a new paragraph;
+// in the middle of one it carries on the line. Returns the new content and where the continuation sits in it.
+export function insertContinuation(text: string, cursor: number, continuation: string) {
+  const before = text.slice(0, cursor);
+  const after = text.slice(cursor);
+  const trimmed = continuation.trim();
+
+  const separator = before.trim() === '' || /\s$/.test(before)
+    ? ''
+    : after === '' || after.startsWith('\n') ? '\n\n' : ' ';
+  const suffix = after !== '' && !/^\s/.test(after) ? ' ' : '';
+  const start = before.length + separator.length;
+
+  return {
+    content: before + separator + trimmed + suffix + after,
+    range: { start, end: start + trimmed.length }
+  };
+}
@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  applyLedgerUpdate,
+  createEmptyLedger,
+  formatLedgerForPrompt,
+  parseLedger,
+  parseLedgerUpdate,
+  renumberLedger
+} from './continuity';
+import type { ContinuityLedger } from '@/types/continuity';
+
+const ledger: ContinuityLedger = {
+  entries: [
+    { id: 'key', category: 'object', subject: 'Brass key', detail: 'Mara keeps it in her coat pocket.', chapter_number: 1 },
+    { id: 'ankle', category: 'injury', subject: 'Mara', detail: 'Sprained her left ankle on the stairs.', chapter_number: 2 },
+    { id: 'log', category: 'knowledge', subject: 'Elias', detail: 'Does not know Mara read the logbook.', chapter_number: 2 }
+  ],
+  extracted_chapters: [1, 2]
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('parseLedger', () => {
+  it('loads a stored ledger', () => {
+    expect(parseLedger(JSON.stringify(ledger))).toEqual(ledger);
+    expect(parseLedger(ledger)).toEqual(ledger);
+  });
+
+  it('returns an empty ledger for missing or invalid values', () => {
+    expect(parseLedger(null)).toEqual(createEmptyLedger());
+    expect(parseLedger('')).toEqual(createEmptyLedger());
+    expect(parseLedger('{"entries": [')).toEqual(createEmptyLedger());
+  });
+
+  it('drops entries without a detail and fixes invalid fields', () => {
+    const parsed = parseLedger({
+      entries: [
+        { id: 'a', category: 'weather', subject: 'Island', detail: 'It has rained for three days.', chapter_number: '3' },
+        { id: 'b', category: 'fact', subject: 'Empty', detail: '  ' },
+        'not an object'
+      ],
+      extracted_chapters: [3, 1, 3, 0, 'two']
+    });
+    expect(parsed.entries).toEqual([
+      { id: 'a', category: 'fact', subject: 'Island', detail: 'It has rained for three days.', chapter_number: 3 }
+    ]);
+    expect(parsed.extracted_chapters).toEqual([1, 3]);
+  });
+
+  it('gives entries without an id a new one', () => {
+    const [entry] = parseLedger({ entries: [{ category: 'fact', detail: 'The ferry only runs on Sundays.' }] }).entries;
+    expect(entry.id).toMatch(/\S+/);
+    expect(entry.chapter_number).toBe(1);
+  });
+});
+
+describe('parseLedgerUpdate', () => {
+  it('parses added entries and resolved ids', () => {
+    const text = '```json\n' + JSON.stringify({
+      added: [{ category: 'location', subject: 'Mara', detail: 'Now hiding in the boathouse.' }],
+      resolved_ids: ['ankle']
+    }) + '\n```';
+    expect(parseLedgerUpdate(text)).toEqual({
+      added: [{ category: 'location', subject: 'Mara', detail: 'Now hiding in the boathouse.' }],
+      resolved_ids: ['ankle']
+    });
+  });
+
+  it('returns an empty update for invalid responses', () => {
+    expect(parseLedgerUpdate('No changes.')).toEqual({ added: [], resolved_ids: [] });
+    expect(parseLedgerUpdate('{"added": [')).toEqual({ added: [], resolved_ids: [] });
+  });
+});
+
+describe('applyLedgerUpdate', () => {
+  it('adds new entries for the chapter and removes resolved ones', () => {
+    const updated = applyLedgerUpdate(ledger, 3, {
+      added: [{ category: 'location', subject: 'Mara', detail: 'Now hiding in the boathouse.' }],
+      resolved_ids: ['ankle']
+    });
+    expect(updated.entries.map(entry => entry.id)).toEqual(['key', 'log', updated.entries[2].id]);
+    expect(updated.entries[2]).toMatchObject({ category: 'location', chapter_number: 3 });
+    expect(updated.extracted_chapters).toEqual([1, 2, 3]);
+  });
+
+  it('replaces entries from the same chapter when it is extracted again', () => {
+    const updated = applyLedgerUpdate(ledger, 2, {
+      added: [{ category: 'injury', subject: 'Mara', detail: 'Cut her hand on the broken lamp.' }],
+      resolved_ids: []
+    });
+    expect(updated.entries.map(entry => entry.detail)).toEqual([
+      'Mara keeps it in her coat pocket.',
+      'Cut her hand on the broken lamp.'
+    ]);
+    expect(updated.extracted_chapters).toEqual([1, 2]);
+  });
+
+  it('does not change the original ledger', () => {
+    applyLedgerUpdate(ledger, 3, { added: [], resolved_ids: ['key'] });
+    expect(ledger.entries).toHaveLength(3);
+  });
+});
+
+describe('renumberLedger', () => {
+  it('moves entries and extracted chapters with their chapters', () => {
+    // Chapters 1 and 2 swapped places
+    const renumbered = renumberLedger(ledger, [2, 1]);
+    expect(renumbered.entries.map(entry => [entry.id, entry.chapter_number])).toEqual([['key', 2], ['ankle', 1], ['log', 1]]);
+    expect(renumbered.extracted_chapters).toEqual([1, 2]);
+  });
+
+  it('drops entries from chapters that no longer exist', () => {
+    // A chapter was inserted first and chapter 2 was deleted
+    const renumbered = renumberLedger(ledger, [null, 1]);
+    expect(renumbered.entries.map(entry => [entry.id, entry.chapter_number])).toEqual([['key', 2]]);
+    expect(renumbered.extracted_chapters).toEqual([2]);
+  });
+});
+
+describe('formatLedgerForPrompt', () => {
+  it('groups entries by category', () => {
+    expect(formatLedgerForPrompt(ledger)).toBe(
+      'Objects:\n- Brass key: Mara keeps it in her coat pocket. (chapter 1)' +
+      '\n\nInjuries:\n- Mara: Sprained her left ankle on the stairs. (chapter 2)' +
+      '\n\nKnowledge:\n- Elias: Does not know Mara read the logbook. (chapter 2)'
+    );
+  });
+
+  it('can include entry ids', () => {
+    const text = formatLedgerForPrompt({ ...ledger, entries: ledger.entries.slice(0, 1) }, true);
+    expect(text).toBe('Objects:\n- [key] Brass key: Mara keeps it in her coat pocket. (chapter 1)');
+  });
+
+  it('returns an empty string for an empty ledger', () => {
+    expect(formatLedgerForPrompt(createEmptyLedger())).toBe('');
+  });
+});
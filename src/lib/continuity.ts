@@ -0,0 +1,159 @@
+// Continuity ledger parsing and updates.
+// The ledger is a per-story list of details (facts, objects, injuries, locations and who knows what)
+// extracted from completed chapters and given to the writer in place of the full earlier chapters.
+
+import type { ContinuityCategory, ContinuityEntry, ContinuityLedger } from '@/types/continuity';
+import { v4 as uuidv4 } from 'uuid';
+import { mapChapterNumbers } from './outline-operations';
+import { extractJsonText } from './outline-parser';
+
+export const CONTINUITY_CATEGORIES: { id: ContinuityCategory; label: string; description: string }[] = [
+  { id: 'fact', label: 'Facts', description: 'Established facts about the world and its events' },
+  { id: 'object', label: 'Objects', description: 'Important items and who has them' },
+  { id: 'injury', label: 'Injuries', description: 'Wounds, illnesses and other physical conditions' },
+  { id: 'location', label: 'Locations', description: 'Where characters are and what places look like' },
+  { id: 'knowledge', label: 'Knowledge', description: 'Who knows what, and who does not know yet' }
+];
+
+const CATEGORY_IDS = CONTINUITY_CATEGORIES.map(category => category.id);
+
+// An entry returned by the model, before it gets an id and a chapter number
+export type ContinuityEntryDraft = Pick<ContinuityEntry, 'category' | 'subject' | 'detail'>;
+
+export interface ContinuityUpdate {
+  added: ContinuityEntryDraft[];
+  // Ids of existing entries that are no longer true after the chapter
+  resolved_ids: string[];
+}
+
+const toText = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+const toCategory = (value: unknown): ContinuityCategory => {
+  const category = toText(value).toLowerCase();
+  return CATEGORY_IDS.includes(category as ContinuityCategory) ? category as ContinuityCategory : 'fact';
+};
+
+const toChapterNumber = (value: unknown): number => {
+  const parsed = typeof value === 'string' ? parseInt(value, 10) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) && parsed > 0 ? Math.round(parsed) : 1;
+};
+
+export function createEmptyLedger(): ContinuityLedger {
+  return { entries: [], extracted_chapters: [] };
+}
+
+export function createContinuityEntry(draft: ContinuityEntryDraft, chapterNumber: number): ContinuityEntry {
+  return { id: uuidv4(), ...draft, chapter_number: chapterNumber };
+}
+
+// Turn one parsed item into an entry draft, or null when it has no detail
+function normalizeEntryDraft(item: unknown): ContinuityEntryDraft | null {
+  if (typeof item !== 'object' || item === null) {
+    return null;
+  }
+  const record = item as Record<string, unknown>;
+  const detail = toText(record.detail);
+  if (!detail) {
+    return null;
+  }
+  return { category: toCategory(record.category), subject: toText(record.subject), detail };
+}
+
+// Load a stored stories.continuity_ledger value, dropping invalid entries
+export function parseLedger(value: unknown): ContinuityLedger {
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      console.warn("Failed to parse continuity ledger JSON");
+      return createEmptyLedger();
+    }
+  }
+  if (typeof parsed !== 'object' || parsed === null) {
+    return createEmptyLedger();
+  }
+
+  const record = parsed as Record<string, unknown>;
+  const entries: ContinuityEntry[] = [];
+  for (const item of Array.isArray(record.entries) ? record.entries : []) {
+    const draft = normalizeEntryDraft(item);
+    if (!draft) continue;
+    const entry = item as Record<string, unknown>;
+    entries.push({
+      id: toText(entry.id) || uuidv4(),
+      ...draft,
+      chapter_number: toChapterNumber(entry.chapter_number)
+    });
+  }
+
+  const chapters = Array.isArray(record.extracted_chapters) ? record.extracted_chapters : [];
+  const extracted_chapters = [...new Set(
+    chapters.filter((chapter): chapter is number => typeof chapter === 'number' && Number.isInteger(chapter) && chapter > 0)
+  )].sort((a, b) => a - b);
+
+  return { entries, extracted_chapters };
+}
+
+// Parse the model's response to a continuity extraction prompt
+export function parseLedgerUpdate(text: string): ContinuityUpdate {
+  const jsonText = extractJsonText(text);
+  if (jsonText === null) {
+    return { added: [], resolved_ids: [] };
+  }
+  try {
+    const parsed = JSON.parse(jsonText);
+    const added = (Array.isArray(parsed?.added) ? parsed.added : [])
+      .map(normalizeEntryDraft)
+      .filter((draft: ContinuityEntryDraft | null): draft is ContinuityEntryDraft => draft !== null);
+    const resolved_ids = (Array.isArray(parsed?.resolved_ids) ? parsed.resolved_ids : [])
+      .map(toText)
+      .filter(Boolean);
+    return { added, resolved_ids };
+  } catch {
+    console.warn("Failed to parse continuity update JSON");
+    return { added: [], resolved_ids: [] };
+  }
+}
+
+// Apply an extraction for a chapter. Entries previously extracted from the same chapter are
+// replaced, so re-extracting a rewritten chapter doesn't leave stale details behind.
+export function applyLedgerUpdate(ledger: ContinuityLedger, chapterNumber: number, update: ContinuityUpdate): ContinuityLedger {
+  const resolved = new Set(update.resolved_ids);
+  const kept = ledger.entries.filter(entry => entry.chapter_number !== chapterNumber && !resolved.has(entry.id));
+  return {
+    entries: [...kept, ...update.added.map(draft => createContinuityEntry(draft, chapterNumber))],
+    extracted_chapters: [...new Set([...ledger.extracted_chapters, chapterNumber])].sort((a, b) => a - b)
+  };
+}
+
+// Move entries and extracted chapters to their chapter's new number after the outline was edited.
+// Entries from chapters that no longer exist are dropped.
+export function renumberLedger(ledger: ContinuityLedger, previousNumbers: Array<number | null>): ContinuityLedger {
+  const numbers = mapChapterNumbers(previousNumbers);
+  return {
+    entries: ledger.entries
+      .filter(entry => numbers.has(entry.chapter_number))
+      .map(entry => ({ ...entry, chapter_number: numbers.get(entry.chapter_number)! })),
+    extracted_chapters: ledger.extracted_chapters
+      .filter(chapter => numbers.has(chapter))
+      .map(chapter => numbers.get(chapter)!)
+      .sort((a, b) => a - b)
+  };
+}
+
+const formatEntry = (entry: ContinuityEntry, includeId: boolean): string =>
+  `- ${includeId ? `[${entry.id}] ` : ''}${entry.subject ? `${entry.subject}: ` : ''}${entry.detail} (chapter ${entry.chapter_number})`;
+
+// Render the ledger grouped by category. With includeIds the entries are prefixed with their id,
+// so the extraction prompt can refer to entries that are no longer true.
+export function formatLedgerForPrompt(ledger: ContinuityLedger, includeIds = false): string {
+  return CONTINUITY_CATEGORIES
+    .map(category => {
+      const entries = ledger.entries.filter(entry => entry.category === category.id);
+      if (!entries.length) return '';
+      return `${category.label}:\n${entries.map(entry => formatEntry(entry, includeIds)).join('\n')}`;
+    })
+    .filter(Boolean)
+    .join('\n\n');
+}
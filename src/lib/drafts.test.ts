@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_ALTERNATES, defaultDraftVariants, describeVariant, keepAlternates, spliceParagraphs, splitParagraphs } from './drafts';
+import type { ChapterAlternate } from '@/types/story';
+
+const alternate = (content: string, id = content): ChapterAlternate => ({
+  id,
+  content,
+  label: 'Temperature 0.5',
+  created_at: '2026-10-01T00:00:00.000Z'
+});
+
+describe('defaultDraftVariants', () => {
+  it('spreads temperatures upwards from the base', () => {
+    expect(defaultDraftVariants(3)).toEqual([{ temperature: 0.5 }, { temperature: 0.8 }, { temperature: 1.1 }]);
+  });
+
+  it('keeps the count between two and four drafts', () => {
+    expect(defaultDraftVariants(1)).toHaveLength(2);
+    expect(defaultDraftVariants(9, 1.5)).toEqual([{ temperature: 1.5 }, { temperature: 1.8 }, { temperature: 2 }, { temperature: 2 }]);
+  });
+});
+
+describe('describeVariant', () => {
+  it('names the temperature and model', () => {
+    expect(describeVariant({ temperature: 1, model: 'gpt-4o' })).toBe('Temperature 1.0, gpt-4o');
+    expect(describeVariant({})).toBe('Default settings');
+  });
+});
+
+describe('spliceParagraphs', () => {
+  const drafts = ['One.\n\nTwo.\n\nThree.', 'Uno.\n\n  \n\nDos.'];
+
+  it('ignores blank paragraphs', () => {
+    expect(splitParagraphs(drafts[1])).toEqual(['Uno.', 'Dos.']);
+  });
+
+  it('joins paragraphs from several drafts in the order they were picked', () => {
+    expect(spliceParagraphs(drafts, [
+      { draft: 1, paragraph: 0 },
+      { draft: 0, paragraph: 1 },
+      { draft: 1, paragraph: 1 },
+      { draft: 2, paragraph: 0 }
+    ])).toBe('Uno.\n\nTwo.\n\nDos.');
+  });
+});
+
+describe('keepAlternates', () => {
+  it('adds new drafts first and skips duplicates and the chosen text', () => {
+    const kept = keepAlternates([alternate('Old draft')], [
+      { content: 'Chosen', label: 'Temperature 0.5' },
+      { content: 'Other draft', label: 'Temperature 0.8' },
+      { content: 'Old draft', label: 'Temperature 1.1' },
+      { content: '  ', label: 'Temperature 1.4' }
+    ], 'Chosen');
+    expect(kept.map(item => item.content)).toEqual(['Other draft', 'Old draft']);
+    expect(kept[0].label).toBe('Temperature 0.8');
+  });
+
+  it('takes a swapped-in alternate out of the list', () => {
+    const kept = keepAlternates([alternate('First'), alternate('Second')], [{ content: 'Current', label: 'Previous version' }], 'Second');
+    expect(kept.map(item => item.content)).toEqual(['Current', 'First']);
+  });
+
+  it('drops the oldest alternates past the limit', () => {
+    const existing = Array.from({ length: MAX_ALTERNATES }, (_, index) => alternate(`Draft ${index}`));
+    const kept = keepAlternates(existing, [{ content: 'Newest', label: 'Temperature 0.5' }], '');
+    expect(kept).toHaveLength(MAX_ALTERNATES);
+    expect(kept[0].content).toBe('Newest');
+    expect(kept.some(item => item.content === `Draft ${MAX_ALTERNATES - 1}`)).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+// Helpers for writing several drafts of a chapter at once, comparing them, and keeping the ones
+// that weren't picked as alternates on the chapter.
+import { v4 as uuidv4 } from 'uuid';
+import type { StepVariant } from '@/types/llm';
+import type { ChapterAlternate } from '@/types/story';
+
+export const MIN_DRAFTS = 2;
+export const MAX_DRAFTS = 4;
+// Older alternates are dropped past this many, so stories.chapters doesn't grow without limit
+export const MAX_ALTERNATES = 6;
+
+// A draft's text and how it was written
+export interface DraftText {
+  content: string;
+  label: string;
+}
+
+// A paragraph picked from one of the drafts being compared
+export interface ParagraphPick {
+  draft: number;
+  paragraph: number;
+}
+
+// Spread the drafts' temperatures out so they read differently, starting from the scene default
+export function defaultDraftVariants(count: number, baseTemperature = 0.5): StepVariant[] {
+  const total = Math.min(MAX_DRAFTS, Math.max(MIN_DRAFTS, count));
+  return Array.from({ length: total }, (_, index) => ({
+    temperature: Math.min(2, Math.round((baseTemperature + index * 0.3) * 10) / 10)
+  }));
+}
+
+export function describeVariant(variant: StepVariant): string {
+  const parts = [
+    variant.temperature !== undefined ? `Temperature ${variant.temperature.toFixed(1)}` : '',
+    variant.model?.trim() || ''
+  ].filter(Boolean);
+  return parts.length ? parts.join(', ') : 'Default settings';
+}
+
+export function splitParagraphs(text: string): string[] {
+  return text.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+}
+
+// Join the picked paragraphs in the order they were picked. Picks that don't point at a paragraph are skipped.
+export function spliceParagraphs(drafts: string[], picks: ParagraphPick[]): string {
+  const paragraphs = drafts.map(splitParagraphs);
+  return picks
+    .map(pick => paragraphs[pick.draft]?.[pick.paragraph])
+    .filter((paragraph): paragraph is string => !!paragraph)
+    .join('\n\n');
+}
+
+// Add the drafts that weren't picked to a chapter's alternates, newest first. The chosen text is taken out
+// of the alternates (it may have been one of them) and drafts that are already kept aren't added twice.
+export function keepAlternates(existing: ChapterAlternate[], drafts: DraftText[], chosen: string): ChapterAlternate[] {
+  const now = new Date().toISOString();
+  const kept = existing.filter(alternate => alternate.content.trim() !== chosen.trim());
+  const seen = new Set([chosen.trim(), ...kept.map(alternate => alternate.content.trim())]);
+
+  const added: ChapterAlternate[] = [];
+  for (const draft of drafts) {
+    const content = draft.content.trim();
+    if (!content || seen.has(content)) continue;
+    seen.add(content);
+    added.push({ id: uuidv4(), content: draft.content, label: draft.label, created_at: now });
+  }
+
+  return [...added, ...kept].slice(0, MAX_ALTERNATES);
+}
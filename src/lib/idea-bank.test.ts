@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { collectTags, filterIdeas, normalizeBankedIdea, parseTags } from './idea-bank';
+import type { BankedIdea } from '@/types/idea';
+
+const idea = (overrides: Partial<BankedIdea>): BankedIdea => normalizeBankedIdea({
+  id: 'idea',
+  idea: 'A lighthouse keeper hears knocking from below the rocks.',
+  created_at: '2026-10-01T00:00:00Z',
+  ...overrides
+});
+
+describe('parseTags', () => {
+  it('lowercases, trims and removes duplicate tags', () => {
+    expect(parseTags(' Ocean, lighthouse,,ocean ')).toEqual(['ocean', 'lighthouse']);
+  });
+});
+
+describe('normalizeBankedIdea', () => {
+  it('fills in defaults for missing fields', () => {
+    const normalized = normalizeBankedIdea({ id: '1', idea: 'Idea', source: 'unknown' as BankedIdea['source'] });
+    expect(normalized).toMatchObject({ summary: '', source: 'custom', tags: [], rating: null, story_id: null, source_posts: [] });
+  });
+});
+
+describe('filterIdeas', () => {
+  const ideas = [
+    idea({ id: 'a', tags: ['ocean'], rating: 5, source: 'reddit', created_at: '2026-10-01T00:00:00Z' }),
+    idea({ id: 'b', idea: 'A cabin in the woods.', tags: ['woods', 'ocean'], rating: 2, story_id: 'story', created_at: '2026-10-03T00:00:00Z' }),
+    idea({ id: 'c', idea: 'A motel with no exit.', summary: 'Travellers are trapped.', created_at: '2026-10-02T00:00:00Z' })
+  ];
+
+  it('returns every idea newest first without filters', () => {
+    expect(filterIdeas(ideas, {}).map(item => item.id)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('searches the idea, summary and tags', () => {
+    expect(filterIdeas(ideas, { query: 'TRAPPED' }).map(item => item.id)).toEqual(['c']);
+    expect(filterIdeas(ideas, { query: 'woods' }).map(item => item.id)).toEqual(['b']);
+  });
+
+  it('combines source, tag, rating and unused filters', () => {
+    expect(filterIdeas(ideas, { tags: ['ocean'] }).map(item => item.id)).toEqual(['b', 'a']);
+    expect(filterIdeas(ideas, { tags: ['ocean'], minRating: 3 }).map(item => item.id)).toEqual(['a']);
+    expect(filterIdeas(ideas, { source: 'reddit' }).map(item => item.id)).toEqual(['a']);
+    expect(filterIdeas(ideas, { unusedOnly: true }).map(item => item.id)).toEqual(['c', 'a']);
+  });
+});
+
+describe('collectTags', () => {
+  it('orders tags by how often they are used', () => {
+    expect(collectTags([idea({ tags: ['woods', 'ocean'] }), idea({ tags: ['ocean'] })])).toEqual(['ocean', 'woods']);
+  });
+});
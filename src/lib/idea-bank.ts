@@ -0,0 +1,52 @@
+import type { BankedIdea, IdeaFilters, StoryIdeaSource } from '@/types/idea';
+import type { RedditSourceRef } from '@/types/reddit';
+import { DEFAULT_STORY_PROFILE } from './story-profiles';
+
+const IDEA_SOURCES: StoryIdeaSource[] = ['reddit', 'fine-tune', 'custom'];
+
+// Tags are stored lowercase and without duplicates
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+// Fill in missing fields of a story_ideas row
+export function normalizeBankedIdea(row: Partial<BankedIdea> & { id: string; idea: string }): BankedIdea {
+  return {
+    id: row.id,
+    idea: row.idea,
+    summary: row.summary || '',
+    source: row.source && IDEA_SOURCES.includes(row.source) ? row.source : 'custom',
+    story_profile: row.story_profile || DEFAULT_STORY_PROFILE,
+    source_posts: Array.isArray(row.source_posts) ? row.source_posts as RedditSourceRef[] : [],
+    tags: Array.isArray(row.tags) ? row.tags : [],
+    rating: typeof row.rating === 'number' ? row.rating : null,
+    story_id: row.story_id || null,
+    created_at: row.created_at || new Date().toISOString()
+  };
+}
+
+// Ideas matching every filter that's set, newest first
+export function filterIdeas(ideas: BankedIdea[], filters: IdeaFilters): BankedIdea[] {
+  const query = filters.query?.trim().toLowerCase();
+  return ideas
+    .filter(idea =>
+      (!query || [idea.idea, idea.summary, ...idea.tags].some(text => text.toLowerCase().includes(query))) &&
+      (!filters.source || idea.source === filters.source) &&
+      (!filters.profile || idea.story_profile === filters.profile) &&
+      (!filters.tags?.length || filters.tags.every(tag => idea.tags.includes(tag))) &&
+      (!filters.minRating || (idea.rating ?? 0) >= filters.minRating) &&
+      (!filters.unusedOnly || !idea.story_id)
+    )
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+// Every tag used in the bank, most used first
+export function collectTags(ideas: BankedIdea[]): string[] {
+  const counts = new Map<string, number>();
+  for (const tag of ideas.flatMap(idea => idea.tags)) {
+    counts.set(tag, (counts.get(tag) || 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([tag]) => tag);
+}
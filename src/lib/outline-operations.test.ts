@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import {
+  deleteChapter,
+  findSplitOffset,
+  insertChapter,
+  mapChapterNumbers,
+  mergeWithNext,
+  moveChapter,
+  splitChapter,
+  toOutline,
+  updateChapterOutline,
+  type OutlineEditorChapter
+} from './outline-operations';
+import { normalizeOutline } from './outline-parser';
+
+const outline = normalizeOutline([
+  { chapter_beat: 'First beat.', title: 'One', target_word_count: 2000, tension_level: 3 },
+  { chapter_beat: 'Second beat.', title: 'Two', target_word_count: 3000, tension_level: 6 },
+  { chapter_beat: 'Third beat.', title: 'Three' }
+]);
+
+const chapters: OutlineEditorChapter[] = outline.map((chapter, index) => ({
+  title: `Chapter ${index + 1}`,
+  content: index < 2 ? `Written ${index + 1}.` : '',
+  completed: index === 0,
+  sceneBeat: chapter.chapter_beat,
+  outline: chapter
+}));
+
+const summarize = (list: OutlineEditorChapter[]) => list.map(chapter => [
+  chapter.title,
+  chapter.outline?.chapter_number,
+  chapter.sceneBeat,
+  chapter.content
+]);
+
+describe('moveChapter', () => {
+  it('moves content with its beat and renumbers', () => {
+    expect(summarize(moveChapter(chapters, 0, 2))).toEqual([
+      ['Chapter 1', 1, 'Second beat.', 'Written 2.'],
+      ['Chapter 2', 2, 'Third beat.', ''],
+      ['Chapter 3', 3, 'First beat.', 'Written 1.']
+    ]);
+  });
+
+  it('ignores out of range moves', () => {
+    expect(moveChapter(chapters, 0, 5)).toBe(chapters);
+  });
+});
+
+describe('insertChapter', () => {
+  it('inserts a chapter with a fresh outline record', () => {
+    const updated = insertChapter(chapters, 1, { title: '', content: '', completed: false, sceneBeat: 'New.', outline: outline[0] });
+    expect(summarize(updated).map(row => row[2])).toEqual(['First beat.', 'New.', 'Second beat.', 'Third beat.']);
+    expect(updated[1].outline?.title).toBe('');
+    expect(updated[3].title).toBe('Chapter 4');
+  });
+});
+
+describe('deleteChapter', () => {
+  it('removes a chapter and renumbers', () => {
+    expect(summarize(deleteChapter(chapters, 0))).toEqual([
+      ['Chapter 1', 1, 'Second beat.', 'Written 2.'],
+      ['Chapter 2', 2, 'Third beat.', '']
+    ]);
+  });
+
+  it('keeps the last chapter', () => {
+    const single = chapters.slice(0, 1);
+    expect(deleteChapter(single, 0)).toBe(single);
+  });
+});
+
+describe('splitChapter', () => {
+  it('splits the beat and keeps the content in the first half', () => {
+    const updated = splitChapter(chapters, 0, 'First'.length);
+    expect(summarize(updated).slice(0, 2)).toEqual([
+      ['Chapter 1', 1, 'First', 'Written 1.'],
+      ['Chapter 2', 2, 'beat.', '']
+    ]);
+    expect(updated[0].outline?.target_word_count).toBe(1000);
+    expect(updated[1].completed).toBe(false);
+    expect(updated).toHaveLength(4);
+  });
+
+  it('does nothing when one half would be empty', () => {
+    expect(splitChapter(chapters, 0, 0)).toBe(chapters);
+  });
+});
+
+describe('findSplitOffset', () => {
+  it('splits at the sentence boundary nearest the middle', () => {
+    const beat = 'One. Two two two. Three three. Four.';
+    expect(beat.slice(findSplitOffset(beat))).toBe('Three three. Four.');
+  });
+
+  it('falls back to the middle without sentence boundaries', () => {
+    expect(findSplitOffset('abcdef')).toBe(3);
+  });
+});
+
+describe('mergeWithNext', () => {
+  it('joins beats and content and combines metadata', () => {
+    const updated = mergeWithNext(chapters, 0);
+    expect(summarize(updated)).toEqual([
+      ['Chapter 1', 1, 'First beat.\n\nSecond beat.', 'Written 1.\n\nWritten 2.'],
+      ['Chapter 2', 2, 'Third beat.', '']
+    ]);
+    expect(updated[0].completed).toBe(false);
+    expect(updated[0].outline?.target_word_count).toBe(5000);
+    expect(updated[0].outline?.tension_level).toBe(6);
+  });
+
+  it('does nothing for the last chapter', () => {
+    expect(mergeWithNext(chapters, 2)).toBe(chapters);
+  });
+});
+
+describe('updateChapterOutline', () => {
+  it('keeps sceneBeat and the outline beat in sync', () => {
+    const updated = updateChapterOutline(chapters, 1, { chapter_beat: 'Rewritten.', setting: 'Cellar' });
+    expect(updated[1].sceneBeat).toBe('Rewritten.');
+    expect(updated[1].outline).toMatchObject({ chapter_beat: 'Rewritten.', setting: 'Cellar', chapter_number: 2 });
+  });
+});
+
+describe('toOutline', () => {
+  it('builds records for chapters without one', () => {
+    const legacy: OutlineEditorChapter[] = [{ title: 'Chapter 1', content: '', completed: false, sceneBeat: 'Only beat.' }];
+    expect(toOutline(legacy)).toEqual(normalizeOutline(['Only beat.']));
+  });
+});
+
+describe('mapChapterNumbers', () => {
+  it('maps the old chapter numbers to the new ones', () => {
+    // A chapter was inserted first, chapters 1 and 2 swapped and chapter 3 was deleted
+    expect(mapChapterNumbers([null, 2, 1])).toEqual(new Map([[2, 2], [1, 3]]));
+  });
+});
@@ -0,0 +1,159 @@
+// Pure operations for editing a story outline in the Editor.
+// Every operation returns a new chapter list where the written content travels with
+// its beat, and titles and chapter numbers are renumbered by position so the saved
+// plot_outline and chapters arrays stay aligned.
+
+import type { OutlineChapter } from '@/types/story';
+import { createOutlineChapter } from './outline-parser';
+
+export interface OutlineEditorChapter {
+  title: string;
+  content: string;
+  completed: boolean;
+  sceneBeat: string;
+  outline?: OutlineChapter;
+}
+
+// Beat given to inserted chapters so they survive being saved and reloaded
+export const NEW_CHAPTER_BEAT = 'New chapter. Describe what happens here or regenerate it.';
+
+// Get the outline record for a chapter, building one from the beat if it's missing
+export function getOutlineRecord(chapter: OutlineEditorChapter, index: number): OutlineChapter {
+  return chapter.outline ?? createOutlineChapter(chapter.sceneBeat, index);
+}
+
+// Renumber titles and chapter numbers by position and sync the outline beats
+export function renumberChapters<T extends OutlineEditorChapter>(chapters: T[]): T[] {
+  return chapters.map((chapter, index) => ({
+    ...chapter,
+    title: `Chapter ${index + 1}`,
+    outline: {
+      ...getOutlineRecord(chapter, index),
+      chapter_number: index + 1,
+      chapter_beat: chapter.sceneBeat
+    }
+  }));
+}
+
+// The outline to persist in stories.plot_outline
+export function toOutline(chapters: OutlineEditorChapter[]): OutlineChapter[] {
+  return renumberChapters(chapters).map(chapter => chapter.outline as OutlineChapter);
+}
+
+export function updateChapterOutline<T extends OutlineEditorChapter>(
+  chapters: T[],
+  index: number,
+  changes: Partial<Omit<OutlineChapter, 'chapter_number'>>
+): T[] {
+  return renumberChapters(chapters.map((chapter, i) => {
+    if (i !== index) return chapter;
+    const outline = { ...getOutlineRecord(chapter, i), ...changes };
+    return { ...chapter, sceneBeat: outline.chapter_beat, outline };
+  }));
+}
+
+export function moveChapter<T extends OutlineEditorChapter>(chapters: T[], from: number, to: number): T[] {
+  if (from === to || from < 0 || from >= chapters.length || to < 0 || to >= chapters.length) {
+    return chapters;
+  }
+  const updated = [...chapters];
+  const [moved] = updated.splice(from, 1);
+  updated.splice(to, 0, moved);
+  return renumberChapters(updated);
+}
+
+// Insert an empty chapter at the given position
+export function insertChapter<T extends OutlineEditorChapter>(chapters: T[], index: number, chapter: T): T[] {
+  const position = Math.max(0, Math.min(index, chapters.length));
+  const updated = [...chapters];
+  updated.splice(position, 0, { ...chapter, outline: undefined });
+  return renumberChapters(updated);
+}
+
+export function deleteChapter<T extends OutlineEditorChapter>(chapters: T[], index: number): T[] {
+  // A story always keeps at least one chapter
+  if (chapters.length <= 1 || index < 0 || index >= chapters.length) {
+    return chapters;
+  }
+  return renumberChapters(chapters.filter((_, i) => i !== index));
+}
+
+// Split a chapter's beat at a character offset. The written content stays with the first half.
+export function splitChapter<T extends OutlineEditorChapter>(chapters: T[], index: number, offset: number): T[] {
+  const chapter = chapters[index];
+  if (!chapter) return chapters;
+
+  const first = chapter.sceneBeat.slice(0, offset).trim();
+  const second = chapter.sceneBeat.slice(offset).trim();
+  if (!first || !second) return chapters;
+
+  const outline = getOutlineRecord(chapter, index);
+  const halfWordCount = outline.target_word_count ? Math.round(outline.target_word_count / 2) : null;
+  const updated = [...chapters];
+  updated.splice(index, 1,
+    { ...chapter, sceneBeat: first, outline: { ...outline, target_word_count: halfWordCount } },
+    {
+      ...chapter,
+      content: '',
+      completed: false,
+      sceneBeat: second,
+      outline: { ...outline, title: '', target_word_count: halfWordCount }
+    }
+  );
+  return renumberChapters(updated);
+}
+
+// Where to split a beat when no cursor position is given: the sentence boundary nearest the middle
+export function findSplitOffset(beat: string): number {
+  const middle = beat.length / 2;
+  let best = -1;
+  for (const match of beat.matchAll(/[.!?]["')\]]?\s+/g)) {
+    const offset = (match.index ?? 0) + match[0].length;
+    if (best === -1 || Math.abs(offset - middle) < Math.abs(best - middle)) {
+      best = offset;
+    }
+  }
+  return best === -1 ? Math.floor(middle) : best;
+}
+
+// Merge a chapter with the one after it, joining beats and written content
+export function mergeWithNext<T extends OutlineEditorChapter>(chapters: T[], index: number): T[] {
+  const chapter = chapters[index];
+  const next = chapters[index + 1];
+  if (!chapter || !next) return chapters;
+
+  const outline = getOutlineRecord(chapter, index);
+  const nextOutline = getOutlineRecord(next, index + 1);
+  const joinText = (a: string, b: string) => [a.trim(), b.trim()].filter(Boolean).join('\n\n');
+  const sceneBeat = joinText(chapter.sceneBeat, next.sceneBeat);
+  const wordCounts = [outline.target_word_count, nextOutline.target_word_count].filter((count): count is number => count !== null);
+  const tensions = [outline.tension_level, nextOutline.tension_level].filter((level): level is number => level !== null);
+
+  const merged: T = {
+    ...chapter,
+    content: joinText(chapter.content, next.content),
+    completed: chapter.completed && next.completed,
+    sceneBeat,
+    outline: {
+      ...outline,
+      chapter_beat: sceneBeat,
+      target_word_count: wordCounts.length ? wordCounts.reduce((sum, count) => sum + count, 0) : null,
+      tension_level: tensions.length ? Math.max(...tensions) : null
+    }
+  };
+
+  const updated = [...chapters];
+  updated.splice(index, 2, merged);
+  return renumberChapters(updated);
+}
+
+// Map the chapter numbers from before an outline edit to the numbers after it. previousNumbers holds,
+// for each chapter in its new order, the number it had before, or null for a new chapter.
+// Deleted chapters, and chapters merged into the one before them, are left out.
+export function mapChapterNumbers(previousNumbers: Array<number | null>): Map<number, number> {
+  const numbers = new Map<number, number>();
+  previousNumbers.forEach((previous, index) => {
+    if (previous !== null) numbers.set(previous, index + 1);
+  });
+  return numbers;
+}
@@ -0,0 +1,280 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  extractScenesFromPlainText,
+  extractScenesManually,
+  formatOutline,
+  formatOutlineForPrompt,
+  formatScenes,
+  normalizeOutline,
+  parseStoredOutline,
+  sanitizeJsonString
+} from './outline-parser';
+
+const outline = [
+  { chapter_number: 1, chapter_beat: 'Mara arrives at the lighthouse.' },
+  { chapter_number: 2, chapter_beat: 'The lamp turns toward the forest.' },
+  { chapter_number: 3, chapter_beat: 'Mara follows the beam into the trees.' }
+];
+
+const beats = outline.map(chapter => chapter.chapter_beat);
+
+beforeEach(() => {
+  // The parsers log every fallback they take
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('formatScenes', () => {
+  it('parses a plain JSON array', () => {
+    expect(formatScenes(JSON.stringify(outline))).toEqual(beats);
+  });
+
+  it('parses JSON wrapped in a markdown fence', () => {
+    const input = '```json\n' + JSON.stringify(outline, null, 2) + '\n```';
+    expect(formatScenes(input)).toEqual(beats);
+  });
+
+  it('ignores text before and after the JSON', () => {
+    const input = `Here is your outline:\n${JSON.stringify(outline)}\nLet me know if you want changes.`;
+    expect(formatScenes(input)).toEqual(beats);
+  });
+
+  it('accepts scene_beat and scene_number keys', () => {
+    const input = JSON.stringify([
+      { scene_number: 1, scene_beat: 'First.' },
+      { scene_number: 2, scene_beat: 'Second.' }
+    ]);
+    expect(formatScenes(input)).toEqual(['First.', 'Second.']);
+  });
+
+  it('accepts a mix of chapter_beat and scene_beat keys', () => {
+    const input = JSON.stringify([
+      { chapter_number: 1, chapter_beat: 'First.' },
+      { scene_number: 2, scene_beat: 'Second.' }
+    ]);
+    expect(formatScenes(input)).toEqual(['First.', 'Second.']);
+  });
+
+  it('wraps a single chapter object in an array', () => {
+    expect(formatScenes(JSON.stringify(outline[0]))).toEqual([beats[0]]);
+  });
+
+  it('skips items without a number or beat', () => {
+    const input = JSON.stringify([
+      { chapter_number: 1, chapter_beat: 'First.' },
+      { chapter_beat: 'No number.' },
+      { chapter_number: 3, chapter_beat: '   ' },
+      'not an object'
+    ]);
+    expect(formatScenes(input)).toEqual(['First.']);
+  });
+
+  it('does not count brackets inside strings', () => {
+    const input = JSON.stringify([
+      { chapter_number: 1, chapter_beat: 'She found a note that said ] and [ in red ink.' }
+    ]);
+    expect(formatScenes(input)).toEqual(['She found a note that said ] and [ in red ink.']);
+  });
+
+  it('recovers beats from a truncated array', () => {
+    const input = JSON.stringify(outline).replace(/\]$/, '');
+    expect(formatScenes(input)).toEqual(beats);
+  });
+
+  it('recovers beats when the last item is cut off mid-string', () => {
+    const input = JSON.stringify(outline.slice(0, 2)).replace(/\]$/, '') +
+      ', {"chapter_number": 3, "chapter_beat": "Mara follows';
+    expect(formatScenes(input)).toEqual(beats.slice(0, 2));
+  });
+
+  it('falls back to plain text extraction for prose outlines', () => {
+    const input = 'Mara arrives at the lighthouse.\n\nThe lamp turns toward the forest.\n\nMara follows the beam into the trees.';
+    expect(formatScenes(input)).toEqual(beats);
+  });
+
+  it('splits chapter-marker text without JSON', () => {
+    const input = 'Chapter 1: Mara arrives at the lighthouse.\nChapter 2: The lamp turns toward the forest.';
+    expect(formatScenes(input)).toEqual(beats.slice(0, 2));
+  });
+});
+
+describe('extractScenesManually', () => {
+  it('extracts chapter_beat values from broken JSON', () => {
+    const input = '[{"chapter_number": 1, "chapter_beat": "First."}, {"chapter_number": 2, "chapter_beat": "Second."},';
+    expect(extractScenesManually(input)).toEqual(['First.', 'Second.']);
+  });
+
+  it('extracts scene_beat values written with single quotes', () => {
+    const input = "[{'scene_number': 1, 'scene_beat': 'First.'}, {'scene_number': 2, 'scene_beat': 'Second.'}";
+    expect(extractScenesManually(input)).toEqual(['First.', 'Second.']);
+  });
+
+  it('keeps escaped quotes and newlines inside a beat', () => {
+    const input = '{"chapter_beat": "He said \\"run\\".\\nThen the lights went out."';
+    expect(extractScenesManually(input)).toEqual(['He said "run".\nThen the lights went out.']);
+  });
+
+  it('falls back to plain text when no beat keys are present', () => {
+    const input = 'Chapter 1: First.\nChapter 2: Second.';
+    expect(extractScenesManually(input)).toEqual(['First.', 'Second.']);
+  });
+});
+
+describe('extractScenesFromPlainText', () => {
+  it('splits on Chapter markers', () => {
+    const input = 'Outline:\nChapter 1: First.\nChapter 2. Second.\nChapter 3 Third.';
+    expect(extractScenesFromPlainText(input)).toEqual(['First.', 'Second.', 'Third.']);
+  });
+
+  it('splits on Scene markers with indentation', () => {
+    const input = '  Scene 1: First.\n  Scene 2: Second.';
+    expect(extractScenesFromPlainText(input)).toEqual(['First.', 'Second.']);
+  });
+
+  it('keeps multi-line chapter content together', () => {
+    const input = 'Chapter 1\nFirst line.\nSecond line.\n\nChapter 2\nThird line.';
+    expect(extractScenesFromPlainText(input)).toEqual(['First line.\nSecond line.', 'Third line.']);
+  });
+
+  it('does not split on a single chapter marker', () => {
+    const input = 'Chapter 1: Only one.\n\nA second paragraph.';
+    expect(extractScenesFromPlainText(input)).toEqual(['Chapter 1: Only one.', 'A second paragraph.']);
+  });
+
+  it('uses one paragraph per scene for short outlines', () => {
+    const paragraphs = ['One.', 'Two.', 'Three.', 'Four.', 'Five.', 'Six.'];
+    expect(extractScenesFromPlainText(paragraphs.join('\n\n'))).toEqual(paragraphs);
+  });
+
+  it('groups paragraphs when there are more than ten', () => {
+    const paragraphs = Array.from({ length: 20 }, (_, index) => `Paragraph ${index + 1}.`);
+    const scenes = extractScenesFromPlainText(paragraphs.join('\n\n'));
+    expect(scenes).toHaveLength(10);
+    expect(scenes[0]).toBe('Paragraph 1.\n\nParagraph 2.');
+  });
+
+  it('groups sentences when there are no paragraphs', () => {
+    const sentences = Array.from({ length: 6 }, (_, index) => `Sentence ${index + 1}.`);
+    expect(extractScenesFromPlainText(sentences.join(' '))).toEqual([
+      'Sentence 1. Sentence 2. Sentence 3.',
+      'Sentence 4. Sentence 5. Sentence 6.'
+    ]);
+  });
+
+  it('returns an empty list for empty text', () => {
+    expect(extractScenesFromPlainText('')).toEqual([]);
+  });
+});
+
+describe('sanitizeJsonString', () => {
+  it('removes control characters', () => {
+    expect(sanitizeJsonString('[{"a":\u0001"b\u0007"}]')).toBe('[{"a":"b"}]');
+  });
+
+  it('keeps tabs, newlines and carriage returns', () => {
+    expect(sanitizeJsonString('[\n\t{"a": 1}\r\n]')).toBe('[\n\t{"a": 1}\r\n]');
+  });
+});
+
+const chapterRecord = {
+  chapter_number: 1,
+  title: 'The Logbook',
+  chapter_beat: 'Mara arrives at the lighthouse.',
+  setting: 'Halvorsen Lighthouse',
+  time_marker: 'First night',
+  pov_character: 'Mara (The Narrator)',
+  target_word_count: 3000,
+  tension_level: 2
+};
+
+describe('normalizeOutline', () => {
+  it('upgrades legacy beat strings to chapter records', () => {
+    expect(normalizeOutline(['First.', 'Second.'])).toEqual([
+      { chapter_number: 1, title: '', chapter_beat: 'First.', setting: '', time_marker: '', pov_character: '', target_word_count: null, tension_level: null },
+      { chapter_number: 2, title: '', chapter_beat: 'Second.', setting: '', time_marker: '', pov_character: '', target_word_count: null, tension_level: null }
+    ]);
+  });
+
+  it('keeps chapter metadata', () => {
+    expect(normalizeOutline([chapterRecord])).toEqual([chapterRecord]);
+  });
+
+  it('renumbers chapters by position after dropping empty items', () => {
+    const outlineChapters = normalizeOutline([
+      { ...chapterRecord, chapter_number: 4 },
+      { chapter_beat: '   ' },
+      null,
+      { scene_number: 9, scene_beat: 'Second.' }
+    ]);
+    expect(outlineChapters.map(chapter => [chapter.chapter_number, chapter.chapter_beat])).toEqual([
+      [1, 'Mara arrives at the lighthouse.'],
+      [2, 'Second.']
+    ]);
+  });
+
+  it('coerces numeric fields and clamps the tension level', () => {
+    const [chapter] = normalizeOutline([{ chapter_beat: 'First.', target_word_count: '2500', tension_level: 14 }]);
+    expect(chapter.target_word_count).toBe(2500);
+    expect(chapter.tension_level).toBe(10);
+  });
+
+  it('drops invalid numeric fields', () => {
+    const [chapter] = normalizeOutline([{ chapter_beat: 'First.', target_word_count: 'long', tension_level: 0 }]);
+    expect(chapter.target_word_count).toBeNull();
+    expect(chapter.tension_level).toBeNull();
+  });
+});
+
+describe('parseStoredOutline', () => {
+  it('loads the legacy string-array format', () => {
+    const outlineChapters = parseStoredOutline(JSON.stringify(beats));
+    expect(outlineChapters.map(chapter => chapter.chapter_beat)).toEqual(beats);
+  });
+
+  it('loads chapter records', () => {
+    expect(parseStoredOutline(JSON.stringify([chapterRecord]))).toEqual([chapterRecord]);
+  });
+
+  it('accepts an already parsed array', () => {
+    expect(parseStoredOutline([chapterRecord])).toEqual([chapterRecord]);
+  });
+
+  it('returns an empty outline for empty or non-array values', () => {
+    expect(parseStoredOutline('')).toEqual([]);
+    expect(parseStoredOutline('{"chapter_beat": "First."}')).toEqual([]);
+  });
+
+  it('throws on invalid JSON', () => {
+    expect(() => parseStoredOutline('[{"chapter_beat": ')).toThrow();
+  });
+});
+
+describe('formatOutline', () => {
+  it('keeps metadata from fenced JSON', () => {
+    const input = '```json\n' + JSON.stringify([chapterRecord]) + '\n```';
+    expect(formatOutline(input)).toEqual([chapterRecord]);
+  });
+
+  it('falls back to beat-only records for a truncated array', () => {
+    const input = JSON.stringify(outline).replace(/\]$/, '');
+    const outlineChapters = formatOutline(input);
+    expect(outlineChapters?.map(chapter => chapter.chapter_beat)).toEqual(beats);
+    expect(outlineChapters?.[2].chapter_number).toBe(3);
+  });
+
+  it('falls back to prose extraction', () => {
+    const input = 'Chapter 1: First.\nChapter 2: Second.';
+    expect(formatOutline(input)?.map(chapter => chapter.chapter_beat)).toEqual(['First.', 'Second.']);
+  });
+});
+
+describe('formatOutlineForPrompt', () => {
+  it('renders titles, details and beats', () => {
+    const text = formatOutlineForPrompt(normalizeOutline([chapterRecord, 'Second.']));
+    expect(text).toBe(
+      'Chapter 1: The Logbook\nSetting: Halvorsen Lighthouse | Time: First night | POV: Mara (The Narrator)\nMara arrives at the lighthouse.' +
+      '\n\nChapter 2\nSecond.'
+    );
+  });
+});
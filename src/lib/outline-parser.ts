@@ -0,0 +1,338 @@
+// Outline parsing for model responses and stored outlines.
+// Models don't always return clean JSON, so each parser falls back to a looser one:
+// formatOutline (chapter records) -> formatScenes (JSON beats) -> extractScenesManually (regex over beat keys)
+// -> extractScenesFromPlainText (prose).
+
+import type { OutlineChapter } from '@/types/story';
+
+// Cut the JSON array or object out of a model response and sanitize it.
+// Returns null when the text contains no JSON at all.
+export function extractJsonText(inputString: string): string | null {
+  let textToParse = inputString.trim();
+
+  // Remove markdown code blocks if present
+  textToParse = textToParse.replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '').trim();
+  console.log("After removing markdown:", textToParse.substring(0, 200) + "...");
+
+  // Find the first likely start of JSON (either { or [)
+  const jsonStartIndex = textToParse.search(/[{[]/);
+  if (jsonStartIndex === -1) {
+      return null;
+  }
+  // Remove any text before the JSON start
+  textToParse = textToParse.substring(jsonStartIndex);
+
+  // Find the last likely end of JSON (corresponding } or ])
+  // Attempt to find the matching closing bracket for the first opening one
+  let openCount = 0;
+  let actualEndIndex = -1;
+  let firstOpenChar = '';
+  for (let i = 0; i < textToParse.length; i++) {
+      const char = textToParse[i];
+      if (i === 0) firstOpenChar = char; // Record the first opening char
+
+      if (char === '[' || char === '{') {
+          openCount++;
+      } else if (char === ']' || char === '}') {
+          openCount--;
+      }
+      
+      // Check if we closed the initial bracket/brace
+      if (openCount === 0 && i > 0 && 
+          ((firstOpenChar === '[' && char === ']') || (firstOpenChar === '{' && char === '}'))) {
+          actualEndIndex = i;
+          break; 
+      }
+      
+      // Handle strings to prevent counting brackets inside them
+      if (char === '"') {
+          let endQuoteIndex = i + 1;
+          while (endQuoteIndex < textToParse.length) {
+              if (textToParse[endQuoteIndex] === '"') {
+                  // Check for escaped quote
+                  if (endQuoteIndex > 0 && textToParse[endQuoteIndex - 1] === '\\') {
+                       // It's escaped, continue searching
+                  } else {
+                      // Found the closing quote
+                      i = endQuoteIndex; 
+                      break;
+                  }
+              }
+              endQuoteIndex++;
+          }
+          // If no closing quote found, something is wrong, but proceed with current index
+           if(endQuoteIndex === textToParse.length) i = endQuoteIndex;
+      }
+  }
+
+  if (actualEndIndex !== -1) {
+      textToParse = textToParse.substring(0, actualEndIndex + 1);
+      console.log("After bracket/brace matching:", textToParse.substring(0, 200) + "...");
+  } else {
+      console.warn("Could not reliably find matching end bracket/brace. Proceeding with potentially incomplete JSON.");
+      // As a fallback, try finding the last bracket/brace
+      const lastBracketIndex = Math.max(textToParse.lastIndexOf(']'), textToParse.lastIndexOf('}'));
+      if (lastBracketIndex > 0) { // Only trim if a closing bracket is found after the start
+           textToParse = textToParse.substring(0, lastBracketIndex + 1);
+      }
+  }
+
+  // Sanitize the potentially extracted JSON string
+  return sanitizeJsonString(textToParse);
+}
+
+// Format scenes from JSON string or JSON-like text
+export function formatScenes(inputString: string): string[] | null {
+  console.log("Raw input to formatScenes:", inputString.substring(0, 200) + "...");
+
+  const sanitizedString = extractJsonText(inputString);
+  if (sanitizedString === null) {
+      console.log("No JSON start found. Trying plain text extraction.");
+      return extractScenesFromPlainText(inputString);
+  }
+  console.log("String going into JSON.parse:", sanitizedString.substring(0, 200) + "...");
+
+  let parsedData;
+  try {
+    parsedData = JSON.parse(sanitizedString);
+  } catch (parseError: any) {
+    const errorPos = parseError.message.match(/position (\d+)/)?.[1];
+    const contextSnippet = errorPos ? sanitizedString.substring(Math.max(0, parseInt(errorPos) - 30), Math.min(sanitizedString.length, parseInt(errorPos) + 30)) : '(no position info)';
+    console.error(`JSON parse error: ${parseError.message}. Context around position ${errorPos || 'N/A'}: "...${contextSnippet}..."`);
+    console.log("Attempting manual scene extraction as fallback... Using ORIGINAL input string.");
+    return extractScenesManually(inputString); // Use original input for manual extraction
+  }
+
+  // Determine if the parsed data is an array or a single object
+  const scenesArray = Array.isArray(parsedData) ? parsedData : [parsedData];
+
+  const formattedScenes: string[] = [];
+  for (const scene of scenesArray) {
+    if (typeof scene === 'object' && scene !== null) {
+      const beat = scene.scene_beat || scene.chapter_beat;
+      const number = scene.scene_number ?? scene.chapter_number;
+
+      if (number != null && typeof beat === 'string' && beat.trim().length > 0) {
+        formattedScenes.push(beat.trim());
+      } else {
+        console.warn("Skipping scene object due to missing/invalid number or beat:", JSON.stringify(scene));
+      }
+    } else {
+      console.warn("Skipping non-object item in scenes array:", JSON.stringify(scene));
+    }
+  }
+
+  if (formattedScenes.length === 0) {
+    console.warn("Warning: No valid scenes extracted from the parsed JSON data. Trying manual extraction using ORIGINAL input string.");
+    return extractScenesManually(inputString); // Fallback if parsing succeeded but found no valid scenes
+  }
+
+  console.log(`Successfully parsed ${formattedScenes.length} scenes from JSON.`);
+  return formattedScenes;
+}
+
+// Extract scenes from plain text narrative
+export function extractScenesFromPlainText(text: string): string[] {
+  console.log("Extracting scenes from plain text narrative...");
+  const scenes: string[] = [];
+  
+  // 1. Try splitting by chapter/scene markers first
+  const chapterMarkers = text.match(/^\s*(?:Chapter|Scene)\s+\d+[:.]?/gmi);
+  if (chapterMarkers && chapterMarkers.length > 1) {
+    const parts = text.split(/^\s*(?:Chapter|Scene)\s+\d+[:.]?/mi);
+    for (let i = 1; i < parts.length; i++) { // Start from 1 to skip content before the first marker
+      const sceneContent = parts[i].trim();
+      if (sceneContent) scenes.push(sceneContent);
+    }
+    if (scenes.length > 0) {
+        console.log(`Extracted ${scenes.length} scenes based on 'Chapter/Scene' markers.`);
+        return scenes;
+    }
+  }
+
+  // 2. Try splitting by double newlines (paragraphs)
+  const paragraphs = text.split(/\n\s*\n/).map(p => p.trim()).filter(p => p.length > 0);
+  if (paragraphs.length > 1) {
+      // One paragraph per scene, grouping paragraphs only when there are more than 10
+      const paragraphsPerScene = Math.max(1, Math.ceil(paragraphs.length / 10));
+      
+      for (let i = 0; i < paragraphs.length; i += paragraphsPerScene) {
+        const sceneChunk = paragraphs.slice(i, i + paragraphsPerScene).join('\n\n');
+        scenes.push(sceneChunk);
+      }
+      if (scenes.length > 0) {
+          console.log(`Extracted ${scenes.length} scenes by grouping ${paragraphsPerScene} paragraphs.`);
+          return scenes;
+      }
+  }
+  
+  // 3. Fallback: Split by sentences if very little structure
+  if (scenes.length === 0 && text.length > 0) {
+      const sentences = text.match(/[^.!?]+[.!?]+/g) || [text]; // Basic sentence split
+      const sentencesPerScene = Math.max(3, Math.ceil(sentences.length / 8)); // Aim for ~8 scenes
+      for (let i = 0; i < sentences.length; i += sentencesPerScene) {
+          const sceneChunk = sentences.slice(i, i + sentencesPerScene).map(sentence => sentence.trim()).join(' ');
+          if (sceneChunk) scenes.push(sceneChunk);
+      }
+       if (scenes.length > 0) {
+          console.log(`Extracted ${scenes.length} scenes by grouping sentences.`);
+          return scenes;
+       }
+  }
+
+  // 4. Absolute Fallback: Return the whole text as one scene
+  if (scenes.length === 0 && text.trim().length > 0) {
+      console.log("Could not split text, returning as single scene.");
+      return [text.trim()];
+  }
+  
+  console.log("No scenes extracted from plain text.");
+  return [];
+}
+
+// Sanitize a JSON string before parsing
+export function sanitizeJsonString(jsonString: string): string {
+    // console.log("Sanitizing JSON string...");
+    // Remove specific problematic Unicode control characters U+0000 to U+001F, except for valid whitespace like \t, \n, \r
+    const result = jsonString.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+    // console.log("Sanitization complete.");
+    return result;
+}
+
+// Fallback to extract scenes when JSON parsing fails
+export function extractScenesManually(text: string): string[] | null {
+  console.log("Attempting manual scene extraction from original text...");
+  const scenes: string[] = [];
+
+  // Regex to find scene_beat or chapter_beat values, more tolerant of formatting
+  // Escaped quotes inside the value don't end the match
+  const beatRegex = /["'](?:scene_beat|chapter_beat)["']\s*:\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)')/gi;
+  let match;
+  while ((match = beatRegex.exec(text)) !== null) {
+      const value = match[1] ?? match[2];
+      // Ensure the captured value is a string before trying to replace/trim
+      if (typeof value === 'string') {
+          const beatContent = value
+              .replace(/\\"/g, '"')     // Replace escaped quotes
+              .replace(/\\n/g, '\n')     // Replace escaped newlines
+              .replace(/\\t/g, '\t')     // Replace escaped tabs
+              .replace(/\\\//g, '/')    // Replace escaped slashes
+              .replace(/\\\\/g, '\\')    // Replace escaped backslashes
+              .trim();
+          if (beatContent) {
+              scenes.push(beatContent);
+          }
+      } else {
+           console.warn("Manual extraction regex match found, but the captured value was invalid:", match);
+      }
+  }
+
+  if (scenes.length > 0) {
+    console.log(`Manually extracted ${scenes.length} scenes using regex.`);
+    return scenes;
+  }
+
+  // If regex fails, fall back to plain text extraction on the original string
+  console.log("Manual regex extraction failed, trying plain text extraction as last resort...");
+  return extractScenesFromPlainText(text);
+}
+
+const toText = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+const toPositiveInteger = (value: unknown): number | null => {
+  const parsed = typeof value === 'string' ? parseInt(value, 10) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) && parsed > 0 ? Math.round(parsed) : null;
+};
+
+// Turn one outline item into a chapter record. Accepts legacy beat strings, scene_beat
+// keys and full chapter records; returns null when there is no beat to write from.
+export function normalizeOutlineChapter(item: unknown, index: number): OutlineChapter | null {
+  if (typeof item === 'string') {
+    return item.trim() ? createOutlineChapter(item.trim(), index) : null;
+  }
+  if (typeof item !== 'object' || item === null) {
+    return null;
+  }
+
+  const record = item as Record<string, unknown>;
+  const beat = toText(record.chapter_beat) || toText(record.scene_beat);
+  if (!beat) {
+    return null;
+  }
+
+  const tension = toPositiveInteger(record.tension_level);
+  return {
+    ...createOutlineChapter(beat, index),
+    title: toText(record.title),
+    setting: toText(record.setting),
+    time_marker: toText(record.time_marker),
+    pov_character: toText(record.pov_character),
+    target_word_count: toPositiveInteger(record.target_word_count),
+    tension_level: tension === null ? null : Math.min(tension, 10)
+  };
+}
+
+// Build a chapter record with only a beat, e.g. from a legacy outline
+export function createOutlineChapter(beat: string, index: number): OutlineChapter {
+  return {
+    chapter_number: index + 1,
+    title: '',
+    chapter_beat: beat,
+    setting: '',
+    time_marker: '',
+    pov_character: '',
+    target_word_count: null,
+    tension_level: null
+  };
+}
+
+// Normalize a list of outline items. Chapters are renumbered by position
+// so chapter_number always lines up with the story's chapters array.
+export function normalizeOutline(items: unknown[]): OutlineChapter[] {
+  return items
+    .map((item, index) => normalizeOutlineChapter(item, index))
+    .filter((chapter): chapter is OutlineChapter => chapter !== null)
+    .map((chapter, index) => ({ ...chapter, chapter_number: index + 1 }));
+}
+
+// Parse stories.plot_outline, which is either a JSON array of chapter records
+// or the older JSON array of beat strings. Throws if the JSON is invalid.
+export function parseStoredOutline(plotOutline: unknown): OutlineChapter[] {
+  const parsed = typeof plotOutline === 'string'
+    ? (plotOutline.trim() ? JSON.parse(plotOutline) : [])
+    : plotOutline;
+  return Array.isArray(parsed) ? normalizeOutline(parsed) : [];
+}
+
+// Parse a model response into chapter records, keeping the chapter metadata when the
+// JSON survives and falling back to beat-only records from the looser parsers.
+export function formatOutline(inputString: string): OutlineChapter[] | null {
+  const jsonText = extractJsonText(inputString);
+  if (jsonText !== null) {
+    try {
+      const parsed = JSON.parse(jsonText);
+      const outline = normalizeOutline(Array.isArray(parsed) ? parsed : [parsed]);
+      if (outline.length > 0) {
+        return outline;
+      }
+    } catch {
+      console.log("Outline JSON is incomplete. Falling back to beat extraction.");
+    }
+  }
+
+  const beats = formatScenes(inputString);
+  return beats ? normalizeOutline(beats) : null;
+}
+
+// Render an outline as plain text for prompts
+export function formatOutlineForPrompt(outline: OutlineChapter[]): string {
+  return outline.map(chapter => {
+    const heading = `Chapter ${chapter.chapter_number}${chapter.title ? `: ${chapter.title}` : ''}`;
+    const details = [
+      chapter.setting && `Setting: ${chapter.setting}`,
+      chapter.time_marker && `Time: ${chapter.time_marker}`,
+      chapter.pov_character && `POV: ${chapter.pov_character}`
+    ].filter(Boolean).join(' | ');
+    return [heading, details, chapter.chapter_beat].filter(Boolean).join('\n');
+  }).join('\n\n');
+}
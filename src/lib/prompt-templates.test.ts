@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getDefaultTemplateText,
+  getProfileTemplates,
+  listPromptTemplates,
+  listTemplateVariables,
+  renderTemplate,
+  resolvePromptTemplate,
+  validateTemplate
+} from './prompt-templates';
+import type { PromptOverride } from '@/types/prompts';
+
+const override = (content: string, baseVersion = 1): PromptOverride => ({
+  template_id: 'title',
+  content,
+  base_version: baseVersion
+});
+
+describe('renderTemplate', () => {
+  it('substitutes variables', () => {
+    expect(renderTemplate('Write {{count}} chapters about {{ idea }}.', { count: 5, idea: 'a lighthouse' }))
+      .toBe('Write 5 chapters about a lighthouse.');
+  });
+
+  it('renders unknown and blank variables as nothing', () => {
+    expect(renderTemplate('[{{missing}}][{{blank}}]', { blank: '  ' })).toBe('[][]');
+  });
+
+  it('resolves optional blocks', () => {
+    const template = 'Start.{{#if notes}}\nNotes: {{notes}}{{/if}}\n{{#if context}}{{context}}{{else}}No context.{{/if}}';
+    expect(renderTemplate(template, { notes: 'Keep it short.', context: '' })).toBe('Start.\nNotes: Keep it short.\nNo context.');
+    expect(renderTemplate(template, { context: 'Chapter one.' })).toBe('Start.\nChapter one.');
+  });
+
+  it('does not render template syntax inside values', () => {
+    expect(renderTemplate('{{beat}}', { beat: 'Mara reads {{idea}} aloud.', idea: 'x' })).toBe('Mara reads {{idea}} aloud.');
+  });
+});
+
+describe('listTemplateVariables', () => {
+  it('lists variables and conditions once each', () => {
+    expect(listTemplateVariables('{{#if a}}{{a}}{{else}}{{b}}{{/if}} {{c}} {{a}}')).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('validateTemplate', () => {
+  it('accepts a valid template', () => {
+    expect(validateTemplate('{{#if a}}{{a}}{{/if}} {{b}}', ['a', 'b'])).toEqual([]);
+  });
+
+  it('reports unknown variables, unbalanced blocks and empty templates', () => {
+    expect(validateTemplate('{{a}} {{typo}}', ['a'])).toEqual(['Unknown variable: {{typo}}.']);
+    expect(validateTemplate('{{#if a}}{{a}}', ['a'])).toHaveLength(1);
+    expect(validateTemplate('{{#if a}}{{#if b}}{{/if}}{{/if}}', ['a', 'b'])).toHaveLength(1);
+    expect(validateTemplate('  ', [])).toEqual(['The template is empty.']);
+  });
+
+  it('accepts every built-in template', () => {
+    for (const template of listPromptTemplates()) {
+      expect(validateTemplate(template.template, template.variables.map(variable => variable.name)), template.id).toEqual([]);
+    }
+  });
+});
+
+describe('resolvePromptTemplate', () => {
+  it('uses the built-in text without an override or profile default', () => {
+    const resolved = resolvePromptTemplate('title');
+    expect(resolved.source).toBe('default');
+    expect(resolved.text).toContain('YouTube title');
+  });
+
+  it('uses the profile default before the built-in text', () => {
+    expect(getProfileTemplates('Cheating').idea_system).toBe('Create an r/nosleep style creepypasta story.');
+    expect(getDefaultTemplateText('idea_system', 'Cheating')).toEqual({
+      text: 'Create an r/nosleep style creepypasta story.',
+      source: 'profile'
+    });
+    expect(getProfileTemplates('Missing profile')).toEqual({});
+  });
+
+  it('prefers the user override and flags outdated ones', () => {
+    expect(resolvePromptTemplate('title', 'Horror', [override('Custom title prompt.')])).toMatchObject({
+      text: 'Custom title prompt.',
+      source: 'override',
+      outdated: false
+    });
+    expect(resolvePromptTemplate('title', 'Horror', [override('Old prompt.', 0)]).outdated).toBe(true);
+  });
+
+  it('ignores blank overrides', () => {
+    expect(resolvePromptTemplate('title', 'Horror', [override('  ')]).source).toBe('default');
+  });
+});
+
+describe('reddit_summary', () => {
+  it('only asks for a blend when several posts are given', () => {
+    for (const profile of ['Horror', 'Cheating']) {
+      const { text } = resolvePromptTemplate('reddit_summary', profile);
+      expect(renderTemplate(text, { subreddit: 'nosleep', story: 'A post.' }))
+        .toContain('use unique names.\n\nStory Content:\nA post.');
+      expect(renderTemplate(text, { subreddit: 'nosleep', story: 'Two posts.', blend: 2 }))
+        .toContain('contains 2 separate stories');
+    }
+  });
+});
@@ -0,0 +1,110 @@
+// Rendering and resolution of the prompt templates in src/data/prompt-templates.ts.
+// A template resolves to the user's override when there is one, then to the story profile's
+// default from profiles.json, then to the built-in text.
+
+import { PROMPT_TEMPLATES, PROMPT_TEMPLATE_MAP } from '@/data/prompt-templates';
+import { findStoryProfile } from './story-profiles';
+import type { PromptOverride, PromptTemplate, PromptTemplateId, PromptTemplateSource } from '@/types/prompts';
+
+export type PromptVariables = Record<string, string | number | boolean | null | undefined>;
+
+const IF_BLOCK = /\{\{#if\s+(\w+)\s*\}\}([\s\S]*?)(?:\{\{else\}\}([\s\S]*?))?\{\{\/if\}\}/g;
+const VARIABLE = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Blank strings count as unset so optional sections disappear when there's nothing to put in them
+const isSet = (value: PromptVariables[string]): boolean =>
+  value !== undefined && value !== null && value !== false && String(value).trim() !== '';
+
+// Fill in a template. Optional blocks are resolved first, then variables are substituted in a single
+// pass so values that happen to contain {{...}} are left alone. Unknown variables render as nothing.
+export function renderTemplate(template: string, variables: PromptVariables): string {
+  const withBlocks = template.replace(IF_BLOCK, (_match, name: string, ifText: string, elseText?: string) =>
+    isSet(variables[name]) ? ifText : (elseText ?? '')
+  );
+  return withBlocks.replace(VARIABLE, (_match, name: string) => isSet(variables[name]) ? String(variables[name]) : '');
+}
+
+// Every variable a template refers to, including the ones only used as conditions
+export function listTemplateVariables(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(/\{\{(?:#if\s+)?\s*(\w+)\s*\}\}/g)) {
+    if (match[1] !== 'else') names.add(match[1]);
+  }
+  return [...names];
+}
+
+// Problems that would make a template render incorrectly
+export function validateTemplate(template: string, allowedVariables: string[]): string[] {
+  const errors: string[] = [];
+  if (!template.trim()) {
+    errors.push('The template is empty.');
+  }
+
+  const unknown = listTemplateVariables(template).filter(name => !allowedVariables.includes(name));
+  if (unknown.length) {
+    errors.push(`Unknown variable${unknown.length > 1 ? 's' : ''}: ${unknown.map(name => `{{${name}}}`).join(', ')}.`);
+  }
+
+  let depth = 0;
+  for (const match of template.matchAll(/\{\{(#if\s+\w+|\/if)\s*\}\}/g)) {
+    depth += match[1] === '/if' ? -1 : 1;
+    if (depth < 0 || depth > 1) break;
+  }
+  if (depth !== 0) {
+    errors.push('Every {{#if name}} block needs a matching {{/if}}, and blocks cannot be nested.');
+  }
+  return errors;
+}
+
+export function getPromptTemplate(id: PromptTemplateId): PromptTemplate {
+  const template = PROMPT_TEMPLATE_MAP[id];
+  if (!template) {
+    throw new Error(`Unknown prompt template: ${id}`);
+  }
+  return template;
+}
+
+export function listPromptTemplates(): PromptTemplate[] {
+  return PROMPT_TEMPLATES;
+}
+
+// Template defaults a story profile provides. The profile's system prompt is the default for idea_system.
+export function getProfileTemplates(profileName?: string): Partial<Record<PromptTemplateId, string>> {
+  const profile = findStoryProfile(profileName);
+  if (!profile) {
+    return {};
+  }
+  return {
+    ...(profile.system_prompt ? { idea_system: profile.system_prompt } : {}),
+    ...(profile.prompt_templates as Partial<Record<PromptTemplateId, string>> | undefined)
+  };
+}
+
+// The default a template has before any user override: the profile's version, or the built-in text
+export function getDefaultTemplateText(id: PromptTemplateId, profileName?: string): { text: string; source: PromptTemplateSource } {
+  const profileText = getProfileTemplates(profileName)[id];
+  return profileText
+    ? { text: profileText, source: 'profile' }
+    : { text: getPromptTemplate(id).template, source: 'default' };
+}
+
+export interface ResolvedPromptTemplate {
+  template: PromptTemplate;
+  text: string;
+  source: PromptTemplateSource;
+  // The override was written against an older version of the built-in template
+  outdated: boolean;
+}
+
+export function resolvePromptTemplate(
+  id: PromptTemplateId,
+  profileName?: string,
+  overrides: PromptOverride[] = []
+): ResolvedPromptTemplate {
+  const template = getPromptTemplate(id);
+  const override = overrides.find(item => item.template_id === id);
+  if (override?.content.trim()) {
+    return { template, text: override.content, source: 'override', outdated: override.base_version < template.version };
+  }
+  return { template, ...getDefaultTemplateText(id, profileName), outdated: false };
+}
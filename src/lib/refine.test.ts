@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+import { isDialogueSection, refineNarration, splitIntoSections } from './refine';
+
+const TEXT = 'The door creaked.\nI froze.\n\n"Who is there?" I asked.\n\nNobody answered.';
+
+describe('splitIntoSections', () => {
+  it('keeps every character so the sections join back into the text', () => {
+    expect(splitIntoSections(TEXT).join('')).toBe(TEXT);
+  });
+
+  it('separates narration from dialogue', () => {
+    const sections = splitIntoSections(TEXT);
+    expect(sections.map(isDialogueSection)).toEqual([false, true, false]);
+    expect(sections[0]).toBe('The door creaked.\nI froze.\n\n');
+  });
+});
+
+describe('refineNarration', () => {
+  it('rewrites narration and leaves dialogue alone', async () => {
+    const rewrite = vi.fn(async (section: string) => section.toUpperCase());
+    const refined = await refineNarration(TEXT, rewrite);
+    expect(refined).toBe('THE DOOR CREAKED.\nI FROZE.\n\n"Who is there?" I asked.\n\nNOBODY ANSWERED.');
+    expect(rewrite).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps sections the rewrite fails on', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const rewrite = vi.fn()
+      .mockRejectedValueOnce(new Error('Rate limited'))
+      .mockResolvedValueOnce('');
+    expect(await refineNarration(TEXT, rewrite)).toBe(TEXT);
+    error.mockRestore();
+    warn.mockRestore();
+  });
+
+  it('reports progress through the narrative sections', async () => {
+    const progress: Array<[number, number]> = [];
+    await refineNarration(TEXT, async section => section, (done, total) => progress.push([done, total]));
+    expect(progress).toEqual([[1, 2], [2, 2]]);
+  });
+
+  it('stops before the next section once aborted', async () => {
+    const controller = new AbortController();
+    const rewrite = vi.fn(async (section: string) => {
+      controller.abort();
+      return section.toUpperCase();
+    });
+    await expect(refineNarration(TEXT, rewrite, undefined, controller.signal)).rejects.toThrow();
+    expect(rewrite).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes on aborts from the rewrite', async () => {
+    const aborted = Object.assign(new Error('Aborted'), { name: 'AbortError' });
+    const rewrite = vi.fn().mockRejectedValueOnce(aborted);
+    await expect(refineNarration(TEXT, rewrite)).rejects.toBe(aborted);
+    expect(rewrite).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,113 @@
+// The refine pass rewrites a chapter's narration with the refine model and leaves dialogue untouched
+
+// Split content into alternating narration and dialogue sections. Joining the sections gives back
+// the original text, separators included.
+export function splitIntoSections(text: string): string[] {
+  // Preserve exact formatting by splitting on paragraph boundaries
+  // This regex captures paragraph breaks with their exact formatting
+  const paragraphRegex = /(\n\n+|\n+)/;
+  const parts = text.split(paragraphRegex);
+  
+  // Process parts: text, separator, text, separator, etc.
+  const sections: string[] = [];
+  let currentSection = '';
+  let currentType = '';
+  
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    
+    // If this is a separator (newlines), add it to the current section
+    if (paragraphRegex.test(part)) {
+      if (currentSection) {
+        currentSection += part;
+      } else {
+        // If we don't have a current section, this is a leading separator
+        sections.push(part);
+      }
+      continue;
+    }
+    
+    // Skip empty parts but preserve them
+    if (!part.trim()) {
+      if (currentSection) {
+        // Add the current section to the list
+        sections.push(currentSection);
+        currentSection = '';
+      }
+      // Add the empty part as its own section
+      sections.push(part);
+      continue;
+    }
+    
+    // Determine the type of this part
+    const isDialoguePart = part.trim().startsWith('"');
+    const partType = isDialoguePart ? 'dialogue' : 'narrative';
+    
+    // If we're switching types or don't have a current section, start a new one
+    if (!currentSection || currentType !== partType) {
+      if (currentSection) {
+        sections.push(currentSection);
+      }
+      currentSection = part;
+      currentType = partType;
+    } else {
+      // Same type, add to current section
+      currentSection += part;
+    }
+  }
+  
+  // Add the last section if it's not empty
+  if (currentSection) {
+    sections.push(currentSection);
+  }
+  
+  return sections;
+}
+
+// A section is dialogue when its first non-whitespace character is a quote
+export function isDialogueSection(section: string): boolean {
+  const trimmed = section.trim();
+  return trimmed.length > 0 && trimmed[0] === '"';
+}
+
+export function isNarrativeSection(section: string): boolean {
+  return !!section.trim() && !isDialogueSection(section);
+}
+
+// Rewrite each narrative section in order. Sections the rewrite fails on or returns empty are kept as they were.
+// Aborting the signal stops before the next section, and aborts from the rewrite are passed on rather than kept as failures.
+export async function refineNarration(
+  text: string,
+  rewrite: (section: string) => Promise<string>,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  const sections = splitIntoSections(text);
+  const total = sections.filter(isNarrativeSection).length;
+  const processed: string[] = [];
+  let done = 0;
+
+  for (const section of sections) {
+    if (!isNarrativeSection(section)) {
+      processed.push(section);
+      continue;
+    }
+    signal?.throwIfAborted();
+    onProgress?.(++done, total);
+    try {
+      const rewritten = await rewrite(section);
+      if (!rewritten || rewritten.trim().length === 0) {
+        console.warn('Rewrite returned empty text, using original section');
+        processed.push(section);
+      } else {
+        processed.push(rewritten);
+      }
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') throw error;
+      console.error('Error in two-pass processing:', error);
+      processed.push(section);
+    }
+  }
+
+  return processed.join('');
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { MANUAL_REVISION_INTERVAL, countWords, isNewRevision, normalizeRevision, planRevisionRenumbering, shouldSaveManualRevision } from './revisions';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z').getTime();
+const revision = (content: string, minutesAgo: number) => ({
+  content,
+  created_at: new Date(NOW - minutesAgo * 60 * 1000).toISOString()
+});
+
+describe('isNewRevision', () => {
+  it('skips blank content and content matching the newest revision', () => {
+    expect(isNewRevision(undefined, '  ')).toBe(false);
+    expect(isNewRevision(revision('Same text', 1), 'Same text\n')).toBe(false);
+    expect(isNewRevision(revision('Old text', 1), 'New text')).toBe(true);
+    expect(isNewRevision(undefined, 'First text')).toBe(true);
+  });
+});
+
+describe('shouldSaveManualRevision', () => {
+  it('waits for the interval after the newest revision', () => {
+    const minutes = MANUAL_REVISION_INTERVAL / 60000;
+    expect(shouldSaveManualRevision(revision('Old text', minutes - 1), 'New text', NOW)).toBe(false);
+    expect(shouldSaveManualRevision(revision('Old text', minutes), 'New text', NOW)).toBe(true);
+    expect(shouldSaveManualRevision(revision('Old text', minutes * 2), 'Old text', NOW)).toBe(false);
+  });
+
+  it('saves the first revision of a chapter straight away', () => {
+    expect(shouldSaveManualRevision(undefined, 'Some text', NOW)).toBe(true);
+  });
+});
+
+describe('normalizeRevision', () => {
+  it('fills in an unknown source and a missing word count', () => {
+    expect(normalizeRevision({ id: 'r1', content: 'Three short words', source: 'other' as never })).toMatchObject({
+      source: 'manual',
+      word_count: 3,
+      chapter_number: 1
+    });
+    expect(countWords('  ')).toBe(0);
+  });
+});
+
+describe('planRevisionRenumbering', () => {
+  const revisions = [
+    { id: 'a', chapter_number: 1 },
+    { id: 'b', chapter_number: 2 },
+    { id: 'c', chapter_number: 2 },
+    { id: 'd', chapter_number: 3 }
+  ];
+
+  it('moves revisions with their chapters', () => {
+    // Chapters 1 and 2 swapped places
+    expect(planRevisionRenumbering(revisions, [2, 1, 3])).toEqual({
+      moves: [{ chapterNumber: 2, ids: ['a'] }, { chapterNumber: 1, ids: ['b', 'c'] }],
+      deleted: []
+    });
+  });
+
+  it('leaves new chapters without history and drops the history of removed ones', () => {
+    // A chapter was inserted first and chapter 3 was merged into chapter 2
+    expect(planRevisionRenumbering(revisions, [null, 1, 2])).toEqual({
+      moves: [{ chapterNumber: 2, ids: ['a'] }, { chapterNumber: 3, ids: ['b', 'c'] }],
+      deleted: ['d']
+    });
+  });
+
+  it('changes nothing when the chapters kept their places', () => {
+    expect(planRevisionRenumbering(revisions, [1, 2, 3])).toEqual({ moves: [], deleted: [] });
+  });
+});
@@ -0,0 +1,83 @@
+// Rules for when a chapter revision is saved
+import type { ChapterRevision, RevisionSource } from '@/types/revision';
+import { mapChapterNumbers } from './outline-operations';
+
+// Revisions kept per chapter; older ones are pruned when a new one is saved
+export const MAX_REVISIONS_PER_CHAPTER = 50;
+// Hand edits are saved as a revision at most this often
+export const MANUAL_REVISION_INTERVAL = 1000 * 60 * 5;
+
+export const REVISION_SOURCE_LABELS: Record<RevisionSource, string> = {
+  manual: 'Manual edit',
+  generate: 'Write Scene',
+  revise: 'Feedback revision',
+  refine: 'Refine Text',
+  transition: 'Transition',
+  draft: 'Draft picked',
+  autopilot: 'Autopilot',
+  restore: 'Restored',
+  selection: 'Selection edit',
+  continue: 'Continue writing'
+};
+
+export const countWords = (text: string) => text.match(/\S+/g)?.length ?? 0;
+
+// Whether content differs from the newest revision. Blank content is never saved.
+export function isNewRevision(latest: Pick<ChapterRevision, 'content'> | undefined, content: string): boolean {
+  if (!content.trim()) return false;
+  return !latest || latest.content.trim() !== content.trim();
+}
+
+// Hand edits are saved when they differ from the newest revision and it is old enough
+export function shouldSaveManualRevision(
+  latest: Pick<ChapterRevision, 'content' | 'created_at'> | undefined,
+  content: string,
+  now: number = Date.now()
+): boolean {
+  if (!isNewRevision(latest, content)) return false;
+  return !latest || now - new Date(latest.created_at).getTime() >= MANUAL_REVISION_INTERVAL;
+}
+
+export function normalizeRevision(row: Partial<ChapterRevision> & { id: string; content: string }): ChapterRevision {
+  const source = row.source && row.source in REVISION_SOURCE_LABELS ? row.source : 'manual';
+  return {
+    id: row.id,
+    story_id: row.story_id || '',
+    chapter_number: row.chapter_number || 1,
+    content: row.content,
+    source,
+    word_count: row.word_count ?? countWords(row.content),
+    created_at: row.created_at || new Date().toISOString()
+  };
+}
+
+export interface RevisionRenumbering {
+  // Revision ids to move to each new chapter number
+  moves: Array<{ chapterNumber: number; ids: string[] }>;
+  // Revisions of chapters that were deleted or merged into the one before them
+  deleted: string[];
+}
+
+// Work out how revisions follow their chapters after the outline was edited. previousNumbers holds,
+// for each chapter in its new order, the number it had before, or null for a new chapter.
+export function planRevisionRenumbering(
+  revisions: Array<Pick<ChapterRevision, 'id' | 'chapter_number'>>,
+  previousNumbers: Array<number | null>
+): RevisionRenumbering {
+  const newNumbers = mapChapterNumbers(previousNumbers);
+  const moves = new Map<number, string[]>();
+  const deleted: string[] = [];
+  for (const revision of revisions) {
+    const chapterNumber = newNumbers.get(revision.chapter_number);
+    if (chapterNumber === undefined) {
+      deleted.push(revision.id);
+    } else if (chapterNumber !== revision.chapter_number) {
+      moves.set(chapterNumber, [...(moves.get(chapterNumber) || []), revision.id]);
+    }
+  }
+
+  return {
+    moves: Array.from(moves, ([chapterNumber, ids]) => ({ chapterNumber, ids })),
+    deleted
+  };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { applySelectionEdit, getSelectionInstruction, splitAtSelection, trimSelection } from './selection-edit';
+
+const TEXT = 'The hall was dark.\n\nSomething moved behind the door. I ran.\n\nThe end.';
+const SECOND = { start: 20, end: 59 };
+
+describe('trimSelection', () => {
+  it('drops whitespace at the edges of the selection', () => {
+    expect(trimSelection(TEXT, { start: 18, end: 61 })).toEqual(SECOND);
+    expect(trimSelection(TEXT, { start: 18, end: 20 })).toBeNull();
+  });
+});
+
+describe('splitAtSelection', () => {
+  it('separates the passage from the text around it', () => {
+    const { before, selection, after } = splitAtSelection(TEXT, SECOND);
+    expect(selection).toBe('Something moved behind the door. I ran.');
+    expect(before + selection + after).toBe(TEXT);
+  });
+});
+
+describe('applySelectionEdit', () => {
+  it('replaces the passage and reports where the new text is', () => {
+    const { content, range } = applySelectionEdit(TEXT, SECOND, 'A shadow shifted.', 'replace');
+    expect(content).toBe('The hall was dark.\n\nA shadow shifted.\n\nThe end.');
+    expect(content.slice(range.start, range.end)).toBe('A shadow shifted.');
+  });
+
+  it('adds a continuation as a new paragraph at the end of a paragraph', () => {
+    const { content, range } = applySelectionEdit(TEXT, SECOND, 'I kept running.', 'append');
+    expect(content).toBe('The hall was dark.\n\nSomething moved behind the door. I ran.\n\nI kept running.\n\nThe end.');
+    expect(content.slice(range.start, range.end)).toBe('I kept running.');
+  });
+
+  it('carries on the line when the selection ends mid-paragraph', () => {
+    const { content } = applySelectionEdit(TEXT, { start: 20, end: 52 }, 'It scratched.', 'append');
+    expect(content).toContain('behind the door. It scratched. I ran.');
+  });
+});
+
+describe('getSelectionInstruction', () => {
+  it('uses a custom instruction only for rewrites', () => {
+    expect(getSelectionInstruction('rewrite', ' Make it rain ')).toBe('Make it rain');
+    expect(getSelectionInstruction('condense', 'Make it rain')).toMatch(/^Condense/);
+    expect(getSelectionInstruction('rewrite', '')).toBe('Rewrite the passage.');
+  });
+});
@@ -0,0 +1,102 @@
+// AI edits on a passage selected in the editor. The passage is replaced by (or, for "continue", followed by)
+// the generated text, and the rest of the chapter is only sent as context.
+
+export type SelectionAction = 'rewrite' | 'expand' | 'condense' | 'scarier' | 'dialogue' | 'continue';
+
+export interface SelectionActionDefinition {
+  id: SelectionAction;
+  label: string;
+  instruction: string;
+  // 'append' adds the generated text after the passage instead of replacing it
+  mode: 'replace' | 'append';
+}
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export const SELECTION_ACTIONS: SelectionActionDefinition[] = [
+  {
+    id: 'rewrite',
+    label: 'Rewrite',
+    instruction: 'Rewrite the passage.',
+    mode: 'replace'
+  },
+  {
+    id: 'expand',
+    label: 'Expand',
+    instruction: 'Expand the passage to about twice its length with more detail, sensory description and inner thoughts. Keep every event in it.',
+    mode: 'replace'
+  },
+  {
+    id: 'condense',
+    label: 'Condense',
+    instruction: 'Condense the passage to about half its length. Keep every event and line of dialogue that matters.',
+    mode: 'replace'
+  },
+  {
+    id: 'scarier',
+    label: 'Make Scarier',
+    instruction: 'Rewrite the passage to be more frightening: build dread, slow the pacing and add unsettling details. Keep the same events.',
+    mode: 'replace'
+  },
+  {
+    id: 'dialogue',
+    label: 'Convert to Dialogue',
+    instruction: 'Rewrite the passage so the same information comes across mostly through dialogue between the characters involved.',
+    mode: 'replace'
+  },
+  {
+    id: 'continue',
+    label: 'Continue from Here',
+    instruction: 'Continue the story from the end of the passage for two or three paragraphs, leading naturally into the text after it. Write only the new text, not the passage itself.',
+    mode: 'append'
+  }
+];
+
+export function getSelectionAction(id: SelectionAction): SelectionActionDefinition {
+  return SELECTION_ACTIONS.find(action => action.id === id) ?? SELECTION_ACTIONS[0];
+}
+
+// The instruction sent for an action. A rewrite with the user's own instruction uses that instead.
+export function getSelectionInstruction(id: SelectionAction, custom?: string): string {
+  return id === 'rewrite' && custom?.trim() ? custom.trim() : getSelectionAction(id).instruction;
+}
+
+// Shrink a selection so it doesn't start or end on whitespace; replacing it then keeps the paragraph breaks around it.
+// Returns null when nothing but whitespace is selected.
+export function trimSelection(text: string, range: TextRange): TextRange | null {
+  let { start, end } = range;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return start < end ? { start, end } : null;
+}
+
+// Split the chapter around a selection into the context before it, the passage and the context after it
+export function splitAtSelection(text: string, range: TextRange) {
+  return {
+    before: text.slice(0, range.start),
+    selection: text.slice(range.start, range.end),
+    after: text.slice(range.end)
+  };
+}
+
+// Put generated text into the chapter. Returns the new content and where the new text sits in it.
+export function applySelectionEdit(text: string, range: TextRange, generated: string, mode: SelectionActionDefinition['mode']) {
+  const { before, selection, after } = splitAtSelection(text, range);
+  if (mode === 'replace') {
+    return {
+      content: before + generated + after,
+      range: { start: range.start, end: range.start + generated.length }
+    };
+  }
+
+  // A continuation at the end of a paragraph starts a new paragraph; in the middle of one it carries on the line
+  const separator = after === '' || after.startsWith('\n') ? '\n\n' : ' ';
+  const start = range.end + separator.length;
+  return {
+    content: before + selection + separator + generated + after,
+    range: { start, end: start + generated.length }
+  };
+}
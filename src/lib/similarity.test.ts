@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { checkSimilarity, formatSimilarityForPrompt } from './similarity';
+
+const SOURCE = `I moved to Millbrook last spring. My neighbour Gerald kept his porch light on every night, even after he died.
+Nobody in town would talk about the house at the end of Willow Lane, and the mailman refused to deliver there.
+When I asked Gerald about it he only said that the lights were for the ones who still walk home.`;
+
+describe('checkSimilarity', () => {
+  it('passes a rewrite with new names and wording', () => {
+    const report = checkSimilarity(SOURCE, `Dana Whitlock rents a cabin outside Bend, Oregon. The landlord warns her never to answer
+knocks after midnight, and within a week she hears them every night from the empty lot next door.`);
+
+    expect(report.flagged).toBe(false);
+    expect(report.score).toBe(0);
+    expect(report.passages).toEqual([]);
+    expect(report.sharedNames).toEqual([]);
+  });
+
+  it('flags copied passages and reused names', () => {
+    const report = checkSimilarity(SOURCE, `The narrator meets Gerald. Nobody in town would talk about the house at the end of Willow Lane,
+and the mailman refused to deliver there. Everything else is new.`);
+
+    expect(report.flagged).toBe(true);
+    expect(report.score).toBeGreaterThan(0.5);
+    expect(report.passages[0]).toEqual({
+      text: 'Nobody in town would talk about the house at the end of Willow Lane, and the mailman refused to deliver there.',
+      words: 21
+    });
+    expect(report.sharedNames.sort()).toEqual(['Gerald', 'Lane', 'Willow']);
+  });
+
+  it('does not treat capitalised sentence starts or common words as names', () => {
+    const report = checkSimilarity('Nobody came. I waited. On Monday the Lights went out.', 'Nobody answered. On Monday I left.');
+    expect(report.sharedNames).toEqual([]);
+  });
+
+  it('checks against several sources at once', () => {
+    const report = checkSimilarity(['one two three four five six', 'seven eight nine ten eleven'], 'seven eight nine ten eleven');
+    expect(report.score).toBe(1);
+  });
+});
+
+describe('formatSimilarityForPrompt', () => {
+  it('lists the names and passages to change', () => {
+    expect(formatSimilarityForPrompt({
+      score: 0.5,
+      passages: [{ text: 'copied words', words: 2 }],
+      sharedNames: ['Gerald'],
+      flagged: true
+    })).toBe('- These names come from the original story and MUST be replaced: Gerald\n' +
+      '- This passage is copied from the original story and MUST be rewritten: "copied words"');
+  });
+});
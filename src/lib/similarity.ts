@@ -0,0 +1,132 @@
+// Checks how closely generated text follows the Reddit post it was based on. Overlap is measured with
+// word shingles (runs of n consecutive words), and character names carried over from the post are
+// reported separately because a renamed cast is the first thing the rewrite prompt asks for.
+
+// A run of words in the generated text that also appears in the source
+export interface SimilarityPassage {
+  text: string;
+  words: number;
+}
+
+export interface SimilarityReport {
+  // Share of the generated text's shingles that also appear in the source, from 0 to 1
+  score: number;
+  // Copied passages, longest first
+  passages: SimilarityPassage[];
+  // Names from the source that are reused in the generated text
+  sharedNames: string[];
+  flagged: boolean;
+}
+
+export const SIMILARITY_THRESHOLDS = {
+  // Flag when more than this share of the generated text's shingles come from the source
+  score: 0.08,
+  // Flag any copied passage at least this many words long
+  passageWords: 12
+};
+
+const SHINGLE_SIZE = 5;
+
+// Capitalised words that aren't names
+const NOT_NAMES = new Set([
+  'i', "i'm", "i'd", "i've", "i'll", 'ok', 'okay', 'mom', 'dad', 'god', 'mr', 'mrs', 'ms', 'dr',
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+  'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'
+]);
+
+interface Word {
+  raw: string;
+  norm: string;
+}
+
+const toWords = (text: string): Word[] =>
+  text.split(/\s+/)
+    .map(raw => ({ raw, norm: raw.toLowerCase().replace(/[^a-z0-9']/g, '') }))
+    .filter(word => word.norm);
+
+const shingleAt = (words: Word[], index: number, size: number): string =>
+  words.slice(index, index + size).map(word => word.norm).join(' ');
+
+// A word without surrounding punctuation or a possessive 's
+const toBareWord = (raw: string): string => raw.replace(/^[^a-zA-Z]+|[^a-zA-Z']+$/g, '').replace(/'s$/, '');
+
+// Words that look like names: capitalised somewhere other than the start of a sentence and never written in lowercase
+const findNames = (words: Word[]): Set<string> => {
+  const lowercase = new Set(words.filter(word => /^[a-z]/.test(word.raw.replace(/^[^a-zA-Z]+/, ''))).map(word => word.norm));
+  const names = new Set<string>();
+  words.forEach((word, index) => {
+    const bare = toBareWord(word.raw);
+    const sentenceStart = index === 0 || /[.!?]["')\]]*$/.test(words[index - 1].raw);
+    const norm = bare.toLowerCase();
+    if (/^[A-Z][a-z]{2,}$/.test(bare) && !sentenceStart && !lowercase.has(norm) && !NOT_NAMES.has(norm)) {
+      names.add(bare);
+    }
+  });
+  return names;
+};
+
+// Compare generated text against one or more source posts
+export function checkSimilarity(sources: string | string[], generated: string, shingleSize: number = SHINGLE_SIZE): SimilarityReport {
+  const sourceWords = (Array.isArray(sources) ? sources : [sources]).map(toWords);
+  const generatedWords = toWords(generated);
+
+  const sourceShingles = new Set<string>();
+  for (const words of sourceWords) {
+    for (let index = 0; index + shingleSize <= words.length; index++) {
+      sourceShingles.add(shingleAt(words, index, shingleSize));
+    }
+  }
+
+  // Mark every generated word covered by a shingle that's also in the source
+  const covered = new Array<boolean>(generatedWords.length).fill(false);
+  let shingles = 0;
+  let matches = 0;
+  for (let index = 0; index + shingleSize <= generatedWords.length; index++) {
+    shingles++;
+    if (sourceShingles.has(shingleAt(generatedWords, index, shingleSize))) {
+      matches++;
+      covered.fill(true, index, index + shingleSize);
+    }
+  }
+
+  const passages: SimilarityPassage[] = [];
+  let start = -1;
+  for (let index = 0; index <= covered.length; index++) {
+    if (covered[index] && start < 0) {
+      start = index;
+    } else if (!covered[index] && start >= 0) {
+      passages.push({
+        text: generatedWords.slice(start, index).map(word => word.raw).join(' '),
+        words: index - start
+      });
+      start = -1;
+    }
+  }
+  passages.sort((a, b) => b.words - a.words);
+
+  const generatedBareWords = new Set(generatedWords.map(word => toBareWord(word.raw)));
+  const sourceNames = new Set(sourceWords.flatMap(words => [...findNames(words)]));
+  const sharedNames = [...sourceNames].filter(name => generatedBareWords.has(name));
+
+  const score = shingles ? matches / shingles : 0;
+  return {
+    score,
+    passages,
+    sharedNames,
+    flagged: score > SIMILARITY_THRESHOLDS.score ||
+      passages.some(passage => passage.words >= SIMILARITY_THRESHOLDS.passageWords) ||
+      sharedNames.length > 0
+  };
+}
+
+// The report as instructions for rewriting the flagged text
+export function formatSimilarityForPrompt(report: SimilarityReport): string {
+  const lines: string[] = [];
+  if (report.sharedNames.length) {
+    lines.push(`- These names come from the original story and MUST be replaced: ${report.sharedNames.join(', ')}`);
+  }
+  for (const passage of report.passages.slice(0, 10)) {
+    lines.push(`- This passage is copied from the original story and MUST be rewritten: "${passage.text}"`);
+  }
+  return lines.join('\n');
+}
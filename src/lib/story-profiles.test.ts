@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_STORY_PROFILE,
+  exportStoryProfilesJson,
+  getChapterRange,
+  getRedditSource,
+  getStoryProfile,
+  listStoryProfiles,
+  normalizeStoryProfile,
+  parseStoryProfilesJson,
+  setCustomStoryProfiles,
+  validateStoryProfile
+} from './story-profiles';
+
+afterEach(() => setCustomStoryProfiles([]));
+
+describe('getStoryProfile', () => {
+  it('returns the named profile', () => {
+    const name = listStoryProfiles()[listStoryProfiles().length - 1].name;
+    expect(getStoryProfile(name).name).toBe(name);
+  });
+
+  it('falls back to the default profile for unknown names', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(getStoryProfile('Missing').name).toBe(DEFAULT_STORY_PROFILE);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('getChapterRange', () => {
+  it('widens the range to include the profile chapter count', () => {
+    const profile = { ...getStoryProfile(), num_scenes: 12 };
+    expect(getChapterRange(profile, 5, 8)).toEqual({ min: 5, max: 12 });
+    expect(getChapterRange({ ...profile, num_scenes: 6 }, 8, 5)).toEqual({ min: 5, max: 8 });
+  });
+});
+
+describe('custom profiles', () => {
+  it('are listed after the built-in ones and replace built-ins with the same name', () => {
+    const builtIns = listStoryProfiles().length;
+    setCustomStoryProfiles([
+      normalizeStoryProfile({ id: '1', name: 'Romance', system_prompt: 'Write a romance.' }),
+      normalizeStoryProfile({ id: '2', name: DEFAULT_STORY_PROFILE, system_prompt: 'My horror.' })
+    ]);
+
+    const profiles = listStoryProfiles();
+    expect(profiles).toHaveLength(builtIns + 1);
+    expect(profiles[profiles.length - 1].name).toBe('Romance');
+    expect(getStoryProfile(DEFAULT_STORY_PROFILE).system_prompt).toBe('My horror.');
+  });
+});
+
+describe('validateStoryProfile', () => {
+  it('requires a name, a prompt and a sensible chapter count', () => {
+    expect(validateStoryProfile(normalizeStoryProfile({ name: 'Sci-fi', system_prompt: 'Space.' }))).toEqual([]);
+    expect(validateStoryProfile(normalizeStoryProfile({ num_scenes: 0 }))).toHaveLength(3);
+  });
+});
+
+describe('parseStoryProfilesJson', () => {
+  it('reads the profiles.json shape and fills in missing fields', () => {
+    const [profile] = parseStoryProfilesJson(JSON.stringify({
+      categories: [{ id: 'ignored', name: 'Sci-fi', prompts: ['A colony ship wakes early.'], num_scenes: 10 }]
+    }));
+    expect(profile).toMatchObject({ name: 'Sci-fi', num_scenes: 10, subreddit: 'nosleep', system_prompt: '' });
+    expect(profile.id).toBeUndefined();
+  });
+
+  it('round-trips exported profiles', () => {
+    const profiles = [normalizeStoryProfile({ id: '1', name: 'Sci-fi', system_prompt: 'Space.', banned_words: ['suddenly'] })];
+    const [parsed] = parseStoryProfilesJson(exportStoryProfilesJson(profiles));
+    expect(parsed).toEqual({ ...profiles[0], id: undefined });
+  });
+
+  it('rejects files that are not in the profiles.json shape', () => {
+    expect(() => parseStoryProfilesJson('not json')).toThrow('not valid JSON');
+    expect(() => parseStoryProfilesJson('[]')).toThrow('categories');
+    expect(() => parseStoryProfilesJson('{"categories":[{"name":"Empty"}]}')).toThrow('Empty:');
+  });
+});
+
+describe('getRedditSource', () => {
+  it('uses the main subreddit and defaults when the profile has no Reddit settings', () => {
+    expect(getRedditSource(normalizeStoryProfile({ name: 'Sci-fi', subreddit: 'HFY', flair_exclude: 'Series, Meta' }))).toEqual({
+      subreddits: ['HFY'],
+      timeframe: 'month',
+      minLength: 20000,
+      excludeFlairs: ['Series', 'Meta'],
+      excludeTitleWords: ['part']
+    });
+  });
+
+  it('uses every configured subreddit', () => {
+    const profile = normalizeStoryProfile({ subreddits: ['r/nosleep', ' LetsNotMeet ', ''], timeframe: 'year', title_exclude: [] });
+    expect(getRedditSource(profile)).toMatchObject({ subreddits: ['nosleep', 'LetsNotMeet'], timeframe: 'year', excludeTitleWords: [] });
+  });
+});
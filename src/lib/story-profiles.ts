@@ -0,0 +1,156 @@
+// Genre profiles from src/data/profiles.json, merged with the ones the user created. Each story is generated
+// with one profile, which decides where story ideas come from, how many chapters the outline has and which
+// prompt defaults apply.
+
+import profilesData from '@/data/profiles.json';
+import { REDDIT_TIMEFRAMES, type RedditTimeframe } from '@/types/reddit';
+import type { StoryProfile } from '@/types/story';
+
+// Stories saved before profiles could be chosen were all generated with this one
+export const DEFAULT_STORY_PROFILE = 'Horror';
+
+const FALLBACKS = {
+  subreddit: 'nosleep',
+  timeframe: 'month' as RedditTimeframe,
+  min_length: 20000,
+  flair_exclude: 'Series',
+  // Titles with "part" in them are usually one part of a series
+  title_exclude: ['part'],
+  use_reddit: false,
+  num_scenes: 8
+};
+
+// Fill in the fields a profile leaves out
+export function normalizeStoryProfile(profile: Partial<StoryProfile>): StoryProfile {
+  return {
+    ...FALLBACKS,
+    ...profile,
+    name: (profile.name || '').trim(),
+    prompts: profile.prompts || [],
+    system_prompt: profile.system_prompt || ''
+  };
+}
+
+const builtInProfiles: StoryProfile[] = (profilesData.categories as Partial<StoryProfile>[]).map(normalizeStoryProfile);
+
+// The user's own profiles, registered by StoryProfileService whenever they're loaded or changed
+let customProfiles: StoryProfile[] = [];
+
+export function setCustomStoryProfiles(profiles: StoryProfile[]) {
+  customProfiles = profiles;
+}
+
+export function isBuiltInStoryProfile(name: string): boolean {
+  return builtInProfiles.some(profile => profile.name === name);
+}
+
+// Built-in profiles followed by the user's, where a user profile with a built-in's name replaces it
+export function listStoryProfiles(): StoryProfile[] {
+  const custom = new Map(customProfiles.map(profile => [profile.name, profile]));
+  return [
+    ...builtInProfiles.map(profile => custom.get(profile.name) ?? profile),
+    ...customProfiles.filter(profile => !isBuiltInStoryProfile(profile.name))
+  ];
+}
+
+export function findStoryProfile(name?: string | null): StoryProfile | undefined {
+  return listStoryProfiles().find(profile => profile.name === name);
+}
+
+// The named profile, or the default one when the name is missing or no longer exists
+export function getStoryProfile(name?: string | null): StoryProfile {
+  const profile = findStoryProfile(name) ?? findStoryProfile(DEFAULT_STORY_PROFILE) ?? builtInProfiles[0];
+  if (name && profile.name !== name) {
+    console.warn(`Story profile '${name}' not found, using '${profile.name}'`);
+  }
+  return profile;
+}
+
+export interface RedditSource {
+  subreddits: string[];
+  timeframe: RedditTimeframe;
+  minLength: number;
+  excludeFlairs: string[];
+  excludeTitleWords: string[];
+}
+
+// Where and how a profile looks for Reddit posts to base story ideas on
+export function getRedditSource(profile: StoryProfile): RedditSource {
+  const subreddits = (profile.subreddits || [])
+    .map(name => name.trim().replace(/^r\//, ''))
+    .filter(Boolean);
+  return {
+    subreddits: subreddits.length ? subreddits : [profile.subreddit],
+    timeframe: profile.timeframe || FALLBACKS.timeframe,
+    minLength: profile.min_length,
+    excludeFlairs: profile.flair_exclude.split(',').map(flair => flair.trim()).filter(Boolean),
+    excludeTitleWords: profile.title_exclude ?? FALLBACKS.title_exclude
+  };
+}
+
+// Widen the chapter range from Settings so it includes the profile's chapter count
+export function getChapterRange(profile: StoryProfile, minChapters: number, maxChapters: number): { min: number; max: number } {
+  const min = Math.min(minChapters, maxChapters);
+  const max = Math.max(minChapters, maxChapters);
+  return {
+    min: Math.min(min, profile.num_scenes),
+    max: Math.max(max, profile.num_scenes)
+  };
+}
+
+// Problems that would stop a profile from being saved
+export function validateStoryProfile(profile: StoryProfile): string[] {
+  const errors: string[] = [];
+  if (!profile.name) {
+    errors.push('The profile needs a name.');
+  }
+  if (!profile.system_prompt.trim() && !profile.prompts.some(prompt => prompt.trim())) {
+    errors.push('Add a system prompt or at least one idea prompt.');
+  }
+  if (!profile.subreddit.trim()) {
+    errors.push('The profile needs a subreddit.');
+  }
+  if (profile.timeframe && !REDDIT_TIMEFRAMES.includes(profile.timeframe)) {
+    errors.push(`The timeframe must be one of: ${REDDIT_TIMEFRAMES.join(', ')}.`);
+  }
+  if (!Number.isInteger(profile.num_scenes) || profile.num_scenes < 1 || profile.num_scenes > 50) {
+    errors.push('The chapter count must be a whole number between 1 and 50.');
+  }
+  if (!Number.isInteger(profile.min_length) || profile.min_length < 0) {
+    errors.push('The minimum length must be a whole number of characters.');
+  }
+  return errors;
+}
+
+// Read profiles from JSON in the same shape as src/data/profiles.json
+export function parseStoryProfilesJson(json: string): StoryProfile[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const categories = (data as { categories?: unknown })?.categories;
+  if (!Array.isArray(categories)) {
+    throw new Error('Expected an object with a "categories" list, like src/data/profiles.json.');
+  }
+
+  return categories.map((category, index) => {
+    if (!category || typeof category !== 'object') {
+      throw new Error(`Profile ${index + 1} is not an object.`);
+    }
+    const { id: _id, ...fields } = category as Partial<StoryProfile>;
+    const profile = normalizeStoryProfile(fields);
+    const errors = validateStoryProfile(profile);
+    if (errors.length) {
+      throw new Error(`${profile.name || `Profile ${index + 1}`}: ${errors[0]}`);
+    }
+    return profile;
+  });
+}
+
+// Write profiles as JSON in the same shape as src/data/profiles.json
+export function exportStoryProfilesJson(profiles: StoryProfile[]): string {
+  return JSON.stringify({ categories: profiles.map(({ id: _id, ...profile }) => profile) }, null, 2);
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { countChanges, countWordChanges, diffLines, diffWords } from './text-diff';
+
+describe('diffLines', () => {
+  it('marks identical texts as unchanged', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'same', text: 'b' }
+    ]);
+  });
+
+  it('lists removed lines before the lines that replace them', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc\nd')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'x' },
+      { type: 'same', text: 'c' },
+      { type: 'added', text: 'd' }
+    ]);
+  });
+});
+
+describe('countChanges', () => {
+  it('counts added and removed lines', () => {
+    expect(countChanges(diffLines('a\nb', 'b\nc\nd'))).toEqual({ added: 2, removed: 1 });
+  });
+});
+
+describe('diffWords', () => {
+  it('marks the changed words and merges neighbouring parts', () => {
+    expect(diffWords('The old house stood still.', 'The new house stood very still.')).toEqual([
+      { type: 'same', text: 'The ' },
+      { type: 'removed', text: 'old' },
+      { type: 'added', text: 'new' },
+      { type: 'same', text: ' house stood' },
+      { type: 'added', text: ' very' },
+      { type: 'same', text: ' still.' }
+    ]);
+  });
+
+  it('keeps whitespace so each side can be rebuilt', () => {
+    const before = 'First line.\n\nSecond  line here.';
+    const after = 'First line.\n\nA second line.';
+    const diff = diffWords(before, after);
+    expect(diff.filter(part => part.type !== 'added').map(part => part.text).join('')).toBe(before);
+    expect(diff.filter(part => part.type !== 'removed').map(part => part.text).join('')).toBe(after);
+  });
+
+  it('counts added and removed words', () => {
+    expect(countWordChanges(diffWords('one two three', 'one four five three'))).toEqual({ added: 2, removed: 1 });
+  });
+});
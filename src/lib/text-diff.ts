@@ -0,0 +1,105 @@
+// Text diffs, used to compare prompt overrides with their defaults (by line) and chapter revisions (by word).
+
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+// Diff two texts line by line using the longest common subsequence.
+// Removed lines are listed before the lines added in their place.
+export function diffLines(before: string, after: string): DiffLine[] {
+  return diffSequences(before.split('\n'), after.split('\n'));
+}
+
+// Past this many comparisons a changed stretch of a word diff is shown as replaced outright,
+// so comparing two unrelated chapters doesn't lock up the page
+const MAX_WORD_DIFF_CELLS = 4_000_000;
+
+// Diff two texts word by word. Whitespace is kept, so joining the 'same' and 'removed' parts gives back
+// `before` and joining the 'same' and 'added' parts gives back `after`. Neighbouring tokens of the
+// same type are merged into one part.
+export function diffWords(before: string, after: string): DiffLine[] {
+  const a = before.match(/\s+|\S+/g) || [];
+  const b = after.match(/\s+|\S+/g) || [];
+
+  // Only the stretch between the common start and end needs the full comparison
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+
+  const middleA = a.slice(start, a.length - end);
+  const middleB = b.slice(start, b.length - end);
+  const middle = middleA.length * middleB.length > MAX_WORD_DIFF_CELLS
+    ? [
+        ...middleA.map(text => ({ type: 'removed' as const, text })),
+        ...middleB.map(text => ({ type: 'added' as const, text }))
+      ]
+    : diffSequences(middleA, middleB);
+
+  const tokens: DiffLine[] = [
+    ...a.slice(0, start).map(text => ({ type: 'same' as const, text })),
+    ...middle,
+    ...a.slice(a.length - end).map(text => ({ type: 'same' as const, text }))
+  ];
+
+  const parts: DiffLine[] = [];
+  for (const token of tokens) {
+    const last = parts[parts.length - 1];
+    if (last && last.type === token.type) {
+      last.text += token.text;
+    } else {
+      parts.push({ ...token });
+    }
+  }
+  return parts;
+}
+
+// Longest common subsequence diff of two token lists
+function diffSequences(a: string[], b: string[]): DiffLine[] {
+  // lengths[i][j] is the LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+  return lines;
+}
+
+// Count the added and removed lines of a diff
+export function countChanges(diff: DiffLine[]): { added: number; removed: number } {
+  return {
+    added: diff.filter(line => line.type === 'added').length,
+    removed: diff.filter(line => line.type === 'removed').length
+  };
+}
+
+// Count the words added and removed in a word diff
+export function countWordChanges(diff: DiffLine[]): { added: number; removed: number } {
+  const words = (type: DiffLineType) => diff
+    .filter(part => part.type === type)
+    .reduce((total, part) => total + (part.text.match(/\S+/g)?.length ?? 0), 0);
+  return { added: words('added'), removed: words('removed') };
+}
@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_CONTEXT_WINDOW,
+  DEFAULT_OUTPUT_RESERVE,
+  budgetPrompt,
+  countTokens,
+  getContextWindow,
+  truncateToTokens
+} from './token-budget';
+
+const words = (count: number, word = 'lighthouse') => Array.from({ length: count }, () => word).join(' ');
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('getContextWindow', () => {
+  it('knows common models, with or without a provider prefix', () => {
+    expect(getContextWindow('gpt-4o')).toBe(128000);
+    expect(getContextWindow('openai/gpt-4o-mini')).toBe(128000);
+    expect(getContextWindow('ft:gpt-4o-mini-2024-07-18:org::abc123')).toBe(128000);
+    expect(getContextWindow('anthropic/claude-3.7-sonnet:thinking')).toBe(200000);
+    expect(getContextWindow('o3-mini')).toBe(200000);
+    expect(getContextWindow('gpt-4')).toBe(8192);
+  });
+
+  it('falls back to the default window for unknown models', () => {
+    expect(getContextWindow('my-local-model')).toBe(DEFAULT_CONTEXT_WINDOW);
+  });
+});
+
+describe('countTokens', () => {
+  it('counts tokens and treats empty text as zero', () => {
+    expect(countTokens('')).toBe(0);
+    expect(countTokens(words(100))).toBeGreaterThanOrEqual(100);
+  });
+});
+
+describe('truncateToTokens', () => {
+  it('keeps text that already fits', () => {
+    expect(truncateToTokens('Mara climbed the stairs.', 100)).toBe('Mara climbed the stairs.');
+  });
+
+  it('keeps the start or the end', () => {
+    const text = 'one two three four five six seven eight';
+    expect(truncateToTokens(text, 3)).toBe('one two three');
+    expect(truncateToTokens(text, 3, 'end')).toBe('six seven eight');
+  });
+
+  it('returns an empty string for a zero budget', () => {
+    expect(truncateToTokens('anything', 0)).toBe('');
+  });
+});
+
+describe('budgetPrompt', () => {
+  it('leaves a prompt that fits untouched', () => {
+    const { sections, budget } = budgetPrompt([
+      { id: 'instructions', label: 'Instructions', text: 'Write the chapter.' },
+      { id: 'context', label: 'Context', text: words(50), priority: 0 }
+    ], 'gpt-4o', 4000);
+
+    expect(sections.context).toBe(words(50));
+    expect(budget.contextWindow).toBe(128000);
+    expect(budget.reservedForOutput).toBe(4000);
+    expect(budget.overBudget).toBe(false);
+    expect(budget.sections.map(section => section.tokens)).toEqual(budget.sections.map(section => section.originalTokens));
+  });
+
+  it('trims the lowest-priority section first', () => {
+    // gpt-4 has an 8192 token window, leaving 3891 prompt tokens with a 4096 reserve
+    const { sections, budget } = budgetPrompt([
+      { id: 'instructions', label: 'Instructions', text: words(1000) },
+      { id: 'characters', label: 'Characters', text: words(1000), priority: 1 },
+      { id: 'future', label: 'Future', text: words(3000), priority: 0 }
+    ], 'gpt-4');
+
+    expect(budget.reservedForOutput).toBe(DEFAULT_OUTPUT_RESERVE);
+    expect(sections.characters).toBe(words(1000));
+    expect(countTokens(sections.future)).toBeLessThan(3000);
+    expect(budget.total).toBeLessThanOrEqual(budget.available);
+    expect(budget.overBudget).toBe(false);
+  });
+
+  it('keeps the end of sections that ask for it', () => {
+    const text = `${words(5000, 'early')} ${words(500, 'late')}`;
+    const { sections } = budgetPrompt([{ id: 'context', label: 'Context', text, priority: 0, keep: 'end' }], 'gpt-4');
+    expect(sections.context.endsWith(words(500, 'late'))).toBe(true);
+    expect(countTokens(sections.context)).toBeLessThan(countTokens(text));
+  });
+
+  it('rebuilds sections with their fit function', () => {
+    const fit = vi.fn((maxTokens: number) => `short version for ${maxTokens}`);
+    const { sections } = budgetPrompt([{ id: 'context', label: 'Context', text: words(5000), priority: 0, fit }], 'gpt-4');
+    expect(fit).toHaveBeenCalledOnce();
+    expect(sections.context).toMatch(/^short version for \d+$/);
+  });
+
+  it('reports a prompt that is still too long after trimming', () => {
+    const { sections, budget } = budgetPrompt([
+      { id: 'instructions', label: 'Instructions', text: words(5000) },
+      { id: 'context', label: 'Context', text: words(100), priority: 0 }
+    ], 'gpt-4');
+
+    expect(sections.context).toBe('');
+    expect(budget.overBudget).toBe(true);
+  });
+});
@@ -0,0 +1,152 @@
+// Token counting and prompt budgeting.
+// Prompts are assembled from named sections. Each section is measured with the o200k tokenizer
+// (exact for current OpenAI models, a close approximation for the others), and when the prompt
+// doesn't fit in the model's context window the lowest-priority sections are trimmed first.
+
+import { countTokens as countO200kTokens, decode, encode } from 'gpt-tokenizer/encoding/o200k_base';
+
+// Used when the model isn't in the table below
+export const DEFAULT_CONTEXT_WINDOW = 32000;
+// Tokens kept free for the response when the step has no max_tokens
+export const DEFAULT_OUTPUT_RESERVE = 4096;
+// Headroom for tokenizer differences between providers and chat formatting overhead
+const SAFETY_MARGIN = 0.05;
+
+// Context windows by model name pattern. Checked in order, so more specific patterns come first.
+// Provider prefixes (openai/, anthropic/) and fine-tune names (ft:gpt-4o-mini:...) match too.
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/gpt-4\.1/, 1047576],
+  [/gpt-5/, 400000],
+  [/(^|[/:])o[134](-|$)/, 200000],
+  [/gpt-4o|gpt-4-turbo|gpt-4\.5|gpt-oss/, 128000],
+  [/gpt-4-32k/, 32768],
+  [/gpt-4/, 8192],
+  [/gpt-3\.5/, 16385],
+  [/claude/, 200000],
+  [/gemini/, 1048576],
+  [/llama-?3\.[1-3]|llama-?4/, 128000],
+  [/llama/, 8192],
+  [/deepseek/, 64000],
+  [/mistral-large|mistral-medium|mistral-small|ministral/, 128000],
+  [/mistral|mixtral/, 32768],
+  [/qwen/, 32768],
+  [/grok/, 131072],
+  [/command-r/, 128000],
+  [/mock/, 128000]
+];
+
+export function getContextWindow(model: string): number {
+  const name = model.toLowerCase();
+  return CONTEXT_WINDOWS.find(([pattern]) => pattern.test(name))?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+export function countTokens(text: string): number {
+  return text ? countO200kTokens(text) : 0;
+}
+
+// Cut text down to a token budget. "end" keeps the end of the text, "start" keeps the beginning.
+export function truncateToTokens(text: string, maxTokens: number, keep: 'start' | 'end' = 'start'): string {
+  if (maxTokens <= 0) return '';
+  const tokens = encode(text);
+  if (tokens.length <= maxTokens) return text;
+  return keep === 'start'
+    ? decode(tokens.slice(0, maxTokens)).trimEnd()
+    : decode(tokens.slice(-maxTokens)).trimStart();
+}
+
+export interface PromptSection {
+  id: string;
+  label: string;
+  text: string;
+  // Sections with a lower priority are trimmed first. Sections without one are never trimmed.
+  priority?: number;
+  // Which part of the text to keep when trimming
+  keep?: 'start' | 'end';
+  // Rebuild the section for a smaller budget instead of cutting the text,
+  // e.g. switching from detailed to short chapter summaries
+  fit?: (maxTokens: number) => string;
+}
+
+export interface SectionBudget {
+  id: string;
+  label: string;
+  priority: number | null;
+  // Tokens before and after trimming
+  originalTokens: number;
+  tokens: number;
+}
+
+export interface PromptBudget {
+  model: string;
+  contextWindow: number;
+  reservedForOutput: number;
+  // Tokens available to the prompt after the output reserve and safety margin
+  available: number;
+  // Tokens the prompt uses after trimming
+  total: number;
+  sections: SectionBudget[];
+  // True when the prompt is still too long after every section has been trimmed
+  overBudget: boolean;
+}
+
+export interface BudgetedPrompt {
+  // Section text by id, after trimming
+  sections: Record<string, string>;
+  budget: PromptBudget;
+}
+
+// Measure the sections of a prompt and trim the lowest-priority ones until it fits the model
+export function budgetPrompt(sections: PromptSection[], model: string, maxOutputTokens?: number): BudgetedPrompt {
+  const contextWindow = getContextWindow(model);
+  const reservedForOutput = maxOutputTokens || DEFAULT_OUTPUT_RESERVE;
+  const available = Math.max(0, Math.floor((contextWindow - reservedForOutput) * (1 - SAFETY_MARGIN)));
+
+  const texts: Record<string, string> = {};
+  const tokens: Record<string, number> = {};
+  const originalTokens: Record<string, number> = {};
+  for (const section of sections) {
+    texts[section.id] = section.text;
+    tokens[section.id] = originalTokens[section.id] = countTokens(section.text);
+  }
+
+  const sumTokens = () => Object.values(tokens).reduce((sum, count) => sum + count, 0);
+  const trimmable = sections
+    .filter(section => section.priority !== undefined)
+    .sort((a, b) => (a.priority as number) - (b.priority as number));
+
+  for (const section of trimmable) {
+    const overflow = sumTokens() - available;
+    if (overflow <= 0) break;
+
+    const target = Math.max(0, tokens[section.id] - overflow);
+    let text = section.fit ? section.fit(target) : truncateToTokens(section.text, target, section.keep);
+    // A rebuilt section can still come out too long, so cut it as a last resort
+    if (countTokens(text) > target) {
+      text = truncateToTokens(text, target, section.keep);
+    }
+    texts[section.id] = text;
+    tokens[section.id] = countTokens(text);
+  }
+
+  const total = sumTokens();
+  const budget: PromptBudget = {
+    model,
+    contextWindow,
+    reservedForOutput,
+    available,
+    total,
+    sections: sections.map(section => ({
+      id: section.id,
+      label: section.label,
+      priority: section.priority ?? null,
+      originalTokens: originalTokens[section.id],
+      tokens: tokens[section.id]
+    })),
+    overBudget: total > available
+  };
+
+  if (budget.overBudget) {
+    console.warn(`Prompt for ${model} is ${total} tokens, over the ${available} token budget`);
+  }
+  return { sections: texts, budget };
+}
@@ -1,25 +1,43 @@
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import { getPostByPermalink } from "@/integrations/reddit/client";
 import { useToast } from "@/hooks/use-toast";
 import { OutlinePanel } from "@/components/OutlinePanel";
 import { WritingArea } from "@/components/WritingArea";
 import { CharacterModal } from "@/components/CharacterModal";
 import { ExportModal } from "@/components/ExportModal";
+import { OutlineEditorModal } from "@/components/OutlineEditorModal";
+import { RelationshipGraphModal } from "@/components/RelationshipGraphModal";
+import { ContinuityLedgerModal } from "@/components/ContinuityLedgerModal";
+import { SimilarityWarning } from "@/components/SimilarityWarning";
+import { AutopilotPanel } from "@/components/AutopilotPanel";
+import { RevisionHistoryDrawer } from "@/components/RevisionHistoryDrawer";
 import { useStoryService } from "@/hooks/use-story-service";
+import { useAutopilot } from "@/hooks/use-autopilot";
 import debounce from "lodash/debounce";
 import { setDocumentTitle } from "@/utils/document";
+import { normalizeOutline, parseStoredOutline } from "@/lib/outline-parser";
+import { toOutline } from "@/lib/outline-operations";
+import { formatCharactersForPrompt, parseCharacters, parseRelationships } from "@/lib/character-parser";
+import { createEmptyLedger, formatLedgerForPrompt, parseLedger, renumberLedger } from "@/lib/continuity";
+import { findChaptersToSummarize, hashContent, parseChapterSummaries, renumberChapterSummaries, upsertChapterSummary } from "@/lib/chapter-summaries";
+import { checkSimilarity } from "@/lib/similarity";
+import { keepAlternates, type DraftText } from "@/lib/drafts";
+import { revisionService } from "@/services/RevisionService";
+import type { ChapterAlternate, ChapterSummary, OutlineChapter } from "@/types/story";
+import type { Character, CharacterRelationship } from "@/types/character";
+import type { ContinuityLedger } from "@/types/continuity";
+import type { RedditSourceRef } from "@/types/reddit";
+import type { RevisionSource } from "@/types/revision";
 
 interface Chapter {
   title: string;
   content: string;
   completed: boolean;
   sceneBeat: string;
-}
-
-interface Character {
-  name: string;
-  description: string;
+  outline?: OutlineChapter;
+  alternates?: ChapterAlternate[];
 }
 
 interface Story {
@@ -28,10 +46,16 @@ interface Story {
   story_idea: string;
   plot_outline: string;
   characters: string;
+  character_relationships?: unknown;
+  continuity_ledger?: unknown;
+  chapter_summaries?: unknown;
+  story_profile?: string;
+  source_posts?: unknown;
   chapters: Array<{
     title: string;
     content: string;
     completed: boolean;
+    alternates?: ChapterAlternate[];
   }> | null;
   user_id: string;
   created_at: string;
@@ -45,6 +69,9 @@ interface SaveState {
   retryCount: number;
 }
 
+// How long a completed chapter has to stay unchanged before it's summarised or added to the ledger
+const AUTO_PROCESS_DELAY = 10000;
+
 export default function Editor() {
   const navigate = useNavigate();
   const { toast } = useToast();
@@ -54,9 +81,24 @@ export default function Editor() {
   const [currentChapter, setCurrentChapter] = useState(0);
   const [chapters, setChapters] = useState<Chapter[]>([]);
   const [characters, setCharacters] = useState<Character[]>([]);
+  const [relationships, setRelationships] = useState<CharacterRelationship[]>([]);
   const [story, setStory] = useState<Story | null>(null);
   const [showCharacters, setShowCharacters] = useState(false);
   const [showExportModal, setShowExportModal] = useState(false);
+  const [showOutlineEditor, setShowOutlineEditor] = useState(false);
+  const [showRelationships, setShowRelationships] = useState(false);
+  const [continuityLedger, setContinuityLedger] = useState<ContinuityLedger>(createEmptyLedger());
+  const [showContinuity, setShowContinuity] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [extractingChapter, setExtractingChapter] = useState<number | null>(null);
+  // Chapters whose automatic extraction failed, so they aren't retried in a loop
+  const failedExtractionsRef = useRef<Set<number>>(new Set());
+  const [chapterSummaries, setChapterSummaries] = useState<ChapterSummary[]>([]);
+  const [summarizingChapter, setSummarizingChapter] = useState<number | null>(null);
+  // Text of the Reddit posts the story idea came from, to warn when a chapter copies them
+  const [sourceTexts, setSourceTexts] = useState<string[]>([]);
+  // Content hashes whose summary failed, so an unchanged chapter isn't retried in a loop
+  const failedSummariesRef = useRef<Set<string>>(new Set());
   const [saveState, setSaveState] = useState<SaveState>({
     lastSavedContent: '',
     lastSavedTimestamp: Date.now(),
@@ -104,7 +146,8 @@ export default function Editor() {
       const chapterData = updatedChapters.map(chapter => ({
         title: chapter.title,
         content: chapter.content,
-        completed: chapter.completed
+        completed: chapter.completed,
+        alternates: chapter.alternates
       }));
 
       // Use StoryService to update the story
@@ -253,6 +296,20 @@ export default function Editor() {
     };
   }, [chapters, saveState.pendingChanges, saveToDatabase]);
 
+  // Save a chapter revision after a change. What the chapter held before is saved first when it isn't
+  // in the history yet, so hand edits made since the last revision can be restored too.
+  const recordRevision = useCallback(async (index: number, content: string, source: RevisionSource, previous?: string) => {
+    if (!id || !story) return;
+    try {
+      if (previous) {
+        await revisionService.saveRevision(story.user_id, id, index + 1, previous, 'manual');
+      }
+      await revisionService.saveRevision(story.user_id, id, index + 1, content, source);
+    } catch (error) {
+      console.warn('Failed to save a chapter revision:', (error as Error).message);
+    }
+  }, [id, story]);
+
   // Add function to check if chapter should be marked as complete
   const isChapterComplete = (content: string) => {
     const wordCount = content.trim().split(/\s+/).length;
@@ -316,12 +373,13 @@ export default function Editor() {
         setStory(storyWithChapters);
 
         // Parse the plot outline into chapters with error handling
-        let outline = [];
+        let outline: OutlineChapter[] = [];
         try {
           // Ensure plot_outline is not empty or null before parsing
           if (storyData.plot_outline && storyData.plot_outline.trim()) {
             console.log('Parsing plot outline:', storyData.plot_outline.substring(0, 100) + '...');
-            outline = JSON.parse(storyData.plot_outline);
+            // Handles both chapter records and the older array of beat strings
+            outline = parseStoredOutline(storyData.plot_outline);
           } else {
             console.warn('Plot outline is empty or null, using empty array');
           }
@@ -341,17 +399,18 @@ export default function Editor() {
         }
         
         // If outline is empty, create a default chapter
-        if (!outline || !Array.isArray(outline) || outline.length === 0) {
+        if (outline.length === 0) {
           console.log('Creating default outline for story');
-          outline = ["Chapter 1: Begin your story here..."];
+          outline = normalizeOutline(["Chapter 1: Begin your story here..."]);
         }
         
         // Create base chapters from the outline
-        const baseChapters = outline.map((sceneBeat: string, index: number) => ({
-          title: `Chapter ${index + 1}`,
+        const baseChapters: Chapter[] = outline.map((outlineChapter) => ({
+          title: `Chapter ${outlineChapter.chapter_number}`,
           content: "",
           completed: false,
-          sceneBeat
+          sceneBeat: outlineChapter.chapter_beat,
+          outline: outlineChapter
         }));
 
         // Merge chapters in this order of priority:
@@ -365,7 +424,8 @@ export default function Editor() {
           formattedChapters = baseChapters.map((baseChapter, index) => ({
             ...baseChapter,
             content: savedChapters[index]?.content || "",
-            completed: savedChapters[index]?.completed || isChapterComplete(savedChapters[index]?.content || "")
+            completed: savedChapters[index]?.completed || isChapterComplete(savedChapters[index]?.content || ""),
+            alternates: savedChapters[index]?.alternates || []
           }));
           
           toast({
@@ -379,37 +439,23 @@ export default function Editor() {
           formattedChapters = baseChapters.map((baseChapter, index) => ({
             ...baseChapter,
             content: savedChapters[index]?.content || "",
-            completed: savedChapters[index]?.completed || isChapterComplete(savedChapters[index]?.content || "")
+            completed: savedChapters[index]?.completed || isChapterComplete(savedChapters[index]?.content || ""),
+            alternates: savedChapters[index]?.alternates || []
           }));
         } else {
           // Fall back to base chapters
           formattedChapters = baseChapters;
         }
 
-        // Parse the characters
-        const parsedCharacters = storyData.characters
-          .match(/<character[^>]*>(.*?)<\/character>/gs)
-          ?.map(char => {
-            const nameMatch = char.match(/name='([^']*)'/) || [];
-            const aliasesMatch = char.match(/aliases='([^']*)'/) || [];
-            const pronounsMatch = char.match(/pronouns='([^']*)'/) || [];
-            const ageMatch = char.match(/age='([^']*)'/) || [];
-            
-            // Extract the full content between tags
-            const contentMatch = char.match(/<character[^>]*>([\s\S]*?)<\/character>/) || [];
-            const fullContent = contentMatch[1] || '';
-            
-            // Format the description to include all the character details
-            const description = `${aliasesMatch[1] ? `Aliases: ${aliasesMatch[1]}\n` : ''}${pronounsMatch[1] ? `Pronouns: ${pronounsMatch[1]}\n` : ''}${ageMatch[1] ? `Age: ${ageMatch[1]}\n\n` : '\n'}${fullContent.trim()}`;
-            
-            return {
-              name: nameMatch[1] || 'Unknown',
-              description: description
-            };
-          }) || [];
+        // Parse the characters (JSON, or legacy <character> tags)
+        const parsedCharacters = parseCharacters(storyData.characters);
+        const parsedRelationships = parseRelationships(storyData.character_relationships);
 
         setChapters(formattedChapters);
         setCharacters(parsedCharacters);
+        setRelationships(parsedRelationships);
+        setContinuityLedger(parseLedger(storyData.continuity_ledger));
+        setChapterSummaries(parseChapterSummaries(storyData.chapter_summaries));
         setLoading(false);
       } catch (error: any) {
         toast({
@@ -483,10 +529,281 @@ export default function Editor() {
     handleChapterUpdate(updatedChapters);
   };
 
+  // Use a draft from the compare view and keep the others with the chapter
+  const handleDraftChosen = (content: string, unchosen: DraftText[]) => {
+    const updatedChapters = [...chapters];
+    const chapter = updatedChapters[currentChapter];
+    updatedChapters[currentChapter] = {
+      ...chapter,
+      content,
+      completed: isChapterComplete(content),
+      alternates: keepAlternates(chapter.alternates || [], unchosen, content)
+    };
+    handleChapterUpdate(updatedChapters);
+    recordRevision(currentChapter, content, 'draft', chapter.content);
+  };
+
+  const handleRestoreRevision = (content: string) => {
+    const previous = chapters[currentChapter]?.content || '';
+    handleSave(content);
+    recordRevision(currentChapter, content, 'restore', previous);
+  };
+
   const handleFeedback = (feedback: string) => {
     console.log("Feedback received:", feedback);
   };
 
+  // Save an edited outline together with the chapters so beats and written content stay aligned
+  const handleOutlineSave = async (updatedChapters: Chapter[], previousNumbers: Array<number | null>) => {
+    if (!id) return;
+
+    const selectedChapter = chapters[currentChapter];
+    const plotOutline = JSON.stringify(toOutline(updatedChapters));
+    const chapterData = updatedChapters.map(chapter => ({
+      title: chapter.title,
+      content: chapter.content,
+      completed: chapter.completed,
+      alternates: chapter.alternates
+    }));
+    // Continuity entries and summaries are stored by chapter number, so they move with their chapters
+    const updatedLedger = renumberLedger(continuityLedger, previousNumbers);
+    const updatedSummaries = renumberChapterSummaries(chapterSummaries, previousNumbers);
+
+    await storyService.updateStory(id, {
+      plot_outline: plotOutline,
+      chapters: chapterData,
+      continuity_ledger: updatedLedger,
+      chapter_summaries: updatedSummaries
+    });
+
+    // Revisions are stored by chapter number, so move them along with their chapters
+    try {
+      await revisionService.renumberChapters(id, previousNumbers);
+    } catch (error) {
+      console.warn("Failed to move chapter revisions to the new chapter numbers:", (error as Error).message);
+    }
+
+    setStory(prev => prev ? {
+      ...prev,
+      plot_outline: plotOutline,
+      chapters: chapterData,
+      continuity_ledger: updatedLedger,
+      chapter_summaries: updatedSummaries
+    } : prev);
+    setChapters(updatedChapters);
+    setContinuityLedger(updatedLedger);
+    setChapterSummaries(updatedSummaries);
+    // Failed extractions were recorded by the old chapter numbers
+    failedExtractionsRef.current.clear();
+    saveToLocalStorage(updatedChapters);
+    setSaveState(prev => ({
+      ...prev,
+      lastSavedContent: JSON.stringify(updatedChapters),
+      lastSavedTimestamp: Date.now(),
+      pendingChanges: false,
+      error: null,
+      retryCount: 0
+    }));
+
+    // Keep the writing area on the chapter that was open, wherever it moved to
+    const newIndex = updatedChapters.findIndex(chapter =>
+      chapter.content === selectedChapter?.content && chapter.sceneBeat === selectedChapter?.sceneBeat
+    );
+    setCurrentChapter(newIndex === -1 ? Math.min(currentChapter, updatedChapters.length - 1) : newIndex);
+
+    toast({
+      title: "Outline saved",
+      description: `${updatedChapters.length} chapters`,
+      duration: 3000,
+    });
+  };
+
+  const handleCharactersSave = async (updatedCharacters: Character[]) => {
+    if (!id) return;
+
+    const characterData = JSON.stringify(updatedCharacters);
+    await storyService.updateStory(id, { characters: characterData });
+    setStory(prev => prev ? { ...prev, characters: characterData } : prev);
+    setCharacters(updatedCharacters);
+
+    toast({
+      title: "Characters saved",
+      duration: 3000,
+    });
+  };
+
+  const handleRelationshipsSave = async (updatedRelationships: CharacterRelationship[]) => {
+    if (!id) return;
+
+    await storyService.updateStory(id, { character_relationships: updatedRelationships });
+    setStory(prev => prev ? { ...prev, character_relationships: updatedRelationships } : prev);
+    setRelationships(updatedRelationships);
+
+    toast({
+      title: "Relationships saved",
+      duration: 3000,
+    });
+  };
+
+  const handleContinuitySave = async (updatedLedger: ContinuityLedger) => {
+    if (!id) return;
+
+    await storyService.updateStory(id, { continuity_ledger: updatedLedger });
+    setStory(prev => prev ? { ...prev, continuity_ledger: updatedLedger } : prev);
+    setContinuityLedger(updatedLedger);
+
+    toast({
+      title: "Continuity ledger saved",
+      duration: 3000,
+    });
+  };
+
+  // Extract continuity details from a chapter and save them into the ledger
+  const extractContinuity = useCallback(async (chapterNumber: number) => {
+    const chapter = chapters[chapterNumber - 1];
+    if (!id || !chapter?.content.trim()) return;
+
+    setExtractingChapter(chapterNumber);
+    try {
+      const updatedLedger = await storyService.extractContinuity(
+        chapter.content,
+        chapterNumber,
+        continuityLedger,
+        formatCharactersForPrompt(characters, relationships)
+      );
+      await storyService.updateStory(id, { continuity_ledger: updatedLedger });
+      setStory(prev => prev ? { ...prev, continuity_ledger: updatedLedger } : prev);
+      setContinuityLedger(updatedLedger);
+      failedExtractionsRef.current.delete(chapterNumber);
+    } finally {
+      setExtractingChapter(null);
+    }
+  }, [id, chapters, continuityLedger, characters, relationships, storyService]);
+
+  // Automatically extract completed chapters that aren't in the ledger yet. Waits until the
+  // chapter has stopped changing, and pauses while the ledger is open for editing.
+  useEffect(() => {
+    if (loading || extractingChapter !== null || showContinuity) return;
+
+    const index = chapters.findIndex((chapter, i) =>
+      chapter.completed &&
+      chapter.content.trim() &&
+      !continuityLedger.extracted_chapters.includes(i + 1) &&
+      !failedExtractionsRef.current.has(i + 1)
+    );
+    if (index === -1) return;
+
+    const timeout = setTimeout(() => {
+      extractContinuity(index + 1).catch(error => {
+        console.error('Error extracting continuity:', error);
+        failedExtractionsRef.current.add(index + 1);
+        toast({
+          title: "Continuity extraction failed",
+          description: `Chapter ${index + 1}: ${(error as Error).message}. You can retry from the Continuity panel.`,
+          variant: "destructive",
+        });
+      });
+    }, AUTO_PROCESS_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [loading, chapters, continuityLedger, extractingChapter, showContinuity, extractContinuity, toast]);
+
+  // Keep the rolling chapter summaries up to date. A completed chapter is summarised once it
+  // has stopped changing, and again whenever its content changes afterwards.
+  useEffect(() => {
+    if (loading || !id || summarizingChapter !== null) return;
+
+    const chapterNumber = findChaptersToSummarize(chapters, chapterSummaries).find(number =>
+      !failedSummariesRef.current.has(`${number}:${hashContent(chapters[number - 1].content)}`)
+    );
+    if (chapterNumber === undefined) return;
+
+    const content = chapters[chapterNumber - 1].content;
+    const timeout = setTimeout(async () => {
+      setSummarizingChapter(chapterNumber);
+      try {
+        const summary = await storyService.summarizeChapter(content, chapterNumber);
+        const updatedSummaries = upsertChapterSummary(chapterSummaries, summary);
+        await storyService.updateStory(id, { chapter_summaries: updatedSummaries });
+        setStory(prev => prev ? { ...prev, chapter_summaries: updatedSummaries } : prev);
+        setChapterSummaries(updatedSummaries);
+      } catch (error) {
+        console.error('Error summarising chapter:', error);
+        failedSummariesRef.current.add(`${chapterNumber}:${hashContent(content)}`);
+      } finally {
+        setSummarizingChapter(null);
+      }
+    }, AUTO_PROCESS_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [loading, id, chapters, chapterSummaries, summarizingChapter, storyService]);
+
+  // Fetch the story's source posts once. Posts that were deleted or can't be reached are skipped.
+  const sourcePosts = story?.source_posts;
+  useEffect(() => {
+    const refs = Array.isArray(sourcePosts) ? sourcePosts as RedditSourceRef[] : [];
+    if (refs.length === 0) {
+      setSourceTexts([]);
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all(refs.map(ref => getPostByPermalink(ref.permalink)
+      .then(post => post.selftext)
+      .catch(error => {
+        console.warn(`Failed to load source post "${ref.title}":`, (error as Error).message);
+        return '';
+      })
+    )).then(texts => {
+      if (!cancelled) setSourceTexts(texts.filter(Boolean));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sourcePosts]);
+
+  const chapterContent = chapters[currentChapter]?.content || '';
+  const chapterSimilarity = useMemo(
+    () => sourceTexts.length && chapterContent.trim() ? checkSimilarity(sourceTexts, chapterContent) : null,
+    [sourceTexts, chapterContent]
+  );
+
+  const autopilot = useAutopilot({
+    storyId: id,
+    chapters,
+    characters: formatCharactersForPrompt(characters, relationships),
+    continuity: formatLedgerForPrompt(continuityLedger),
+    summaries: chapterSummaries,
+    storyProfile: story?.story_profile,
+    ready: !loading && !!story,
+    onChapterStart: setCurrentChapter,
+    onChapterProgress: (index, content) => {
+      setChapters(prev => prev.map((chapter, i) => i === index ? { ...chapter, content } : chapter));
+    },
+    onChapterWritten: async (index, content, previous) => {
+      const updatedChapters = chapters.map((chapter, i) => i === index ? { ...chapter, content, completed: true } : chapter);
+      handleChapterUpdate(updatedChapters);
+      await saveToDatabase(updatedChapters);
+      await recordRevision(index, content, 'autopilot', previous);
+    }
+  });
+  const autopilotRunning = autopilot.state?.status === 'running';
+
+  // Save hand edits to the chapter history once typing pauses. The service only keeps one every few minutes.
+  useEffect(() => {
+    if (loading || !id || !story || autopilotRunning || !chapterContent.trim()) return;
+
+    const userId = story.user_id;
+    const timeout = setTimeout(() => {
+      revisionService.saveManualEdit(userId, id, currentChapter + 1, chapterContent).catch(error => {
+        console.warn('Failed to save a chapter revision:', (error as Error).message);
+      });
+    }, AUTO_PROCESS_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [loading, id, story, autopilotRunning, currentChapter, chapterContent]);
+
   const handleFinishStory = async () => {
     try {
       // Save one final time
@@ -518,17 +835,41 @@ export default function Editor() {
           onChapterSelect={setCurrentChapter}
           onSignOut={handleSignOut}
           onFinishStory={handleFinishStory}
+          onEditOutline={() => setShowOutlineEditor(true)}
+          onShowRelationships={() => setShowRelationships(true)}
+          onShowContinuity={() => setShowContinuity(true)}
         />
         <main className="flex-1 overflow-auto">
           <div className="editor-container">
+            <AutopilotPanel
+              state={autopilot.state}
+              progress={autopilot.progress}
+              chapterCount={chapters.length}
+              remaining={chapters.filter(chapter => !chapter.completed).length}
+              onStart={autopilot.start}
+              onPause={autopilot.pause}
+              onResume={autopilot.resume}
+              onStop={autopilot.stop}
+              className="mb-4"
+            />
+            {chapterSimilarity && (
+              <SimilarityWarning report={chapterSimilarity} subject="this chapter" className="mb-4" />
+            )}
             <WritingArea
               chapter={chapters[currentChapter]}
               chapters={chapters}
-              characters={story?.characters || ""}
+              characters={formatCharactersForPrompt(characters, relationships)}
+              continuity={formatLedgerForPrompt(continuityLedger)}
+              summaries={chapterSummaries}
+              storyProfile={story?.story_profile}
               onSave={handleSave}
               onComplete={handleComplete}
               onFeedback={handleFeedback}
               onShowCharacters={() => setShowCharacters(true)}
+              onDraftChosen={handleDraftChosen}
+              onRevision={(content, source, previous) => recordRevision(currentChapter, content, source, previous)}
+              onShowHistory={() => setShowHistory(true)}
+              locked={autopilotRunning}
             />
           </div>
         </main>
@@ -536,7 +877,42 @@ export default function Editor() {
           isOpen={showCharacters}
           onClose={() => setShowCharacters(false)}
           characters={characters}
+          onSave={handleCharactersSave}
+        />
+        <RelationshipGraphModal
+          isOpen={showRelationships}
+          onClose={() => setShowRelationships(false)}
+          characters={characters}
+          relationships={relationships}
+          onSave={handleRelationshipsSave}
+        />
+        <ContinuityLedgerModal
+          isOpen={showContinuity}
+          onClose={() => setShowContinuity(false)}
+          ledger={continuityLedger}
+          chapterCount={chapters.length}
+          extractingChapter={extractingChapter}
+          onExtract={extractContinuity}
+          onSave={handleContinuitySave}
+        />
+        <OutlineEditorModal
+          isOpen={showOutlineEditor}
+          onClose={() => setShowOutlineEditor(false)}
+          chapters={chapters}
+          storyIdea={story?.story_idea || ""}
+          onSave={handleOutlineSave}
         />
+        {id && (
+          <RevisionHistoryDrawer
+            isOpen={showHistory}
+            onClose={() => setShowHistory(false)}
+            storyId={id}
+            chapterNumber={currentChapter + 1}
+            chapterTitle={chapters[currentChapter]?.title || 'Chapter'}
+            currentContent={chapterContent}
+            onRestore={handleRestoreRevision}
+          />
+        )}
         <ExportModal
           isOpen={showExportModal}
           onClose={() => setShowExportModal(false)}
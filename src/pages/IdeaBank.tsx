@@ -0,0 +1,226 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, Lightbulb, Search } from "lucide-react";
+import { useAuth } from "@/components/AuthProvider";
+import { IdeaCard } from "@/components/IdeaCard";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useStoryService } from "@/hooks/use-story-service";
+import { useToast } from "@/hooks/use-toast";
+import { collectTags, filterIdeas } from "@/lib/idea-bank";
+import { listStoryProfiles } from "@/lib/story-profiles";
+import { ideaBankService, type BankedIdeaUpdate } from "@/services/IdeaBankService";
+import { storyProfileService } from "@/services/StoryProfileService";
+import { setDocumentTitle } from "@/utils/document";
+import type { BankedIdea, StoryIdeaSource } from "@/types/idea";
+import type { StoryProfile } from "@/types/story";
+
+const ALL = "all";
+
+export default function IdeaBank() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const storyService = useStoryService();
+  const [ideas, setIdeas] = useState<BankedIdea[]>([]);
+  const [profiles, setProfiles] = useState<StoryProfile[]>(listStoryProfiles);
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState("");
+  const [source, setSource] = useState<StoryIdeaSource | typeof ALL>(ALL);
+  const [profile, setProfile] = useState(ALL);
+  const [minRating, setMinRating] = useState(0);
+  const [tags, setTags] = useState<string[]>([]);
+  const [unusedOnly, setUnusedOnly] = useState(false);
+  const [creatingId, setCreatingId] = useState<string | null>(null);
+
+  const showError = (error: unknown, fallback: string) => {
+    console.error(fallback, error);
+    toast({
+      title: "Error",
+      description: (error as Error).message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  useEffect(() => {
+    setDocumentTitle("Idea Bank");
+    if (!user) return;
+
+    ideaBankService.getIdeas(user.id, true)
+      .then(setIdeas)
+      .catch(error => showError(error, "Failed to load your story ideas"))
+      .finally(() => setLoading(false));
+    storyProfileService.getProfiles(user.id)
+      .then(() => setProfiles(listStoryProfiles()))
+      .catch(error => console.warn("Failed to load your story profiles:", (error as Error).message));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user]);
+
+  if (!user) return null;
+
+  const visibleIdeas = filterIdeas(ideas, {
+    query,
+    source: source === ALL ? undefined : source,
+    profile: profile === ALL ? undefined : profile,
+    tags,
+    minRating,
+    unusedOnly
+  });
+  const allTags = collectTags(ideas);
+
+  const toggleTag = (tag: string) => {
+    setTags(prev => prev.includes(tag) ? prev.filter(item => item !== tag) : [...prev, tag]);
+  };
+
+  const updateIdea = async (ideaId: string, updates: BankedIdeaUpdate) => {
+    try {
+      const updated = await ideaBankService.updateIdea(user.id, ideaId, updates);
+      setIdeas(prev => prev.map(idea => idea.id === updated.id ? updated : idea));
+    } catch (error) {
+      showError(error, "Failed to update the story idea");
+    }
+  };
+
+  const deleteIdea = async (idea: BankedIdea) => {
+    if (!window.confirm("Delete this idea from your idea bank?")) return;
+    try {
+      await ideaBankService.deleteIdea(user.id, idea.id);
+      setIdeas(prev => prev.filter(item => item.id !== idea.id));
+    } catch (error) {
+      showError(error, "Failed to delete the story idea");
+    }
+  };
+
+  const createStory = async (idea: BankedIdea) => {
+    setCreatingId(idea.id);
+    try {
+      const storyId = await storyService.createStoryFromCustomIdea(idea.idea, undefined, idea.story_profile, idea.source_posts);
+      await updateIdea(idea.id, { story_id: storyId });
+      navigate(`/editor/${storyId}`);
+    } catch (error) {
+      showError(error, "Failed to create a story from the idea");
+    } finally {
+      setCreatingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-secondary/30">
+      <header className="sticky top-0 z-50 w-full">
+        <div className="w-full px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => navigate("/")}
+              className="mr-2"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <h1 className="text-2xl font-bold flex items-center gap-2">
+              <Lightbulb className="h-6 w-6" />
+              Idea Bank
+            </h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-6 py-6 space-y-6">
+        <div className="bg-muted rounded-lg p-4 shadow-sm space-y-4">
+          <div className="relative">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search ideas, summaries and tags"
+              className="pl-8"
+            />
+          </div>
+          <div className="grid gap-3 sm:grid-cols-3">
+            <Select value={source} onValueChange={(value) => setSource(value as StoryIdeaSource | typeof ALL)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All sources</SelectItem>
+                <SelectItem value="reddit">Reddit</SelectItem>
+                <SelectItem value="fine-tune">Fine-tune</SelectItem>
+                <SelectItem value="custom">Custom</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={profile} onValueChange={setProfile}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All profiles</SelectItem>
+                {profiles.map(item => (
+                  <SelectItem key={item.name} value={item.name}>{item.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={String(minRating)} onValueChange={(value) => setMinRating(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="0">Any rating</SelectItem>
+                {[1, 2, 3, 4, 5].map(rating => (
+                  <SelectItem key={rating} value={String(rating)}>{rating}+ stars</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex flex-wrap gap-2">
+              {allTags.map(tag => (
+                <Badge
+                  key={tag}
+                  variant={tags.includes(tag) ? "default" : "outline"}
+                  className="cursor-pointer"
+                  onClick={() => toggleTag(tag)}
+                >
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="unused-ideas" checked={unusedOnly} onCheckedChange={setUnusedOnly} />
+              <Label htmlFor="unused-ideas" className="text-sm">Only ideas without a story</Label>
+            </div>
+          </div>
+        </div>
+
+        {loading ? (
+          <p className="text-center text-muted-foreground">Loading ideas...</p>
+        ) : visibleIdeas.length === 0 ? (
+          <p className="text-center text-muted-foreground">
+            {ideas.length === 0
+              ? "Ideas you generate are saved here, even if you don't turn them into a story."
+              : "No ideas match these filters."}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {visibleIdeas.map(idea => (
+              <IdeaCard
+                key={idea.id}
+                idea={idea}
+                creating={creatingId === idea.id}
+                onRate={(rating) => updateIdea(idea.id, { rating })}
+                onTagsChange={(tags) => updateIdea(idea.id, { tags })}
+                onTagClick={toggleTag}
+                onCreateStory={() => createStory(idea)}
+                onOpenStory={() => navigate(`/editor/${idea.story_id}`)}
+                onDelete={() => deleteIdea(idea)}
+              />
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
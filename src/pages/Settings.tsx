@@ -6,7 +6,11 @@ import { Settings as SettingsIcon, ArrowLeft } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { ProfileSettings } from "@/components/settings/ProfileSettings";
 import { AISettings } from "@/components/settings/AISettings";
+import { PromptTemplateSettings } from "@/components/settings/PromptTemplateSettings";
+import { StoryProfileSettings } from "@/components/settings/StoryProfileSettings";
 import type { UserSettings } from "@/types/settings";
+import type { MockScenario, ModelRoutingTable, ProviderId } from "@/types/llm";
+import { getDefaultProviderId } from "@/integrations/llm/registry";
 import { userSettingsService } from "@/services/UserSettingsService";
 import { setDocumentTitle } from "@/utils/document";
 import { motion } from "framer-motion";
@@ -24,6 +28,12 @@ export default function Settings() {
   const [rewriteModel, setRewriteModel] = useState("");
   const [storyGenerationModel, setStoryGenerationModel] = useState("");
   const [useOpenAIForStoryGen, setUseOpenAIForStoryGen] = useState(false);
+  const [llmProvider, setLlmProvider] = useState<ProviderId>("openrouter");
+  const [anthropicKey, setAnthropicKey] = useState("");
+  const [compatibleBaseUrl, setCompatibleBaseUrl] = useState("");
+  const [compatibleApiKey, setCompatibleApiKey] = useState("");
+  const [modelRouting, setModelRouting] = useState<ModelRoutingTable>({});
+  const [mockScenario, setMockScenario] = useState<MockScenario>("default");
   const [elevenLabsKey, setElevenLabsKey] = useState("");
   const [elevenLabsModel, setElevenLabsModel] = useState("");
   const [elevenLabsVoiceId, setElevenLabsVoiceId] = useState("");
@@ -37,6 +47,7 @@ export default function Settings() {
   // Add state for chapter range
   const [minChapters, setMinChapters] = useState<number>(5); 
   const [maxChapters, setMaxChapters] = useState<number>(7);
+  const [autoRewriteSimilar, setAutoRewriteSimilar] = useState(false);
 
   useEffect(() => {
     setDocumentTitle("Settings");
@@ -69,6 +80,12 @@ export default function Settings() {
         // If it's missing or invalid for OpenAI, set a default
         const useOpenAI = settings.use_openai_for_story_gen || false;
         setUseOpenAIForStoryGen(useOpenAI);
+        setLlmProvider(getDefaultProviderId(settings));
+        setAnthropicKey(settings.anthropic_key || "");
+        setCompatibleBaseUrl(settings.compatible_base_url || "");
+        setCompatibleApiKey(settings.compatible_api_key || "");
+        setModelRouting(settings.model_routing || {});
+        setMockScenario(settings.mock_scenario || "default");
         
         // Ensure we have a valid model for the current provider
         let storyModel = settings.story_generation_model || "";
@@ -78,7 +95,7 @@ export default function Settings() {
           if (!storyModel || !storyModel.startsWith('gpt-')) {
             storyModel = defaultOpenAIStoryModel;
           }
-        } else {
+        } else if (getDefaultProviderId(settings) === 'openrouter') {
           // If using OpenRouter but the model doesn't have a provider prefix, use default
           if (!storyModel || !storyModel.includes('/')) {
             storyModel = settings.openrouter_model || defaultOpenRouterStoryModel;
@@ -102,6 +119,7 @@ export default function Settings() {
         // Load chapter range settings
         setMinChapters(settings.min_chapters ?? 5); 
         setMaxChapters(settings.max_chapters ?? 7);
+        setAutoRewriteSimilar(settings.auto_rewrite_similar ?? false);
 
       } catch (error: any) {
         console.error("Error loading settings:", error);
@@ -181,6 +199,12 @@ export default function Settings() {
               rewriteModel={rewriteModel}
               storyGenerationModel={storyGenerationModel}
               useOpenAIForStoryGen={useOpenAIForStoryGen}
+              llmProvider={llmProvider}
+              anthropicKey={anthropicKey}
+              compatibleBaseUrl={compatibleBaseUrl}
+              compatibleApiKey={compatibleApiKey}
+              modelRouting={modelRouting}
+              mockScenario={mockScenario}
               elevenLabsKey={elevenLabsKey}
               elevenLabsModel={elevenLabsModel}
               elevenLabsVoiceId={elevenLabsVoiceId}
@@ -191,6 +215,7 @@ export default function Settings() {
               voiceSpeakerBoost={voiceSpeakerBoost}
               minChapters={minChapters}
               maxChapters={maxChapters}
+              autoRewriteSimilar={autoRewriteSimilar}
               onOpenAIKeyChange={setOpenAIKey}
               onOpenaiKeyChange={setOpenaiKey}
               onOpenAIModelChange={setOpenAIModel}
@@ -200,6 +225,12 @@ export default function Settings() {
               onRewriteModelChange={setRewriteModel}
               onStoryGenerationModelChange={setStoryGenerationModel}
               onUseOpenAIForStoryGenChange={setUseOpenAIForStoryGen}
+              onLlmProviderChange={setLlmProvider}
+              onAnthropicKeyChange={setAnthropicKey}
+              onCompatibleBaseUrlChange={setCompatibleBaseUrl}
+              onCompatibleApiKeyChange={setCompatibleApiKey}
+              onModelRoutingChange={setModelRouting}
+              onMockScenarioChange={setMockScenario}
               onElevenLabsKeyChange={setElevenLabsKey}
               onElevenLabsModelChange={setElevenLabsModel}
               onElevenLabsVoiceIdChange={setElevenLabsVoiceId}
@@ -210,8 +241,27 @@ export default function Settings() {
               onVoiceSpeakerBoostChange={setVoiceSpeakerBoost}
               onMinChaptersChange={setMinChapters}
               onMaxChaptersChange={setMaxChapters}
+              onAutoRewriteSimilarChange={setAutoRewriteSimilar}
             />
           </motion.div>
+
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.3, delay: 0.2 }}
+            className="bg-muted rounded-lg p-6 shadow-sm"
+          >
+            <StoryProfileSettings userId={user.id} />
+          </motion.div>
+
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.3, delay: 0.3 }}
+            className="bg-muted rounded-lg p-6 shadow-sm"
+          >
+            <PromptTemplateSettings userId={user.id} />
+          </motion.div>
         </div>
       </main>
     </div>
@@ -23,6 +23,11 @@ import { BookOpen, BookCopy } from "lucide-react";
 import { setDocumentTitle } from "@/utils/document";
 import { StorySourceSelectionModal, StorySource } from "@/components/StorySourceSelectionModal";
 import { CustomStoryIdeaModal } from "@/components/CustomStoryIdeaModal";
+import { RedditPostBrowserModal } from "@/components/RedditPostBrowserModal";
+import { BatchGenerationDialog } from "@/components/BatchGenerationDialog";
+import { BatchQueuePanel } from "@/components/BatchQueuePanel";
+import { useBatchQueue } from "@/hooks/use-batch-queue";
+import type { RedditPost } from "@/integrations/reddit/client";
 import { AnimatePresence, motion } from "framer-motion";
 
 export default function Stories() {
@@ -40,14 +45,20 @@ export default function Stories() {
   const [seriesForAddStory, setSeriesForAddStory] = useState<Series | null>(null);
   const [isSourceSelectionOpen, setIsSourceSelectionOpen] = useState(false);
   const [selectedSource, setSelectedSource] = useState<StorySource | null>(null);
+  const [selectedProfile, setSelectedProfile] = useState<string | undefined>(undefined);
   const [isCustomIdeaModalOpen, setIsCustomIdeaModalOpen] = useState(false);
   const [customStoryIdea, setCustomStoryIdea] = useState<string>("");
+  const [isPostBrowserOpen, setIsPostBrowserOpen] = useState(false);
+  const [selectedPosts, setSelectedPosts] = useState<RedditPost[]>([]);
   const [previousTab, setPreviousTab] = useState<string | null>(null);
+  const [isBatchDialogOpen, setIsBatchDialogOpen] = useState(false);
   const isMounted = useRef(false);
   const navigate = useNavigate();
   const { toast } = useToast();
   const storyService = useStoryService();
   const seriesService = useSeriesService();
+  const { jobs: batchJobs, queue: batchQueue } = useBatchQueue();
+  const finishedBatchJobs = batchJobs.filter(job => job.status === "done").length;
 
   useEffect(() => {
     // Set document title
@@ -86,6 +97,14 @@ export default function Stories() {
     };
   }, [navigate]);
 
+  // Show stories as the batch queue saves them
+  useEffect(() => {
+    if (finishedBatchJobs > 0) {
+      fetchData(true);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [finishedBatchJobs]);
+
   const fetchData = async (forceRefresh: boolean = false) => {
     if (!isMounted.current) return;
 
@@ -154,13 +173,17 @@ export default function Stories() {
     }
   };
 
-  const handleSourceSelection = (source: StorySource) => {
+  const handleSourceSelection = (source: StorySource, profileName: string) => {
     setSelectedSource(source);
+    setSelectedProfile(profileName);
     setIsSourceSelectionOpen(false);
     
     if (source === 'custom') {
       // Open the custom idea modal
       setIsCustomIdeaModalOpen(true);
+    } else if (source === 'reddit-pick') {
+      // Let the user choose the posts before generating
+      setIsPostBrowserOpen(true);
     } else {
       // Start generating with the selected source
       setIsGenerating(true);
@@ -175,6 +198,13 @@ export default function Stories() {
     setIsGenerating(true);
   };
 
+  const handlePostSelection = (posts: RedditPost[]) => {
+    setIsPostBrowserOpen(false);
+    setSelectedPosts(posts);
+    setSelectedSource('reddit');
+    setIsGenerating(true);
+  };
+
   const handleCreateSeries = async (title: string, description: string) => {
     try {
       await seriesService.createSeries(title, description);
@@ -483,6 +513,13 @@ export default function Stories() {
         onClose={() => setIsCustomIdeaModalOpen(false)}
         onSubmit={handleCustomIdeaSubmit}
       />
+
+      <RedditPostBrowserModal
+        open={isPostBrowserOpen}
+        onClose={() => setIsPostBrowserOpen(false)}
+        onSubmit={handlePostSelection}
+        profileName={selectedProfile}
+      />
       
       <StoryGenerationModal 
         open={isGenerating} 
@@ -491,9 +528,12 @@ export default function Stories() {
           setIsGenerating(false);
           setSelectedSource(null);
           setCustomStoryIdea("");
+          setSelectedPosts([]);
         }}
         source={selectedSource as 'reddit' | 'fine-tune' | 'custom'}
         customIdea={customStoryIdea}
+        redditPosts={selectedPosts}
+        profileName={selectedProfile}
       />
       
       <SequelGenerationModal
@@ -537,12 +577,30 @@ export default function Stories() {
         onConfirm={handleConfirmSequel}
       />
 
+      <BatchGenerationDialog
+        open={isBatchDialogOpen}
+        onClose={() => setIsBatchDialogOpen(false)}
+        onSubmit={(count, profileName, source) => {
+          batchQueue.enqueue(count, profileName, source);
+          setIsBatchDialogOpen(false);
+        }}
+      />
+
       <StoriesHeader
         onCreateStory={handleCreateStory}
+        onBatchCreate={() => setIsBatchDialogOpen(true)}
         onSignOut={handleSignOut}
       />
 
       <main className="max-w-4xl mx-auto px-6 py-6">
+        <BatchQueuePanel
+          jobs={batchJobs}
+          onCancel={(jobId) => batchQueue.cancel(jobId)}
+          onRetry={(jobId) => batchQueue.retry(jobId)}
+          onOpenStory={(storyId) => navigate(`/editor/${storyId}`)}
+          onClearFinished={() => batchQueue.clearFinished()}
+        />
+
         <Tabs 
           defaultValue="stories" 
           value={activeTab}
@@ -0,0 +1,217 @@
+import { toSourceRef } from "@/integrations/reddit/client";
+import {
+  BATCH_CONCURRENCY,
+  MAX_STEP_ATTEMPTS,
+  createBatchJobs,
+  nextBatchStep,
+  parseStoredQueue,
+  pickRunnableJobs,
+  retryBatchJob,
+  updateBatchJob
+} from "@/lib/batch-queue";
+import { ideaBankService } from "./IdeaBankService";
+import { storyService } from "./StoryService";
+import type { BatchJob, BatchJobStep } from "@/types/batch";
+
+const FAILED_IDEA = "Failed to generate story idea";
+
+type Listener = (jobs: BatchJob[]) => void;
+
+// Runs queued story creations in the background, a few at a time. The queue is saved to
+// localStorage so it carries on after a page reload.
+export class BatchGenerationService {
+  private static instance: BatchGenerationService;
+  private userId: string | null = null;
+  private jobs: BatchJob[] = [];
+  private listeners: Set<Listener> = new Set();
+  private controllers: Map<string, AbortController> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): BatchGenerationService {
+    if (!BatchGenerationService.instance) {
+      BatchGenerationService.instance = new BatchGenerationService();
+    }
+    return BatchGenerationService.instance;
+  }
+
+  private storageKey(userId: string) {
+    return `story_batch_queue_${userId}`;
+  }
+
+  // Load the user's saved queue and resume it
+  public setUserId(userId: string) {
+    if (this.userId === userId) return;
+    this.controllers.forEach(controller => controller.abort());
+    this.controllers.clear();
+    this.userId = userId;
+    this.jobs = parseStoredQueue(localStorage.getItem(this.storageKey(userId)));
+    this.emit();
+    this.runNext();
+  }
+
+  public getJobs(): BatchJob[] {
+    return this.jobs;
+  }
+
+  public subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public enqueue(count: number, profile: string, source: BatchJob["source"]) {
+    this.setJobs([...this.jobs, ...createBatchJobs(count, profile, source)]);
+    this.runNext();
+  }
+
+  public cancel(jobId: string) {
+    const job = this.jobs.find(item => item.id === jobId);
+    if (!job || (job.status !== "queued" && job.status !== "running")) return;
+    this.controllers.get(jobId)?.abort();
+    this.update(jobId, { status: "cancelled" });
+  }
+
+  public retry(jobId: string) {
+    const job = this.jobs.find(item => item.id === jobId);
+    if (!job || (job.status !== "failed" && job.status !== "cancelled")) return;
+    this.setJobs(this.jobs.map(item => item.id === jobId ? retryBatchJob(item) : item));
+    this.runNext();
+  }
+
+  // Remove finished, failed and cancelled jobs from the list
+  public clearFinished() {
+    this.setJobs(this.jobs.filter(job => job.status === "queued" || job.status === "running"));
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener(this.jobs));
+  }
+
+  private setJobs(jobs: BatchJob[]) {
+    this.jobs = jobs;
+    if (this.userId) {
+      try {
+        localStorage.setItem(this.storageKey(this.userId), JSON.stringify(jobs));
+      } catch (error) {
+        console.warn("Failed to save the batch queue:", (error as Error).message);
+      }
+    }
+    this.emit();
+  }
+
+  private update(jobId: string, changes: Partial<BatchJob>) {
+    this.setJobs(updateBatchJob(this.jobs, jobId, changes));
+  }
+
+  private runNext() {
+    for (const job of pickRunnableJobs(this.jobs, BATCH_CONCURRENCY)) {
+      this.update(job.id, { status: "running" });
+      this.runJob(job.id);
+    }
+  }
+
+  private async runJob(jobId: string) {
+    const userId = this.userId;
+    const controller = new AbortController();
+    this.controllers.set(jobId, controller);
+
+    try {
+      let job = this.jobs.find(item => item.id === jobId);
+      while (job && job.status === "running") {
+        try {
+          const changes = await this.runStep(job, controller.signal);
+          if (controller.signal.aborted || this.userId !== userId) return;
+
+          const step = nextBatchStep(job.step);
+          this.update(jobId, step
+            ? { ...changes, step, attempts: 0 }
+            : { ...changes, status: "done", attempts: 0 });
+        } catch (error) {
+          if (controller.signal.aborted || this.userId !== userId) return;
+
+          const attempts = job.attempts + 1;
+          console.error(`Batch job ${jobId} failed at the ${job.step} step (attempt ${attempts}):`, error);
+          this.update(jobId, attempts < MAX_STEP_ATTEMPTS
+            ? { attempts, error: (error as Error).message }
+            : { attempts, error: (error as Error).message, status: "failed" });
+          if (attempts < MAX_STEP_ATTEMPTS) {
+            // Back off before trying the step again
+            await new Promise(resolve => setTimeout(resolve, 2000 * attempts));
+          }
+        }
+        job = this.jobs.find(item => item.id === jobId);
+      }
+    } finally {
+      // A retried job may already be running again with a new controller
+      if (this.controllers.get(jobId) === controller) {
+        this.controllers.delete(jobId);
+      }
+      if (this.userId === userId) {
+        this.runNext();
+      }
+    }
+  }
+
+  // Run the job's current step and return what it produced
+  private async runStep(job: BatchJob, signal: AbortSignal): Promise<Partial<BatchJob>> {
+    const steps: Record<BatchJobStep, () => Promise<Partial<BatchJob>>> = {
+      idea: async () => {
+        const { idea, ideaSource } = await storyService.generateStoryIdeaWithSource(signal, job.source, job.profile);
+        if (!idea || idea === FAILED_IDEA) {
+          throw new Error(FAILED_IDEA);
+        }
+        const source_posts = ideaSource ? ideaSource.posts.map(toSourceRef) : [];
+        return { idea, source_posts, banked_idea_id: await this.bankIdea(job, idea, ideaSource ? "reddit" : "fine-tune", source_posts) };
+      },
+      title: async () => ({ title: await storyService.createTitle(job.idea!, signal, job.profile) }),
+      outline: async () => {
+        const outline = await storyService.createOutline(job.idea!, signal, job.profile);
+        if (!outline) {
+          throw new Error("Failed to create outline");
+        }
+        return { outline };
+      },
+      characters: async () => {
+        const characters = await storyService.generateCharacters(job.outline!, signal);
+        if (!characters) {
+          throw new Error("Failed to generate characters");
+        }
+        return { characters };
+      },
+      save: async () => {
+        const storyId = await storyService.saveStory({
+          title: job.title,
+          story_idea: job.idea,
+          story_profile: job.profile,
+          source_posts: job.source_posts || [],
+          plot_outline: JSON.stringify(job.outline),
+          characters: job.characters
+        });
+        if (job.banked_idea_id && this.userId) {
+          ideaBankService.updateIdea(this.userId, job.banked_idea_id, { story_id: storyId }).catch(error => {
+            console.warn("Failed to update the idea bank:", (error as Error).message);
+          });
+        }
+        return { story_id: storyId };
+      }
+    };
+    return steps[job.step]();
+  }
+
+  // Keep the generated idea in the idea bank, like ideas from the story generation modal
+  private async bankIdea(job: BatchJob, idea: string, source: "reddit" | "fine-tune", source_posts: BatchJob["source_posts"]) {
+    if (!this.userId) return undefined;
+    try {
+      const banked = await ideaBankService.saveIdea(this.userId, { idea, summary: "", source, story_profile: job.profile, source_posts });
+      return banked.id;
+    } catch (error) {
+      console.warn("Failed to save the story idea to the idea bank:", (error as Error).message);
+      return undefined;
+    }
+  }
+}
+
+// Export a singleton instance
+export const batchGenerationService = BatchGenerationService.getInstance();
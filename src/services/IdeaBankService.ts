@@ -0,0 +1,150 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { normalizeBankedIdea } from "@/lib/idea-bank";
+import type { BankedIdea } from "@/types/idea";
+
+const IDEA_COLUMNS = "id, idea, summary, source, story_profile, source_posts, tags, rating, story_id, created_at";
+
+export type NewBankedIdea = Pick<BankedIdea, "idea" | "summary" | "source" | "story_profile"> & Partial<Pick<BankedIdea, "source_posts" | "tags">>;
+
+export type BankedIdeaUpdate = Partial<Pick<BankedIdea, "idea" | "summary" | "tags" | "rating" | "story_id">>;
+
+const fromRow = (row: Record<string, unknown>) => normalizeBankedIdea(row as Partial<BankedIdea> & { id: string; idea: string });
+
+interface CachedIdeas {
+  ideas: BankedIdea[];
+  timestamp: number;
+}
+
+export class IdeaBankService {
+  private static instance: IdeaBankService;
+  private cache: Map<string, CachedIdeas>;
+  private TTL = 1000 * 60 * 5;
+
+  private constructor() {
+    this.cache = new Map();
+  }
+
+  public static getInstance(): IdeaBankService {
+    if (!IdeaBankService.instance) {
+      IdeaBankService.instance = new IdeaBankService();
+    }
+    return IdeaBankService.instance;
+  }
+
+  private isCacheValid(userId: string): boolean {
+    const cached = this.cache.get(userId);
+    if (!cached) return false;
+    return Date.now() - cached.timestamp < this.TTL;
+  }
+
+  // Replace or add an idea in the user's cached ideas
+  private updateCached(userId: string, idea: BankedIdea) {
+    const cached = this.cache.get(userId);
+    if (cached) {
+      this.cache.set(userId, {
+        ideas: [idea, ...cached.ideas.filter(item => item.id !== idea.id)],
+        timestamp: cached.timestamp
+      });
+    }
+  }
+
+  // Load every idea in the user's idea bank
+  public async getIdeas(userId: string, forceRefresh: boolean = false): Promise<BankedIdea[]> {
+    if (!forceRefresh && this.isCacheValid(userId)) {
+      return this.cache.get(userId)!.ideas;
+    }
+
+    const { data, error } = await supabase
+      .from("story_ideas")
+      .select(IDEA_COLUMNS)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching story ideas:", error);
+      throw error;
+    }
+
+    const ideas = (data || []).map(fromRow);
+    this.cache.set(userId, { ideas, timestamp: Date.now() });
+    return ideas;
+  }
+
+  // Add a generated idea to the bank
+  public async saveIdea(userId: string, idea: NewBankedIdea): Promise<BankedIdea> {
+    const { data, error } = await supabase
+      .from("story_ideas")
+      .insert({
+        user_id: userId,
+        idea: idea.idea,
+        summary: idea.summary,
+        source: idea.source,
+        story_profile: idea.story_profile,
+        source_posts: (idea.source_posts || []) as unknown as Json,
+        tags: idea.tags || []
+      })
+      .select(IDEA_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error("Error saving story idea:", error);
+      throw error;
+    }
+
+    const saved = fromRow(data);
+    this.updateCached(userId, saved);
+    return saved;
+  }
+
+  public async updateIdea(userId: string, ideaId: string, updates: BankedIdeaUpdate): Promise<BankedIdea> {
+    const { data, error } = await supabase
+      .from("story_ideas")
+      .update(updates)
+      .eq("id", ideaId)
+      .eq("user_id", userId)
+      .select(IDEA_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error("Error updating story idea:", error);
+      throw error;
+    }
+
+    const updated = fromRow(data);
+    this.updateCached(userId, updated);
+    return updated;
+  }
+
+  public async deleteIdea(userId: string, ideaId: string): Promise<void> {
+    const { error } = await supabase
+      .from("story_ideas")
+      .delete()
+      .eq("id", ideaId)
+      .eq("user_id", userId);
+
+    if (error) {
+      console.error("Error deleting story idea:", error);
+      throw error;
+    }
+
+    const cached = this.cache.get(userId);
+    if (cached) {
+      this.cache.set(userId, {
+        ideas: cached.ideas.filter(item => item.id !== ideaId),
+        timestamp: cached.timestamp
+      });
+    }
+  }
+
+  public clearCache(userId?: string) {
+    if (userId) {
+      this.cache.delete(userId);
+    } else {
+      this.cache.clear();
+    }
+  }
+}
+
+// Export a singleton instance
+export const ideaBankService = IdeaBankService.getInstance();
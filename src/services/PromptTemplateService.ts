@@ -0,0 +1,112 @@
+import { supabase } from "@/integrations/supabase/client";
+import { getPromptTemplate } from "@/lib/prompt-templates";
+import type { PromptOverride, PromptTemplateId } from "@/types/prompts";
+
+interface CachedOverrides {
+  overrides: PromptOverride[];
+  timestamp: number;
+}
+
+export class PromptTemplateService {
+  private static instance: PromptTemplateService;
+  private cache: Map<string, CachedOverrides>;
+  private TTL = 1000 * 60 * 5;
+
+  private constructor() {
+    this.cache = new Map();
+  }
+
+  public static getInstance(): PromptTemplateService {
+    if (!PromptTemplateService.instance) {
+      PromptTemplateService.instance = new PromptTemplateService();
+    }
+    return PromptTemplateService.instance;
+  }
+
+  private isCacheValid(userId: string): boolean {
+    const cached = this.cache.get(userId);
+    if (!cached) return false;
+    return Date.now() - cached.timestamp < this.TTL;
+  }
+
+  // Load the user's template overrides
+  public async getOverrides(userId: string, forceRefresh: boolean = false): Promise<PromptOverride[]> {
+    if (!forceRefresh && this.isCacheValid(userId)) {
+      return this.cache.get(userId)!.overrides;
+    }
+
+    const { data, error } = await supabase
+      .from("prompt_overrides")
+      .select("template_id, content, base_version, updated_at")
+      .eq("user_id", userId);
+
+    if (error) {
+      console.error("Error fetching prompt overrides:", error);
+      throw error;
+    }
+
+    const overrides = (data || []) as PromptOverride[];
+    this.cache.set(userId, { overrides, timestamp: Date.now() });
+    return overrides;
+  }
+
+  // Save an override against the current version of the built-in template
+  public async saveOverride(userId: string, templateId: PromptTemplateId, content: string): Promise<PromptOverride> {
+    const { data, error } = await supabase
+      .from("prompt_overrides")
+      .upsert({
+        user_id: userId,
+        template_id: templateId,
+        content,
+        base_version: getPromptTemplate(templateId).version
+      }, { onConflict: "user_id,template_id" })
+      .select("template_id, content, base_version, updated_at")
+      .single();
+
+    if (error) {
+      console.error("Error saving prompt override:", error);
+      throw error;
+    }
+
+    const override = data as PromptOverride;
+    const cached = this.cache.get(userId)?.overrides || [];
+    this.cache.set(userId, {
+      overrides: [...cached.filter(item => item.template_id !== templateId), override],
+      timestamp: Date.now()
+    });
+    return override;
+  }
+
+  // Remove an override so the template goes back to its default
+  public async resetOverride(userId: string, templateId: PromptTemplateId): Promise<void> {
+    const { error } = await supabase
+      .from("prompt_overrides")
+      .delete()
+      .eq("user_id", userId)
+      .eq("template_id", templateId);
+
+    if (error) {
+      console.error("Error resetting prompt override:", error);
+      throw error;
+    }
+
+    const cached = this.cache.get(userId);
+    if (cached) {
+      this.cache.set(userId, {
+        overrides: cached.overrides.filter(item => item.template_id !== templateId),
+        timestamp: cached.timestamp
+      });
+    }
+  }
+
+  public clearCache(userId?: string) {
+    if (userId) {
+      this.cache.delete(userId);
+    } else {
+      this.cache.clear();
+    }
+  }
+}
+
+// Export a singleton instance
+export const promptTemplateService = PromptTemplateService.getInstance();
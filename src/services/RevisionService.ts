@@ -0,0 +1,164 @@
+import { supabase } from "@/integrations/supabase/client";
+import { MAX_REVISIONS_PER_CHAPTER, countWords, isNewRevision, normalizeRevision, planRevisionRenumbering, shouldSaveManualRevision } from "@/lib/revisions";
+import type { ChapterRevision, RevisionSource } from "@/types/revision";
+
+const REVISION_COLUMNS = "id, story_id, chapter_number, content, source, word_count, created_at";
+
+const fromRow = (row: Record<string, unknown>) => normalizeRevision(row as Partial<ChapterRevision> & { id: string; content: string });
+
+interface CachedRevisions {
+  revisions: ChapterRevision[];
+  timestamp: number;
+}
+
+export class RevisionService {
+  private static instance: RevisionService;
+  // Keyed by story and chapter number, newest revision first
+  private cache: Map<string, CachedRevisions>;
+  private TTL = 1000 * 60 * 5;
+
+  private constructor() {
+    this.cache = new Map();
+  }
+
+  public static getInstance(): RevisionService {
+    if (!RevisionService.instance) {
+      RevisionService.instance = new RevisionService();
+    }
+    return RevisionService.instance;
+  }
+
+  private cacheKey(storyId: string, chapterNumber: number) {
+    return `${storyId}:${chapterNumber}`;
+  }
+
+  private isCacheValid(key: string): boolean {
+    const cached = this.cache.get(key);
+    if (!cached) return false;
+    return Date.now() - cached.timestamp < this.TTL;
+  }
+
+  // Load a chapter's revisions, newest first
+  public async getRevisions(storyId: string, chapterNumber: number, forceRefresh: boolean = false): Promise<ChapterRevision[]> {
+    const key = this.cacheKey(storyId, chapterNumber);
+    if (!forceRefresh && this.isCacheValid(key)) {
+      return this.cache.get(key)!.revisions;
+    }
+
+    const { data, error } = await supabase
+      .from("chapter_revisions")
+      .select(REVISION_COLUMNS)
+      .eq("story_id", storyId)
+      .eq("chapter_number", chapterNumber)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching chapter revisions:", error);
+      throw error;
+    }
+
+    const revisions = (data || []).map(fromRow);
+    this.cache.set(key, { revisions, timestamp: Date.now() });
+    return revisions;
+  }
+
+  // Save a revision of a chapter, unless the content matches the newest revision.
+  // Returns the new revision, or null when none was saved.
+  public async saveRevision(
+    userId: string,
+    storyId: string,
+    chapterNumber: number,
+    content: string,
+    source: RevisionSource
+  ): Promise<ChapterRevision | null> {
+    const revisions = await this.getRevisions(storyId, chapterNumber);
+    if (!isNewRevision(revisions[0], content)) return null;
+
+    const { data, error } = await supabase
+      .from("chapter_revisions")
+      .insert({
+        user_id: userId,
+        story_id: storyId,
+        chapter_number: chapterNumber,
+        content,
+        source,
+        word_count: countWords(content)
+      })
+      .select(REVISION_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error("Error saving chapter revision:", error);
+      throw error;
+    }
+
+    const saved = fromRow(data);
+    const updated = [saved, ...revisions];
+    this.cache.set(this.cacheKey(storyId, chapterNumber), { revisions: updated.slice(0, MAX_REVISIONS_PER_CHAPTER), timestamp: Date.now() });
+
+    const pruned = updated.slice(MAX_REVISIONS_PER_CHAPTER).map(revision => revision.id);
+    if (pruned.length) {
+      const { error: pruneError } = await supabase.from("chapter_revisions").delete().in("id", pruned);
+      if (pruneError) {
+        console.warn("Failed to prune old chapter revisions:", pruneError.message);
+      }
+    }
+
+    return saved;
+  }
+
+  // Save a hand edit, at most once every few minutes
+  public async saveManualEdit(userId: string, storyId: string, chapterNumber: number, content: string): Promise<ChapterRevision | null> {
+    const revisions = await this.getRevisions(storyId, chapterNumber);
+    if (!shouldSaveManualRevision(revisions[0], content)) return null;
+    return this.saveRevision(userId, storyId, chapterNumber, content, "manual");
+  }
+
+  // Move revisions to their chapter's new number after the outline was edited, and delete the revisions
+  // of chapters that no longer exist. previousNumbers holds the number each chapter had before, or null for new ones.
+  public async renumberChapters(storyId: string, previousNumbers: Array<number | null>): Promise<void> {
+    const { data, error } = await supabase
+      .from("chapter_revisions")
+      .select("id, chapter_number")
+      .eq("story_id", storyId);
+
+    if (error) {
+      console.error("Error fetching chapter revisions:", error);
+      throw error;
+    }
+
+    const { moves, deleted } = planRevisionRenumbering(data || [], previousNumbers);
+    try {
+      for (const { chapterNumber, ids } of moves) {
+        const { error: updateError } = await supabase
+          .from("chapter_revisions")
+          .update({ chapter_number: chapterNumber })
+          .in("id", ids);
+        if (updateError) throw updateError;
+      }
+
+      if (deleted.length) {
+        const { error: deleteError } = await supabase.from("chapter_revisions").delete().in("id", deleted);
+        if (deleteError) throw deleteError;
+      }
+    } catch (error) {
+      console.error("Error renumbering chapter revisions:", error);
+      throw error;
+    } finally {
+      this.clearCache(storyId);
+    }
+  }
+
+  public clearCache(storyId?: string) {
+    if (storyId) {
+      for (const key of Array.from(this.cache.keys())) {
+        if (key.startsWith(`${storyId}:`)) this.cache.delete(key);
+      }
+    } else {
+      this.cache.clear();
+    }
+  }
+}
+
+// Export a singleton instance
+export const revisionService = RevisionService.getInstance();
@@ -0,0 +1,147 @@
+import { supabase } from "@/integrations/supabase/client";
+import { normalizeStoryProfile, setCustomStoryProfiles } from "@/lib/story-profiles";
+import type { StoryProfile } from "@/types/story";
+
+const PROFILE_COLUMNS = "id, name, system_prompt, prompts, subreddit, subreddits, timeframe, min_length, flair_exclude, title_exclude, use_reddit, num_scenes, style_rules, banned_words";
+
+// The columns stored for a profile
+const toRow = (profile: StoryProfile) => ({
+  name: profile.name,
+  system_prompt: profile.system_prompt,
+  prompts: profile.prompts,
+  subreddit: profile.subreddit,
+  subreddits: profile.subreddits || [],
+  timeframe: profile.timeframe || "month",
+  min_length: profile.min_length,
+  flair_exclude: profile.flair_exclude,
+  title_exclude: profile.title_exclude || [],
+  use_reddit: profile.use_reddit,
+  num_scenes: profile.num_scenes,
+  style_rules: profile.style_rules || "",
+  banned_words: profile.banned_words || []
+});
+
+const fromRow = (row: Record<string, unknown>) => normalizeStoryProfile(row as Partial<StoryProfile>);
+
+interface CachedProfiles {
+  profiles: StoryProfile[];
+  timestamp: number;
+}
+
+export class StoryProfileService {
+  private static instance: StoryProfileService;
+  private cache: Map<string, CachedProfiles>;
+  private TTL = 1000 * 60 * 5;
+
+  private constructor() {
+    this.cache = new Map();
+  }
+
+  public static getInstance(): StoryProfileService {
+    if (!StoryProfileService.instance) {
+      StoryProfileService.instance = new StoryProfileService();
+    }
+    return StoryProfileService.instance;
+  }
+
+  private isCacheValid(userId: string): boolean {
+    const cached = this.cache.get(userId);
+    if (!cached) return false;
+    return Date.now() - cached.timestamp < this.TTL;
+  }
+
+  // Cache the user's profiles and make them available to the story-profiles lookups
+  private setProfiles(userId: string, profiles: StoryProfile[]) {
+    const sorted = [...profiles].sort((a, b) => a.name.localeCompare(b.name));
+    this.cache.set(userId, { profiles: sorted, timestamp: Date.now() });
+    setCustomStoryProfiles(sorted);
+    return sorted;
+  }
+
+  // Load the profiles the user created
+  public async getProfiles(userId: string, forceRefresh: boolean = false): Promise<StoryProfile[]> {
+    if (!forceRefresh && this.isCacheValid(userId)) {
+      return this.cache.get(userId)!.profiles;
+    }
+
+    const { data, error } = await supabase
+      .from("story_profiles")
+      .select(PROFILE_COLUMNS)
+      .eq("user_id", userId);
+
+    if (error) {
+      console.error("Error fetching story profiles:", error);
+      throw error;
+    }
+
+    return this.setProfiles(userId, (data || []).map(fromRow));
+  }
+
+  // Create a profile, or update it when it already has an id
+  public async saveProfile(userId: string, profile: StoryProfile): Promise<StoryProfile> {
+    const { id } = profile;
+    const values = toRow(profile);
+
+    const query = id
+      ? supabase.from("story_profiles").update(values).eq("id", id).eq("user_id", userId)
+      : supabase.from("story_profiles").insert({ ...values, user_id: userId });
+    const { data, error } = await query.select(PROFILE_COLUMNS).single();
+
+    if (error) {
+      console.error("Error saving story profile:", error);
+      throw error.code === "23505" ? new Error(`You already have a profile named '${profile.name}'`) : error;
+    }
+
+    const saved = fromRow(data);
+    const cached = this.cache.get(userId)?.profiles || [];
+    this.setProfiles(userId, [...cached.filter(item => item.id !== saved.id), saved]);
+    return saved;
+  }
+
+  // Save imported profiles, replacing any of the user's profiles with the same name
+  public async importProfiles(userId: string, profiles: StoryProfile[]): Promise<StoryProfile[]> {
+    const { data, error } = await supabase
+      .from("story_profiles")
+      .upsert(profiles.map(profile => ({ ...toRow(profile), user_id: userId })), { onConflict: "user_id,name" })
+      .select(PROFILE_COLUMNS);
+
+    if (error) {
+      console.error("Error importing story profiles:", error);
+      throw error;
+    }
+
+    const imported = (data || []).map(fromRow);
+    const names = new Set(imported.map(profile => profile.name));
+    const cached = this.cache.get(userId)?.profiles || [];
+    this.setProfiles(userId, [...cached.filter(item => !names.has(item.name)), ...imported]);
+    return imported;
+  }
+
+  public async deleteProfile(userId: string, profileId: string): Promise<void> {
+    const { error } = await supabase
+      .from("story_profiles")
+      .delete()
+      .eq("id", profileId)
+      .eq("user_id", userId);
+
+    if (error) {
+      console.error("Error deleting story profile:", error);
+      throw error;
+    }
+
+    const cached = this.cache.get(userId)?.profiles || [];
+    this.setProfiles(userId, cached.filter(item => item.id !== profileId));
+  }
+
+  public clearCache(userId?: string) {
+    if (userId) {
+      this.cache.delete(userId);
+    } else {
+      this.cache.clear();
+    }
+    setCustomStoryProfiles([]);
+  }
+}
+
+// Export a singleton instance
+export const storyProfileService = StoryProfileService.getInstance();
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockClient } from '@/integrations/mock/client';
+import type { UserSettings } from '@/types/settings';
+import { promptTemplateService } from './PromptTemplateService';
+import { storyProfileService } from './StoryProfileService';
+import { storyService } from './StoryService';
+import { userSettingsService } from './UserSettingsService';
+
+const settings: UserSettings = {
+  user_id: 'user-1',
+  llm_provider: 'mock',
+  openrouter_model: 'mock-model',
+  reasoning_model: 'mock-model',
+  rewrite_model: 'mock-model',
+  story_generation_model: 'mock-model',
+  use_openai_for_story_gen: false,
+  elevenlabs_model: '',
+  min_chapters: 3,
+  max_chapters: 5
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(userSettingsService, 'getSettings').mockResolvedValue(settings);
+  vi.spyOn(promptTemplateService, 'getOverrides').mockResolvedValue([]);
+  vi.spyOn(storyProfileService, 'getProfiles').mockResolvedValue([]);
+  storyService.setUserSettings(settings);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('StoryService.writeScene', () => {
+  it('streams the chapter from the step client', async () => {
+    storyService.setProviderClient('mock', createMockClient({ responses: ['The door opened onto the dark.'] }));
+    const chunks: string[] = [];
+    const content = await storyService.writeScene('Someone knocks', '', [], chunk => chunks.push(chunk));
+    expect(content).toBe('The door opened onto the dark.');
+    expect(chunks.join('')).toBe(content);
+  });
+
+  it('fails instead of returning a placeholder when the stream is empty', async () => {
+    storyService.setProviderClient('mock', createMockClient({ responses: [''] }));
+    await expect(storyService.writeScene('Someone knocks', '', [])).rejects.toThrow(/no text/);
+  });
+
+  it('keeps an injected client when the settings are reloaded for a signed-in user', async () => {
+    const client = createMockClient({ responses: ['A knock at the door.'] });
+    storyService.setProviderClient('mock', client);
+    storyService.setUserId('user-1');
+
+    expect(await storyService.writeScene('Someone knocks', '', [])).toBe('A knock at the door.');
+    expect(client.calls).toHaveLength(1);
+  });
+});
+
+describe('StoryService.createOutline', () => {
+  it('falls back to the outline parser when the JSON is malformed', async () => {
+    const client = createMockClient({ scenario: 'malformed_json' });
+    storyService.setProviderClient('mock', client);
+
+    const outline = await storyService.createOutline('A lighthouse keeper');
+    expect(outline).toHaveLength(3);
+    expect(outline?.[0]).toBeTruthy();
+    // Recovered without another request
+    expect(client.calls).toHaveLength(1);
+  });
+
+  it('retries a rate-limited request and gives up after five attempts', async () => {
+    vi.useFakeTimers();
+    const client = createMockClient({ scenario: 'rate_limit' });
+    storyService.setProviderClient('mock', client);
+
+    const outline = storyService.createOutline('A lighthouse keeper');
+    await vi.runAllTimersAsync();
+    expect(await outline).toBeNull();
+    expect(client.calls).toHaveLength(5);
+  });
+});
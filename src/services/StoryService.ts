@@ -1,33 +1,172 @@
-import { createOpenAIClient, isValidApiKey } from '@/integrations/openai/client';
-import { createOpenRouterClient } from '@/integrations/openrouter/client';
-import { getTopPosts, filterLongPosts, getRandomPost, type RedditPost } from '@/integrations/reddit/client';
+import { expectCompletion, expectStream, getProvider, resolveStepRoute } from '@/integrations/llm/registry';
+import { getPosts, searchPosts, filterLongPosts, getRandomPost, type RedditPost } from '@/integrations/reddit/client';
 import { userSettingsService } from './UserSettingsService';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/components/AuthProvider';
 import { browserCache } from '@/lib/cache';
 import { v4 as uuidv4 } from 'uuid';
+import { formatOutline, formatOutlineForPrompt, normalizeOutline, parseStoredOutline } from '@/lib/outline-parser';
+import { RELATIONSHIP_TYPES, formatCharactersForPrompt, parseCharacters, parseRelationships } from '@/lib/character-parser';
+import { CONTINUITY_CATEGORIES, applyLedgerUpdate, formatLedgerForPrompt, parseLedgerUpdate } from '@/lib/continuity';
+import { buildStoryContext, formatSummariesForPrompt, hashContent, parseChapterSummaries, parseSummaryResponse } from '@/lib/chapter-summaries';
+import { budgetPrompt, type PromptBudget, type PromptSection } from '@/lib/token-budget';
+import { checkSimilarity, formatSimilarityForPrompt, type SimilarityReport } from '@/lib/similarity';
+import { BEAT_COMPLETE_MARKER, trimContinuation, type Continuation } from '@/lib/continue-writing';
+import { renderTemplate, resolvePromptTemplate } from '@/lib/prompt-templates';
+import { DEFAULT_STORY_PROFILE, getChapterRange, getRedditSource, getStoryProfile } from '@/lib/story-profiles';
+import { promptTemplateService } from './PromptTemplateService';
+import { storyProfileService } from './StoryProfileService';
+import { usedPostService } from './UsedPostService';
+import type { ChatCompletionRequest, LLMClient, PipelineStep, ProviderId, StepVariant } from '@/types/llm';
+import type { RedditSort, RedditSourceRef } from '@/types/reddit';
+import type { UserSettings } from '@/types/settings';
+import type { ChapterSummary, OutlineChapter, StoryProfile } from '@/types/story';
+import type { Character, CharacterRelationship } from '@/types/character';
+import type { ContinuityLedger } from '@/types/continuity';
+import type { PromptOverride, PromptTemplateId } from '@/types/prompts';
 
-// Load profiles from a static JSON file
-import profilesData from '@/data/profiles.json';
 import openai from 'openai';
 
-// Settings object with profiles from JSON
-const settings = {
-  STORY_PROFILE: 'Horror', // Default to Horror category
-  NUM_SCENES: 8,
-  profiles: profilesData.categories,
-  load_story_profiles: function() {
-    const profileMap: Record<string, any> = {};
-    this.profiles.forEach((profile: any) => {
-      profileMap[profile.name] = {
-        flair_exclude: profile.flair_exclude || 'Series',
-        prompts: profile.prompts,
-        system_prompt: profile.system_prompt,
-        num_scenes: profile.num_scenes || 8
-      };
-    });
-    return profileMap;
-  }
+// Posts considered from each subreddit when picking a story idea source. Reddit returns 100 per page.
+const REDDIT_POSTS_PER_SUBREDDIT = 300;
+
+// How many times a story idea is rewritten automatically when it copies too much of its source post
+const MAX_SIMILARITY_REWRITES = 2;
+
+// The Reddit posts behind the most recent story idea, and how closely the idea follows them
+export interface IdeaSource {
+  posts: RedditPost[];
+  summary: string;
+  similarity: SimilarityReport;
+}
+
+// JSON schema for one chapter record of a structured plot outline
+const outlineChapterSchema = {
+  type: "object",
+  properties: {
+    chapter_number: {
+      type: "integer",
+      description: "The sequential number of the chapter."
+    },
+    title: {
+      type: "string",
+      description: "A short title for the chapter."
+    },
+    chapter_beat: {
+      type: "string",
+      description: `A detailed summary of the events in this chapter (approx 250 words).`
+    },
+    setting: {
+      type: "string",
+      description: "The named location where the chapter takes place."
+    },
+    time_marker: {
+      type: "string",
+      description: "When the chapter takes place relative to the rest of the story, e.g. 'Two days later, night'."
+    },
+    pov_character: {
+      type: "string",
+      description: "The character whose point of view the chapter follows."
+    },
+    target_word_count: {
+      type: "integer",
+      description: "The target length of the written chapter in words."
+    },
+    tension_level: {
+      type: "integer",
+      description: "The tension of the chapter from 1 (calm) to 10 (climax)."
+    }
+  },
+  required: ["chapter_number", "title", "chapter_beat", "setting", "time_marker", "pov_character", "target_word_count", "tension_level"],
+  additionalProperties: false
+};
+
+// JSON schema for the character bible. The root is an object because strict structured output requires one.
+const characterBibleSchema = {
+  type: "object",
+  properties: {
+    characters: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          aliases: { type: "array", items: { type: "string" } },
+          pronouns: { type: "string" },
+          age: { type: "string" },
+          role: { type: "string", description: "The character's part in the story, e.g. protagonist, antagonist or supporting." },
+          personality: { type: "string" },
+          appearance: { type: "string" },
+          relationships: { type: "string", description: "How the character relates to the other characters." },
+          arc: { type: "string", description: "How the character changes over the story." },
+          first_appearance_chapter: { type: "integer", description: "The chapter number the character first appears in." }
+        },
+        required: ["name", "aliases", "pronouns", "age", "role", "personality", "appearance", "relationships", "arc", "first_appearance_chapter"],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ["characters"],
+  additionalProperties: false
+};
+
+// JSON schema for the typed edges of the character relationship graph
+const relationshipGraphSchema = {
+  type: "object",
+  properties: {
+    relationships: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          source: { type: "string", description: "The exact name of the first character." },
+          target: { type: "string", description: "The exact name of the second character." },
+          type: { type: "string", enum: RELATIONSHIP_TYPES },
+          description: { type: "string", description: "One short sentence describing the relationship." }
+        },
+        required: ["source", "target", "type", "description"],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ["relationships"],
+  additionalProperties: false
+};
+
+const chapterSummarySchema = {
+  type: "object",
+  properties: {
+    short: { type: "string", description: "One or two sentences summarising the chapter." },
+    detailed: { type: "string", description: "One paragraph covering every event, decision and reveal in the chapter." }
+  },
+  required: ["short", "detailed"],
+  additionalProperties: false
+};
+
+const continuityUpdateSchema = {
+  type: "object",
+  properties: {
+    added: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          category: { type: "string", enum: CONTINUITY_CATEGORIES.map(category => category.id) },
+          subject: { type: "string", description: "The character, object or place the detail is about." },
+          detail: { type: "string", description: "One short sentence stating the detail." }
+        },
+        required: ["category", "subject", "detail"],
+        additionalProperties: false
+      }
+    },
+    resolved_ids: {
+      type: "array",
+      items: { type: "string" },
+      description: "Ids of existing entries that are no longer true after this chapter."
+    }
+  },
+  required: ["added", "resolved_ids"],
+  additionalProperties: false
 };
 
 // Helper function to replace words or phrases in strings
@@ -89,9 +228,15 @@ export class StoryService {
   private static instance: StoryService;
   private userId: string | null = null;
   private userSettings: any = null;
-  private openaiClient: any = null;
-  private openrouterClient: any = null;
+  // Clients built from the user's settings, dropped whenever the settings are reloaded
+  private clients: Map<ProviderId, LLMClient> = new Map();
+  // Clients injected with setProviderClient, which take precedence and survive settings reloads
+  private injectedClients: Map<ProviderId, LLMClient> = new Map();
   private settingsLoaded: boolean = false;
+  // The most recent prompt budget for each step, shown in the writing area's debug panel
+  private promptBudgets: Map<PipelineStep, PromptBudget> = new Map();
+  // Set when the most recent story idea was generated from Reddit posts
+  private lastIdeaSource: IdeaSource | null = null;
 
   private constructor() {}
 
@@ -111,245 +256,380 @@ export class StoryService {
       throw new Error('User ID not set');
     }
 
-    // If settings are already loaded and clients exist, return them
-    if (this.settingsLoaded && this.userSettings && (this.openaiClient || this.openrouterClient)) {
+    // If settings are already loaded, return them
+    if (this.settingsLoaded && this.userSettings) {
       return this.userSettings;
     }
 
     // Load settings from the service
     this.userSettings = await userSettingsService.getSettings(this.userId);
     
-    // Initialize clients only if we have valid API keys and clients don't exist
-    if (this.userSettings.openai_key && isValidApiKey(this.userSettings.openai_key) && !this.openaiClient) {
-      try {
-        this.openaiClient = createOpenAIClient(this.userSettings.openai_key);
-      } catch (error) {
-        console.error('Failed to initialize OpenAI client:', error);
-        this.openaiClient = null;
-      }
-    }
-    
-    if (this.userSettings.openrouter_key && isValidApiKey(this.userSettings.openrouter_key) && !this.openrouterClient) {
-      try {
-        this.openrouterClient = createOpenRouterClient(this.userSettings.openrouter_key);
-      } catch (error) {
-        console.error('Failed to initialize OpenRouter client:', error);
-        this.openrouterClient = null;
-      }
-    }
+    // Clients are created lazily per provider, so drop any built from stale keys
+    this.clients.clear();
     
     this.settingsLoaded = true;
     return this.userSettings;
   }
 
+  // Use the given settings instead of loading them from Supabase (offline development and tests)
+  public setUserSettings(settings: UserSettings) {
+    this.userSettings = settings;
+    this.clients.clear();
+    this.settingsLoaded = true;
+  }
+
+  // Inject the client used for a provider, e.g. a scripted mock client in tests
+  public setProviderClient(providerId: ProviderId, client: LLMClient) {
+    this.injectedClients.set(providerId, client);
+  }
+
   private async ensureSettingsLoaded() {
     if (!this.settingsLoaded) {
       await this.loadUserSettings();
     }
   }
 
-  private getOpenAIClient() {
-    if (!this.openaiClient) {
-      if (!this.userSettings || !this.userSettings.openai_key) {
-        throw new Error('OpenAI API key not set in user settings');
+  // Get (or lazily create) the client for a provider
+  private getProviderClient(providerId: ProviderId): LLMClient {
+    const injected = this.injectedClients.get(providerId);
+    if (injected) return injected;
+    if (!this.clients.has(providerId)) {
+      if (!this.userSettings) {
+        throw new Error('User settings not loaded');
       }
-      this.openaiClient = createOpenAIClient(this.userSettings.openai_key);
+      this.clients.set(providerId, getProvider(providerId).createClient(this.userSettings));
     }
-    return this.openaiClient;
+    return this.clients.get(providerId)!;
+  }
+
+  // Resolve the provider, client and model for a pipeline step
+  private async resolveStep(step: PipelineStep) {
+    await this.ensureSettingsLoaded();
+    const route = resolveStepRoute(step, this.userSettings);
+    const provider = getProvider(route.provider);
+    console.log(`Resolved ${step} step to ${provider.label} with model: ${route.model}`);
+    return {
+      ...route,
+      providerLabel: provider.label,
+      supportsJsonSchema: provider.supportsJsonSchema,
+      client: this.getProviderClient(route.provider)
+    };
+  }
+
+  // Fit a prompt's sections to the step model's context window and remember the budget
+  private budgetPromptSections(step: PipelineStep, sections: PromptSection[], model: string, maxTokens?: number) {
+    const result = budgetPrompt(sections, model, maxTokens);
+    this.promptBudgets.set(step, result.budget);
+    return result;
   }
 
-  private getOpenRouterClient() {
-    if (!this.openrouterClient) {
-      if (!this.userSettings || !this.userSettings.openrouter_key) {
-        throw new Error('OpenRouter API key not set in user settings');
+  public getLastPromptBudget(step: PipelineStep): PromptBudget | null {
+    return this.promptBudgets.get(step) ?? null;
+  }
+
+  public getLastIdeaSource(): IdeaSource | null {
+    return this.lastIdeaSource;
+  }
+
+  // The story profile's style rules and banned words, for the chapter prompts
+  private getProfileStyle(profileName?: string): string {
+    const profile = getStoryProfile(profileName);
+    return [
+      profile.style_rules?.trim(),
+      profile.banned_words?.length ? `- NEVER use these words: ${profile.banned_words.join(', ')}` : ''
+    ].filter(Boolean).join('\n');
+  }
+
+  // Get the text of a prompt template for a story profile, with the user's override applied
+  private async getPromptTemplateText(id: PromptTemplateId, profileName?: string): Promise<string> {
+    await this.loadCustomProfiles();
+    let overrides: PromptOverride[] = [];
+    if (this.userId) {
+      try {
+        overrides = await promptTemplateService.getOverrides(this.userId);
+      } catch (error) {
+        console.warn(`Failed to load prompt overrides, using the default ${id} template:`, (error as Error).message);
       }
-      this.openrouterClient = createOpenRouterClient(this.userSettings.openrouter_key);
     }
-    return this.openrouterClient;
+    return resolvePromptTemplate(id, profileName || DEFAULT_STORY_PROFILE, overrides).text;
   }
 
-  // Get the appropriate client based on user settings
-  private async getClient() {
-    await this.ensureSettingsLoaded();
-    console.log('getClient called, use_openai_for_story_gen:', this.userSettings.use_openai_for_story_gen);
-    if (this.userSettings.use_openai_for_story_gen) {
-      console.log('Using OpenAI client');
-      return this.getOpenAIClient();
-    } else {
-      console.log('Using OpenRouter client');
-      return this.getOpenRouterClient();
+  // Register the user's own story profiles so lookups by name can find them
+  private async loadCustomProfiles(): Promise<void> {
+    if (!this.userId) return;
+    try {
+      await storyProfileService.getProfiles(this.userId);
+    } catch (error) {
+      console.warn('Failed to load your story profiles, only the built-in ones are available:', (error as Error).message);
+    }
+  }
+
+  // IDs of the Reddit posts the user's story ideas were already generated from
+  private async getUsedPostIds(): Promise<Set<string>> {
+    if (!this.userId) return new Set();
+    try {
+      return await usedPostService.getUsedPostIds(this.userId);
+    } catch (error) {
+      console.warn('Failed to load used Reddit posts, any post may be picked:', (error as Error).message);
+      return new Set();
+    }
+  }
+
+  private async markPostUsed(post: RedditPost): Promise<void> {
+    if (!this.userId) return;
+    try {
+      await usedPostService.markPostUsed(this.userId, { post_id: post.id, subreddit: post.subreddit, title: post.title });
+    } catch (error) {
+      console.warn('Failed to record the used Reddit post:', (error as Error).message);
     }
   }
 
+  private async loadStoryProfile(profileName?: string): Promise<StoryProfile> {
+    await this.loadCustomProfiles();
+    return getStoryProfile(profileName);
+  }
+
   // Validate model format based on provider
-  private validateModel(model: string, isOpenAI: boolean): boolean {
-    console.log(`Validating model: ${model} for ${isOpenAI ? 'OpenAI' : 'OpenRouter'}`);
-    
+  private validateModel(model: string, providerId: ProviderId): boolean {
     if (!model) {
       console.error('Model name is empty');
       return false;
     }
     
-    if (isOpenAI) {
-      // OpenAI models typically start with "gpt-"
-      const isValid = model.startsWith('gpt-');
-      console.log(`OpenAI model validation result: ${isValid}`);
-      return isValid;
-    } else {
-      // OpenRouter models should either include a provider prefix (contain '/') 
-      // or be a valid model ID
-      const isValid = model.includes('/') || model.length > 0;
-      console.log(`OpenRouter model validation result: ${isValid}`);
-      return isValid;
-    }
+    const provider = getProvider(providerId);
+    const isValid = provider.validateModel ? provider.validateModel(model) : true;
+    console.log(`${provider.label} model validation result for ${model}: ${isValid}`);
+    return isValid;
   }
 
-  // Ensure the model has the correct format for the provider
-  private getFormattedModel(model: string, isOpenAI: boolean): string {
-    if (isOpenAI) {
-      // For OpenAI, just return the model as is
-      return model;
-    } else {
-      // For OpenRouter, ensure it has a provider prefix
-      if (model.includes('/')) {
-        // Already has a provider prefix
-        return model;
-      } else {
-        // Add a default provider prefix if none exists
-        // Common models like gpt-4o-mini might need a provider prefix
-        if (model.startsWith('gpt-')) {
-          return `openai/${model}`;
-        }
-        // For other models, just return as is
-        return model;
-      }
-    }
+  // Generate story ideas from Reddit posts or fine-tuned model, using the story profile's subreddit and prompts
+  public async generateStoryIdea(
+    signal?: AbortSignal,
+    source: 'reddit' | 'fine-tune' = 'reddit',
+    profileName?: string
+  ): Promise<string> {
+    this.lastIdeaSource = null;
+    const { idea, ideaSource } = await this.generateStoryIdeaWithSource(signal, source, profileName);
+    this.lastIdeaSource = ideaSource;
+    return idea;
   }
 
-  // Generate story ideas from Reddit posts or fine-tuned model
-  public async generateStoryIdea(signal?: AbortSignal, source: 'reddit' | 'fine-tune' = 'reddit'): Promise<string> {
+  // Like generateStoryIdea, but returns the idea's Reddit source instead of remembering it, so several
+  // ideas can be generated at once
+  public async generateStoryIdeaWithSource(
+    signal?: AbortSignal,
+    source: 'reddit' | 'fine-tune' = 'reddit',
+    profileName?: string
+  ): Promise<{ idea: string; ideaSource: IdeaSource | null }> {
+    const profile = await this.loadStoryProfile(profileName);
+    const fromFineTune = async () => ({ idea: await this.generateStoryIdeaFromFineTune(signal, profile.name), ideaSource: null });
     try {
       await this.ensureSettingsLoaded();
 
       // If source is fine-tune, use the fine-tuned model directly
       if (source === 'fine-tune') {
-        return this.generateStoryIdeaFromFineTune(signal);
+        return fromFineTune();
       }
 
       // Otherwise, use Reddit as the source (default behavior)
-      // Get top posts from r/nosleep
-      console.log('Searching for top posts on r/nosleep...');
-      const topPosts = await getTopPosts('nosleep', 'month', 100);
-      
-      // Filter posts: >20,000 characters, no "Series" flair
-      const eligiblePosts = filterLongPosts(topPosts, 20000, 'Series');
+      const { posts: eligiblePosts, usedPostIds } = await this.getEligibleRedditPosts(profile.name);
       
       if (eligiblePosts.length === 0) {
         console.log('No eligible posts found. Falling back to default story idea generation.');
         // Fall back to original method
-        return this.generateStoryIdeaFromFineTune(signal);
+        return fromFineTune();
       }
       
-      // Select a random post from eligible posts
-      const randomPost = getRandomPost(eligiblePosts);
+      // Select a random post the user hasn't already had a story idea from
+      const randomPost = getRandomPost(eligiblePosts, usedPostIds);
       if (!randomPost) {
-        throw new Error('Failed to select a random post');
+        console.log(`All ${eligiblePosts.length} eligible posts have already been used. Falling back to default story idea generation.`);
+        return fromFineTune();
       }
       
-      console.log(`Selected post: "${randomPost.title}" (${randomPost.selftext.length} characters)`);
-      
-      // Generate a detailed summary of the post
-      const summaryPrompt = `
-I need a detailed summary of the following horror story from r/nosleep. 
-Create a comprehensive summary about the story with as much detail as possible, focus on the plot and events in the story with minimal dialogue.
-The summary should be completely new and different from the given story to avoid copyright issues.
-You MUST change the characters, locations, and events to create a new story that is based on the original story but is not a direct copy.
-Focus on the core narrative, key events, and the horror elements that make this story effective when writing the new story summary.
-Write unique character names, do NOT use common names from your training data.
-All locations should be real locations not fictional locations.
-DO NOT write any comments, only write the summary.
-Do NOT write names with "Black" in them, use unique names.
-
-Story Content:
-${randomPost.selftext}
-
-Please provide a detailed summary in 400-600 words.
-`;
-
-      // Get the appropriate client based on user settings
-      const client = await this.getClient();
-      
-      // Use the appropriate model for Reddit post summarization
-      const model = this.userSettings.use_openai_for_story_gen
-        ? this.userSettings.reasoning_model || 'gpt-4o'
-        : this.userSettings.reasoning_model || 'anthropic/claude-3.7-sonnet:thinking';
-      
-      console.log(`Using ${this.userSettings.use_openai_for_story_gen ? 'OpenAI' : 'OpenRouter'} with model: ${model} for Reddit post summarization`);
-      
-      const summaryResponse = await client.chat.completions.create({
-        model: model,
-        messages: [
-          { 
-            role: "user", 
-            content: summaryPrompt 
-          }
-        ]
-      });
-
-      const summary = summaryResponse.choices[0].message.content || '';
-      
-      // Add attribution and format the response
-      return `Story Idea based on r/nosleep post "${randomPost.title}" by u/${randomPost.author}:\n\n${summary}`;
+      console.log(`Selected post: "${randomPost.title}" from r/${randomPost.subreddit} (${randomPost.selftext.length} characters)`);
+      return await this.summarizePosts([randomPost], signal, profile.name);
       
     } catch (err) {
       console.error("Error generating story idea from Reddit:", err);
       console.log("Falling back to default story idea generation...");
       
       // Fall back to original method if Reddit fails
-      return this.generateStoryIdeaFromFineTune(signal);
+      return fromFineTune();
+    }
+  }
+
+  // Posts from the profile's subreddits that pass its filters, along with the ones already used for a story idea.
+  // Pass the returned cursors back in to load the next page of each subreddit.
+  public async getEligibleRedditPosts(
+    profileName?: string,
+    { sort = 'top', query, cursors }: { sort?: RedditSort; query?: string; cursors?: Record<string, string | null> } = {}
+  ): Promise<{ posts: RedditPost[]; usedPostIds: Set<string>; cursors: Record<string, string | null> }> {
+    const profile = await this.loadStoryProfile(profileName);
+    const reddit = getRedditSource(profile);
+    // When loading more, skip the subreddits that have run out of posts
+    const subreddits = cursors ? reddit.subreddits.filter(name => cursors[name]) : reddit.subreddits;
+    console.log(`${query ? `Searching for "${query}"` : `Loading ${sort} posts`} on ${subreddits.map(name => `r/${name}`).join(', ')}...`);
+
+    const listings = await Promise.all(subreddits.map(subreddit => {
+      const after = cursors?.[subreddit];
+      return query
+        ? searchPosts(subreddit, query, { timeframe: reddit.timeframe, after })
+        : getPosts(subreddit, { sort, timeframe: reddit.timeframe, after, maxPosts: cursors ? 100 : REDDIT_POSTS_PER_SUBREDDIT });
+    }));
+
+    // Filter out short posts and posts with the profile's excluded flairs and title words
+    const posts = filterLongPosts(listings.flatMap(listing => listing.posts), reddit.minLength, reddit.excludeFlairs, reddit.excludeTitleWords);
+    return {
+      posts,
+      usedPostIds: await this.getUsedPostIds(),
+      cursors: Object.fromEntries(subreddits.map((subreddit, index) => [subreddit, listings[index].after]))
+    };
+  }
+
+  // Rewrite one Reddit post, or a blend of several, into a new story idea
+  public async generateStoryIdeaFromPosts(posts: RedditPost[], signal?: AbortSignal, profileName?: string): Promise<string> {
+    this.lastIdeaSource = null;
+    const { idea, ideaSource } = await this.summarizePosts(posts, signal, profileName);
+    this.lastIdeaSource = ideaSource;
+    return idea;
+  }
+
+  private async summarizePosts(posts: RedditPost[], signal?: AbortSignal, profileName?: string): Promise<{ idea: string; ideaSource: IdeaSource }> {
+    if (posts.length === 0) {
+      throw new Error('Pick at least one Reddit post');
     }
+    await this.ensureSettingsLoaded();
+
+    const blend = posts.length > 1;
+    const subreddits = [...new Set(posts.map(post => post.subreddit))];
+    const summaryPrompt = renderTemplate(await this.getPromptTemplateText('reddit_summary', profileName), {
+      subreddit: subreddits.join(', r/'),
+      story: blend
+        ? posts.map((post, index) => `### Story ${index + 1}: ${post.title}\n${post.selftext}`).join('\n\n')
+        : posts[0].selftext,
+      blend: blend ? posts.length : undefined
+    });
+
+    // Resolve the provider and model for Reddit post summarization
+    const { client, model, temperature, max_tokens } = await this.resolveStep('summary');
+
+    const summaryResponse = expectCompletion(await client.chat.completions.create({
+      model: model,
+      messages: [
+        {
+          role: "user",
+          content: summaryPrompt
+        }
+      ],
+      temperature,
+      max_tokens
+    }, {
+      signal: signal
+    }));
+
+    let summary = summaryResponse.choices[0].message.content || '';
+    for (const post of posts) {
+      await this.markPostUsed(post);
+    }
+
+    // Check how much of the posts the summary copies, rewriting it when the user has asked for that
+    const sourceTexts = posts.map(post => post.selftext);
+    let similarity = checkSimilarity(sourceTexts, summary);
+    for (let attempt = 0; similarity.flagged && this.userSettings?.auto_rewrite_similar && attempt < MAX_SIMILARITY_REWRITES; attempt++) {
+      console.log(`Story idea overlaps its source post (${Math.round(similarity.score * 100)}% shared wording), rewriting it...`);
+      summary = await this.rewriteFromSource(summary, similarity, signal, profileName);
+      similarity = checkSimilarity(sourceTexts, summary);
+    }
+
+    return { idea: this.formatRedditIdea(posts, summary), ideaSource: { posts, summary, similarity } };
+  }
+
+  // Rewrite the most recent Reddit-based story idea so it follows its source posts less closely
+  public async rewriteSimilarIdea(signal?: AbortSignal, profileName?: string): Promise<string> {
+    const source = this.lastIdeaSource;
+    if (!source) {
+      throw new Error('The story idea was not generated from a Reddit post');
+    }
+    await this.ensureSettingsLoaded();
+
+    const summary = await this.rewriteFromSource(source.summary, source.similarity, signal, profileName);
+    const similarity = checkSimilarity(source.posts.map(post => post.selftext), summary);
+    this.lastIdeaSource = { ...source, summary, similarity };
+    return this.formatRedditIdea(source.posts, summary);
+  }
+
+  private async rewriteFromSource(summary: string, similarity: SimilarityReport, signal?: AbortSignal, profileName?: string): Promise<string> {
+    const prompt = renderTemplate(await this.getPromptTemplateText('source_rewrite', profileName), {
+      idea: summary,
+      issues: formatSimilarityForPrompt(similarity)
+    });
+    const { client, model, temperature, max_tokens } = await this.resolveStep('summary');
+
+    const response = expectCompletion(await client.chat.completions.create({
+      model: model,
+      messages: [
+        {
+          role: "user",
+          content: prompt
+        }
+      ],
+      temperature,
+      max_tokens
+    }, {
+      signal: signal
+    }));
+
+    return response.choices[0].message.content || summary;
+  }
+
+  // Add attribution to a summary of Reddit posts
+  private formatRedditIdea(posts: RedditPost[], summary: string): string {
+    const sources = posts.map(post => `r/${post.subreddit} post "${post.title}" by u/${post.author}`);
+    return posts.length > 1
+      ? `Story Idea blending ${sources.slice(0, -1).join(', ')} and ${sources[sources.length - 1]}:\n\n${summary}`
+      : `Story Idea based on ${sources[0]}:\n\n${summary}`;
   }
 
   // Generate story idea from fine-tuned model
-  private async generateStoryIdeaFromFineTune(signal?: AbortSignal): Promise<string> {
+  private async generateStoryIdeaFromFineTune(signal?: AbortSignal, profileName?: string): Promise<string> {
     try {
       await this.ensureSettingsLoaded();
 
-      const allProfiles = settings.load_story_profiles();
-      const profile = allProfiles[settings.STORY_PROFILE];
-      
-      if (!profile) {
-        console.log(`Error: Story profile '${settings.STORY_PROFILE}' not found`);
+      const profile = await this.loadStoryProfile(profileName);
+      if (!profile.prompts.length) {
+        console.log(`Error: Story profile '${profile.name}' has no idea prompts`);
         return 'Failed to generate story idea';
       }
 
       const prompt = profile.prompts[Math.floor(Math.random() * profile.prompts.length)];
       console.log('Using prompt:', prompt);
+      const systemPrompt = await this.getPromptTemplateText('idea_system', profile.name);
 
-      // Get the appropriate client based on user settings
-      const client = await this.getOpenAIClient();
-      
-      // Use the story_idea_model for story idea generation if available, otherwise fall back to appropriate defaults
-      const model = this.userSettings.story_idea_model || this.userSettings.story_generation_model
+      // Resolve the provider and model for story idea generation
+      const { client, model, temperature, max_tokens, provider } = await this.resolveStep('idea');
+      // The profile's fine-tuned model is used on OpenAI unless the idea step has a model override
+      const ideaModel = profile.model && provider === 'openai' && !this.userSettings?.model_routing?.idea?.model
+        ? profile.model
+        : model;
       
-      console.log(`Using OpenAI with model: ${model} for story idea generation`);
-      
-      const response = await client.chat.completions.create({
-        model: model,
+      const response = expectCompletion(await client.chat.completions.create({
+        model: ideaModel,
         messages: [
           { 
             role: "system", 
-            content: profile.system_prompt 
+            content: systemPrompt
           },
           { 
             role: "user", 
             content: prompt 
           }
         ],
-        temperature: 0.7
+        temperature,
+        max_tokens
       }, {
         signal: signal
-      });
+      }));
 
       return response.choices[0].message.content || 'Failed to generate story idea';
     } catch (fallbackErr) {
@@ -358,16 +638,21 @@ Please provide a detailed summary in 400-600 words.
     }
   }
 
-  // Create a story from a custom idea
-  public async createStoryFromCustomIdea(customIdea: string, signal?: AbortSignal): Promise<string> {
+  // Create a story from a custom or banked idea, keeping the Reddit posts a banked idea came from
+  public async createStoryFromCustomIdea(
+    customIdea: string,
+    signal?: AbortSignal,
+    profileName?: string,
+    sourcePosts: RedditSourceRef[] = []
+  ): Promise<string> {
     try {
       await this.ensureSettingsLoaded();
 
       // Step 1: Create title from custom story idea
-      const title = await this.createTitle(customIdea, signal);
+      const title = await this.createTitle(customIdea, signal, profileName);
       
       // Step 2: Create outline from custom story idea
-      const outline = await this.createOutline(customIdea, signal);
+      const outline = await this.createOutline(customIdea, signal, profileName);
       
       if (!outline) {
         throw new Error('Failed to create outline');
@@ -384,13 +669,15 @@ Please provide a detailed summary in 400-600 words.
       const storyData = {
         title,
         story_idea: customIdea,
+        story_profile: profileName,
+        source_posts: sourcePosts,
         plot_outline: JSON.stringify(outline),
         characters,
-        chapters: outline.map((sceneBeat, index) => ({
-          title: `Chapter ${index + 1}`,
+        chapters: outline.map((chapter) => ({
+          title: `Chapter ${chapter.chapter_number}`,
           content: '',
           completed: false,
-          sceneBeat
+          sceneBeat: chapter.chapter_beat
         }))
       };
       
@@ -404,284 +691,27 @@ Please provide a detailed summary in 400-600 words.
     }
   }
 
-  // Format scenes from JSON string or JSON-like text
-  public formatScenes(inputString: string): string[] | null {
-    console.log("Raw input to formatScenes:", inputString.substring(0, 200) + "...");
-    let textToParse = inputString.trim();
-
-    // Remove markdown code blocks if present
-    textToParse = textToParse.replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '').trim();
-    console.log("After removing markdown:", textToParse.substring(0, 200) + "...");
-
-    // Find the first likely start of JSON (either { or [)
-    const jsonStartIndex = textToParse.search(/[{\[]/);
-    if (jsonStartIndex === -1) {
-        console.log("No JSON start found. Trying plain text extraction.");
-        return this.extractScenesFromPlainText(inputString);
-    }
-    // Remove any text before the JSON start
-    textToParse = textToParse.substring(jsonStartIndex);
-
-    // Find the last likely end of JSON (corresponding } or ])
-    // Attempt to find the matching closing bracket for the first opening one
-    let openCount = 0;
-    let actualEndIndex = -1;
-    let firstOpenChar = '';
-    for (let i = 0; i < textToParse.length; i++) {
-        const char = textToParse[i];
-        if (i === 0) firstOpenChar = char; // Record the first opening char
-
-        if (char === '[' || char === '{') {
-            openCount++;
-        } else if (char === ']' || char === '}') {
-            openCount--;
-        }
-        
-        // Check if we closed the initial bracket/brace
-        if (openCount === 0 && i > 0 && 
-            ((firstOpenChar === '[' && char === ']') || (firstOpenChar === '{' && char === '}'))) {
-            actualEndIndex = i;
-            break; 
-        }
-        
-        // Handle strings to prevent counting brackets inside them
-        if (char === '"') {
-            let endQuoteIndex = i + 1;
-            while (endQuoteIndex < textToParse.length) {
-                if (textToParse[endQuoteIndex] === '"') {
-                    // Check for escaped quote
-                    if (endQuoteIndex > 0 && textToParse[endQuoteIndex - 1] === '\\') {
-                         // It's escaped, continue searching
-                    } else {
-                        // Found the closing quote
-                        i = endQuoteIndex; 
-                        break;
-                    }
-                }
-                endQuoteIndex++;
-            }
-            // If no closing quote found, something is wrong, but proceed with current index
-             if(endQuoteIndex === textToParse.length) i = endQuoteIndex;
-        }
-    }
-
-    if (actualEndIndex !== -1) {
-        textToParse = textToParse.substring(0, actualEndIndex + 1);
-        console.log("After bracket/brace matching:", textToParse.substring(0, 200) + "...");
-    } else {
-        console.warn("Could not reliably find matching end bracket/brace. Proceeding with potentially incomplete JSON.");
-        // As a fallback, try finding the last bracket/brace
-        const lastBracketIndex = Math.max(textToParse.lastIndexOf(']'), textToParse.lastIndexOf('}'));
-        if (lastBracketIndex > 0) { // Only trim if a closing bracket is found after the start
-             textToParse = textToParse.substring(0, lastBracketIndex + 1);
-        }
-    }
-
-    // Sanitize the potentially extracted JSON string
-    const sanitizedString = this.sanitizeJsonString(textToParse);
-    console.log("String going into JSON.parse:", sanitizedString.substring(0, 200) + "...");
-
-    let parsedData;
-    try {
-      parsedData = JSON.parse(sanitizedString);
-    } catch (parseError: any) {
-      const errorPos = parseError.message.match(/position (\d+)/)?.[1];
-      const contextSnippet = errorPos ? sanitizedString.substring(Math.max(0, parseInt(errorPos) - 30), Math.min(sanitizedString.length, parseInt(errorPos) + 30)) : '(no position info)';
-      console.error(`JSON parse error: ${parseError.message}. Context around position ${errorPos || 'N/A'}: "...${contextSnippet}..."`);
-      console.log("Attempting manual scene extraction as fallback... Using ORIGINAL input string.");
-      return this.extractScenesManually(inputString); // Use original input for manual extraction
-    }
-
-    // Determine if the parsed data is an array or a single object
-    const scenesArray = Array.isArray(parsedData) ? parsedData : [parsedData];
-
-    const formattedScenes: string[] = [];
-    for (const scene of scenesArray) {
-      if (typeof scene === 'object' && scene !== null) {
-        const beat = scene.scene_beat || scene.chapter_beat;
-        const number = scene.scene_number ?? scene.chapter_number;
-
-        if (number != null && typeof beat === 'string' && beat.trim().length > 0) {
-          formattedScenes.push(beat.trim());
-        } else {
-          console.warn("Skipping scene object due to missing/invalid number or beat:", JSON.stringify(scene));
-        }
-      } else {
-        console.warn("Skipping non-object item in scenes array:", JSON.stringify(scene));
-      }
-    }
-
-    if (formattedScenes.length === 0) {
-      console.warn("Warning: No valid scenes extracted from the parsed JSON data. Trying manual extraction using ORIGINAL input string.");
-      return this.extractScenesManually(inputString); // Fallback if parsing succeeded but found no valid scenes
-    }
-
-    console.log(`Successfully parsed ${formattedScenes.length} scenes from JSON.`);
-    return formattedScenes;
-  }
-
-  // New method to convert plain text to JSON format (Revised)
-  private convertPlainTextToJson(text: string): string {
-    console.log("Attempting to convert plain text to JSON format");
-    const scenes = this.extractScenesFromPlainText(text); // Reuse extraction logic
-    
-    // Convert extracted scenes to the desired JSON format
-    const jsonScenes = scenes.map((sceneText, index) => ({
-      scene_number: index + 1, // Or use chapter_number if preferred
-      scene_beat: sceneText // Or use chapter_beat if preferred
-    }));
-    
-    console.log(`Converted ${jsonScenes.length} scenes to JSON format`);
-    // Return the stringified JSON array
-    return JSON.stringify(jsonScenes, null, 2); // Pretty print for potential debugging
-  }
-
-  // New helper method to extract scenes from plain text narrative (Revised)
-  private extractScenesFromPlainText(text: string): string[] {
-    console.log("Extracting scenes from plain text narrative...");
-    const scenes: string[] = [];
-    
-    // 1. Try splitting by chapter/scene markers first
-    const chapterMarkers = text.match(/^s*(Chapter|Scene)s+d+[:.]?/gmi);
-    if (chapterMarkers && chapterMarkers.length > 1) {
-      const parts = text.split(/^s*(Chapter|Scene)s+d+[:.]?/mi);
-      for (let i = 1; i < parts.length; i++) { // Start from 1 to skip content before the first marker
-        const sceneContent = parts[i].trim();
-        if (sceneContent) scenes.push(sceneContent);
-      }
-      if (scenes.length > 0) {
-          console.log(`Extracted ${scenes.length} scenes based on 'Chapter/Scene' markers.`);
-          return scenes;
-      }
-    }
-
-    // 2. Try splitting by double newlines (paragraphs)
-    const paragraphs = text.split(/ns*n/).map(p => p.trim()).filter(p => p.length > 0);
-    if (paragraphs.length > 1) {
-        // Group paragraphs into scenes if reasonable (e.g., aiming for 5-10 scenes)
-        const targetSceneCount = Math.min(10, Math.max(5, Math.round(paragraphs.length / 3)));
-        const paragraphsPerScene = Math.max(1, Math.ceil(paragraphs.length / targetSceneCount));
-        
-        for (let i = 0; i < paragraphs.length; i += paragraphsPerScene) {
-          const sceneChunk = paragraphs.slice(i, i + paragraphsPerScene).join('n');
-          scenes.push(sceneChunk);
-        }
-        if (scenes.length > 0) {
-            console.log(`Extracted ${scenes.length} scenes by grouping ${paragraphsPerScene} paragraphs.`);
-            return scenes;
-        }
-    }
-    
-    // 3. Fallback: Split by sentences if very little structure
-    if (scenes.length === 0 && text.length > 0) {
-        const sentences = text.match(/[^.!?]+[.!?]+/g) || [text]; // Basic sentence split
-        const sentencesPerScene = Math.max(3, Math.ceil(sentences.length / 8)); // Aim for ~8 scenes
-        for (let i = 0; i < sentences.length; i += sentencesPerScene) {
-            const sceneChunk = sentences.slice(i, i + sentencesPerScene).join(' ').trim();
-            if (sceneChunk) scenes.push(sceneChunk);
-        }
-         if (scenes.length > 0) {
-            console.log(`Extracted ${scenes.length} scenes by grouping sentences.`);
-            return scenes;
-         }
-    }
-
-    // 4. Absolute Fallback: Return the whole text as one scene
-    if (scenes.length === 0 && text.trim().length > 0) {
-        console.log("Could not split text, returning as single scene.");
-        return [text.trim()];
-    }
-    
-    console.log("No scenes extracted from plain text.");
-    return [];
-  }
-
-  // Helper method to sanitize JSON string (Revised - minimal changes)
-  private sanitizeJsonString(jsonString: string): string {
-      // console.log("Sanitizing JSON string...");
-      // Remove specific problematic Unicode control characters U+0000 to U+001F, except for valid whitespace like \t, \n, \r
-      let result = jsonString.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
-      // console.log("Sanitization complete.");
-      return result;
-  }
-
-  // Fallback method to extract scenes when JSON parsing fails (Revised)
-  private extractScenesManually(text: string): string[] | null {
-    console.log("Attempting manual scene extraction from original text...");
-    const scenes: string[] = [];
-
-    // Regex to find scene_beat or chapter_beat values, more tolerant of formatting
-    const beatRegex = /["'](?:scene_beat|chapter_beat)["']\s*:\s*["']((?:.|\n)*?)["']/gi;
-    let match;
-    while ((match = beatRegex.exec(text)) !== null) {
-        // Ensure match[1] exists and is a string before trying to replace/trim
-        if (match && typeof match[1] === 'string') {
-            const beatContent = match[1]
-                .replace(/\\"/g, '"')     // Replace escaped quotes
-                .replace(/\\n/g, '\n')     // Replace escaped newlines
-                .replace(/\\t/g, '\t')     // Replace escaped tabs
-                .replace(/\\\//g, '/')    // Replace escaped slashes
-                .replace(/\\\\/g, '\\')    // Replace escaped backslashes
-                .trim();
-            if (beatContent) {
-                scenes.push(beatContent);
-            }
-        } else {
-             console.warn("Manual extraction regex match found, but capture group 1 was invalid:", match);
-        }
-    }
-
-    if (scenes.length > 0) {
-      console.log(`Manually extracted ${scenes.length} scenes using regex.`);
-      return scenes;
-    }
-
-    // If regex fails, fall back to plain text extraction on the original string
-    console.log("Manual regex extraction failed, trying plain text extraction as last resort...");
-    return this.extractScenesFromPlainText(text);
-  }
-
   // Create outline from story idea using structured output for OpenRouter
-  public async createOutline(idea: string, signal?: AbortSignal): Promise<string[] | null> {
+  public async createOutline(idea: string, signal?: AbortSignal, profileName?: string): Promise<OutlineChapter[] | null> {
     try {
       await this.ensureSettingsLoaded();
 
-      // Get user-defined chapter range or use defaults
-      const minChapters = this.userSettings?.min_chapters || 5;
-      const maxChapters = this.userSettings?.max_chapters || 7;
-      // Ensure min is not greater than max
-      const effectiveMinChapters = Math.min(minChapters, maxChapters);
-      const effectiveMaxChapters = Math.max(minChapters, maxChapters);
-      console.log(`Target chapter range: ${effectiveMinChapters}-${effectiveMaxChapters}`);
-
-      const allProfiles = settings.load_story_profiles();
-      const profile = allProfiles[settings.STORY_PROFILE];
-      
-      if (!profile) {
-        console.log(`Error: Story profile '${settings.STORY_PROFILE}' not found`);
-        return null;
-      }
+      // Get user-defined chapter range or use defaults, widened to include the profile's chapter count
+      const profile = await this.loadStoryProfile(profileName);
+      const { min: effectiveMinChapters, max: effectiveMaxChapters } = getChapterRange(
+        profile,
+        this.userSettings?.min_chapters || 5,
+        this.userSettings?.max_chapters || 7
+      );
+      console.log(`Target chapter range for ${profile.name}: ${effectiveMinChapters}-${effectiveMaxChapters}`);
 
       let retries = 0;
+      const outlineTemplate = await this.getPromptTemplateText('outline', profile.name);
 
       // Define the JSON Schema using the effective chapter range
       const outlineSchema = {
         type: "array",
-        items: {
-          type: "object",
-          properties: {
-            chapter_number: {
-              type: "integer",
-              description: "The sequential number of the chapter."
-            },
-            chapter_beat: {
-              type: "string",
-              description: `A detailed summary of the events in this chapter (approx 250 words).`
-            }
-          },
-          required: ["chapter_number", "chapter_beat"],
-          additionalProperties: false
-        },
+        items: outlineChapterSchema,
         minItems: effectiveMinChapters,
         maxItems: effectiveMaxChapters
       };
@@ -689,66 +719,24 @@ Please provide a detailed summary in 400-600 words.
       while (retries < 5) {
         try {
           // Update prompt to use the dynamic chapter range
-          const userMessage = `## OUTLINE REQUIREMENTS
-- The plot outline must contain between ${effectiveMinChapters} and ${effectiveMaxChapters} chapters. These are STRICT requirements.
-- If there are plot holes in the story idea, you MUST fix them in the plot outline.
-- DO NOT write an epilogue as the final chapter. The final chapter must be the resolution or provide an opening for a potential sequel.
-
-## Instructions
-- Write a full plot outline for the given story idea.
-- Write the plot outline as a list of all the chapters in the story.
-- Each chapter must be a detailed summary of the events in that chapter that is 250 words in length.
-- DO NOT use flowery language, use concise language.
-- Only write the crucial events in the chapter without ANY filler sentences or details.
-- Use casual language and tone in the plot outline.
-- ONLY write the plot outline in the past tense from the narrator's perspective in third person.
-- Explicitly state the change of time and/or setting between chapters.
-- Mention any locations by name.
-- Only refer to the narrator in the story as their name with (The Narrator) next to it in the plot outline.
-- Create a slow build up of tension and suspense throughout the story.
-- A chapter in the story is defined as when there is a change in the setting in the story.
-
-# Plot Outline Rules:
-- Each chapter must smoothly transition from the previous chapter and to the next chapter without unexplained time and setting jumps.
-- Ensure key story elements (e.g., character motivations, mysteries, and plot developments) are resolved by the end.
-- Explicitly address and resolve the purpose and origin of central objects or plot devices (e.g., mysterious items, symbols, or events).
-- If other characters have significant knowledge of the mystery or key events, show how and when they gained this knowledge to maintain logical consistency.
-- Explore and resolve character dynamics, especially those affecting key relationships.
-- Provide clarity on thematic or mysterious elements that connect scenes, ensuring the stakes are clearly defined and resolved.
-- The final chapter must state it's the final chapter of the story and how to end the story.
-
-## You must STRICLY use following JSON format for the plot outline exactly without deviation, DO NOT write in markdown format:
-[
-  {
-    "chapter_number": 1,
-    "chapter_beat": "chapter 1 content..."
-  },
-  {
-    "chapter_number": 2,
-    "chapter_beat": "chapter 2 content..."
-  }
-]
-
-## Story Idea:
-${idea}`;
+          const userMessage = renderTemplate(outlineTemplate, {
+            min_chapters: effectiveMinChapters,
+            max_chapters: effectiveMaxChapters,
+            idea
+          });
 
-          const client = await this.getClient();
-          const useOpenAI = this.userSettings.use_openai_for_story_gen;
-          const model = useOpenAI 
-            ? this.userSettings.reasoning_model || 'gpt-4o'
-            : this.userSettings.reasoning_model || 'anthropic/claude-3.7-sonnet:thinking';
-          
-          console.log(`Using ${useOpenAI ? 'OpenAI' : 'OpenRouter'} with model: ${model} for outline creation`);
+          const { client, model, temperature, max_tokens, providerLabel, supportsJsonSchema } = await this.resolveStep('outline');
 
-          const requestParams: any = {
+          const requestParams: ChatCompletionRequest = {
               model: model,
-              temperature: 0.8,
+              temperature,
+              max_tokens,
               messages: [{ role: "user", content: userMessage }],
           };
           
-          // Add structured output only if NOT using OpenAI (and assuming model compatibility)
-          if (!useOpenAI) { 
-              console.log("Attempting to use OpenRouter structured output (json_schema)");
+          // Add structured output only if the provider supports it (and assuming model compatibility)
+          if (supportsJsonSchema) { 
+              console.log(`Attempting to use ${providerLabel} structured output (json_schema)`);
               requestParams.response_format = {
                   type: "json_schema",
                   json_schema: {
@@ -759,10 +747,10 @@ ${idea}`;
                   }
               };
           } else {
-              console.log("Using standard output for OpenAI, relying on prompt for JSON format.");
+              console.log(`Using standard output for ${providerLabel}, relying on prompt for JSON format.`);
           }
           
-          const response = await client.chat.completions.create(requestParams, { signal });
+          const response = expectCompletion(await client.chat.completions.create(requestParams, { signal }));
           const responseContent = response.choices[0].message.content || '';
 
           console.log("Raw response content:", responseContent.substring(0, 200) + "...");
@@ -775,10 +763,10 @@ ${idea}`;
               }
           } catch (parseError: any) {
               console.error(`Attempt ${retries + 1}: Failed to parse response as JSON: ${parseError.message}`);
-              console.log("Falling back to formatScenes parser...");
-              const fallbackOutline = this.formatScenes(responseContent);
+              console.log("Falling back to formatOutline parser...");
+              const fallbackOutline = formatOutline(responseContent);
               if (fallbackOutline && fallbackOutline.length >= effectiveMinChapters && fallbackOutline.length <= effectiveMaxChapters) {
-                 console.log(`Outline successfully parsed via fallback formatScenes with ${fallbackOutline.length} scenes.`);
+                 console.log(`Outline successfully parsed via fallback formatOutline with ${fallbackOutline.length} chapters.`);
                  return fallbackOutline;
               } else {
                  console.warn(`Attempt ${retries + 1}: JSON parsing/fallback failed or chapter count (${fallbackOutline?.length}) outside range ${effectiveMinChapters}-${effectiveMaxChapters}. Retrying...`);
@@ -789,28 +777,23 @@ ${idea}`;
               }
           }
 
-          // Validate structure and extract beats from the successfully parsed JSON
-          const outlineBeats = parsedOutline.map((item: any) => {
-              if (typeof item === 'object' && item !== null && 
-                  (item.chapter_number != null || item.scene_number != null) && 
-                  typeof (item.chapter_beat || item.scene_beat) === 'string') {
-                  return (item.chapter_beat || item.scene_beat).trim();
-              }
-              console.warn("Invalid item found in parsed outline array:", item);
-              return null;
-          }).filter((beat): beat is string => beat !== null && beat.length > 0);
+          // Validate structure and build chapter records from the successfully parsed JSON
+          const outlineChapters = normalizeOutline(parsedOutline);
+          if (outlineChapters.length < parsedOutline.length) {
+              console.warn(`Dropped ${parsedOutline.length - outlineChapters.length} invalid item(s) from the parsed outline array.`);
+          }
           
           // Validate against dynamic chapter range
-          if (outlineBeats.length < effectiveMinChapters || outlineBeats.length > effectiveMaxChapters) {
-               console.warn(`Attempt ${retries + 1}: Outline length (${outlineBeats.length}) outside required ${effectiveMinChapters}-${effectiveMaxChapters} range. Retrying...`);
+          if (outlineChapters.length < effectiveMinChapters || outlineChapters.length > effectiveMaxChapters) {
+               console.warn(`Attempt ${retries + 1}: Outline length (${outlineChapters.length}) outside required ${effectiveMinChapters}-${effectiveMaxChapters} range. Retrying...`);
                retries += 1;
-               if(retries >= 5) throw new Error(`Failed to generate an outline with the required number of chapters (${effectiveMinChapters}-${effectiveMaxChapters}) after ${retries} attempts. Last count: ${outlineBeats.length}`);
+               if(retries >= 5) throw new Error(`Failed to generate an outline with the required number of chapters (${effectiveMinChapters}-${effectiveMaxChapters}) after ${retries} attempts. Last count: ${outlineChapters.length}`);
                await new Promise(resolve => setTimeout(resolve, 1000));
                continue;
           }
 
-          console.log(`Outline successfully created and parsed with ${outlineBeats.length} chapters.`);
-          return outlineBeats; // Success
+          console.log(`Outline successfully created and parsed with ${outlineChapters.length} chapters.`);
+          return outlineChapters; // Success
 
         } catch (err: any) {
             if (err.name === 'AbortError') throw err; 
@@ -830,49 +813,111 @@ ${idea}`;
   }
 }
 
-  // Generate characters for the story
-  public async generateCharacters(outline: string[], signal?: AbortSignal): Promise<string | null> {
+  // Regenerate one chapter of an outline, using the neighbouring chapters as context
+  public async regenerateOutlineChapter(
+    idea: string,
+    outline: OutlineChapter[],
+    index: number,
+    signal?: AbortSignal
+  ): Promise<OutlineChapter> {
+    await this.ensureSettingsLoaded();
+
+    const current = outline[index];
+    if (!current) {
+      throw new Error(`Chapter ${index + 1} does not exist in the outline`);
+    }
+
+    const previousChapters = outline.slice(Math.max(0, index - 2), index);
+    const nextChapters = outline.slice(index + 1, index + 3);
+    const isFinalChapter = index === outline.length - 1;
+
+    const prompt = renderTemplate(await this.getPromptTemplateText('outline_chapter'), {
+      chapter_number: index + 1,
+      chapter_count: outline.length,
+      final_chapter: isFinalChapter,
+      target_word_count: current.target_word_count ?? 3000,
+      tension_level: current.tension_level ?? 5,
+      idea,
+      previous_chapters: formatOutlineForPrompt(previousChapters),
+      current_chapter: formatOutlineForPrompt([current]),
+      next_chapters: formatOutlineForPrompt(nextChapters)
+    });
+
+    const { client, model, temperature, max_tokens, providerLabel, supportsJsonSchema } = await this.resolveStep('outline');
+
+    const requestParams: ChatCompletionRequest = {
+      model,
+      temperature,
+      max_tokens,
+      messages: [{ role: "user", content: prompt }],
+    };
+
+    if (supportsJsonSchema) {
+      console.log(`Attempting to use ${providerLabel} structured output (json_schema) for chapter ${index + 1}`);
+      requestParams.response_format = {
+        type: "json_schema",
+        json_schema: {
+          name: "outline_chapter",
+          strict: true,
+          schema: outlineChapterSchema
+        }
+      };
+    }
+
+    const response = expectCompletion(await client.chat.completions.create(requestParams, { signal }));
+    const responseContent = response.choices[0].message.content || '';
+    const [chapter] = formatOutline(responseContent) || [];
+
+    if (!chapter) {
+      throw new Error('Failed to parse the regenerated chapter. Please try again.');
+    }
+
+    return { ...chapter, chapter_number: index + 1 };
+  }
+
+  // Generate the character bible for the story
+  public async generateCharacters(outline: OutlineChapter[], signal?: AbortSignal): Promise<Character[] | null> {
     let retries = 0;
     while (retries < 10) {
       try {
         await this.ensureSettingsLoaded();
 
-        const prompt = `
-## Instructions
-Using the given story outline, write short character descriptions for all the characters in the story in the following format:
-<character name='(Character Name)' aliases='(Character Alias)', pronouns='(Character Pronouns)', age='(Character Age)'>Personality:\n(Personality)\n\nAppearance:\n(Appearance)\n\nRelationships to other characters:\n(Relationships)</character>
-
-## Character Description rules: 
-- The character alias is what the other characters in the story will call that character in the story such as their first name.
-- For The Narrator's alias you must create a name that other characters will call them in the story.
-- The pronouns are what you will use to refer to the character as in the story when not writing their name.
-- The character description must only describe their appearance and personality DO NOT write what happens to them in the story.
-- Only return the character descriptions without any comments.
-
-## Outline:
-${outline.join('\n')}
-        `;
-        
-        // Get the appropriate client based on user settings
-        const client = await this.getClient();
-        
-        // Use the story_generation_model for character generation
-        const model = this.userSettings.use_openai_for_story_gen 
-          ? this.userSettings.story_generation_model || 'gpt-4o'
-          : this.userSettings.openrouter_model || 'openai/gpt-4o-mini';
-        
-        console.log(`Using ${this.userSettings.use_openai_for_story_gen ? 'OpenAI' : 'OpenRouter'} with model: ${model} for character generation`);
+        const prompt = renderTemplate(await this.getPromptTemplateText('characters'), {
+          outline: formatOutlineForPrompt(outline)
+        });
         
-        const response = await client.chat.completions.create({
+        // Resolve the provider and model for character generation
+        const { client, model, temperature, max_tokens, providerLabel, supportsJsonSchema } = await this.resolveStep('characters');
+
+        const requestParams: ChatCompletionRequest = {
           model: model,
-          max_tokens: 4000,
-          temperature: 0.7,
+          max_tokens,
+          temperature,
           messages: [{ role: "user", content: prompt }],
-        }, {
+        };
+
+        if (supportsJsonSchema) {
+          console.log(`Attempting to use ${providerLabel} structured output (json_schema) for characters`);
+          requestParams.response_format = {
+            type: "json_schema",
+            json_schema: {
+              name: "character_bible",
+              strict: true,
+              schema: characterBibleSchema
+            }
+          };
+        }
+        
+        const response = expectCompletion(await client.chat.completions.create(requestParams, {
           signal: signal
-        });
-        return response.choices[0].message.content || null;
+        }));
+        const characters = parseCharacters(response.choices[0].message.content || '');
+        if (characters.length === 0) {
+          throw new Error('No characters found in the response');
+        }
+        return characters;
       } catch (err) {
+        if ((err as Error).name === 'AbortError') throw err;
         console.log(`Error in generateCharacters: ${err}. Retrying...`);
         retries += 1;
       }
@@ -880,6 +925,135 @@ ${outline.join('\n')}
     return null;
   }
 
+  // Extract typed relationship edges between characters from the character bible
+  public async extractRelationships(characters: Character[], signal?: AbortSignal): Promise<CharacterRelationship[]> {
+    await this.ensureSettingsLoaded();
+
+    if (characters.length < 2) {
+      return [];
+    }
+
+    const prompt = renderTemplate(await this.getPromptTemplateText('relationships'), {
+      relationship_types: RELATIONSHIP_TYPES.join(', '),
+      characters: formatCharactersForPrompt(characters)
+    });
+
+    const { client, model, temperature, max_tokens, providerLabel, supportsJsonSchema } = await this.resolveStep('characters');
+
+    const requestParams: ChatCompletionRequest = {
+      model,
+      temperature,
+      max_tokens,
+      messages: [{ role: "user", content: prompt }],
+    };
+
+    if (supportsJsonSchema) {
+      console.log(`Attempting to use ${providerLabel} structured output (json_schema) for relationships`);
+      requestParams.response_format = {
+        type: "json_schema",
+        json_schema: {
+          name: "relationship_graph",
+          strict: true,
+          schema: relationshipGraphSchema
+        }
+      };
+    }
+
+    const response = expectCompletion(await client.chat.completions.create(requestParams, { signal }));
+    return parseRelationships(response.choices[0].message.content || '', characters);
+  }
+
+  // Extract continuity details from a completed chapter and merge them into the ledger.
+  // Entries previously extracted from the same chapter are replaced.
+  public async extractContinuity(
+    chapterContent: string,
+    chapterNumber: number,
+    ledger: ContinuityLedger,
+    characters: string,
+    signal?: AbortSignal
+  ): Promise<ContinuityLedger> {
+    await this.ensureSettingsLoaded();
+
+    const existing = { ...ledger, entries: ledger.entries.filter(entry => entry.chapter_number !== chapterNumber) };
+    const { client, model, temperature, max_tokens, providerLabel, supportsJsonSchema } = await this.resolveStep('continuity');
+
+    const template = await this.getPromptTemplateText('continuity');
+    const renderPrompt = (parts: Record<string, string>) => renderTemplate(template, {
+      chapter_number: chapterNumber,
+      categories: CONTINUITY_CATEGORIES.map(category => `${category.id} (${category.description.toLowerCase()})`).join(', '),
+      ...parts
+    });
+
+    // The oldest ledger entries are dropped first when the prompt doesn't fit
+    const { sections } = this.budgetPromptSections('continuity', [
+      { id: 'instructions', label: 'Instructions', text: renderPrompt({}) },
+      { id: 'chapter', label: 'Chapter', text: chapterContent },
+      { id: 'characters', label: 'Characters', text: characters, priority: 1 },
+      { id: 'ledger', label: 'Continuity ledger', text: formatLedgerForPrompt(existing, true), priority: 0, keep: 'end' }
+    ], model, max_tokens);
+    const prompt = renderPrompt(sections);
+
+    const requestParams: ChatCompletionRequest = {
+      model,
+      temperature,
+      max_tokens,
+      messages: [{ role: "user", content: prompt }],
+    };
+
+    if (supportsJsonSchema) {
+      console.log(`Attempting to use ${providerLabel} structured output (json_schema) for continuity`);
+      requestParams.response_format = {
+        type: "json_schema",
+        json_schema: {
+          name: "continuity_update",
+          strict: true,
+          schema: continuityUpdateSchema
+        }
+      };
+    }
+
+    const response = expectCompletion(await client.chat.completions.create(requestParams, { signal }));
+    return applyLedgerUpdate(existing, chapterNumber, parseLedgerUpdate(response.choices[0].message.content || ''));
+  }
+
+  // Summarise a completed chapter for the rolling story context
+  public async summarizeChapter(chapterContent: string, chapterNumber: number, signal?: AbortSignal): Promise<ChapterSummary> {
+    await this.ensureSettingsLoaded();
+
+    const prompt = renderTemplate(await this.getPromptTemplateText('chapter_summary'), {
+      chapter_number: chapterNumber,
+      chapter: chapterContent
+    });
+
+    const { client, model, temperature, max_tokens, providerLabel, supportsJsonSchema } = await this.resolveStep('chapter_summary');
+
+    const requestParams: ChatCompletionRequest = {
+      model,
+      temperature,
+      max_tokens,
+      messages: [{ role: "user", content: prompt }],
+    };
+
+    if (supportsJsonSchema) {
+      console.log(`Attempting to use ${providerLabel} structured output (json_schema) for chapter summaries`);
+      requestParams.response_format = {
+        type: "json_schema",
+        json_schema: {
+          name: "chapter_summary",
+          strict: true,
+          schema: chapterSummarySchema
+        }
+      };
+    }
+
+    const response = expectCompletion(await client.chat.completions.create(requestParams, { signal }));
+    const summary = parseSummaryResponse(response.choices[0].message.content || '');
+    if (!summary) {
+      throw new Error(`The model returned an empty summary for chapter ${chapterNumber}`);
+    }
+    return { chapter_number: chapterNumber, ...summary, content_hash: hashContent(chapterContent) };
+  }
+
   // Process text in smaller chunks
   public async rewriteInChunks(
     text: string,
@@ -889,72 +1063,29 @@ ${outline.join('\n')}
     try {
       await this.ensureSettingsLoaded();
 
-      const client = await this.getOpenRouterClient();
-      const model = this.userSettings.story_generation_model;
+      const { client, model, temperature, max_tokens } = await this.resolveStep('refine');
 
       console.log('Starting chapter rewrite with model:', model);
+      const systemPrompt = await this.getPromptTemplateText('rewrite');
 
-      const stream = await client.chat.completions.create({
+      const stream = expectStream(await client.chat.completions.create({
         model: model,
         messages: [
           {
             role: "system",
-            content: `##INSTRUCTIONS
-You will be given a section of text and you MUST perform the following to it:
-
----
-
-## WHAT TO REMOVE
--Eliminate all appositive phrases relating to people or objects, except those that contain foreshadowing.
--Eliminate all absolute phrases relating to people or objects, except those that provide sensory information or describe physical sensations.
--Eliminate all metaphors in the text.
--Eliminate all sentences that add unnecessary detail or reflection without contributing new information to the chapter.
--Eliminate all sentences that hinder the pacing of the chapter by adding excessive descriptions of the environment, atmosphere, or setting unless they directly affect character actions or emotions.
--Eliminate all phrases that mention the character's heart pounding or heart in their throat.
-If a paragraph doesn't need to be changed, leave it as is in the returned text.
--Eliminate all sentences and phrases that mention light casting long shadows.
-
----
-
-##WHAT TO REWRITE
-- Re-write any sentences or phrases that have "I frowned" in them or similar wording.
-- Re-write any sentences mentioning the air being stale and/or heavy.
-- Re-write ALL flowery language to use casual and simple vocabulary
-
----
-
-##WORDS TO REPLACE
-#Re-write sentences with the following words with synonyms that are casual and simple.
-
-#Words:
-- Loomed
-- Sinewy
-- Foreboding
-- Grotesque
-- Familiar
-- Shift/Shifting/Shifted
-- Gaze
-- Punctuated
-- Form
-- Monotonous
-- Frowned
-- Hum/Humming/Hummed
-- rough-hewn
-- camaraderie
-- echoed
-
-Only respond with the modified text and nothing else. You MUST respond with the FULL text.`
+            content: systemPrompt
           },
           {
             role: "user",
             content: text
           }
         ],
-        temperature: 1,
+        temperature,
+        max_tokens,
         stream: true
       }, {
         signal
-      });
+      }));
 
       let fullContent = '';
 
@@ -982,27 +1113,24 @@ Only respond with the modified text and nothing else. You MUST respond with the
   }
 
   // Create a title for the story
-  public async createTitle(storyText: string, signal?: AbortSignal): Promise<string> {
+  public async createTitle(storyText: string, signal?: AbortSignal, profileName?: string): Promise<string> {
     await this.ensureSettingsLoaded();
 
     const maxRetries = 5;
     for (let attempt = 0; attempt < maxRetries; attempt++) {
       try {
-        // Get the appropriate client based on user settings
-        const client = await this.getOpenAIClient();
-        
-        // Use the title_fine_tune_model for title generation if available, otherwise fall back to appropriate defaults
-        const model = this.userSettings.title_fine_tune_model
-        
-        console.log(`Using OpenAI with model: ${model} for title generation`);
-        
-        const title = await client.chat.completions.create({
+        // Resolve the provider and model for title generation
+        const { client, model, temperature, max_tokens } = await this.resolveStep('title');
+        const systemPrompt = await this.getPromptTemplateText('title', profileName);
+
+        const title = expectCompletion(await client.chat.completions.create({
           model: model,
-          temperature: 0.9,
+          temperature,
+          max_tokens,
           messages: [
             {
               role: "system",
-              content: "You are tasked with creating a YouTube title for the given story. The title must be between 70 and 100 characters and include a comma. The title must be told in first person in the past tense."
+              content: systemPrompt
             },
             {
               role: "user",
@@ -1011,7 +1139,7 @@ Only respond with the modified text and nothing else. You MUST respond with the
           ]
         }, {
           signal: signal
-        });
+        }));
 
         let titleText = title.choices[0].message.content?.trim() || '';
         
@@ -1114,13 +1242,13 @@ Only respond with the modified text and nothing else. You MUST respond with the
         // Ensure plot_outline is properly formatted JSON
         if (data.plot_outline) {
           try {
-            // Try parsing it to validate
-            JSON.parse(data.plot_outline);
+            // Parse it to validate, upgrading legacy string-array outlines to chapter records
+            data.plot_outline = JSON.stringify(parseStoredOutline(data.plot_outline));
           } catch (parseError) {
             console.error('Invalid plot_outline JSON detected, repairing story:', storyId);
             
             // Create a default plot outline
-            const defaultOutline = JSON.stringify(["Chapter 1: Begin your story here..."]);
+            const defaultOutline = JSON.stringify(normalizeOutline(["Chapter 1: Begin your story here..."]));
             
             // Update the story in the database with the fixed plot_outline
             await this.updateStory(storyId, { 
@@ -1133,7 +1261,7 @@ Only respond with the modified text and nothing else. You MUST respond with the
         } else if (!data.plot_outline || data.plot_outline === '') {
           // If plot_outline is empty, set a default
           console.log('Empty plot_outline detected, adding default outline');
-          const defaultOutline = JSON.stringify(["Chapter 1: Begin your story here..."]);
+          const defaultOutline = JSON.stringify(normalizeOutline(["Chapter 1: Begin your story here..."]));
           
           // Update the story with the default outline
           await this.updateStory(storyId, { 
@@ -1143,6 +1271,11 @@ Only respond with the modified text and nothing else. You MUST respond with the
           // Update the local data object
           data.plot_outline = defaultOutline;
         }
+
+        // Migrate legacy <character> tags to the JSON character bible
+        if (data.characters && data.characters.includes('<character')) {
+          data.characters = JSON.stringify(parseCharacters(data.characters));
+        }
       }
       
       // Cache the results
@@ -1173,13 +1306,17 @@ Only respond with the modified text and nothing else. You MUST respond with the
         plot_outline: typeof story.plot_outline === 'string' 
           ? story.plot_outline 
           : JSON.stringify(story.plot_outline || []),
-        characters: story.characters || '',
+        characters: typeof story.characters === 'string'
+          ? story.characters
+          : JSON.stringify(story.characters || []),
         chapters: typeof story.chapters === 'string'
           ? story.chapters
           : JSON.stringify(story.chapters || []),
         user_id: this.userId,
         is_sequel: story.is_sequel || false,
         parent_story_id: story.parent_story_id || null,
+        story_profile: story.story_profile || DEFAULT_STORY_PROFILE,
+        source_posts: story.source_posts || [],
         created_at: new Date().toISOString()
       };
 
@@ -1246,23 +1383,23 @@ Only respond with the modified text and nothing else. You MUST respond with the
         throw new Error('Original story is missing');
       }
       
-      // Get the appropriate client based on user settings
-      const client = await this.getClient();
-      
-      // Use the story generation model for sequel ideas
-      const model = this.userSettings.use_openai_for_story_gen 
-        ? this.userSettings.reasoning_model || 'gpt-4o'
-        : this.userSettings.reasoning_model || 'openai/gpt-4o-mini';
-      
-      console.log(`Using ${this.userSettings.use_openai_for_story_gen ? 'OpenAI' : 'OpenRouter'} with model: ${model} for sequel generation`);
+      // Resolve the provider and model for sequel ideas
+      const { client, model, temperature, max_tokens } = await this.resolveStep('sequel');
 
       // Extract the original story details
       const originalTitle = originalStory.title;
       const originalIdea = originalStory.story_idea;
-      const originalPlot = typeof originalStory.plot_outline === 'string' 
-        ? originalStory.plot_outline 
-        : JSON.stringify(originalStory.plot_outline || []);
+      let originalPlot: string;
+      try {
+        originalPlot = formatOutlineForPrompt(parseStoredOutline(originalStory.plot_outline || []));
+      } catch {
+        originalPlot = String(originalStory.plot_outline);
+      }
       
+      // Chapter summaries describe what was actually written, which can differ from the outline
+      const summaries = parseChapterSummaries(originalStory.chapter_summaries);
+      const formatSummaries = (maxTokens?: number) => formatSummariesForPrompt(summaries, maxTokens);
+
       console.log('Original story details extracted:', {
         title: originalTitle,
         ideaLength: originalIdea?.length || 0,
@@ -1270,24 +1407,20 @@ Only respond with the modified text and nothing else. You MUST respond with the
       });
       
       // Create a prompt for the sequel
-      const prompt = `I need a sequel idea for a story titled "${originalTitle}". 
-      
-The original story idea was: "${originalIdea}"
+      const template = await this.getPromptTemplateText('sequel');
+      const renderPrompt = (parts: Record<string, string>) => renderTemplate(template, { title: originalTitle, ...parts });
 
-The original plot outline was: ${originalPlot}
-
-Create a compelling sequel plot that builds upon the original story, continuing where it left off or exploring new directions with the same character(s) or world. The sequel should feel like a natural continuation while introducing new conflicts or challenges.
-Be as detailed as possible in your sequel idea to include as much information as possible in the plot.
-Write from third person omniscient perspective.
-Write the names of all characters and locations whenever they are mentioned.
-When you write the narrator's name, write (The Narrator) next to their name.
-You must write the sequal idea as a summary style with paragraphs.
-
-Only write the sequel idea and nothing else. DO NOT write any comments or explanations.`;
+      const { sections } = this.budgetPromptSections('sequel', [
+        { id: 'instructions', label: 'Instructions', text: renderPrompt({}) },
+        { id: 'idea', label: 'Story idea', text: originalIdea || '', priority: 2 },
+        { id: 'plot', label: 'Plot outline', text: originalPlot, priority: 1 },
+        { id: 'summaries', label: 'Chapter summaries', text: formatSummaries(), priority: 0, keep: 'end', fit: formatSummaries }
+      ], model, max_tokens);
+      const prompt = renderPrompt(sections);
 
       console.log('Sending prompt to AI model, length:', prompt.length);
       
-      const response = await client.chat.completions.create({
+      const response = expectCompletion(await client.chat.completions.create({
         model: model,
         messages: [
           {
@@ -1295,10 +1428,11 @@ Only write the sequel idea and nothing else. DO NOT write any comments or explan
             content: prompt
           }
         ],
-        temperature: 0.7
+        temperature,
+        max_tokens
       }, {
         signal: signal
-      });
+      }));
 
       console.log('Received response from AI model');
       const sequelIdea = response.choices[0].message.content.trim();
@@ -1318,7 +1452,12 @@ Only write the sequel idea and nothing else. DO NOT write any comments or explan
     previousScenes: string[],
     onProgress?: (chunk: string) => void,
     signal?: AbortSignal,
-    futureScenes?: string[]
+    futureScenes?: string[],
+    continuity?: string,
+    summaries?: ChapterSummary[],
+    profileName?: string,
+    // Model and temperature overrides when several drafts are written at once
+    variant?: StepVariant
   ): Promise<string> {
     console.log('writeScene called with sceneBeat:', sceneBeat ? sceneBeat.substring(0, 50) + '...' : 'undefined or empty');
     console.log('Characters provided:', characters ? 'Yes (length: ' + characters.length + ')' : 'No');
@@ -1330,15 +1469,13 @@ Only write the sequel idea and nothing else. DO NOT write any comments or explan
       throw new Error('chapter beat is required to generate a chapter. Please provide a chapter beat.');
     }
     
-    const recentContext = previousScenes && previousScenes.length
-      ? previousScenes.slice(-4)
-      : ["No previous context. This is the first chapter of the story."];
-    const context = recentContext.join('\n\n');
+    // Earlier chapters are sent as summaries, with the previous chapter's ending verbatim
+    const buildContext = (maxTokens?: number) => buildStoryContext(previousScenes || [], summaries || [], maxTokens);
 
     // Format future scenes if provided
-    const formattedFutureScenes = futureScenes && futureScenes.length 
+    const formattedFutureScenes = futureScenes && futureScenes.length
       ? futureScenes.map((chapter, index) => `Future chapter ${index + 1}:\n${chapter}`).join('\n\n')
-      : "No future scenes provided.";
+      : '';
 
     try {
       // Force reload user settings to ensure we have the latest
@@ -1347,6 +1484,7 @@ Only write the sequel idea and nothing else. DO NOT write any comments or explan
         // Clear the cache for this user to force a fresh load
         await userSettingsService.clearCache(this.userId);
         this.userSettings = await userSettingsService.getSettings(this.userId);
+        this.clients.clear();
         console.log('User settings reloaded:', !!this.userSettings);
       } else if (!this.userSettings) {
         console.log('Loading user settings for the first time...');
@@ -1355,111 +1493,39 @@ Only write the sequel idea and nothing else. DO NOT write any comments or explan
       }
 
       console.log('Getting client...');
-      const client = await this.getClient();
+      const route = await this.resolveStep('scene');
+      const { client, max_tokens, provider, providerLabel } = route;
+      const { formatModel } = getProvider(provider);
+      const variantModel = variant?.model?.trim();
+      const modelToUse = variantModel ? (formatModel ? formatModel(variantModel) : variantModel) : route.model;
+      const temperature = variant?.temperature ?? route.temperature;
       console.log('Client obtained:', !!client);
       
       // Validate the model
-      const isUsingOpenAI = this.userSettings.use_openai_for_story_gen;
-      let modelToUse = this.userSettings.story_generation_model;
-      
-      console.log('Original model:', modelToUse);
-      console.log('Using OpenAI:', isUsingOpenAI);
-      
-      // Format the model correctly for the provider
-      modelToUse = this.getFormattedModel(modelToUse, isUsingOpenAI);
-      console.log('Formatted model to use:', modelToUse);
-      
-      const isModelValid = this.validateModel(modelToUse, isUsingOpenAI);
+      const isModelValid = this.validateModel(modelToUse, provider);
       console.log('Model validation result:', isModelValid);
       
       if (!isModelValid) {
-        console.error(`Invalid model format for ${isUsingOpenAI ? 'OpenAI' : 'OpenRouter'}: ${modelToUse}`);
+        console.error(`Invalid model format for ${providerLabel}: ${modelToUse}`);
         throw new Error(`Invalid model format: ${modelToUse}. Please check your settings.`);
       }
       
-      // Prepare context from previous scenes
-      let previousScenesContext = "";
-      if (previousScenes && previousScenes.length > 0) {
-        previousScenesContext = "Previous scenes:\n\n" + previousScenes.map((chapter, index) => 
-          `chapter ${index + 1}:\n${chapter}`
-        ).join("\n\n");
-      }
-
-      // Limit context length to avoid token limits
-      if (previousScenesContext.length > 8000) {
-        previousScenesContext = previousScenesContext.substring(0, 8000) + "...";
-      }
-
-      const prompt = `
-## WRITING INSTRUCTIONS
-- You are an expert fiction writer. Write a full chapter WITHOUT overwriting, that is based on the chapter beat EXACTLY.
-- Address the passage of time mentioned at the beginning of the chapter beat by creating a connection to the previous chapter's ending.
-- Write in past tense.
-- Write narration as much as possible to give the reader more information about the chapter.
-- When there is no context, start the chapter with exposition to give the reader a better understanding of the plot and characters.
-
-##Chapter Transition Guidelines
-- Begin each chapter with a natural continuation from the previous scene’s final moment.
-- Use a short paragraph that flows directly from the emotional tone or unresolved tension of the last chapter.
-- Do NOT summarize what just happened. Instead, hint at or build on it with the narrator’s present thoughts, surroundings, or mood.
-- Avoid starting a chapter with phrases like “Two days had passed since…” or any form of recap.
-
-
-# Core Requirements
-    - Write from first-person narrator perspective only
-    - Begin with a clear connection to the previous chapter's ending
-    - Write the dialogue in their own paragraphs, do not include the dialogue in the same paragraph as the narration.
-    - Write everything that the narrator sees, hears, and everything that happens in the chapter.
-    - Write the entire chapter and include everything in the chapter beat given, do not leave anything out.
-    - Use the character's pronouns if you don't write the character's name. Avoid using they/them pronouns, use the character's pronouns instead.
-    
-    # Pacing and Suspense
-    - Maintain steady, escalating suspense
-    - Use strategic pauses and silence for impact
-    - Build tension in small, deliberate increments
-    - Balance action with reflection
-
-    # Writing Style
-    - DO NOT write flowery language, use casual and simple vocabulary.
-    - Do NOT write any appositive phrases.
-    - Do NOT write any redundant descriptive phrases that are not necessary to the chapter.
-    - Do NOT use asterisks (*) for emphasis or to indicate actions. Use proper narrative descriptions instead.
-    - ONLY provide descriptions about the chapter if it furthers the plot or character development, DO NOT write redundant descriptions that provide no useful information about the chapter.
-    - Vary sentence length based on tension:
-        * Shorter sentences for action/tension
-        * Longer sentences for introspection
-    - Show emotions through implications rather than stating them
-    
-    # chapter Structure
-    - Write tight, focused paragraphs
-    - Break up dialogue with introspection and description
-    - Allow for natural processing of events
-
-## chapter CONTEXT AND CONTINUITY
-# Characters
-${characters}
-
-# Use the provided STORY CONTEXT to remember details and events from the previous scenes in order to maintain consistency in the new chapter you are writing.
-## STORY CONTEXT
-<context>
-  ${context}
-</context>
-
-# Future chapter Beats
-<future_scenes>
-  ${formattedFutureScenes}
-</future_scenes>
-
-## Future Context Guidelines
-- DO NOT directly reference future events in your current chapter
-- DO plant subtle foundations or foreshadowing that will support future scenes
-- AVOID creating details that would contradict or make future scenes impossible
-- ENSURE character decisions and development align with their future trajectory
-- BE AWARE of future plot points, but maintain suspense and discovery in the current chapter
-
-# chapter Beat to Write
-${sceneBeat}
-`;
+      const template = await this.getPromptTemplateText('scene', profileName);
+      const renderPrompt = (parts: Record<string, string>) => renderTemplate(template, parts);
+      const style = this.getProfileStyle(profileName);
+
+      // Fit the prompt to the model's context window, trimming future beats first, then the story context
+      const { sections, budget } = this.budgetPromptSections('scene', [
+        { id: 'instructions', label: 'Instructions', text: renderPrompt({}) },
+        { id: 'beat', label: 'Chapter beat', text: sceneBeat },
+        { id: 'style', label: 'Style rules', text: style },
+        { id: 'characters', label: 'Characters', text: characters || '', priority: 3 },
+        { id: 'continuity', label: 'Continuity ledger', text: continuity || '', priority: 2 },
+        { id: 'context', label: 'Story context', text: buildContext(), priority: 1, keep: 'end', fit: buildContext },
+        { id: 'future', label: 'Future beats', text: formattedFutureScenes, priority: 0 }
+      ], modelToUse, max_tokens);
+      const prompt = renderPrompt(sections);
+      console.log(`Prompt budget: ${budget.total}/${budget.available} tokens`);
 
       console.log('Prompt prepared, length:', prompt.length);
       console.log('Using model:', modelToUse);
@@ -1467,19 +1533,16 @@ ${sceneBeat}
 
       try {
         // Prepare the request parameters
-        const requestParams = {
+        const requestParams: ChatCompletionRequest = {
           model: modelToUse,
           messages: [
             { role: "user", content: prompt }
           ],
-          temperature: 0.5,
+          temperature,
+          max_tokens,
           stream: true
         };
         
-        if (signal) {
-          Object.assign(requestParams, { signal });
-        }
-        
         console.log('Request parameters:', JSON.stringify({
           model: requestParams.model,
           temperature: requestParams.temperature,
@@ -1488,7 +1551,7 @@ ${sceneBeat}
         
         // Create the stream
         console.log('Calling client.chat.completions.create...');
-        const stream = await client.chat.completions.create(requestParams);
+        const stream = expectStream(await client.chat.completions.create(requestParams, { signal }));
         
         console.log('Stream created successfully');
 
@@ -1521,8 +1584,13 @@ ${sceneBeat}
         fullContent = fullContent.replace(/\*/g, '');
         
         console.log('Stream processing complete, content length:', fullContent.length, 'chunks:', chunkCount);
-        return fullContent || 'Failed to generate chapter content';
+        if (!fullContent.trim()) {
+          throw new Error('The model returned no text for this chapter');
+        }
+        return fullContent;
       } catch (streamError: any) {
+        // Let aborts reach the outer handler untouched
+        if (streamError.name === 'AbortError') throw streamError;
         console.error('Error creating or processing stream:', streamError);
         
         // Provide more detailed error information
@@ -1562,6 +1630,102 @@ ${sceneBeat}
     }
   }
 
+  // Continue a partly written chapter from the cursor. Streams until the model marks the chapter beat as
+  // covered or the word limit is reached. onProgress is given all of the continuation written so far.
+  public async continueScene(
+    written: string,
+    after: string,
+    sceneBeat: string,
+    characters: string,
+    previousScenes: string[],
+    maxWords: number,
+    onProgress?: (text: string) => void,
+    signal?: AbortSignal,
+    summaries?: ChapterSummary[],
+    profileName?: string,
+    targetWords?: number | null
+  ): Promise<Continuation> {
+    if (!sceneBeat.trim()) {
+      throw new Error('chapter beat is required to continue a chapter.');
+    }
+
+    try {
+      const { client, model, temperature, max_tokens } = await this.resolveStep('scene');
+      const template = await this.getPromptTemplateText('continue_scene', profileName);
+      const renderPrompt = (parts: Record<string, string>) => renderTemplate(template, parts);
+      const buildContext = (maxTokens?: number) => buildStoryContext(previousScenes, summaries || [], maxTokens);
+
+      const writtenWords = written.trim() ? written.trim().split(/\s+/).length : 0;
+      const progress = targetWords
+        ? `The chapter is aiming for about ${targetWords} words and has ${writtenWords} so far.`
+        : `The chapter has ${writtenWords} words so far.`;
+
+      // The end of the chapter so far matters most; the text after the cursor is trimmed first
+      const { sections } = this.budgetPromptSections('scene', [
+        { id: 'instructions', label: 'Instructions', text: renderPrompt({}) },
+        { id: 'words', label: 'Word count', text: String(maxWords) },
+        { id: 'marker', label: 'Beat marker', text: BEAT_COMPLETE_MARKER },
+        { id: 'progress', label: 'Chapter length', text: progress },
+        { id: 'beat', label: 'Chapter beat', text: sceneBeat },
+        { id: 'style', label: 'Style rules', text: this.getProfileStyle(profileName) },
+        { id: 'written', label: 'Chapter so far', text: written.trim(), priority: 3, keep: 'end' },
+        { id: 'characters', label: 'Characters', text: characters || '', priority: 2 },
+        { id: 'context', label: 'Story context', text: buildContext(), priority: 1, keep: 'end', fit: buildContext },
+        { id: 'after', label: 'Text after the cursor', text: after.trim(), priority: 0 }
+      ], model, max_tokens);
+
+      // Stopped early once the beat is covered or the word limit is reached, as well as by the caller
+      const controller = new AbortController();
+      const abort = () => controller.abort();
+      if (signal?.aborted) abort();
+      signal?.addEventListener('abort', abort);
+
+      let raw = '';
+      let result: Continuation = { text: '' };
+      try {
+        const stream = expectStream(await client.chat.completions.create({
+          model,
+          messages: [
+            { role: "user", content: renderPrompt(sections) }
+          ],
+          temperature,
+          max_tokens,
+          stream: true
+        }, {
+          signal: controller.signal
+        }));
+
+        for await (const chunk of stream) {
+          raw += (chunk.choices[0]?.delta?.content || '').replace(/\*/g, '');
+          result = trimContinuation(raw, maxWords);
+          onProgress?.(result.text);
+          if (result.stop) {
+            controller.abort();
+            break;
+          }
+        }
+      } catch (err) {
+        if (!result.stop || (err as Error).name !== 'AbortError' || signal?.aborted) throw err;
+      } finally {
+        signal?.removeEventListener('abort', abort);
+      }
+
+      // Text held back in case it was the start of the marker belongs to the continuation after all
+      const continuation = result.stop ? result : { text: raw.trimEnd() };
+      if (!continuation.text.trim()) {
+        throw new Error('The model did not continue the chapter');
+      }
+      return continuation;
+    } catch (err) {
+      if ((err as Error).name === 'AbortError') {
+        console.log('Chapter continuation aborted');
+        throw err;
+      }
+      console.error('Error continuing chapter:', err);
+      throw new Error((err as Error).message || 'Failed to continue the chapter. Please try again.');
+    }
+  }
+
   // Revise a chapter based on feedback
   public async reviseScene(
     currentContent: string,
@@ -1569,45 +1733,42 @@ ${sceneBeat}
     sceneBeat: string,
     characters: string,
     onProgress?: (chunk: string) => void,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    previousScenes?: string[],
+    summaries?: ChapterSummary[]
   ): Promise<string> {
     try {
       await this.ensureSettingsLoaded();
 
-      const client = await this.getOpenRouterClient();
-      
-      const userMessage = `## Instructions
-Revise the given chapter based on the feedback provided.
-Maintain the same narrative style, perspective, and tone of the original chapter.
-Ensure the revised chapter still aligns with the chapter beat and character descriptions.
-Make specific changes requested in the feedback while preserving the overall structure and purpose of the chapter.
-
-## Original chapter
-${currentContent}
-
-## Feedback
-${feedback}
-
-## chapter Beat
-${sceneBeat}
-
-## Characters
-${characters}
-
-## Output
-Write only the revised chapter content, formatted as a polished narrative. Do not include any meta-commentary, explanations, or notes about the changes made.`;
-
-      const stream = await client.chat.completions.create({
-        model: this.userSettings?.model || 'gpt-4o',
+      const { client, model, temperature, max_tokens } = await this.resolveStep('revise');
+      const buildContext = (maxTokens?: number) => buildStoryContext(previousScenes || [], summaries || [], maxTokens);
+
+      const template = await this.getPromptTemplateText('revise');
+      const systemPrompt = await this.getPromptTemplateText('revise_system');
+      const renderPrompt = (parts: Record<string, string>) => renderTemplate(template, parts);
+
+      const { sections } = this.budgetPromptSections('revise', [
+        { id: 'instructions', label: 'Instructions', text: renderPrompt({}) },
+        { id: 'chapter', label: 'Chapter', text: currentContent },
+        { id: 'feedback', label: 'Feedback', text: feedback },
+        { id: 'beat', label: 'Chapter beat', text: sceneBeat },
+        { id: 'characters', label: 'Characters', text: characters || '', priority: 1 },
+        { id: 'context', label: 'Story context', text: buildContext(), priority: 0, keep: 'end', fit: buildContext }
+      ], model, max_tokens);
+      const userMessage = renderPrompt(sections);
+
+      const stream = expectStream(await client.chat.completions.create({
+        model,
         messages: [
-          { role: "system", content: "You are a skilled fiction editor who revises scenes based on feedback." },
+          { role: "system", content: systemPrompt },
           { role: "user", content: userMessage }
         ],
-        temperature: 0.7,
-        max_tokens: 4000,
-        stream: true,
+        temperature,
+        max_tokens,
+        stream: true
+      }, {
         signal
-      });
+      }));
 
       let fullContent = '';
       
@@ -1641,10 +1802,10 @@ Write only the revised chapter content, formatted as a polished narrative. Do no
       const sequelIdea = await this.generateSequelIdea(originalStory);
       
       // Create a title for the sequel using the standard title function
-      const sequelTitle = await this.createTitle(sequelIdea);
+      const sequelTitle = await this.createTitle(sequelIdea, undefined, originalStory.story_profile);
       
       // Create an outline for the sequel
-      const outline = await this.createOutline(sequelIdea);
+      const outline = await this.createOutline(sequelIdea, undefined, originalStory.story_profile);
       
       if (!outline) {
         throw new Error('Failed to create outline for sequel');
@@ -1665,11 +1826,12 @@ Write only the revised chapter content, formatted as a polished narrative. Do no
         characters,
         parent_story_id: originalStory.id,
         is_sequel: true,
-        chapters: outline.map((sceneBeat, index) => ({
-          title: `Chapter ${index + 1}`,
+        story_profile: originalStory.story_profile,
+        chapters: outline.map((chapter) => ({
+          title: `Chapter ${chapter.chapter_number}`,
           content: '',
           completed: false,
-          sceneBeat
+          sceneBeat: chapter.chapter_beat
         }))
       };
       
@@ -1683,7 +1845,7 @@ Write only the revised chapter content, formatted as a polished narrative. Do no
         const seriesData = {
           title: seriesTitle,
           story_idea: `A series beginning with "${originalStory.title}" and continuing with "${sequelTitle}".`,
-          plot_outline: JSON.stringify([`Part 1: ${originalStory.title}`, `Part 2: ${sequelTitle}`]),
+          plot_outline: JSON.stringify(normalizeOutline([`Part 1: ${originalStory.title}`, `Part 2: ${sequelTitle}`])),
           characters: characters,
           is_series: true,
           related_stories: JSON.stringify([originalStory.id, sequelId])
@@ -1761,13 +1923,79 @@ Write only the revised chapter content, formatted as a polished narrative. Do no
     }
   }
 
+  // Rewrite or continue a passage of a chapter. Only the passage is rewritten; the text around it is context.
+  public async editSelection(
+    selection: string,
+    instruction: string,
+    before: string,
+    after: string,
+    sceneBeat: string,
+    onProgress?: (chunk: string) => void,
+    signal?: AbortSignal,
+    profileName?: string
+  ): Promise<string> {
+    try {
+      await this.ensureSettingsLoaded();
+
+      const { client, model, temperature, max_tokens } = await this.resolveStep('revise');
+      const template = await this.getPromptTemplateText('selection_edit', profileName);
+      const renderPrompt = (parts: Record<string, string>) => renderTemplate(template, parts);
+
+      // The passage and instruction are always sent whole; the surrounding text is trimmed away from the passage
+      const { sections } = this.budgetPromptSections('revise', [
+        { id: 'instructions', label: 'Instructions', text: renderPrompt({}) },
+        { id: 'instruction', label: 'Instruction', text: instruction },
+        { id: 'selection', label: 'Passage', text: selection },
+        { id: 'beat', label: 'Chapter beat', text: sceneBeat },
+        { id: 'before', label: 'Text before the passage', text: before.trim(), priority: 1, keep: 'end' },
+        { id: 'after', label: 'Text after the passage', text: after.trim(), priority: 0, keep: 'start' }
+      ], model, max_tokens);
+
+      const stream = expectStream(await client.chat.completions.create({
+        model,
+        messages: [
+          { role: "user", content: renderPrompt(sections) }
+        ],
+        temperature,
+        max_tokens,
+        stream: true
+      }, {
+        signal
+      }));
+
+      let fullContent = '';
+      for await (const chunk of stream) {
+        const content = (chunk.choices[0]?.delta?.content || '').replace(/\*/g, '');
+        if (content) {
+          fullContent += content;
+          if (onProgress) {
+            onProgress(content);
+          }
+        }
+      }
+
+      if (!fullContent.trim()) {
+        throw new Error('The model returned an empty passage');
+      }
+      return fullContent.trim();
+    } catch (err) {
+      if ((err as Error).name === 'AbortError') {
+        console.log('Selection edit aborted');
+        throw err;
+      }
+      console.error('Error editing selection:', err);
+      throw new Error((err as Error).message || 'Failed to edit the selection. Please try again.');
+    }
+  }
+
   // Generate a transition between chapters
   public async generateTransition(
     previousChapterContent: string,
     currentChapterContent: string,
     sceneBeat: string,
     onProgress?: (chunk: string) => void,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    summaries?: ChapterSummary[]
   ): Promise<string> {
     try {
       await this.ensureSettingsLoaded();
@@ -1789,46 +2017,33 @@ Write only the revised chapter content, formatted as a polished narrative. Do no
         throw new Error('Not enough content in chapters to create a transition');
       }
 
-      const client = await this.getOpenRouterClient();
-      
-      const prompt = `
-## TRANSITION WRITING TASK
-Create a smooth transition that connects the end of the previous chapter to the beginning of the current chapter.
-
-# Previous Chapter (ending):
-${previousParagraphs.join('\n\n')}
-
-# Current Chapter (beginning):
-${currentParagraphs.join('\n\n')}
-
-# chapter Beat for Current Chapter:
-${sceneBeat}
-
-## Instructions:
-- Write at least 2 paragraphs that bridge the gap between these chapters.
-- Maintain the same narrative voice and perspective.
-- Address any time or location changes explicitly.
-- Create a logical flow from the previous chapter's events to the current chapter's setting.
-- The transition should feel natural and seamless, not forced.
-- Write in the same style as the existing content.
-- Write using concise words and casual language, DO NOT write in flowery language.
-- Write short sentences and paragraphs to keep it concise.
-- Write tight, focused paragraphs
-
-## Output:
-Write only the transition paragraph(s). Do not include any meta-commentary, explanations, or notes.
-`;
-
-      const stream = await client.chat.completions.create({
-        model: this.userSettings.reasoning_model,
+      const { client, model, temperature, max_tokens } = await this.resolveStep('transition');
+      // Summaries of the chapters before the previous one, so the transition can refer back to them
+      const formatEarlierSummaries = (maxTokens?: number) => formatSummariesForPrompt(summaries || [], maxTokens);
+
+      const template = await this.getPromptTemplateText('transition');
+      const renderPrompt = (parts: Record<string, string>) => renderTemplate(template, parts);
+
+      const { sections } = this.budgetPromptSections('transition', [
+        { id: 'instructions', label: 'Instructions', text: renderPrompt({}) },
+        { id: 'previous', label: 'Previous chapter ending', text: previousParagraphs.join('\n\n'), priority: 1, keep: 'end' },
+        { id: 'current', label: 'Current chapter beginning', text: currentParagraphs.join('\n\n'), priority: 1 },
+        { id: 'beat', label: 'Chapter beat', text: sceneBeat },
+        { id: 'summaries', label: 'Earlier chapters', text: formatEarlierSummaries(2000), priority: 0, keep: 'end', fit: formatEarlierSummaries }
+      ], model, max_tokens);
+      const prompt = renderPrompt(sections);
+
+      const stream = expectStream(await client.chat.completions.create({
+        model,
         messages: [
           { role: "user", content: prompt }
         ],
-        temperature: 0.7,
-        max_tokens: 500,
-        stream: true,
+        temperature,
+        max_tokens,
+        stream: true
+      }, {
         signal
-      });
+      }));
 
       let fullContent = '';
       
@@ -1862,29 +2077,12 @@ Write only the transition paragraph(s). Do not include any meta-commentary, expl
     try {
       await this.ensureSettingsLoaded();
       
-      // Get the appropriate client based on user settings
-      const client = await this.getOpenRouterClient();
+      // Resolve the provider and model for summarization
+      const { client, model, temperature, max_tokens } = await this.resolveStep('summary');
       
-      // Use the reasoning model for summarization
-      const model = 'anthropic/claude-3.7-sonnet';
+      const summaryPrompt = renderTemplate(await this.getPromptTemplateText('idea_summary'), { idea: storyIdea });
       
-      console.log(`Using OpenRouter with model: ${model} for story idea summarization`);
-      
-      const summaryPrompt = `
-Create a concise summary of the following story idea. The summary should:
-- Be approximately 100-150 words
-- Capture the core concept and main plot points
-- Highlight the most interesting elements
-- Be written in an engaging style that makes the reader want to know more
-- Write in a casual style, DO NOT write in flowery language.
-
-Story Idea:
-${storyIdea}
-
-Please provide only the summary without any additional comments or explanations, DO NOT write a title or anything else, only the summary.
-`;
-      
-      const summaryResponse = await client.chat.completions.create({
+      const summaryResponse = expectCompletion(await client.chat.completions.create({
         model: model,
         messages: [
           { 
@@ -1892,10 +2090,11 @@ Please provide only the summary without any additional comments or explanations,
             content: summaryPrompt 
           }
         ],
-        temperature: 0.7
+        temperature,
+        max_tokens
       }, {
         signal: signal
-      });
+      }));
 
       if (summaryResponse.choices && summaryResponse.choices.length > 0 && summaryResponse.choices[0].message && summaryResponse.choices[0].message.content) {
         return summaryResponse.choices[0].message.content.trim() || 'Summary not available';
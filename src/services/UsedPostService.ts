@@ -0,0 +1,92 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { UsedRedditPost } from "@/types/reddit";
+
+interface CachedPosts {
+  posts: UsedRedditPost[];
+  timestamp: number;
+}
+
+export class UsedPostService {
+  private static instance: UsedPostService;
+  private cache: Map<string, CachedPosts>;
+  private TTL = 1000 * 60 * 5;
+
+  private constructor() {
+    this.cache = new Map();
+  }
+
+  public static getInstance(): UsedPostService {
+    if (!UsedPostService.instance) {
+      UsedPostService.instance = new UsedPostService();
+    }
+    return UsedPostService.instance;
+  }
+
+  private isCacheValid(userId: string): boolean {
+    const cached = this.cache.get(userId);
+    if (!cached) return false;
+    return Date.now() - cached.timestamp < this.TTL;
+  }
+
+  // Load the Reddit posts the user's story ideas were already generated from
+  public async getUsedPosts(userId: string, forceRefresh: boolean = false): Promise<UsedRedditPost[]> {
+    if (!forceRefresh && this.isCacheValid(userId)) {
+      return this.cache.get(userId)!.posts;
+    }
+
+    const { data, error } = await supabase
+      .from("used_reddit_posts")
+      .select("post_id, subreddit, title, used_at")
+      .eq("user_id", userId);
+
+    if (error) {
+      console.error("Error fetching used Reddit posts:", error);
+      throw error;
+    }
+
+    const posts = (data || []) as UsedRedditPost[];
+    this.cache.set(userId, { posts, timestamp: Date.now() });
+    return posts;
+  }
+
+  public async getUsedPostIds(userId: string): Promise<Set<string>> {
+    const posts = await this.getUsedPosts(userId);
+    return new Set(posts.map(post => post.post_id));
+  }
+
+  // Record that a story idea was generated from a post
+  public async markPostUsed(userId: string, post: UsedRedditPost): Promise<void> {
+    const { error } = await supabase
+      .from("used_reddit_posts")
+      .upsert({
+        user_id: userId,
+        post_id: post.post_id,
+        subreddit: post.subreddit,
+        title: post.title
+      }, { onConflict: "user_id,post_id", ignoreDuplicates: true });
+
+    if (error) {
+      console.error("Error saving used Reddit post:", error);
+      throw error;
+    }
+
+    const cached = this.cache.get(userId);
+    if (cached) {
+      this.cache.set(userId, {
+        posts: [...cached.posts.filter(item => item.post_id !== post.post_id), post],
+        timestamp: cached.timestamp
+      });
+    }
+  }
+
+  public clearCache(userId?: string) {
+    if (userId) {
+      this.cache.delete(userId);
+    } else {
+      this.cache.clear();
+    }
+  }
+}
+
+// Export a singleton instance
+export const usedPostService = UsedPostService.getInstance();
@@ -20,7 +20,8 @@ export class UserSettingsService {
     title_fine_tune_model: "gpt-4o",
     story_idea_model: "gpt-4o",
     min_chapters: 5,
-    max_chapters: 7
+    max_chapters: 7,
+    auto_rewrite_similar: false
   };
 
   private constructor() {
@@ -0,0 +1,32 @@
+import type { Character } from './character';
+import type { RedditSourceRef } from './reddit';
+import type { OutlineChapter } from './story';
+
+export type BatchJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// The generation steps a batch job runs through, in order
+export type BatchJobStep = 'idea' | 'title' | 'outline' | 'characters' | 'save';
+
+export const BATCH_JOB_STEPS: BatchJobStep[] = ['idea', 'title', 'outline', 'characters', 'save'];
+
+// One story in the batch generation queue. The results of finished steps are kept so a retried
+// or reloaded job carries on from the step it stopped at.
+export interface BatchJob {
+  id: string;
+  profile: string;
+  source: 'reddit' | 'fine-tune';
+  status: BatchJobStatus;
+  // The step that is running, or runs next
+  step: BatchJobStep;
+  // Failed attempts at the current step
+  attempts: number;
+  error?: string;
+  idea?: string;
+  source_posts?: RedditSourceRef[];
+  banked_idea_id?: string;
+  title?: string;
+  outline?: OutlineChapter[];
+  characters?: Character[];
+  story_id?: string;
+  created_at: string;
+}
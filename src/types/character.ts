@@ -0,0 +1,36 @@
+// One entry of a story's character bible, stored as a JSON array in stories.characters.
+// Stories created before the structured format store pseudo-XML <character> tags, which are
+// migrated into this shape when loaded (see parseStoredCharacters).
+export interface Character {
+  name: string;
+  aliases: string[];
+  pronouns: string;
+  age: string;
+  // e.g. protagonist, antagonist, supporting
+  role: string;
+  personality: string;
+  appearance: string;
+  relationships: string;
+  arc: string;
+  first_appearance_chapter: number | null;
+}
+
+export type RelationshipType =
+  | 'family'
+  | 'romantic'
+  | 'friend'
+  | 'rival'
+  | 'enemy'
+  | 'employer'
+  | 'colleague'
+  | 'mentor'
+  | 'other';
+
+// A typed edge in the character relationship graph, stored in stories.character_relationships.
+// source and target refer to characters by name.
+export interface CharacterRelationship {
+  source: string;
+  target: string;
+  type: RelationshipType;
+  description: string;
+}
@@ -0,0 +1,19 @@
+export type ContinuityCategory = 'fact' | 'object' | 'injury' | 'location' | 'knowledge';
+
+// One detail the story has to stay consistent with
+export interface ContinuityEntry {
+  id: string;
+  category: ContinuityCategory;
+  // Who or what the entry is about, e.g. a character, an item or a place
+  subject: string;
+  detail: string;
+  // The chapter the entry was extracted from
+  chapter_number: number;
+}
+
+// Per-story continuity ledger stored in stories.continuity_ledger
+export interface ContinuityLedger {
+  entries: ContinuityEntry[];
+  // Chapters that have already been extracted, so completed chapters are only processed once
+  extracted_chapters: number[];
+}
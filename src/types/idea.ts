@@ -0,0 +1,32 @@
+import type { RedditSourceRef } from './reddit';
+
+// Where a story idea came from
+export type StoryIdeaSource = 'reddit' | 'fine-tune' | 'custom';
+
+// A story idea kept in the idea bank (the story_ideas table)
+export interface BankedIdea {
+  id: string;
+  idea: string;
+  // Short summary from generateStoryIdeaSummary, shown on the idea cards
+  summary: string;
+  source: StoryIdeaSource;
+  story_profile: string;
+  source_posts: RedditSourceRef[];
+  tags: string[];
+  // 1 to 5 stars, null until the user rates the idea
+  rating: number | null;
+  // The story created from the idea, if any
+  story_id: string | null;
+  created_at: string;
+}
+
+export interface IdeaFilters {
+  query?: string;
+  source?: StoryIdeaSource;
+  profile?: string;
+  // Ideas must have every one of these tags
+  tags?: string[];
+  minRating?: number;
+  // Only ideas that haven't been turned into a story yet
+  unusedOnly?: boolean;
+}
@@ -0,0 +1,91 @@
+// Identifiers for the LLM providers known to the provider registry
+export type ProviderId = 'openai' | 'openrouter' | 'anthropic' | 'compatible' | 'mock';
+
+// Failure modes the mock provider can simulate
+export type MockScenario = 'default' | 'malformed_json' | 'rate_limit' | 'abort' | 'error';
+
+// Every step of the story pipeline that talks to a model
+export type PipelineStep =
+  | 'idea'
+  | 'summary'
+  | 'title'
+  | 'outline'
+  | 'characters'
+  | 'scene'
+  | 'revise'
+  | 'transition'
+  | 'refine'
+  | 'sequel'
+  | 'continuity'
+  | 'chapter_summary';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  stream?: boolean;
+  response_format?: Record<string, unknown>;
+}
+
+export interface ChatCompletionOptions {
+  signal?: AbortSignal;
+}
+
+// A complete (non-streamed) chat completion
+export interface ChatCompletionResponse {
+  choices: Array<{
+    message: { role: string; content: string | null };
+    finish_reason?: string | null;
+  }>;
+}
+
+// One chunk of a streamed chat completion
+export interface ChatCompletionChunk {
+  choices: Array<{
+    delta?: { content?: string | null };
+  }>;
+}
+
+// What create() resolves to: a stream when the request set `stream: true`, a complete response otherwise
+export type ChatCompletionResult = ChatCompletionResponse | AsyncIterable<ChatCompletionChunk>;
+
+// The subset of the OpenAI SDK chat interface the story pipeline relies on.
+// Non-OpenAI providers are adapted to this shape so StoryService can stay provider-agnostic.
+export interface LLMClient {
+  chat: {
+    completions: {
+      create: (params: ChatCompletionRequest, options?: ChatCompletionOptions) => Promise<ChatCompletionResult>;
+    };
+  };
+}
+
+// A user's override for one pipeline step. Unset fields fall back to the defaults.
+export interface StepRouteConfig {
+  provider?: ProviderId | null;
+  model?: string | null;
+  temperature?: number | null;
+  max_tokens?: number | null;
+}
+
+// Per-step routing table stored in user_settings.model_routing
+export type ModelRoutingTable = Partial<Record<PipelineStep, StepRouteConfig>>;
+
+// The provider, model and sampling parameters a pipeline step resolved to
+export interface StepRoute {
+  provider: ProviderId;
+  model: string;
+  temperature?: number;
+  max_tokens?: number;
+}
+
+// Overrides for one of several drafts written side by side, applied on top of the step's route
+export interface StepVariant {
+  model?: string;
+  temperature?: number;
+}
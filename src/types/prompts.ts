@@ -0,0 +1,49 @@
+// Identifiers for every prompt template the story pipeline renders
+export type PromptTemplateId =
+  | 'reddit_summary'
+  | 'idea_system'
+  | 'idea_summary'
+  | 'source_rewrite'
+  | 'title'
+  | 'outline'
+  | 'outline_chapter'
+  | 'characters'
+  | 'relationships'
+  | 'scene'
+  | 'continue_scene'
+  | 'revise'
+  | 'revise_system'
+  | 'selection_edit'
+  | 'transition'
+  | 'rewrite'
+  | 'sequel'
+  | 'continuity'
+  | 'chapter_summary';
+
+export interface PromptVariable {
+  name: string;
+  description: string;
+}
+
+// A built-in prompt. Variables are written as {{name}} and optional blocks as {{#if name}}...{{else}}...{{/if}}.
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  label: string;
+  description: string;
+  // Bumped whenever the built-in text changes, so overrides written against an older version can be flagged
+  version: number;
+  variables: PromptVariable[];
+  template: string;
+}
+
+// A user's replacement for a template, stored in the prompt_overrides table
+export interface PromptOverride {
+  template_id: PromptTemplateId;
+  content: string;
+  // The version of the built-in template the override was written against
+  base_version: number;
+  updated_at?: string;
+}
+
+// Where the text a template resolved to came from
+export type PromptTemplateSource = 'override' | 'profile' | 'default';
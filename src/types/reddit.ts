@@ -0,0 +1,27 @@
+export type RedditTimeframe = 'hour' | 'day' | 'week' | 'month' | 'year' | 'all';
+
+export const REDDIT_TIMEFRAMES: RedditTimeframe[] = ['hour', 'day', 'week', 'month', 'year', 'all'];
+
+export type RedditSort = 'hot' | 'new' | 'top' | 'controversial';
+
+export const REDDIT_SORTS: RedditSort[] = ['top', 'hot', 'new', 'controversial'];
+
+export type RedditSearchSort = 'relevance' | 'hot' | 'top' | 'new' | 'comments';
+
+// A Reddit post a story idea was generated from, stored in the used_reddit_posts table so it isn't used again
+export interface UsedRedditPost {
+  post_id: string;
+  subreddit: string;
+  title: string;
+  used_at?: string;
+}
+
+// A Reddit post a story was based on, stored in stories.source_posts. The post text isn't stored and is
+// fetched again from the permalink when the story's chapters are checked against it
+export interface RedditSourceRef {
+  id: string;
+  subreddit: string;
+  title: string;
+  author: string;
+  permalink: string;
+}
@@ -0,0 +1,14 @@
+// What produced a chapter revision
+export type RevisionSource = 'manual' | 'generate' | 'revise' | 'refine' | 'transition' | 'draft' | 'autopilot' | 'restore' | 'selection' | 'continue';
+
+// A saved version of a chapter (the chapter_revisions table)
+export interface ChapterRevision {
+  id: string;
+  story_id: string;
+  // 1-based, like the chapter titles
+  chapter_number: number;
+  content: string;
+  source: RevisionSource;
+  word_count: number;
+  created_at: string;
+}
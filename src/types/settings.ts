@@ -1,3 +1,5 @@
+import type { MockScenario, ModelRoutingTable, ProviderId } from './llm';
+
 export interface UserSettings {
   user_id: string;
   openai_key?: string;
@@ -10,6 +12,12 @@ export interface UserSettings {
   story_generation_model: string;
   story_idea_model?: string;
   use_openai_for_story_gen: boolean;
+  llm_provider?: ProviderId | null;
+  anthropic_key?: string;
+  compatible_base_url?: string;
+  compatible_api_key?: string;
+  model_routing?: ModelRoutingTable | null;
+  mock_scenario?: MockScenario | null;
   elevenlabs_key?: string;
   elevenlabs_model: string;
   elevenlabs_voice_id?: string;
@@ -20,4 +28,6 @@ export interface UserSettings {
   replicate_key?: string;
   min_chapters?: number;
   max_chapters?: number;
+  // Rewrite Reddit-based story ideas that copy too much of the source post
+  auto_rewrite_similar?: boolean;
 }
@@ -1,3 +1,5 @@
+import type { RedditSourceRef, RedditTimeframe } from './reddit';
+
 export interface Story {
   id: string;
   title: string;
@@ -9,9 +11,82 @@ export interface Story {
   parent_story_id?: string | null;
   is_series?: boolean;
   related_stories?: string | string[] | null;
+  // Name of the genre profile the story was generated with
+  story_profile?: string;
+  // Reddit posts the story idea was generated from
+  source_posts?: RedditSourceRef[];
   chapters?: Array<{
     title: string;
     content: string;
     completed: boolean;
+    alternates?: ChapterAlternate[];
   }> | null;
 }
+
+// A draft of a chapter that wasn't picked, kept with the chapter so it can be swapped back in
+export interface ChapterAlternate {
+  id: string;
+  content: string;
+  // How the draft was written, e.g. "Temperature 1.1"
+  label: string;
+  created_at: string;
+}
+
+// One chapter of a structured plot outline, stored as a JSON array in stories.plot_outline.
+// Outlines saved before chapter records existed are plain string arrays and are
+// normalized into this shape when loaded (see parseStoredOutline).
+export interface OutlineChapter {
+  chapter_number: number;
+  title: string;
+  chapter_beat: string;
+  setting: string;
+  time_marker: string;
+  pov_character: string;
+  target_word_count: number | null;
+  // 1 (calm) to 10 (climax)
+  tension_level: number | null;
+}
+
+// Cached summary of a written chapter, stored as a JSON array in stories.chapter_summaries
+export interface ChapterSummary {
+  chapter_number: number;
+  // One or two sentences
+  short: string;
+  // A paragraph covering every event, decision and reveal
+  detailed: string;
+  // Hash of the chapter content the summary was written from, to detect edits
+  content_hash: string;
+}
+
+// A genre profile from src/data/profiles.json
+export interface StoryProfile {
+  // Set for profiles the user created, which are stored in the story_profiles table
+  id?: string;
+  name: string;
+  // Idea prompts used when the story idea isn't based on a Reddit post
+  prompts: string[];
+  system_prompt: string;
+  subreddit: string;
+  // Every subreddit story ideas are taken from, when there's more than one. The first is the same as subreddit.
+  subreddits?: string[];
+  // How far back to look for top posts
+  timeframe?: RedditTimeframe;
+  // Minimum length in characters of a Reddit post used for inspiration
+  min_length: number;
+  // Reddit posts with these flairs are skipped, separated by commas
+  flair_exclude: string;
+  // Reddit posts with any of these words in their title are skipped
+  title_exclude?: string[];
+  // Whether Reddit is the recommended idea source for the profile
+  use_reddit: boolean;
+  // Number of chapters stories in the profile are written with
+  num_scenes: number;
+  // OpenAI fine-tuned model for story ideas
+  model?: string;
+  // Replacements for the built-in prompt templates, by template id
+  prompt_templates?: Record<string, string>;
+  // Extra writing rules added to the chapter prompt
+  style_rules?: string;
+  // Words chapters in the profile must never use
+  banned_words?: string[];
+}
@@ -0,0 +1,11 @@
+-- Add LLM provider registry columns to user_settings table
+ALTER TABLE user_settings
+ADD COLUMN IF NOT EXISTS llm_provider text,
+ADD COLUMN IF NOT EXISTS anthropic_key text,
+ADD COLUMN IF NOT EXISTS compatible_base_url text,
+ADD COLUMN IF NOT EXISTS compatible_api_key text;
+
+-- Existing users keep the provider they picked with the OpenAI toggle
+UPDATE user_settings
+SET llm_provider = CASE WHEN use_openai_for_story_gen THEN 'openai' ELSE 'openrouter' END
+WHERE llm_provider IS NULL;
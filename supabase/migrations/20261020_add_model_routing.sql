@@ -0,0 +1,5 @@
+-- Add per-step model routing table to user_settings table
+-- Keyed by pipeline step (idea, summary, title, outline, characters, scene, revise, transition, refine, sequel),
+-- each value may set provider, model, temperature and max_tokens
+ALTER TABLE user_settings
+ADD COLUMN IF NOT EXISTS model_routing jsonb NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,4 @@
+-- Add mock provider scenario to user_settings table
+-- Used by the offline "mock" LLM provider to simulate failures (malformed_json, rate_limit, abort, error)
+ALTER TABLE user_settings
+ADD COLUMN IF NOT EXISTS mock_scenario text DEFAULT 'default';
@@ -0,0 +1,4 @@
+-- Add typed relationship edges between characters to stories table
+-- Each edge is {source, target, type, description}, with source and target matching character names
+ALTER TABLE stories
+ADD COLUMN IF NOT EXISTS character_relationships jsonb NOT NULL DEFAULT '[]'::jsonb;
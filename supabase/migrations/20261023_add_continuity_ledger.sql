@@ -0,0 +1,4 @@
+-- Add the continuity ledger to stories table
+-- Holds facts, objects, injuries, locations and who-knows-what extracted from completed chapters
+ALTER TABLE stories
+ADD COLUMN IF NOT EXISTS continuity_ledger jsonb NOT NULL DEFAULT '{"entries": [], "extracted_chapters": []}'::jsonb;
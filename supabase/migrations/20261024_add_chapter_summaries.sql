@@ -0,0 +1,4 @@
+-- Add cached chapter summaries to stories table
+-- Short and detailed summaries of completed chapters, used as writing context in place of full chapters
+ALTER TABLE stories
+ADD COLUMN IF NOT EXISTS chapter_summaries jsonb NOT NULL DEFAULT '[]'::jsonb;
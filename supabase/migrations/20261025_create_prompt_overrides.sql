@@ -0,0 +1,44 @@
+-- Create the prompt_overrides table
+-- Per-user replacements for the built-in prompt templates, edited on the Settings page
+CREATE TABLE public.prompt_overrides (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    template_id text NOT NULL,
+    content text NOT NULL,
+    -- The version of the built-in template the override was written against
+    base_version integer NOT NULL DEFAULT 1,
+    created_at timestamp with time zone DEFAULT now(),
+    updated_at timestamp with time zone DEFAULT now(),
+    UNIQUE (user_id, template_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.prompt_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view their own prompt overrides"
+    ON public.prompt_overrides
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own prompt overrides"
+    ON public.prompt_overrides
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own prompt overrides"
+    ON public.prompt_overrides
+    FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own prompt overrides"
+    ON public.prompt_overrides
+    FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- Create updated_at trigger
+CREATE TRIGGER set_updated_at
+    BEFORE UPDATE ON public.prompt_overrides
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_updated_at();
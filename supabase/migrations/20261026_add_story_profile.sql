@@ -0,0 +1,4 @@
+-- Add the genre profile to stories table
+-- Name of the profile in profiles.json the story was generated with; existing stories were all Horror
+ALTER TABLE stories
+ADD COLUMN IF NOT EXISTS story_profile text NOT NULL DEFAULT 'Horror';
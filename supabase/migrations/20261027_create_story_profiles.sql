@@ -0,0 +1,50 @@
+-- Create the story_profiles table
+-- User-defined genre profiles, offered alongside the built-in ones in src/data/profiles.json
+CREATE TABLE public.story_profiles (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name text NOT NULL,
+    system_prompt text NOT NULL DEFAULT '',
+    prompts text[] NOT NULL DEFAULT '{}',
+    subreddit text NOT NULL DEFAULT 'nosleep',
+    min_length integer NOT NULL DEFAULT 20000,
+    flair_exclude text NOT NULL DEFAULT '',
+    use_reddit boolean NOT NULL DEFAULT false,
+    num_scenes integer NOT NULL DEFAULT 8,
+    style_rules text NOT NULL DEFAULT '',
+    banned_words text[] NOT NULL DEFAULT '{}',
+    created_at timestamp with time zone DEFAULT now(),
+    updated_at timestamp with time zone DEFAULT now(),
+    UNIQUE (user_id, name)
+);
+
+-- Enable RLS
+ALTER TABLE public.story_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view their own story profiles"
+    ON public.story_profiles
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own story profiles"
+    ON public.story_profiles
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own story profiles"
+    ON public.story_profiles
+    FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own story profiles"
+    ON public.story_profiles
+    FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- Create updated_at trigger
+CREATE TRIGGER set_updated_at
+    BEFORE UPDATE ON public.story_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_updated_at();
@@ -0,0 +1,5 @@
+-- Add Reddit source settings to story_profiles
+ALTER TABLE public.story_profiles
+    ADD COLUMN IF NOT EXISTS subreddits text[] NOT NULL DEFAULT '{}',
+    ADD COLUMN IF NOT EXISTS timeframe text NOT NULL DEFAULT 'month',
+    ADD COLUMN IF NOT EXISTS title_exclude text[] NOT NULL DEFAULT '{part}';
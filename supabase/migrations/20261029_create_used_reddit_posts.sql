@@ -0,0 +1,36 @@
+-- Create the used_reddit_posts table
+-- Reddit posts each user's story ideas were generated from, so the same post isn't picked twice
+CREATE TABLE public.used_reddit_posts (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    post_id text NOT NULL,
+    subreddit text NOT NULL,
+    title text NOT NULL DEFAULT '',
+    used_at timestamp with time zone DEFAULT now(),
+    UNIQUE (user_id, post_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.used_reddit_posts ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view their own used Reddit posts"
+    ON public.used_reddit_posts
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own used Reddit posts"
+    ON public.used_reddit_posts
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own used Reddit posts"
+    ON public.used_reddit_posts
+    FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own used Reddit posts"
+    ON public.used_reddit_posts
+    FOR DELETE
+    USING (auth.uid() = user_id);
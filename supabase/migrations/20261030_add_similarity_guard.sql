@@ -0,0 +1,7 @@
+-- Remember which Reddit posts a story was based on so its chapters can be checked against them
+ALTER TABLE public.stories
+    ADD COLUMN IF NOT EXISTS source_posts jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- Rewrite story ideas that copy too much of their source post without asking
+ALTER TABLE user_settings
+ADD COLUMN IF NOT EXISTS auto_rewrite_similar boolean NOT NULL DEFAULT false;
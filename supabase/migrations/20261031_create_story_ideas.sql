@@ -0,0 +1,49 @@
+-- Create the story_ideas table
+-- Every generated story idea is kept here so ideas from cancelled or rejected generations can be reused
+CREATE TABLE public.story_ideas (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    idea text NOT NULL,
+    summary text NOT NULL DEFAULT '',
+    source text NOT NULL DEFAULT 'reddit' CHECK (source IN ('reddit', 'fine-tune', 'custom')),
+    story_profile text NOT NULL DEFAULT 'Horror',
+    source_posts jsonb NOT NULL DEFAULT '[]'::jsonb,
+    tags text[] NOT NULL DEFAULT '{}',
+    rating smallint CHECK (rating BETWEEN 1 AND 5),
+    story_id uuid REFERENCES public.stories(id) ON DELETE SET NULL,
+    created_at timestamp with time zone DEFAULT now(),
+    updated_at timestamp with time zone DEFAULT now()
+);
+
+CREATE INDEX story_ideas_user_id_idx ON public.story_ideas (user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.story_ideas ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view their own story ideas"
+    ON public.story_ideas
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own story ideas"
+    ON public.story_ideas
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own story ideas"
+    ON public.story_ideas
+    FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own story ideas"
+    ON public.story_ideas
+    FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- Create updated_at trigger
+CREATE TRIGGER set_updated_at
+    BEFORE UPDATE ON public.story_ideas
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_updated_at();
@@ -0,0 +1,34 @@
+-- Create the chapter_revisions table
+-- A snapshot of a chapter is saved after every AI operation and periodically while it's edited by hand,
+-- so earlier versions can be compared and restored
+CREATE TABLE public.chapter_revisions (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    story_id uuid NOT NULL REFERENCES public.stories(id) ON DELETE CASCADE,
+    chapter_number integer NOT NULL CHECK (chapter_number > 0),
+    content text NOT NULL,
+    source text NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'generate', 'revise', 'refine', 'transition', 'draft', 'autopilot', 'restore')),
+    word_count integer NOT NULL DEFAULT 0,
+    created_at timestamp with time zone DEFAULT now()
+);
+
+CREATE INDEX chapter_revisions_story_chapter_idx ON public.chapter_revisions (story_id, chapter_number, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.chapter_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Create policies. Revisions are never edited, only added and pruned.
+CREATE POLICY "Users can view their own chapter revisions"
+    ON public.chapter_revisions
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own chapter revisions"
+    ON public.chapter_revisions
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own chapter revisions"
+    ON public.chapter_revisions
+    FOR DELETE
+    USING (auth.uid() = user_id);
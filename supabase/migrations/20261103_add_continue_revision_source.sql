@@ -0,0 +1,7 @@
+-- Allow chapter revisions saved after continuing a chapter from the cursor
+ALTER TABLE public.chapter_revisions
+    DROP CONSTRAINT IF EXISTS chapter_revisions_source_check;
+
+ALTER TABLE public.chapter_revisions
+    ADD CONSTRAINT chapter_revisions_source_check
+    CHECK (source IN ('manual', 'generate', 'revise', 'refine', 'transition', 'draft', 'autopilot', 'restore', 'selection', 'continue'));
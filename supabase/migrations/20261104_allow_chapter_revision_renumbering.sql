@@ -0,0 +1,7 @@
+-- Revisions follow their chapter when the outline editor moves, inserts, splits or merges chapters,
+-- so their chapter number has to be updatable
+CREATE POLICY "Users can update their own chapter revisions"
+    ON public.chapter_revisions
+    FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);